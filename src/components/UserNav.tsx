@@ -15,15 +15,18 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/DropdownMenu';
 import { useClerkAuthService } from '@/services/auth';
+import { useAuthStore } from '@/store/auth.store';
 
 export function UserNav() {
   const authService = useClerkAuthService();
   const { isLoaded, isSignedIn, user } = authService.getAuthState();
   const navigate = useNavigate();
+  const clearAuth = useAuthStore((state) => state.clearAuth);
 
   const handleSignOut = async () => {
     try {
       await authService.signOut();
+      clearAuth();
       void navigate('/login');
     } catch (error) {
       logger.error('Sign out failed:', error);
@@ -0,0 +1,92 @@
+import { ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import { Sparkline } from '@/components/rockethooks/Sparkline';
+import { Card, CardContent } from '@/components/ui/Card';
+import { cn } from '@/lib/utils';
+
+export interface MetricTileDelta {
+  /** Change from the previous period; null hides the delta */
+  value: number | null;
+  unit: 'percent' | 'points';
+  /** Whether a decrease is the good direction, e.g. for latency */
+  lowerIsBetter?: boolean;
+}
+
+export interface MetricTileProps {
+  label: string;
+  value: string;
+  delta?: MetricTileDelta;
+  /** Values for the inline sparkline */
+  trend?: number[];
+  /** Text color class for the sparkline */
+  color?: string;
+  /** Secondary line under the label */
+  hint?: string;
+  className?: string;
+}
+
+function formatDelta({ value, unit }: MetricTileDelta): string {
+  const magnitude = Math.abs(value ?? 0);
+  const digits = magnitude < 10 ? 1 : 0;
+  return `${magnitude.toFixed(digits)}${unit === 'points' ? ' pts' : '%'}`;
+}
+
+/**
+ * MetricTile - headline number with its change from the previous period
+ */
+export function MetricTile({
+  label,
+  value,
+  delta,
+  trend,
+  color,
+  hint,
+  className,
+}: MetricTileProps) {
+  const change = delta?.value ?? null;
+  const isUp = change !== null && change > 0;
+  const isGood =
+    change === null || change === 0 ? null : isUp !== !!delta?.lowerIsBetter;
+
+  return (
+    <Card className={className}>
+      <CardContent className="flex items-end justify-between gap-4 pt-6">
+        <div className="min-w-0 space-y-1">
+          <p className="text-2xl font-bold">{value}</p>
+          <p className="text-sm text-muted-foreground">{label}</p>
+          {delta && change !== null && (
+            <p
+              className={cn(
+                'flex items-center gap-0.5 text-xs font-medium',
+                isGood === null
+                  ? 'text-muted-foreground'
+                  : isGood
+                    ? 'text-success'
+                    : 'text-destructive'
+              )}
+            >
+              {isUp ? (
+                <ArrowUpRight className="h-3 w-3" />
+              ) : (
+                <ArrowDownRight className="h-3 w-3" />
+              )}
+              {formatDelta(delta)}
+              <span className="font-normal text-muted-foreground">
+                vs. previous period
+              </span>
+            </p>
+          )}
+          {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+        </div>
+        {trend && (
+          <Sparkline
+            data={trend}
+            width={96}
+            height={32}
+            gradient
+            {...(color ? { color } : {})}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
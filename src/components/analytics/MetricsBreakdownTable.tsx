@@ -0,0 +1,107 @@
+import { Sparkline } from '@/components/rockethooks/Sparkline';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { cn } from '@/lib/utils';
+import type { MetricsBreakdown } from '@/services/graphql/analytics';
+
+export interface MetricsBreakdownTableProps {
+  rows: MetricsBreakdown[];
+  /** Column heading for the row label, e.g. "Webhook" */
+  labelHeading: string;
+  /** Key of the row the charts are filtered to */
+  selectedKey?: string | null;
+  onSelect: (row: MetricsBreakdown) => void;
+  emptyMessage?: string;
+}
+
+function successRateColor(rate: number): string {
+  if (rate >= 99) return 'text-success';
+  if (rate >= 95) return 'text-warning';
+  return 'text-destructive';
+}
+
+/**
+ * MetricsBreakdownTable - per-webhook or per-endpoint totals with a volume trend
+ */
+export function MetricsBreakdownTable({
+  rows,
+  labelHeading,
+  selectedKey,
+  onSelect,
+  emptyMessage = 'No deliveries in this period',
+}: MetricsBreakdownTableProps) {
+  if (rows.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        {emptyMessage}
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{labelHeading}</TableHead>
+          <TableHead className="text-right">Events</TableHead>
+          <TableHead className="text-right">Success rate</TableHead>
+          <TableHead className="text-right">p95 latency</TableHead>
+          <TableHead className="text-right">Retries</TableHead>
+          <TableHead>Volume</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow
+            key={row.key}
+            onClick={() => {
+              onSelect(row);
+            }}
+            aria-selected={row.key === selectedKey}
+            className={cn(
+              'cursor-pointer',
+              row.key === selectedKey && 'bg-muted'
+            )}
+          >
+            <TableCell className="max-w-[280px] truncate font-medium">
+              {row.label}
+            </TableCell>
+            <TableCell className="text-right font-mono">
+              {row.totalApiCalls.toLocaleString()}
+            </TableCell>
+            <TableCell
+              className={cn(
+                'text-right font-mono',
+                successRateColor(row.successRate)
+              )}
+            >
+              {row.successRate.toFixed(1)}%
+            </TableCell>
+            <TableCell className="text-right font-mono">
+              {row.p95ResponseTime != null
+                ? `${String(Math.round(row.p95ResponseTime))}ms`
+                : '—'}
+            </TableCell>
+            <TableCell className="text-right font-mono">
+              {row.retryCount.toLocaleString()}
+            </TableCell>
+            <TableCell>
+              <Sparkline
+                data={row.activityChart.map((bucket) => bucket.apiCalls)}
+                width={96}
+                height={24}
+                gradient
+              />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
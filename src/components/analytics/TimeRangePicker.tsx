@@ -0,0 +1,142 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { CalendarRange } from 'lucide-react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/Popover';
+import {
+  formatTimeRange,
+  getTimeRangeBounds,
+  TIME_RANGE_LABELS,
+  TIME_RANGE_PRESETS,
+  type TimeRange,
+} from '@/lib/timeRange';
+import {
+  type CustomTimeRangeFormData,
+  customTimeRangeSchema,
+} from '@/lib/validations/analytics';
+
+export interface TimeRangePickerProps {
+  value: TimeRange;
+  onChange: (range: TimeRange) => void;
+}
+
+// Format accepted by datetime-local inputs
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+/**
+ * TimeRangePicker - preset range buttons plus a custom from/to popover
+ */
+export function TimeRangePicker({ value, onChange }: TimeRangePickerProps) {
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+
+  const form = useForm<CustomTimeRangeFormData>({
+    resolver: zodResolver(customTimeRangeSchema),
+    defaultValues: { from: '', to: '' },
+  });
+
+  // Prefill the custom form with the range currently shown
+  const handleCustomOpenChange = (open: boolean) => {
+    if (open) {
+      const { from, to } = getTimeRangeBounds(value);
+      form.reset({
+        from: format(from, INPUT_FORMAT),
+        to: format(to, INPUT_FORMAT),
+      });
+    }
+    setIsCustomOpen(open);
+  };
+
+  const handleCustomSubmit = (values: CustomTimeRangeFormData) => {
+    onChange({
+      preset: 'custom',
+      from: new Date(values.from),
+      to: new Date(values.to),
+    });
+    setIsCustomOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {TIME_RANGE_PRESETS.map((preset) => (
+        <Button
+          key={preset}
+          size="sm"
+          variant={value.preset === preset ? 'default' : 'outline'}
+          aria-pressed={value.preset === preset}
+          title={TIME_RANGE_LABELS[preset]}
+          onClick={() => {
+            onChange({ preset });
+          }}
+        >
+          {preset}
+        </Button>
+      ))}
+
+      <Popover open={isCustomOpen} onOpenChange={handleCustomOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            size="sm"
+            variant={value.preset === 'custom' ? 'default' : 'outline'}
+            aria-pressed={value.preset === 'custom'}
+          >
+            <CalendarRange />
+            {value.preset === 'custom' ? formatTimeRange(value) : 'Custom'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80">
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit(handleCustomSubmit)}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" size="sm" className="w-full">
+                Apply range
+              </Button>
+            </form>
+          </Form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Analytics components
+ */
+
+export {
+  MetricsBreakdownTable,
+  type MetricsBreakdownTableProps,
+} from './MetricsBreakdownTable';
+export {
+  MetricTile,
+  type MetricTileDelta,
+  type MetricTileProps,
+} from './MetricTile';
+export { TimeRangePicker, type TimeRangePickerProps } from './TimeRangePicker';
@@ -0,0 +1,25 @@
+// src/components/auth/Can.tsx
+import type { ReactNode } from 'react';
+import { usePermission } from '@/hooks/usePermission';
+import type { Permission } from '@/types/auth';
+
+interface CanProps {
+  permission: Permission;
+  /**
+   * Content shown when allowed, or a render function that always renders and
+   * receives whether the action is allowed, e.g. to disable a button
+   */
+  children: ReactNode | ((allowed: boolean) => ReactNode);
+  /** Rendered in place of children when not allowed */
+  fallback?: ReactNode;
+}
+
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const allowed = usePermission(permission);
+
+  if (typeof children === 'function') {
+    return <>{children(allowed)}</>;
+  }
+
+  return <>{allowed ? children : fallback}</>;
+}
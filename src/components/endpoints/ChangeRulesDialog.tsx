@@ -0,0 +1,373 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Eraser } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { JsonViewer } from '@/components/events';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Label } from '@/components/ui/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+import {
+  type ChangeEventType,
+  type ChangeRules,
+  DEFAULT_CHANGE_RULES,
+  type DetectedChangeEvent,
+  detectChanges,
+  VOLATILE_FIELDS,
+} from '@/lib/changeRules';
+import {
+  type ChangeRulesFormData,
+  changeRulesFormSchema,
+  changeScopes,
+  toChangeRules,
+  toChangeRulesFormValues,
+} from '@/lib/validations/changeRules';
+import { parseLines } from '@/lib/validations/webhook';
+import type { Monitor } from '@/services/graphql/monitors';
+
+export interface ChangeRulesDialogProps {
+  /** Endpoint whose rules are edited; null closes the dialog */
+  monitor: Monitor | null;
+  onOpenChange: (open: boolean) => void;
+  /** Callback with the rules when the form is submitted */
+  onSubmit: (rules: ChangeRules) => Promise<void>;
+}
+
+const scopeLabels: Record<ChangeRulesFormData['scope'], string> = {
+  body: 'Whole response body',
+  paths: 'Selected JSONPaths',
+};
+
+const eventVariants = {
+  'change.detected': 'info',
+  'item.added': 'success',
+  'item.removed': 'destructive',
+  'item.modified': 'warning',
+} as const satisfies Record<ChangeEventType, string>;
+
+type SampleParse = { value: unknown; error: null } | { error: string };
+
+function parseSample(text: string): SampleParse | null {
+  if (!text.trim()) return null;
+  try {
+    return { value: JSON.parse(text) as unknown, error: null };
+  } catch (err) {
+    return {
+      error: err instanceof Error ? err.message : 'Response is not valid JSON',
+    };
+  }
+}
+
+function describeEvent(event: DetectedChangeEvent): string {
+  if (event.type === 'change.detected') {
+    const count = event.changes.length;
+    return `${String(count)} ${count === 1 ? 'field' : 'fields'} changed`;
+  }
+  return `${event.path} → ${event.key}`;
+}
+
+interface ChangeRulesPreviewProps {
+  rules: ChangeRules;
+}
+
+/**
+ * Runs the rules against two pasted responses to show which events would fire
+ */
+function ChangeRulesPreview({ rules }: ChangeRulesPreviewProps) {
+  const [previousText, setPreviousText] = useState('');
+  const [currentText, setCurrentText] = useState('');
+
+  const previous = parseSample(previousText);
+  const current = parseSample(currentText);
+  const events =
+    previous && current && previous.error === null && current.error === null
+      ? detectChanges(previous.value, current.value, rules)
+      : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="change-rules-previous">Previous response</Label>
+          <Textarea
+            id="change-rules-previous"
+            className="min-h-40 font-mono text-xs"
+            placeholder='{"items": [{"id": 1, "price": 10}]}'
+            value={previousText}
+            onChange={(e) => {
+              setPreviousText(e.target.value);
+            }}
+          />
+          {previous?.error && (
+            <p className="text-sm text-destructive">{previous.error}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="change-rules-current">Current response</Label>
+          <Textarea
+            id="change-rules-current"
+            className="min-h-40 font-mono text-xs"
+            placeholder='{"items": [{"id": 1, "price": 12}]}'
+            value={currentText}
+            onChange={(e) => {
+              setCurrentText(e.target.value);
+            }}
+          />
+          {current?.error && (
+            <p className="text-sm text-destructive">{current.error}</p>
+          )}
+        </div>
+      </div>
+
+      {events === null ? (
+        <p className="text-sm text-muted-foreground">
+          Paste two JSON responses to preview the events these rules would emit.
+        </p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No events would fire for these responses.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {events.map((event) => (
+            <li
+              key={
+                event.type === 'change.detected'
+                  ? event.type
+                  : `${event.type}:${event.path}:${event.key}`
+              }
+              className="space-y-2 rounded-md border p-3"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={eventVariants[event.type]} size="sm">
+                  {event.type}
+                </Badge>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {describeEvent(event)}
+                </span>
+              </div>
+              <JsonViewer
+                value={
+                  event.type === 'change.detected' ||
+                  event.type === 'item.modified'
+                    ? event.changes
+                    : event.item
+                }
+                className="max-h-48"
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * ChangeRulesDialog - decides what counts as a change for one polled endpoint
+ * and previews the resulting events against sample responses
+ */
+export function ChangeRulesDialog({
+  monitor,
+  onOpenChange,
+  onSubmit,
+}: ChangeRulesDialogProps) {
+  const form = useForm<ChangeRulesFormData>({
+    resolver: zodResolver(changeRulesFormSchema),
+    mode: 'onChange',
+    defaultValues: toChangeRulesFormValues(DEFAULT_CHANGE_RULES),
+  });
+
+  const { reset, watch, getValues, setValue } = form;
+  const values = watch();
+
+  // Reset the form whenever the dialog opens for a different monitor
+  useEffect(() => {
+    if (monitor) {
+      reset(
+        toChangeRulesFormValues(monitor.changeRules ?? DEFAULT_CHANGE_RULES)
+      );
+    }
+  }, [monitor, reset]);
+
+  const addVolatileFields = () => {
+    const existing = parseLines(getValues('ignoredFields'));
+    const missing = VOLATILE_FIELDS.filter(
+      (field) => !existing.includes(field)
+    );
+    setValue('ignoredFields', [...existing, ...missing].join('\n'), {
+      shouldValidate: true,
+      shouldDirty: true,
+    });
+  };
+
+  const handleSubmit = async (submitted: ChangeRulesFormData) => {
+    await onSubmit(toChangeRules(submitted));
+  };
+
+  return (
+    <Dialog open={monitor !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Change rules for {monitor?.name}</DialogTitle>
+          <DialogDescription>
+            Choose what counts as a change between two polls of this endpoint.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-6"
+          >
+            <FormField
+              control={form.control}
+              name="scope"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Track</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {changeScopes.map((scope) => (
+                        <SelectItem key={scope} value={scope}>
+                          {scopeLabels[scope]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {values.scope === 'paths' && (
+              <FormField
+                control={form.control}
+                name="trackedPaths"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tracked paths</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        className="font-mono text-xs"
+                        placeholder={'$.items\n$.summary.total'}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>One JSONPath per line</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="ignoredFields"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Ignored fields</FormLabel>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={addVolatileFields}
+                    >
+                      <Eraser />
+                      Add common volatile fields
+                    </Button>
+                  </div>
+                  <FormControl>
+                    <Textarea
+                      className="font-mono text-xs"
+                      placeholder={'updatedAt\n$.meta.requestId'}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    One per line. A field name is ignored at any depth; a
+                    JSONPath ignores exactly what it selects.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="arrayKeys"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Array item keys</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="font-mono text-xs"
+                      placeholder={'$.items: id\n$.orders[*].lines: sku'}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Items in these arrays are matched by key and emit
+                    item.added, item.removed and item.modified instead of
+                    change.detected.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2 border-t pt-6">
+              <h3 className="text-sm font-medium">Preview</h3>
+              <ChangeRulesPreview rules={toChangeRules(values)} />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : 'Save rules'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,520 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+import {
+  authTypes,
+  httpMethods,
+  type MonitorFormData,
+  monitorFormSchema,
+} from '@/lib/validations/monitor';
+import {
+  backoffStrategies,
+  formatHeaderLines,
+  parseHeaderLines,
+} from '@/lib/validations/webhook';
+import type {
+  CreateMonitorInput,
+  Monitor,
+  MonitorAuthentication,
+} from '@/services/graphql/monitors';
+import {
+  fromHeaderEntries,
+  toHeaderEntries,
+} from '@/services/graphql/webhooks';
+
+export interface EndpointFormDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Monitor being edited; omit to add a new endpoint */
+  monitor?: Monitor | null;
+  /** Callback with the monitor input when the form is submitted */
+  onSubmit: (input: CreateMonitorInput) => Promise<void>;
+}
+
+const authTypeLabels: Record<
+  MonitorFormData['authentication']['type'],
+  string
+> = {
+  none: 'No authentication',
+  bearer: 'Bearer token',
+  basic: 'Basic auth',
+  apikey: 'API key header',
+};
+
+const DEFAULT_VALUES: MonitorFormData = {
+  name: '',
+  url: '',
+  method: 'GET',
+  pollingInterval: 60,
+  headers: '',
+  authentication: {
+    type: 'none',
+    token: '',
+    username: '',
+    password: '',
+    headerName: 'X-API-Key',
+    apiKey: '',
+  },
+  timeout: 10000,
+  retryConfig: {
+    maxRetries: 3,
+    backoffStrategy: 'exponential',
+  },
+};
+
+/**
+ * Map an existing monitor onto the form's field values
+ */
+function toFormValues(monitor: Monitor): MonitorFormData {
+  const credentials = fromHeaderEntries(monitor.authentication.credentials);
+
+  return {
+    name: monitor.name,
+    url: monitor.url,
+    method: monitor.method,
+    pollingInterval: monitor.pollingInterval,
+    headers: formatHeaderLines(fromHeaderEntries(monitor.headers)),
+    authentication: {
+      ...DEFAULT_VALUES.authentication,
+      ...credentials,
+      type: monitor.authentication.type,
+    },
+    timeout: monitor.timeout,
+    retryConfig: {
+      maxRetries: monitor.retryConfig.maxRetries,
+      backoffStrategy: monitor.retryConfig.backoffStrategy,
+    },
+  };
+}
+
+/**
+ * Keep only the credentials that belong to the selected auth type
+ */
+function toAuthentication(
+  auth: MonitorFormData['authentication']
+): MonitorAuthentication {
+  const credentials: Record<string, string> = {};
+
+  switch (auth.type) {
+    case 'bearer':
+      credentials.token = auth.token;
+      break;
+    case 'basic':
+      credentials.username = auth.username;
+      credentials.password = auth.password;
+      break;
+    case 'apikey':
+      credentials.headerName = auth.headerName;
+      credentials.apiKey = auth.apiKey;
+      break;
+    case 'none':
+      break;
+  }
+
+  return { type: auth.type, credentials: toHeaderEntries(credentials) };
+}
+
+/**
+ * Map validated form values onto the GraphQL monitor input
+ */
+function toMonitorInput(values: MonitorFormData): CreateMonitorInput {
+  return {
+    name: values.name.trim(),
+    url: values.url.trim(),
+    method: values.method,
+    pollingInterval: values.pollingInterval,
+    headers: toHeaderEntries(parseHeaderLines(values.headers) ?? undefined),
+    authentication: toAuthentication(values.authentication),
+    timeout: values.timeout,
+    retryConfig: values.retryConfig,
+  };
+}
+
+/**
+ * EndpointFormDialog - add/edit dialog covering every ApiTargetDraft field
+ */
+export function EndpointFormDialog({
+  open,
+  onOpenChange,
+  monitor,
+  onSubmit,
+}: EndpointFormDialogProps) {
+  const isEditing = Boolean(monitor);
+
+  const form = useForm<MonitorFormData>({
+    resolver: zodResolver(monitorFormSchema),
+    mode: 'onChange',
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { reset, watch } = form;
+  const authType = watch('authentication.type');
+
+  // Reset the form whenever the dialog opens for a different monitor
+  useEffect(() => {
+    if (open) {
+      reset(monitor ? toFormValues(monitor) : DEFAULT_VALUES);
+    }
+  }, [open, monitor, reset]);
+
+  const handleSubmit = async (values: MonitorFormData) => {
+    await onSubmit(toMonitorInput(values));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit endpoint' : 'Add API endpoint'}
+          </DialogTitle>
+          <DialogDescription>
+            RocketHooks polls this endpoint and emits events when its response
+            changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-6"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Orders API" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-[120px_1fr] gap-4">
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {httpMethods.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {method}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="url"
+                        placeholder="https://api.example.com/orders"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="pollingInterval"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Polling interval (seconds)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={10}
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e.target.valueAsNumber);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="timeout"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timeout (ms)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={100}
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e.target.valueAsNumber);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="headers"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Request headers</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="font-mono text-xs"
+                      placeholder="Accept: application/json"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>One per line</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Authentication */}
+            <div className="space-y-4">
+              <FormField
+                control={form.control}
+                name="authentication.type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Authentication</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {authTypes.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {authTypeLabels[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {authType === 'bearer' && (
+                <FormField
+                  control={form.control}
+                  name="authentication.token"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Token</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="off" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {authType === 'basic' && (
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="authentication.username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="off" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="authentication.password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="off"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              {authType === 'apikey' && (
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="authentication.headerName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Header name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="authentication.apiKey"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>API key</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="off"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Retry Strategy */}
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="retryConfig.maxRetries"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max retries</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={10}
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e.target.valueAsNumber);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="retryConfig.backoffStrategy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Retry strategy</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {backoffStrategies.map((strategy) => (
+                          <SelectItem key={strategy} value={strategy}>
+                            {strategy}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting
+                  ? 'Saving...'
+                  : isEditing
+                    ? 'Save changes'
+                    : 'Add endpoint'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/Badge';
+import type { Monitor, MonitorStatus } from '@/services/graphql/monitors';
+
+export interface EndpointHealthPanelProps {
+  monitors: Monitor[];
+}
+
+// Statuses that need someone to look at the endpoint
+const UNHEALTHY_STATUSES: Partial<
+  Record<MonitorStatus, { label: string; variant: 'destructive' | 'warning' }>
+> = {
+  error: { label: 'Error', variant: 'destructive' },
+  'circuit-open': { label: 'Circuit open', variant: 'warning' },
+};
+
+/**
+ * EndpointHealthPanel - endpoints currently failing or with an open circuit
+ */
+export function EndpointHealthPanel({ monitors }: EndpointHealthPanelProps) {
+  const unhealthy = monitors.filter(
+    (monitor) => UNHEALTHY_STATUSES[monitor.status] !== undefined
+  );
+
+  if (unhealthy.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center text-sm text-muted-foreground">
+        <CheckCircle2 className="h-6 w-6 text-success" />
+        {monitors.length === 0
+          ? 'No endpoints are being monitored yet'
+          : `All ${String(monitors.length)} endpoints are healthy`}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {unhealthy.map((monitor) => {
+        const status = UNHEALTHY_STATUSES[monitor.status];
+        return (
+          <li
+            key={monitor.id}
+            className="flex items-center justify-between gap-4 py-3"
+          >
+            <div className="min-w-0">
+              <Link
+                to="/endpoints"
+                className="text-sm font-medium hover:underline"
+              >
+                {monitor.name}
+              </Link>
+              <p className="truncate font-mono text-xs text-muted-foreground">
+                {monitor.method} {monitor.url}
+              </p>
+              {monitor.lastCheckedAt && (
+                <p className="text-xs text-muted-foreground">
+                  Checked{' '}
+                  {formatDistanceToNow(new Date(monitor.lastCheckedAt), {
+                    addSuffix: true,
+                  })}
+                </p>
+              )}
+            </div>
+            {status && (
+              <Badge variant={status.variant} size="sm">
+                {status.label}
+              </Badge>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
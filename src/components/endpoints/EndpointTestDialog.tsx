@@ -0,0 +1,188 @@
+import { Braces, Play } from 'lucide-react';
+import { useState } from 'react';
+import { HeadersTable, JsonViewer } from '@/components/events';
+import { JSONPathBuilder } from '@/components/rockethooks';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import { parseJsonValue } from '@/services/graphql/events';
+import type { EndpointTestResult, Monitor } from '@/services/graphql/monitors';
+import { TimingBreakdown } from './TimingBreakdown';
+
+export interface EndpointTestDialogProps {
+  /** Endpoint being tested; null closes the dialog */
+  monitor: Monitor | null;
+  /** Latest result for this endpoint, null while none has arrived */
+  result: EndpointTestResult | null;
+  isRunning: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Send the request again */
+  onRun: () => void;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024
+    ? `${String(bytes)} B`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+interface ResponseInspectorProps {
+  result: EndpointTestResult;
+}
+
+/**
+ * Response tabs; remounted for each endpoint so a sample picked for one
+ * doesn't leak into another
+ */
+function ResponseInspector({ result }: ResponseInspectorProps) {
+  const [tab, setTab] = useState('body');
+  const [sampleData, setSampleData] = useState<object | null>(null);
+  const [path, setPath] = useState('$');
+
+  const body = parseJsonValue(result.responseBody);
+  const bodyObject = typeof body === 'object' && body !== null ? body : null;
+
+  return (
+    <Tabs value={tab} onValueChange={setTab}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <TabsList>
+          <TabsTrigger value="body">Body</TabsTrigger>
+          <TabsTrigger value="headers">
+            Headers ({result.responseHeaders.length})
+          </TabsTrigger>
+          <TabsTrigger value="jsonpath">JSONPath</TabsTrigger>
+        </TabsList>
+        {bodyObject && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setSampleData(bodyObject);
+              setTab('jsonpath');
+            }}
+          >
+            <Braces />
+            Use this response as sample data
+          </Button>
+        )}
+      </div>
+
+      <TabsContent value="body">
+        <JsonViewer
+          value={body}
+          className="max-h-96"
+          emptyMessage="The endpoint returned an empty body"
+        />
+      </TabsContent>
+
+      <TabsContent value="headers">
+        <HeadersTable
+          headers={result.responseHeaders}
+          emptyMessage="No response received"
+        />
+      </TabsContent>
+
+      <TabsContent value="jsonpath">
+        {sampleData ? (
+          <JSONPathBuilder
+            value={path}
+            onChange={setPath}
+            sampleData={sampleData}
+          />
+        ) : (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {bodyObject
+              ? 'Use this response as sample data to build JSONPath expressions against it.'
+              : 'A JSON response is needed to build JSONPath expressions.'}
+          </p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+/**
+ * EndpointTestDialog - runs an endpoint's configured request once and shows
+ * the status, timing breakdown, headers and body it came back with
+ */
+export function EndpointTestDialog({
+  monitor,
+  result,
+  isRunning,
+  onOpenChange,
+  onRun,
+}: EndpointTestDialogProps) {
+  return (
+    <Dialog open={monitor !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Test {monitor?.name}</DialogTitle>
+          <DialogDescription>
+            <span className="font-mono text-xs">
+              {monitor?.method} {monitor?.url}
+            </span>
+            <br />
+            Sent from RocketHooks with the endpoint&apos;s headers and
+            authentication.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          {result ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge variant={result.success ? 'success' : 'destructive'}>
+                {result.statusCode != null
+                  ? `HTTP ${String(result.statusCode)}`
+                  : 'No response'}
+              </Badge>
+              {result.timings && (
+                <span className="text-sm text-muted-foreground">
+                  {result.timings.total} ms
+                </span>
+              )}
+              {result.responseSize != null && (
+                <span className="text-sm text-muted-foreground">
+                  {formatSize(result.responseSize)}
+                </span>
+              )}
+            </div>
+          ) : (
+            <span className="text-sm text-muted-foreground">
+              {isRunning ? 'Sending request...' : 'No result yet'}
+            </span>
+          )}
+          <Button variant="outline" disabled={isRunning} onClick={onRun}>
+            <Play />
+            {isRunning ? 'Running...' : result ? 'Run again' : 'Run test'}
+          </Button>
+        </div>
+
+        {isRunning && !result ? (
+          <SkeletonGroup.Text lines={6} />
+        ) : (
+          result && (
+            <div className="space-y-6">
+              {result.errorMessage && (
+                <p className="text-sm text-destructive">
+                  {result.errorMessage}
+                </p>
+              )}
+              {result.timings && <TimingBreakdown timings={result.timings} />}
+              {monitor && (
+                <ResponseInspector key={monitor.id} result={result} />
+              )}
+            </div>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { cn } from '@/lib/utils';
+import type { EndpointTimings } from '@/services/graphql/monitors';
+
+export interface TimingBreakdownProps {
+  timings: EndpointTimings;
+  className?: string;
+}
+
+const phases: {
+  key: Exclude<keyof EndpointTimings, 'total'>;
+  label: string;
+  className: string;
+}[] = [
+  { key: 'dns', label: 'DNS lookup', className: 'bg-info' },
+  { key: 'connect', label: 'TCP connect', className: 'bg-warning' },
+  { key: 'tls', label: 'TLS handshake', className: 'bg-muted-foreground' },
+  { key: 'firstByte', label: 'Waiting (TTFB)', className: 'bg-primary' },
+  { key: 'download', label: 'Content download', className: 'bg-success' },
+];
+
+/**
+ * TimingBreakdown - stacked bar and legend for the phases of one request
+ */
+export function TimingBreakdown({ timings, className }: TimingBreakdownProps) {
+  // Guard against a zero total so every phase still gets a valid width
+  const total = Math.max(timings.total, 1);
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-muted">
+        {phases.map((phase) => (
+          <div
+            key={phase.key}
+            className={phase.className}
+            style={{ width: `${String((timings[phase.key] / total) * 100)}%` }}
+          />
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs sm:grid-cols-3">
+        {phases.map((phase) => (
+          <div key={phase.key} className="flex items-center gap-2">
+            <span
+              className={cn('h-2 w-2 rounded-full', phase.className)}
+              aria-hidden="true"
+            />
+            <dt className="text-muted-foreground">{phase.label}</dt>
+            <dd className="ml-auto font-mono">{timings[phase.key]} ms</dd>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 font-medium">
+          <dt>Total</dt>
+          <dd className="ml-auto font-mono">{timings.total} ms</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * API endpoint (monitor) management components
+ */
+
+export {
+  ChangeRulesDialog,
+  type ChangeRulesDialogProps,
+} from './ChangeRulesDialog';
+export {
+  EndpointFormDialog,
+  type EndpointFormDialogProps,
+} from './EndpointFormDialog';
+export {
+  EndpointHealthPanel,
+  type EndpointHealthPanelProps,
+} from './EndpointHealthPanel';
+export {
+  EndpointTestDialog,
+  type EndpointTestDialogProps,
+} from './EndpointTestDialog';
+export { TimingBreakdown, type TimingBreakdownProps } from './TimingBreakdown';
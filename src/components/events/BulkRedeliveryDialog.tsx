@@ -0,0 +1,199 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  type RedeliveryFilterFormData,
+  redeliverableStatuses,
+  redeliveryFilterSchema,
+} from '@/lib/validations/redelivery';
+import type { WebhookEventFilter } from '@/services/graphql/events';
+
+export interface BulkRedeliveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Callback with the event filter when the form is submitted */
+  onSubmit: (filter: WebhookEventFilter) => Promise<void>;
+}
+
+const DEFAULT_VALUES: RedeliveryFilterFormData = {
+  statuses: ['failed', 'circuit-open'],
+  endpoint: '',
+  from: '',
+  to: '',
+};
+
+/**
+ * Map validated form values onto the GraphQL event filter
+ */
+function toEventFilter(values: RedeliveryFilterFormData): WebhookEventFilter {
+  const endpoint = values.endpoint.trim();
+  return {
+    statuses: values.statuses,
+    ...(endpoint && { endpoint }),
+    ...(values.from && { from: new Date(values.from).toISOString() }),
+    ...(values.to && { to: new Date(values.to).toISOString() }),
+  };
+}
+
+/**
+ * BulkRedeliveryDialog - choose which events to redeliver by status,
+ * endpoint and time range
+ */
+export function BulkRedeliveryDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+}: BulkRedeliveryDialogProps) {
+  const form = useForm<RedeliveryFilterFormData>({
+    resolver: zodResolver(redeliveryFilterSchema),
+    mode: 'onChange',
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { reset } = form;
+
+  useEffect(() => {
+    if (open) reset(DEFAULT_VALUES);
+  }, [open, reset]);
+
+  const handleSubmit = async (values: RedeliveryFilterFormData) => {
+    await onSubmit(toEventFilter(values));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Redeliver events</DialogTitle>
+          <DialogDescription>
+            Replay every event that matches these filters to its webhook.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-6"
+          >
+            <FormField
+              control={form.control}
+              name="statuses"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Status</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {redeliverableStatuses.map((status) => {
+                      const selected = field.value.includes(status);
+                      return (
+                        <Button
+                          key={status}
+                          type="button"
+                          size="sm"
+                          variant={selected ? 'default' : 'outline'}
+                          aria-pressed={selected}
+                          onClick={() => {
+                            field.onChange(
+                              selected
+                                ? field.value.filter((s) => s !== status)
+                                : [...field.value, status]
+                            );
+                          }}
+                        >
+                          {status}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="endpoint"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Endpoint</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://example.com/hooks" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Only events whose destination contains this text
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting
+                  ? 'Finding events...'
+                  : 'Redeliver'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
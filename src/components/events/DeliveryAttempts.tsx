@@ -0,0 +1,115 @@
+import { format } from 'date-fns';
+import { WebhookStatus } from '@/components/rockethooks/WebhookStatus';
+import { Button } from '@/components/ui/Button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import type { DeliveryAttempt } from '@/services/graphql/events';
+
+export interface DeliveryAttemptsProps {
+  attempts: DeliveryAttempt[];
+  /** Whether more attempts remain on the server */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+/**
+ * DeliveryAttempts - the loaded delivery attempts for an event with timing
+ * and a relative duration bar, plus a button to load the next page
+ */
+export function DeliveryAttempts({
+  attempts,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+}: DeliveryAttemptsProps) {
+  if (attempts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No delivery attempts yet</p>
+    );
+  }
+
+  const sorted = [...attempts].sort(
+    (a, b) => a.attemptNumber - b.attemptNumber
+  );
+  const longest = Math.max(
+    1,
+    ...sorted.map((attempt) => attempt.duration ?? 0)
+  );
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>Started</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>HTTP</TableHead>
+            <TableHead className="w-1/3">Duration</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map((attempt) => (
+            <TableRow key={attempt.id}>
+              <TableCell className="font-medium">
+                {attempt.attemptNumber}
+              </TableCell>
+              <TableCell className="font-mono text-xs">
+                {format(new Date(attempt.startedAt), 'MMM d, HH:mm:ss.SSS')}
+              </TableCell>
+              <TableCell>
+                <WebhookStatus status={attempt.status} size="sm" />
+                {attempt.errorMessage && (
+                  <p className="mt-1 text-xs whitespace-normal text-destructive">
+                    {attempt.errorMessage}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell className="font-mono text-xs">
+                {attempt.statusCode ?? '—'}
+              </TableCell>
+              <TableCell>
+                {attempt.duration != null ? (
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 flex-1 rounded-full bg-muted">
+                      <div
+                        className="h-2 rounded-full bg-primary"
+                        style={{
+                          width: `${String((attempt.duration / longest) * 100)}%`,
+                        }}
+                      />
+                    </div>
+                    <span className="w-16 text-right font-mono text-xs">
+                      {attempt.duration}ms
+                    </span>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">—</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            loading={isLoadingMore}
+            onClick={onLoadMore}
+          >
+            Load more attempts
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import type { HeaderEntry } from '@/services/graphql/webhooks';
+
+export interface HeadersTableProps {
+  headers: HeaderEntry[];
+  emptyMessage?: string;
+}
+
+/**
+ * HeadersTable - name/value listing of HTTP headers
+ */
+export function HeadersTable({
+  headers,
+  emptyMessage = 'No headers',
+}: HeadersTableProps) {
+  if (headers.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-1/3">Name</TableHead>
+          <TableHead>Value</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {headers.map((header) => (
+          <TableRow key={header.key}>
+            <TableCell className="font-mono text-xs">{header.key}</TableCell>
+            <TableCell className="font-mono text-xs break-all whitespace-normal">
+              {header.value}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
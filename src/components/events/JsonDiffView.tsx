@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/Badge';
+import { diffJson, type JsonDiffKind } from '@/lib/jsonDiff';
+
+export interface JsonDiffViewProps {
+  before: unknown;
+  after: unknown;
+}
+
+const KIND_BADGES: Record<
+  JsonDiffKind,
+  { label: string; variant: 'success' | 'destructive' | 'warning' }
+> = {
+  added: { label: 'Added', variant: 'success' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  changed: { label: 'Changed', variant: 'warning' },
+};
+
+function formatInline(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * JsonDiffView - structural diff of two JSON documents, one row per path
+ */
+export function JsonDiffView({ before, after }: JsonDiffViewProps) {
+  const entries = useMemo(() => diffJson(before, after), [before, after]);
+
+  if (before === undefined) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No previous response to compare against
+      </p>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Responses are structurally identical
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {entries.length} change{entries.length !== 1 ? 's' : ''} between the
+        previous and current response
+      </p>
+      <ul className="divide-y rounded-md border">
+        {entries.map((entry) => {
+          const badge = KIND_BADGES[entry.kind];
+          return (
+            <li key={entry.path} className="space-y-1 p-3">
+              <div className="flex items-center gap-2">
+                <Badge variant={badge.variant}>{badge.label}</Badge>
+                <code className="font-mono text-xs">{entry.path}</code>
+              </div>
+              {entry.kind !== 'added' && (
+                <pre className="overflow-x-auto rounded bg-destructive/10 px-2 py-1 font-mono text-xs text-destructive">
+                  - {formatInline(entry.before)}
+                </pre>
+              )}
+              {entry.kind !== 'removed' && (
+                <pre className="overflow-x-auto rounded bg-success/10 px-2 py-1 font-mono text-xs text-success">
+                  + {formatInline(entry.after)}
+                </pre>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { Check, Copy } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+
+export interface JsonViewerProps {
+  value: unknown;
+  className?: string;
+  emptyMessage?: string;
+}
+
+/**
+ * Format a value for display: strings are shown as-is, everything else is
+ * pretty-printed JSON
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * JsonViewer - pretty-printed, scrollable JSON block with a copy button
+ */
+export function JsonViewer({
+  value,
+  className,
+  emptyMessage = 'No content',
+}: JsonViewerProps) {
+  const [copied, setCopied] = useState(false);
+
+  if (value === undefined || value === null || value === '') {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const text = formatValue(value);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => {
+      setCopied(false);
+    }, 2000);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-2 h-7 w-7"
+        onClick={handleCopy}
+        aria-label="Copy to clipboard"
+      >
+        {copied ? <Check /> : <Copy />}
+      </Button>
+      <pre
+        className={cn(
+          'max-h-[32rem] overflow-auto rounded-md bg-muted p-4 pr-12 font-mono text-xs',
+          className
+        )}
+      >
+        {text}
+      </pre>
+    </div>
+  );
+}
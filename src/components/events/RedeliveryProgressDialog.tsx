@@ -0,0 +1,166 @@
+import {
+  CheckCircle2,
+  Circle,
+  Clock,
+  Loader2,
+  MinusCircle,
+  XCircle,
+} from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { Progress } from '@/components/ui/Progress';
+import type {
+  RedeliveryItem,
+  RedeliveryItemStatus,
+} from '@/hooks/useRedelivery';
+import type { PendingRedeliveryRetry } from '@/lib/errors/recovery';
+import { cn } from '@/lib/utils';
+
+export interface RedeliveryProgressDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  items: RedeliveryItem[];
+  isRunning: boolean;
+  progress: number;
+  counts: Record<RedeliveryItemStatus, number>;
+  /** Automatic retry waiting to start, if any */
+  pendingRetry?: PendingRedeliveryRetry | null;
+  /** Stops the run, or a pending retry */
+  onCancel: () => void;
+}
+
+const STATUS_ICONS: Record<
+  RedeliveryItemStatus,
+  { icon: typeof Circle; className: string; label: string }
+> = {
+  queued: { icon: Circle, className: 'text-muted-foreground', label: 'Queued' },
+  delivering: {
+    icon: Loader2,
+    className: 'animate-spin text-info',
+    label: 'Delivering',
+  },
+  delivered: {
+    icon: CheckCircle2,
+    className: 'text-success',
+    label: 'Delivered',
+  },
+  failed: { icon: XCircle, className: 'text-destructive', label: 'Failed' },
+  skipped: {
+    icon: MinusCircle,
+    className: 'text-muted-foreground',
+    label: 'Skipped',
+  },
+};
+
+/**
+ * RedeliveryProgressDialog - live progress and per-event results of a replay
+ */
+export function RedeliveryProgressDialog({
+  open,
+  onOpenChange,
+  title,
+  items,
+  isRunning,
+  progress,
+  counts,
+  pendingRetry = null,
+  onCancel,
+}: RedeliveryProgressDialogProps) {
+  const processed = counts.delivered + counts.failed + counts.skipped;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {processed} of {items.length} processed · {counts.delivered}{' '}
+            delivered · {counts.failed} failed
+            {counts.skipped > 0 && ` · ${String(counts.skipped)} skipped`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={progress} />
+
+        <ul className="max-h-80 divide-y overflow-y-auto rounded-md border">
+          {items.map((item) => {
+            const { icon: Icon, className, label } = STATUS_ICONS[item.status];
+            return (
+              <li key={item.eventId} className="flex items-start gap-3 p-3">
+                <Icon
+                  className={cn('mt-0.5 h-4 w-4 shrink-0', className)}
+                  aria-label={label}
+                />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <code className="truncate font-mono text-xs">
+                      {item.endpoint}
+                    </code>
+                    {item.statusCode != null && (
+                      <span className="font-mono text-xs text-muted-foreground">
+                        HTTP {item.statusCode}
+                      </span>
+                    )}
+                    {item.responseTime != null && (
+                      <span className="text-xs text-muted-foreground">
+                        {item.responseTime}ms
+                      </span>
+                    )}
+                  </div>
+                  <p className="font-mono text-xs text-muted-foreground">
+                    {item.eventId}
+                  </p>
+                  {item.errorMessage && (
+                    <p className="text-xs text-destructive">
+                      {item.errorMessage}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {pendingRetry && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            Retrying {pendingRetry.eventIds.length} failed{' '}
+            {pendingRetry.eventIds.length === 1 ? 'event' : 'events'} in{' '}
+            {pendingRetry.secondsLeft}s
+          </p>
+        )}
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="outline" onClick={onCancel}>
+              Stop
+            </Button>
+          ) : (
+            <>
+              {pendingRetry && (
+                <Button variant="outline" onClick={onCancel}>
+                  Cancel retry
+                </Button>
+              )}
+              <Button
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Close
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
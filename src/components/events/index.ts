@@ -0,0 +1,19 @@
+/**
+ * Webhook event inspection components
+ */
+
+export {
+  BulkRedeliveryDialog,
+  type BulkRedeliveryDialogProps,
+} from './BulkRedeliveryDialog';
+export {
+  DeliveryAttempts,
+  type DeliveryAttemptsProps,
+} from './DeliveryAttempts';
+export { HeadersTable, type HeadersTableProps } from './HeadersTable';
+export { JsonDiffView, type JsonDiffViewProps } from './JsonDiffView';
+export { JsonViewer, type JsonViewerProps } from './JsonViewer';
+export {
+  RedeliveryProgressDialog,
+  type RedeliveryProgressDialogProps,
+} from './RedeliveryProgressDialog';
@@ -29,6 +29,7 @@ export interface APIConnectionCardProps {
   sparklineData?: number[];
   onTest?: () => void;
   onEdit?: () => void;
+  onConfigureRules?: () => void;
   onToggle?: () => void;
   className?: string;
 }
@@ -68,6 +69,7 @@ function APIConnectionCard({
   sparklineData,
   onTest,
   onEdit,
+  onConfigureRules,
   onToggle,
   className,
 }: APIConnectionCardProps) {
@@ -217,6 +219,17 @@ function APIConnectionCard({
             </Button>
           )}
 
+          {onConfigureRules && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onConfigureRules}
+              className="flex-1"
+            >
+              Rules
+            </Button>
+          )}
+
           {onToggle && (
             <Button
               variant={status === 'paused' ? 'default' : 'secondary'}
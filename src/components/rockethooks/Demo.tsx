@@ -226,11 +226,7 @@ export function ComponentsDemo() {
             value={transformation}
             onChange={setTransformation}
             inputSchema={sampleJSONData}
-            outputPreview={{
-              user_name: 'John Doe',
-              user_email: 'john@example.com',
-              timestamp: 1634567890,
-            }}
+            sampleInput={sampleJSONData}
           />
         </div>
       </section>
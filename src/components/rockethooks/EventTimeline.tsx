@@ -1,9 +1,31 @@
-import { format, formatDistanceToNow, isToday, isYesterday } from 'date-fns';
-import { useMemo } from 'react';
+import {
+  format,
+  formatDistanceToNow,
+  isToday,
+  isYesterday,
+  startOfDay,
+} from 'date-fns';
+import { Loader2, RotateCcw } from 'lucide-react';
+import {
+  type RefObject,
+  type UIEvent,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 
 import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
 import { Card, CardContent } from '@/components/ui/Card';
 import { cn } from '@/lib/utils';
+import {
+  computeOffsets,
+  findRowAtOffset,
+  getVisibleRange,
+} from '@/lib/virtualList';
 
 import { WebhookStatus } from './WebhookStatus';
 
@@ -24,18 +46,313 @@ export interface EventTimelineProps {
   events: WebhookEvent[];
   view?: 'compact' | 'detailed';
   onEventClick?: (event: WebhookEvent) => void;
+  /** Shows a replay action on failed and circuit-open events */
+  onReplay?: (event: WebhookEvent) => void;
+  /** Enables infinite scroll: called when the end of the list scrolls into view */
+  onLoadMore?: () => void;
+  /** Whether older events remain to be loaded */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  /** The timeline scrolls itself; bound its height with `className` */
+  scrollRef?: RefObject<HTMLDivElement | null>;
+  onScroll?: (event: UIEvent<HTMLDivElement>) => void;
   className?: string;
 }
 
+type TimelineRow =
+  | {
+      type: 'header';
+      key: string;
+      date: Date;
+      count: number;
+      /** The oldest loaded day may continue on the next page */
+      isPartial: boolean;
+    }
+  | { type: 'event'; key: string; event: WebhookEvent };
+
+// Heights used until a row has rendered and been measured
+const ESTIMATED_HEIGHTS = {
+  header: 44,
+  compact: 84,
+  detailed: 156,
+} as const;
+
+// Rows rendered beyond each edge of the viewport
+const OVERSCAN_ROWS = 6;
+
+// Start loading the next page when this few rows remain below the viewport
+const LOAD_MORE_ROWS = 20;
+
+const getDateLabel = (date: Date) => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'MMM d, yyyy');
+};
+
+const getStatusBadgeVariant = (status: string) => {
+  switch (status) {
+    case 'success':
+      return 'success';
+    case 'pending':
+      return 'secondary';
+    case 'retrying':
+      return 'warning';
+    case 'failed':
+      return 'destructive';
+    case 'circuit-open':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+};
+
+function isNewestFirst(events: WebhookEvent[]): boolean {
+  for (let index = 1; index < events.length; index++) {
+    const previous = events[index - 1];
+    const current = events[index];
+    if (
+      previous &&
+      current &&
+      previous.timestamp.getTime() < current.timestamp.getTime()
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Flatten events into day headers followed by that day's events, newest
+ * first. Sorting works on a copy and is skipped when the input is already in
+ * order, which it usually is for streamed and paged events.
+ */
+function buildRows(events: WebhookEvent[], hasMore: boolean) {
+  const sorted = isNewestFirst(events)
+    ? events
+    : [...events].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  const rows: TimelineRow[] = [];
+  // Index of the header row each row sits under, for the sticky header
+  const headerIndexes: number[] = [];
+  let header: Extract<TimelineRow, { type: 'header' }> | null = null;
+  let headerIndex = 0;
+
+  for (const event of sorted) {
+    const day = startOfDay(event.timestamp);
+    if (header?.date.getTime() !== day.getTime()) {
+      header = {
+        type: 'header',
+        key: `day-${String(day.getTime())}`,
+        date: day,
+        count: 0,
+        isPartial: false,
+      };
+      headerIndex = rows.length;
+      rows.push(header);
+      headerIndexes.push(headerIndex);
+    }
+    header.count += 1;
+    rows.push({ type: 'event', key: event.id, event });
+    headerIndexes.push(headerIndex);
+  }
+
+  if (header) header.isPartial = hasMore;
+
+  return { rows, headerIndexes };
+}
+
+interface DayHeaderProps {
+  date: Date;
+  count: number;
+  isPartial: boolean;
+}
+
+function DayHeader({ date, count, isPartial }: DayHeaderProps) {
+  return (
+    <div className="flex items-center gap-3 bg-background py-2">
+      <h3 className="font-semibold text-sm text-foreground">
+        {getDateLabel(date)}
+      </h3>
+      <div className="h-px bg-border flex-1" />
+      <Badge variant="outline" size="sm">
+        {count}
+        {isPartial ? '+' : ''} event{count !== 1 ? 's' : ''}
+      </Badge>
+    </div>
+  );
+}
+
+interface EventCardProps {
+  event: WebhookEvent;
+  view: 'compact' | 'detailed';
+  onEventClick?: ((event: WebhookEvent) => void) | undefined;
+  onReplay?: ((event: WebhookEvent) => void) | undefined;
+}
+
+function EventCard({ event, view, onEventClick, onReplay }: EventCardProps) {
+  return (
+    <Card
+      className={cn(
+        'relative transition-all duration-200',
+        onEventClick && 'cursor-pointer hover:shadow-md',
+        view === 'compact' && 'shadow-none border-l-4',
+        event.status === 'success' && view === 'compact' && 'border-l-success',
+        event.status === 'failed' &&
+          view === 'compact' &&
+          'border-l-destructive',
+        event.status === 'pending' && view === 'compact' && 'border-l-warning',
+        event.status === 'retrying' && view === 'compact' && 'border-l-info'
+      )}
+      onClick={() => onEventClick?.(event)}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          {/* Timeline Dot */}
+          <div className="relative flex-shrink-0 mt-0.5">
+            <WebhookStatus
+              status={event.status}
+              size={view === 'compact' ? 'sm' : 'md'}
+            />
+          </div>
+
+          {/* Event Content */}
+          <div className="flex-1 min-w-0 space-y-2">
+            {/* Header */}
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={getStatusBadgeVariant(event.method)} size="sm">
+                {event.method}
+              </Badge>
+
+              <code className="text-xs bg-muted px-1.5 py-0.5 rounded font-mono truncate max-w-[200px]">
+                {event.endpoint}
+              </code>
+
+              <span className="text-xs text-muted-foreground">
+                {format(event.timestamp, 'h:mm a')}
+              </span>
+
+              {event.retryCount && event.retryCount > 0 && (
+                <Badge variant="warning" size="sm">
+                  Retry {event.retryCount}
+                </Badge>
+              )}
+            </div>
+
+            {/* Details (Detailed View) */}
+            {view === 'detailed' && (
+              <div className="space-y-2 text-sm">
+                {/* Response Info */}
+                <div className="flex items-center gap-4">
+                  {event.statusCode && (
+                    <div className="flex items-center gap-1">
+                      <span className="text-muted-foreground">Status:</span>
+                      <span
+                        className={cn(
+                          'font-medium',
+                          event.statusCode >= 200 &&
+                            event.statusCode < 300 &&
+                            'text-success',
+                          event.statusCode >= 400 && 'text-destructive'
+                        )}
+                      >
+                        {event.statusCode}
+                      </span>
+                    </div>
+                  )}
+
+                  {event.responseTime && (
+                    <div className="flex items-center gap-1">
+                      <span className="text-muted-foreground">Time:</span>
+                      <span className="font-medium">
+                        {event.responseTime}ms
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Error Message */}
+                {event.errorMessage && (
+                  <div className="p-2 bg-destructive/5 border border-destructive/20 rounded text-xs">
+                    <span className="text-destructive font-medium">
+                      Error:{' '}
+                    </span>
+                    <span className="text-destructive/80">
+                      {event.errorMessage}
+                    </span>
+                  </div>
+                )}
+
+                {/* Relative Time */}
+                <div className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(event.timestamp, {
+                    addSuffix: true,
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Replay Action */}
+          {onReplay &&
+            (event.status === 'failed' || event.status === 'circuit-open') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onReplay(event);
+                }}
+              >
+                <RotateCcw />
+                Replay
+              </Button>
+            )}
+
+          {/* Click Indicator */}
+          {onEventClick && (
+            <div className="text-muted-foreground">
+              <svg
+                className="h-4 w-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <title>View details</title>
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 5l7 7-7 7"
+                />
+              </svg>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 /**
  * EventTimeline - visual timeline for webhook events
  *
+ * Only the rows near the viewport are rendered, so it stays responsive with
+ * hundreds of thousands of events. Rows are measured as they render, the
+ * current day's header sticks to the top, and events prepended above the
+ * viewport don't move what the user is looking at.
+ *
  * @example
  * ```tsx
  * <EventTimeline
  *   events={webhookEvents}
  *   view="detailed"
+ *   className="max-h-[600px]"
  *   onEventClick={(event) => showEventDetails(event)}
+ *   onReplay={(event) => replayEvent(event.id)}
+ *   onLoadMore={() => void loadMore()}
+ *   hasMore={hasMore}
+ *   isLoadingMore={isLoadingMore}
  * />
  * ```
  */
@@ -43,50 +360,158 @@ function EventTimeline({
   events,
   view = 'compact',
   onEventClick,
+  onReplay,
+  onLoadMore,
+  hasMore = false,
+  isLoadingMore = false,
+  scrollRef,
+  onScroll,
   className,
 }: EventTimelineProps) {
-  // Group events by day
-  const groupedEvents = useMemo(() => {
-    const groups: { [key: string]: WebhookEvent[] } = {};
-
-    events
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .forEach((event) => {
-        const dayKey = format(event.timestamp, 'yyyy-MM-dd');
-        groups[dayKey] ??= [];
-        groups[dayKey].push(event);
+  const ownScrollRef = useRef<HTMLDivElement>(null);
+  const containerRef = scrollRef ?? ownScrollRef;
+
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Measured row heights, keyed by view and row so a view switch re-measures
+  const [heights, setHeights] = useState(() => new Map<string, number>());
+
+  // First visible row and how far into it the viewport starts, used to hold
+  // the view steady when rows are inserted or resized above it
+  const anchorRef = useRef<{ key: string; delta: number } | null>(null);
+
+  // Read inside effects without re-running them on every render
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+  const isInfinite = onLoadMore !== undefined;
+
+  const { rows, headerIndexes } = useMemo(
+    () => buildRows(events, hasMore),
+    [events, hasMore]
+  );
+
+  const rowIndexes = useMemo(
+    () => new Map(rows.map((row, index) => [row.key, index])),
+    [rows]
+  );
+
+  const offsets = useMemo(
+    () =>
+      computeOffsets(
+        rows.map(
+          (row) =>
+            heights.get(`${view}:${row.key}`) ??
+            (row.type === 'header'
+              ? ESTIMATED_HEIGHTS.header
+              : ESTIMATED_HEIGHTS[view])
+        )
+      ),
+    [rows, heights, view]
+  );
+
+  const totalHeight = offsets[offsets.length - 1] ?? 0;
+  const range = getVisibleRange(
+    offsets,
+    scrollTop,
+    viewportHeight,
+    OVERSCAN_ROWS
+  );
+
+  // One observer measures every rendered row; created on first use because
+  // row refs attach before effects run
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+  const getResizeObserver = useCallback(() => {
+    resizeObserverRef.current ??= new ResizeObserver((entries) => {
+      setHeights((current) => {
+        let next: Map<string, number> | null = null;
+        for (const entry of entries) {
+          const key = (entry.target as HTMLElement).dataset.rowKey;
+          const height = entry.borderBoxSize[0]?.blockSize;
+          if (!key || height === undefined || current.get(key) === height) {
+            continue;
+          }
+          next ??= new Map(current);
+          next.set(key, height);
+        }
+        return next ?? current;
       });
+    });
+    return resizeObserverRef.current;
+  }, []);
 
-    return Object.entries(groups).map(([dateKey, events]) => ({
-      date: new Date(dateKey),
-      events,
-    }));
-  }, [events]);
+  useEffect(() => {
+    return () => {
+      resizeObserverRef.current?.disconnect();
+    };
+  }, []);
 
-  const getDateLabel = (date: Date) => {
-    if (isToday(date)) return 'Today';
-    if (isYesterday(date)) return 'Yesterday';
-    return format(date, 'MMM d, yyyy');
-  };
+  const measureRow = useCallback(
+    (node: HTMLDivElement | null) => {
+      if (!node) return;
+      const observer = getResizeObserver();
+      observer.observe(node);
+      return () => {
+        observer.unobserve(node);
+      };
+    },
+    [getResizeObserver]
+  );
+
+  // Track the viewport height as the container resizes
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => {
+      setViewportHeight(container.clientHeight);
+    });
+    observer.observe(container);
+    return () => {
+      observer.disconnect();
+    };
+  }, [containerRef]);
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status) {
-      case 'success':
-        return 'success';
-      case 'pending':
-        return 'secondary';
-      case 'retrying':
-        return 'warning';
-      case 'failed':
-        return 'destructive';
-      case 'circuit-open':
-        return 'outline';
-      default:
-        return 'secondary';
+  // Keep the anchored row in place after rows above it change
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = anchorRef.current;
+    if (!container || !anchor) return;
+
+    const index = rowIndexes.get(anchor.key);
+    if (index === undefined) return;
+
+    const target = (offsets[index] ?? 0) + anchor.delta;
+    if (Math.abs(container.scrollTop - target) >= 1) {
+      container.scrollTop = target;
+      setScrollTop(target);
     }
+  }, [containerRef, rowIndexes, offsets]);
+
+  // Ask for the next page as the end of the list approaches
+  useEffect(() => {
+    if (!isInfinite || !hasMore || isLoadingMore) return;
+    if (range.end >= rows.length - LOAD_MORE_ROWS) {
+      onLoadMoreRef.current?.();
+    }
+  }, [isInfinite, hasMore, isLoadingMore, range.end, rows.length]);
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    const top = event.currentTarget.scrollTop;
+    setScrollTop(top);
+
+    // At the very top, new events should push in rather than stay hidden
+    const index = findRowAtOffset(offsets, top);
+    const row = rows[index];
+    anchorRef.current =
+      top > 0 && row
+        ? { key: row.key, delta: top - (offsets[index] ?? 0) }
+        : null;
+
+    onScroll?.(event);
   };
 
-  if (events.length === 0) {
+  if (events.length === 0 && !hasMore) {
     return (
       <div className={cn('text-center py-8 text-muted-foreground', className)}>
         <div className="text-sm">No events to display</div>
@@ -94,170 +519,82 @@ function EventTimeline({
     );
   }
 
-  return (
-    <div className={cn('space-y-6', className)}>
-      {groupedEvents.map(({ date, events }) => (
-        <div key={date.toISOString()} className="space-y-3">
-          {/* Date Header */}
-          <div className="flex items-center gap-3">
-            <h3 className="font-semibold text-sm text-foreground">
-              {getDateLabel(date)}
-            </h3>
-            <div className="h-px bg-border flex-1" />
-            <Badge variant="outline" size="sm">
-              {events.length} event{events.length !== 1 ? 's' : ''}
-            </Badge>
-          </div>
+  const stickyHeader =
+    scrollTop > 0
+      ? rows[headerIndexes[findRowAtOffset(offsets, scrollTop)] ?? 0]
+      : undefined;
 
-          {/* Events List */}
-          <div className="space-y-2 relative">
-            {/* Timeline Line */}
-            <div className="absolute left-6 top-4 bottom-4 w-px bg-border" />
-
-            {events.map((event) => (
-              <Card
-                key={event.id}
-                className={cn(
-                  'relative transition-all duration-200',
-                  onEventClick && 'cursor-pointer hover:shadow-md',
-                  view === 'compact' && 'shadow-none border-l-4',
-                  event.status === 'success' &&
-                    view === 'compact' &&
-                    'border-l-success',
-                  event.status === 'failed' &&
-                    view === 'compact' &&
-                    'border-l-destructive',
-                  event.status === 'pending' &&
-                    view === 'compact' &&
-                    'border-l-warning',
-                  event.status === 'retrying' &&
-                    view === 'compact' &&
-                    'border-l-info'
-                )}
-                onClick={() => onEventClick?.(event)}
-              >
-                <CardContent className="p-4">
-                  <div className="flex items-start gap-3">
-                    {/* Timeline Dot */}
-                    <div className="relative flex-shrink-0 mt-0.5">
-                      <WebhookStatus
-                        status={event.status}
-                        size={view === 'compact' ? 'sm' : 'md'}
-                      />
-                    </div>
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className={cn('relative overflow-y-auto', className)}
+    >
+      {/* Sticky Day Header */}
+      {stickyHeader?.type === 'header' && (
+        <div className="sticky top-0 z-10 h-0 overflow-visible">
+          <DayHeader
+            date={stickyHeader.date}
+            count={stickyHeader.count}
+            isPartial={stickyHeader.isPartial}
+          />
+        </div>
+      )}
 
-                    {/* Event Content */}
-                    <div className="flex-1 min-w-0 space-y-2">
-                      {/* Header */}
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <Badge
-                          variant={getStatusBadgeVariant(event.method)}
-                          size="sm"
-                        >
-                          {event.method}
-                        </Badge>
-
-                        <code className="text-xs bg-muted px-1.5 py-0.5 rounded font-mono truncate max-w-[200px]">
-                          {event.endpoint}
-                        </code>
-
-                        <span className="text-xs text-muted-foreground">
-                          {format(event.timestamp, 'h:mm a')}
-                        </span>
-
-                        {event.retryCount && event.retryCount > 0 && (
-                          <Badge variant="warning" size="sm">
-                            Retry {event.retryCount}
-                          </Badge>
-                        )}
-                      </div>
-
-                      {/* Details (Detailed View) */}
-                      {view === 'detailed' && (
-                        <div className="space-y-2 text-sm">
-                          {/* Response Info */}
-                          <div className="flex items-center gap-4">
-                            {event.statusCode && (
-                              <div className="flex items-center gap-1">
-                                <span className="text-muted-foreground">
-                                  Status:
-                                </span>
-                                <span
-                                  className={cn(
-                                    'font-medium',
-                                    event.statusCode >= 200 &&
-                                      event.statusCode < 300 &&
-                                      'text-success',
-                                    event.statusCode >= 400 &&
-                                      'text-destructive'
-                                  )}
-                                >
-                                  {event.statusCode}
-                                </span>
-                              </div>
-                            )}
-
-                            {event.responseTime && (
-                              <div className="flex items-center gap-1">
-                                <span className="text-muted-foreground">
-                                  Time:
-                                </span>
-                                <span className="font-medium">
-                                  {event.responseTime}ms
-                                </span>
-                              </div>
-                            )}
-                          </div>
-
-                          {/* Error Message */}
-                          {event.errorMessage && (
-                            <div className="p-2 bg-destructive/5 border border-destructive/20 rounded text-xs">
-                              <span className="text-destructive font-medium">
-                                Error:{' '}
-                              </span>
-                              <span className="text-destructive/80">
-                                {event.errorMessage}
-                              </span>
-                            </div>
-                          )}
-
-                          {/* Relative Time */}
-                          <div className="text-xs text-muted-foreground">
-                            {formatDistanceToNow(event.timestamp, {
-                              addSuffix: true,
-                            })}
-                          </div>
-                        </div>
-                      )}
-                    </div>
+      <div className="relative w-full" style={{ height: totalHeight }}>
+        {rows.slice(range.start, range.end).map((row, offset) => {
+          const index = range.start + offset;
+          return (
+            <div
+              key={row.key}
+              ref={measureRow}
+              data-row-key={`${view}:${row.key}`}
+              className={cn(
+                'absolute inset-x-0',
+                row.type === 'header' ? index > 0 && 'pt-4' : 'pb-2'
+              )}
+              style={{ top: offsets[index] }}
+            >
+              {row.type === 'header' ? (
+                <DayHeader
+                  date={row.date}
+                  count={row.count}
+                  isPartial={row.isPartial}
+                />
+              ) : (
+                <>
+                  {/* Timeline Line */}
+                  <div className="absolute left-6 top-0 bottom-0 w-px bg-border" />
+                  <EventCard
+                    event={row.event}
+                    view={view}
+                    onEventClick={onEventClick}
+                    onReplay={onReplay}
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
 
-                    {/* Click Indicator */}
-                    {onEventClick && (
-                      <div className="text-muted-foreground">
-                        <svg
-                          className="h-4 w-4"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                          aria-hidden="true"
-                        >
-                          <title>View details</title>
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M9 5l7 7-7 7"
-                          />
-                        </svg>
-                      </div>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+      {/* Infinite Scroll Loader */}
+      {isInfinite && (
+        <div className="flex justify-center py-2">
+          {isLoadingMore ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading older events...
+            </div>
+          ) : hasMore ? (
+            <Button variant="ghost" size="sm" onClick={onLoadMore}>
+              Load older events
+            </Button>
+          ) : (
+            <div className="text-xs text-muted-foreground">No older events</div>
+          )}
         </div>
-      ))}
+      )}
     </div>
   );
 }
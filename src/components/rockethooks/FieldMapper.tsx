@@ -0,0 +1,321 @@
+import { Crosshair, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { Input } from '@/components/ui/Input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { type JsonValue, validateJSONPath } from '@/lib/jsonpath';
+import {
+  createFieldMapping,
+  type FieldMapping,
+  findDuplicateTargets,
+  MAPPING_TRANSFORMS,
+  type MappingTransform,
+} from '@/lib/transform';
+import { cn } from '@/lib/utils';
+import { JSONPathBuilder } from './JsonpathBuilder';
+
+// Select items cannot have an empty value
+const NO_TRANSFORM = 'none';
+
+export interface FieldMapperProps {
+  mappings: FieldMapping[];
+  onChange: (mappings: FieldMapping[]) => void;
+  /** Sample input for the JSONPath picker */
+  sampleData?: object;
+  className?: string;
+}
+
+/**
+ * Default values are typed as JSON scalars when they parse as one
+ * (42, true, null, "quoted"), otherwise taken as plain text
+ */
+function parseDefault(text: string): JsonValue | undefined {
+  if (text === '') return undefined;
+  try {
+    const parsed = JSON.parse(text) as JsonValue;
+    if (parsed === null || typeof parsed !== 'object') return parsed;
+  } catch {
+    // Plain text
+  }
+  return text;
+}
+
+function formatDefault(value: JsonValue | undefined): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string' && parseDefault(value) === value) return value;
+  return JSON.stringify(value);
+}
+
+function validateRow(
+  mapping: FieldMapping,
+  duplicates: Set<string>
+): string | null {
+  const target = mapping.target.trim();
+  if (!target) {
+    return mapping.source || mapping.defaultValue !== undefined
+      ? 'Output field name is required'
+      : null;
+  }
+  if (duplicates.has(target)) return `"${target}" is mapped more than once`;
+  if (mapping.source.trim()) {
+    const validation = validateJSONPath(mapping.source.trim());
+    if (!validation.valid) {
+      return `Invalid source path: ${validation.error.reason}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * FieldMapper - visual rows mapping input paths to output fields
+ *
+ * @example
+ * ```tsx
+ * <FieldMapper
+ *   mappings={mappings}
+ *   onChange={setMappings}
+ *   sampleData={{ data: { user: { name: 'John' } } }}
+ * />
+ * ```
+ */
+function FieldMapper({
+  mappings,
+  onChange,
+  sampleData,
+  className,
+}: FieldMapperProps) {
+  // Raw default text per row, so typing `"4` is not reformatted mid-edit
+  const [defaultDrafts, setDefaultDrafts] = useState<Record<string, string>>(
+    {}
+  );
+  const [pickingId, setPickingId] = useState<string | null>(null);
+  const [draftPath, setDraftPath] = useState('');
+
+  const duplicates = findDuplicateTargets(mappings);
+
+  const replaceMapping = (next: FieldMapping) => {
+    onChange(
+      mappings.map((mapping) => (mapping.id === next.id ? next : mapping))
+    );
+  };
+
+  const updateMapping = (
+    mapping: FieldMapping,
+    changes: Pick<Partial<FieldMapping>, 'target' | 'source'>
+  ) => {
+    replaceMapping({ ...mapping, ...changes });
+  };
+
+  // Optional fields are dropped rather than set to undefined
+  const setTransform = (mapping: FieldMapping, value: string) => {
+    const { transform: _previous, ...rest } = mapping;
+    replaceMapping(
+      value === NO_TRANSFORM
+        ? rest
+        : { ...rest, transform: value as MappingTransform }
+    );
+  };
+
+  const setDefaultText = (mapping: FieldMapping, text: string) => {
+    setDefaultDrafts((drafts) => ({ ...drafts, [mapping.id]: text }));
+    const { defaultValue: _previous, ...rest } = mapping;
+    const defaultValue = parseDefault(text);
+    replaceMapping(
+      defaultValue === undefined ? rest : { ...rest, defaultValue }
+    );
+  };
+
+  const removeMapping = (id: string) => {
+    onChange(mappings.filter((mapping) => mapping.id !== id));
+  };
+
+  const openPicker = (mapping: FieldMapping) => {
+    setDraftPath(mapping.source || '$');
+    setPickingId(mapping.id);
+  };
+
+  const applyPickedPath = () => {
+    const mapping = mappings.find((item) => item.id === pickingId);
+    if (mapping) updateMapping(mapping, { source: draftPath });
+    setPickingId(null);
+  };
+
+  const isDraftValid = validateJSONPath(draftPath).valid;
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {mappings.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          No fields mapped yet. Add a field to start building the output.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="hidden grid-cols-[1fr_1.5fr_8rem_1fr_2rem] gap-2 px-1 text-xs font-medium text-muted-foreground md:grid">
+            <span>Output field</span>
+            <span>Source path</span>
+            <span>Transform</span>
+            <span>Default</span>
+            <span />
+          </div>
+
+          {mappings.map((mapping) => {
+            const error = validateRow(mapping, duplicates);
+            return (
+              <div key={mapping.id} className="space-y-1">
+                <div className="grid grid-cols-1 gap-2 md:grid-cols-[1fr_1.5fr_8rem_1fr_2rem]">
+                  <Input
+                    aria-label="Output field"
+                    value={mapping.target}
+                    placeholder="field_name"
+                    onChange={(e) => {
+                      updateMapping(mapping, { target: e.target.value });
+                    }}
+                    className="font-mono text-sm"
+                  />
+
+                  <div className="flex gap-1">
+                    <Input
+                      aria-label="Source path"
+                      value={mapping.source}
+                      placeholder="$.path (empty for a static value)"
+                      onChange={(e) => {
+                        updateMapping(mapping, { source: e.target.value });
+                      }}
+                      className="font-mono text-sm"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      title="Pick a path from sample data"
+                      onClick={() => {
+                        openPicker(mapping);
+                      }}
+                    >
+                      <Crosshair className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <Select
+                    value={mapping.transform ?? NO_TRANSFORM}
+                    onValueChange={(value) => {
+                      setTransform(mapping, value);
+                    }}
+                    disabled={!mapping.source.trim()}
+                  >
+                    <SelectTrigger aria-label="Transform">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TRANSFORM}>None</SelectItem>
+                      {MAPPING_TRANSFORMS.map((transform) => (
+                        <SelectItem key={transform} value={transform}>
+                          {transform}()
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Input
+                    aria-label="Default value"
+                    value={
+                      defaultDrafts[mapping.id] ??
+                      formatDefault(mapping.defaultValue)
+                    }
+                    placeholder={mapping.source.trim() ? 'If missing' : 'Value'}
+                    onChange={(e) => {
+                      setDefaultText(mapping, e.target.value);
+                    }}
+                    className="font-mono text-sm"
+                  />
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove field"
+                    onClick={() => {
+                      removeMapping(mapping.id);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {error && (
+                  <p className="px-1 text-xs text-destructive">{error}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          onChange([...mappings, createFieldMapping()]);
+        }}
+      >
+        <Plus className="h-4 w-4" />
+        Add field
+      </Button>
+
+      <Dialog
+        open={pickingId !== null}
+        onOpenChange={(open) => {
+          if (!open) setPickingId(null);
+        }}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Source Path</DialogTitle>
+            <DialogDescription>
+              Pick a field from the sample data or write a JSONPath.
+            </DialogDescription>
+          </DialogHeader>
+          <JSONPathBuilder
+            value={draftPath}
+            onChange={setDraftPath}
+            {...(sampleData ? { sampleData } : {})}
+          />
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setPickingId(null);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={applyPickedPath}
+              disabled={!isDraftValid}
+            >
+              Use Path
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export { FieldMapper };
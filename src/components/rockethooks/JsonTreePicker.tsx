@@ -0,0 +1,322 @@
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { useState } from 'react';
+import { Badge } from '@/components/ui/Badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/DropdownMenu';
+import {
+  formatJSONPath,
+  formatNormalizedPath,
+  type NodeLocation,
+} from '@/lib/jsonpath';
+import { cn } from '@/lib/utils';
+
+// Children rendered per object/array before truncating
+const MAX_VISIBLE_CHILDREN = 100;
+
+export interface JSONTreePickerProps {
+  data: unknown;
+  /** Normalized paths of nodes to highlight, e.g. the current query's matches */
+  highlightedPaths?: ReadonlySet<string>;
+  /** Called with the JSONPath of the node or choice the user picked */
+  onSelect: (path: string) => void;
+  /** Levels expanded on first render */
+  defaultExpandDepth?: number;
+  className?: string;
+}
+
+interface PathChoice {
+  label: string;
+  path: string;
+}
+
+type Scalar = string | number | boolean | null;
+
+function isScalar(value: unknown): value is Scalar {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  );
+}
+
+function formatLiteral(value: Scalar): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Paths offered for a node. Nodes inside an array also get "all items" and
+ * "filter by this field" variants based on the closest enclosing array.
+ */
+function getPathChoices(location: NodeLocation, value: unknown): PathChoice[] {
+  const exact = formatJSONPath(location);
+
+  let arrayIndex = -1;
+  location.forEach((part, index) => {
+    if (typeof part === 'number') arrayIndex = index;
+  });
+  if (arrayIndex === -1) return [{ label: 'This field', path: exact }];
+
+  const arrayPath = formatJSONPath(location.slice(0, arrayIndex));
+  // Path from the array item to the node, without the leading '$'
+  const field = formatJSONPath(location.slice(arrayIndex + 1)).slice(1);
+
+  if (!field) {
+    const choices = [
+      { label: 'This item', path: exact },
+      { label: 'All items', path: `${arrayPath}[*]` },
+    ];
+    if (isScalar(value)) {
+      choices.push({
+        label: 'Items equal to this value',
+        path: `${arrayPath}[?@ == ${formatLiteral(value)}]`,
+      });
+    }
+    return choices;
+  }
+
+  const condition = isScalar(value)
+    ? `@${field} == ${formatLiteral(value)}`
+    : `@${field}`;
+
+  return [
+    { label: 'This item', path: exact },
+    { label: 'All items', path: `${arrayPath}[*]${field}` },
+    { label: 'Filter by this field', path: `${arrayPath}[?${condition}]` },
+  ];
+}
+
+function ValuePreview({ value }: { value: unknown }) {
+  if (Array.isArray(value)) {
+    return <span className="text-muted-foreground">[{value.length}]</span>;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return (
+      <span className="text-muted-foreground">
+        {'{'}
+        {Object.keys(value).length}
+        {'}'}
+      </span>
+    );
+  }
+  return (
+    <span
+      className={cn(
+        'truncate',
+        typeof value === 'string' && 'text-success',
+        typeof value === 'number' && 'text-info',
+        (typeof value === 'boolean' || value === null) && 'text-warning'
+      )}
+    >
+      {typeof value === 'string' ? JSON.stringify(value) : String(value)}
+    </span>
+  );
+}
+
+interface TreeNodeProps {
+  label: string | number | null;
+  value: unknown;
+  location: NodeLocation;
+  depth: number;
+  defaultExpandDepth: number;
+  highlightedPaths: ReadonlySet<string>;
+  onSelect: (path: string) => void;
+}
+
+function TreeNode({
+  label,
+  value,
+  location,
+  depth,
+  defaultExpandDepth,
+  highlightedPaths,
+  onSelect,
+}: TreeNodeProps) {
+  const [isExpanded, setIsExpanded] = useState(depth < defaultExpandDepth);
+
+  const normalizedPath = formatNormalizedPath(location);
+  const isHighlighted = highlightedPaths.has(normalizedPath);
+  const isContainer = typeof value === 'object' && value !== null;
+
+  const children: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((item: unknown, index) => [index, item])
+    : isContainer
+      ? Object.entries(value)
+      : [];
+
+  // Matches hidden inside a collapsed node
+  const hiddenMatches =
+    isContainer && !isExpanded
+      ? [...highlightedPaths].filter((path) =>
+          path.startsWith(`${normalizedPath}[`)
+        ).length
+      : 0;
+
+  const choices = getPathChoices(location, value);
+  const [firstChoice] = choices;
+  const labelText =
+    label === null
+      ? '$'
+      : typeof label === 'number'
+        ? `[${String(label)}]`
+        : label;
+
+  const labelButton = (
+    <button
+      type="button"
+      className="rounded px-1 font-medium hover:bg-accent hover:text-accent-foreground"
+      title={firstChoice?.path}
+      onClick={
+        choices.length === 1 && firstChoice
+          ? () => {
+              onSelect(firstChoice.path);
+            }
+          : undefined
+      }
+    >
+      {labelText}
+    </button>
+  );
+
+  return (
+    <li>
+      <div
+        className={cn(
+          'flex items-center gap-1 rounded py-0.5 pr-2',
+          isHighlighted && 'bg-primary/15 ring-1 ring-primary/40'
+        )}
+        style={{ paddingLeft: `${String(depth * 16)}px` }}
+        data-path={normalizedPath}
+      >
+        {isContainer ? (
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+            aria-expanded={isExpanded}
+            onClick={() => {
+              setIsExpanded(!isExpanded);
+            }}
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-3.5 w-3.5" />
+            ) : (
+              <ChevronRight className="h-3.5 w-3.5" />
+            )}
+          </button>
+        ) : (
+          <span className="w-3.5" />
+        )}
+
+        {choices.length > 1 ? (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>{labelButton}</DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuLabel>Insert path</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {choices.map((choice) => (
+                <DropdownMenuItem
+                  key={choice.label}
+                  onSelect={() => {
+                    onSelect(choice.path);
+                  }}
+                  className="flex-col items-start gap-0.5"
+                >
+                  <span>{choice.label}</span>
+                  <code className="text-xs text-muted-foreground">
+                    {choice.path}
+                  </code>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ) : (
+          labelButton
+        )}
+
+        <span className="text-muted-foreground">:</span>
+        <ValuePreview value={value} />
+
+        {hiddenMatches > 0 && (
+          <Badge variant="secondary" size="sm" className="ml-auto">
+            {hiddenMatches} match{hiddenMatches !== 1 ? 'es' : ''}
+          </Badge>
+        )}
+      </div>
+
+      {isContainer && isExpanded && children.length > 0 && (
+        <ul>
+          {children.slice(0, MAX_VISIBLE_CHILDREN).map(([key, child]) => (
+            <TreeNode
+              key={key}
+              label={key}
+              value={child}
+              location={[...location, key]}
+              depth={depth + 1}
+              defaultExpandDepth={defaultExpandDepth}
+              highlightedPaths={highlightedPaths}
+              onSelect={onSelect}
+            />
+          ))}
+          {children.length > MAX_VISIBLE_CHILDREN && (
+            <li
+              className="py-0.5 text-muted-foreground"
+              style={{ paddingLeft: `${String((depth + 1) * 16 + 18)}px` }}
+            >
+              … {children.length - MAX_VISIBLE_CHILDREN} more
+            </li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+const NO_HIGHLIGHTS: ReadonlySet<string> = new Set();
+
+/**
+ * JSONTreePicker - collapsible JSON tree where clicking a node picks its path
+ *
+ * @example
+ * ```tsx
+ * <JSONTreePicker
+ *   data={sampleData}
+ *   highlightedPaths={matchedPaths}
+ *   onSelect={(path) => setExpression(path)}
+ * />
+ * ```
+ */
+function JSONTreePicker({
+  data,
+  highlightedPaths = NO_HIGHLIGHTS,
+  onSelect,
+  defaultExpandDepth = 2,
+  className,
+}: JSONTreePickerProps) {
+  return (
+    <ul
+      className={cn(
+        'max-h-80 overflow-auto rounded-md border bg-muted/50 p-2 font-mono text-xs',
+        className
+      )}
+    >
+      <TreeNode
+        label={null}
+        value={data}
+        location={[]}
+        depth={0}
+        defaultExpandDepth={defaultExpandDepth}
+        highlightedPaths={highlightedPaths}
+        onSelect={onSelect}
+      />
+    </ul>
+  );
+}
+
+export { JSONTreePicker };
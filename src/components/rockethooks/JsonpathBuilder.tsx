@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -11,7 +11,13 @@ import {
   SelectValue,
 } from '@/components/ui/Select';
 import { Textarea } from '@/components/ui/Textarea';
+import {
+  evaluateJSONPath,
+  queryJSONPath,
+  validateJSONPath,
+} from '@/lib/jsonpath';
 import { cn } from '@/lib/utils';
+import { JSONTreePicker } from './JsonTreePicker';
 
 export interface JSONPathBuilderProps {
   value: string;
@@ -48,9 +54,19 @@ const commonPatterns = [
     description: 'Filter items by status',
   },
   {
-    label: 'Array length',
-    pattern: '$.items.length',
-    description: 'Get array length',
+    label: 'Array slice',
+    pattern: '$.items[0:3]',
+    description: 'Access the first three items',
+  },
+  {
+    label: 'Recursive descent',
+    pattern: '$..id',
+    description: 'Find a property at any depth',
+  },
+  {
+    label: 'Filter by length',
+    pattern: '$.items[?length(@.tags) > 0]',
+    description: 'Items with at least one tag',
   },
 ];
 
@@ -74,36 +90,31 @@ function JSONPathBuilder({
   onTest,
   className,
 }: JSONPathBuilderProps) {
-  const [isValid, setIsValid] = useState(true);
   const [testResult, setTestResult] = useState<string | object | null>(null);
-  const [showSampleData, setShowSampleData] = useState(false);
+  const [showSampleData, setShowSampleData] = useState(true);
 
-  // Basic JSONPath validation
-  useEffect(() => {
-    try {
-      // Basic validation - check for valid JSONPath syntax
-      const isValidPath =
-        /^\$(\.[a-zA-Z_][a-zA-Z0-9_]*|\[\d+\]|\[\*\]|\[.*?\])*$/.test(value) ||
-        value === '$' ||
-        /^\$(\.[a-zA-Z_][a-zA-Z0-9_]*|\[\?.*?\]|\[.*?\])*/.test(value);
-      setIsValid(isValidPath);
-    } catch {
-      setIsValid(false);
-    }
-  }, [value]);
+  // RFC 9535 validation with the position of the first syntax error
+  const validation = useMemo(() => validateJSONPath(value), [value]);
+  const isValid = validation.valid;
+
+  // Normalized paths of the nodes the expression currently selects
+  const matchedPaths = useMemo(() => {
+    if (!sampleData || !validation.valid) return new Set<string>();
+    return new Set(
+      queryJSONPath(validation.query, sampleData).map((node) => node.path)
+    );
+  }, [sampleData, validation]);
 
   const handlePatternSelect = (pattern: string) => {
     onChange(pattern);
   };
 
   const handleTest = () => {
-    if (!sampleData || !isValid) return;
+    if (!sampleData || !validation.valid) return;
 
     try {
-      // Simple JSONPath evaluation for demo purposes
-      // In a real implementation, you'd use a proper JSONPath library like jsonpath-plus
-      const result = evaluateSimpleJSONPath(sampleData, value);
-      setTestResult(result as string | object | null);
+      // A query yields a node list; show every matched value
+      setTestResult(evaluateJSONPath(validation.query, sampleData));
       onTest?.();
     } catch (error) {
       setTestResult(
@@ -112,44 +123,6 @@ function JSONPathBuilder({
     }
   };
 
-  // Simplified JSONPath evaluator for demo purposes
-  const evaluateSimpleJSONPath = (data: unknown, path: string): unknown => {
-    if (path === '$') return data;
-
-    const parts = path.slice(2).split('.'); // Remove '$.' prefix
-    let current = data;
-
-    for (const part of parts) {
-      if (!part) continue;
-
-      if (part.includes('[') && part.includes(']')) {
-        const bracketIndex = part.indexOf('[');
-        const prop = part.substring(0, bracketIndex);
-        const bracket = part.substring(bracketIndex + 1, part.length - 1);
-
-        if (prop && typeof current === 'object' && current !== null) {
-          current = (current as Record<string, unknown>)[prop];
-        }
-
-        if (bracket === '*') {
-          return Array.isArray(current) ? current : [];
-        } else if (!Number.isNaN(Number(bracket))) {
-          if (Array.isArray(current)) {
-            current = current[Number(bracket)];
-          }
-        }
-      } else {
-        if (typeof current === 'object' && current !== null) {
-          current = (current as Record<string, unknown>)[part];
-        }
-      }
-
-      if (current === undefined) break;
-    }
-
-    return current;
-  };
-
   return (
     <div className={cn('space-y-4', className)}>
       {/* Path Input */}
@@ -174,6 +147,7 @@ function JSONPathBuilder({
                 variant="destructive"
                 size="sm"
                 className="absolute -top-2 -right-2"
+                title={validation.error.message}
               >
                 Invalid
               </Badge>
@@ -185,6 +159,19 @@ function JSONPathBuilder({
             </Button>
           )}
         </div>
+        {!validation.valid && value.length > 0 && (
+          <div className="space-y-1 text-xs" role="alert">
+            <pre className="overflow-x-auto font-mono text-muted-foreground">
+              {value}
+              {'\n'}
+              {' '.repeat(validation.error.position)}^
+            </pre>
+            <p className="text-destructive">
+              {validation.error.reason} (position{' '}
+              {validation.error.position + 1})
+            </p>
+          </div>
+        )}
       </div>
 
       {/* Common Patterns */}
@@ -230,7 +217,17 @@ function JSONPathBuilder({
       {sampleData && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
-            <Label>Sample Data</Label>
+            <div className="flex items-center gap-2">
+              <Label>Sample Data</Label>
+              {isValid && value.length > 0 && (
+                <Badge
+                  variant={matchedPaths.size > 0 ? 'default' : 'secondary'}
+                  size="sm"
+                >
+                  {matchedPaths.size} match{matchedPaths.size !== 1 ? 'es' : ''}
+                </Badge>
+              )}
+            </div>
             <Button
               variant="ghost"
               size="sm"
@@ -243,11 +240,17 @@ function JSONPathBuilder({
           </div>
 
           {showSampleData && (
-            <Textarea
-              value={JSON.stringify(sampleData, null, 2)}
-              readOnly
-              className="font-mono text-sm min-h-[150px] resize-none bg-muted/50"
-            />
+            <>
+              <p className="text-xs text-muted-foreground">
+                Click a field to use its path. Array items offer all-items and
+                filter variants.
+              </p>
+              <JSONTreePicker
+                data={sampleData}
+                highlightedPaths={matchedPaths}
+                onSelect={onChange}
+              />
+            </>
           )}
         </div>
       )}
@@ -269,7 +272,13 @@ function JSONPathBuilder({
             <code>[*]</code> - All array elements
           </li>
           <li>
-            <code>[?(@.key == &quot;value&quot;)]</code> - Filter expression
+            <code>[1:3]</code> - Array slice
+          </li>
+          <li>
+            <code>..property</code> - Recursive descent
+          </li>
+          <li>
+            <code>[?@.key == &quot;value&quot;]</code> - Filter expression
           </li>
         </ul>
       </div>
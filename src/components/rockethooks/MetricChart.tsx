@@ -0,0 +1,343 @@
+import type * as React from 'react';
+import { useState } from 'react';
+import { formatTickValue, getChartDomain, scaleValue } from '@/lib/chartScale';
+import { cn } from '@/lib/utils';
+
+export interface MetricChartSeries {
+  key: string;
+  label: string;
+  /** Null marks a gap, e.g. a bucket without deliveries */
+  values: (number | null)[];
+  /** Text color class; the series is drawn in currentColor */
+  color?: string;
+}
+
+export interface MetricChartProps {
+  /** X axis label for each point */
+  labels: string[];
+  series: MetricChartSeries[];
+  type?: 'line' | 'bar';
+  /** Stack bar series on top of each other instead of side by side */
+  stacked?: boolean;
+  height?: number;
+  /** Fix the top of the Y axis, e.g. 100 for percentages */
+  maxValue?: number;
+  formatValue?: (value: number) => string;
+  className?: string;
+}
+
+// Plot coordinates; the SVG stretches to its container
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 100;
+const MAX_X_LABELS = 6;
+
+function defaultFormatValue(value: number): string {
+  return formatTickValue(value);
+}
+
+/**
+ * Split a series into runs of consecutive non-null points
+ */
+function toSegments(
+  values: (number | null)[],
+  toPoint: (index: number, value: number) => string
+): string[] {
+  const segments: string[] = [];
+  let current: string[] = [];
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current.join(' L '));
+      current = [];
+    } else {
+      current.push(toPoint(index, value));
+    }
+  });
+  if (current.length > 0) segments.push(current.join(' L '));
+  return segments;
+}
+
+/**
+ * MetricChart - full-size line or bar chart for time-bucketed metrics
+ *
+ * @example
+ * ```tsx
+ * <MetricChart
+ *   labels={['10:00', '11:00', '12:00']}
+ *   series={[{ key: 'calls', label: 'Events', values: [12, 30, 18] }]}
+ * />
+ * <MetricChart
+ *   type="bar"
+ *   stacked
+ *   labels={labels}
+ *   series={[
+ *     { key: 'ok', label: 'Delivered', values: ok, color: 'text-success' },
+ *     { key: 'err', label: 'Failed', values: failed, color: 'text-destructive' },
+ *   ]}
+ * />
+ * ```
+ */
+function MetricChart({
+  labels,
+  series,
+  type = 'line',
+  stacked = false,
+  height = 200,
+  maxValue,
+  formatValue = defaultFormatValue,
+  className,
+}: MetricChartProps) {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  const pointCount = labels.length;
+  const isStacked = type === 'bar' && stacked;
+
+  if (pointCount === 0 || series.length === 0) {
+    return (
+      <div
+        className={cn(
+          'flex items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground',
+          className
+        )}
+        style={{ height }}
+      >
+        No data for this period
+      </div>
+    );
+  }
+
+  const totals = labels.map((_, index) =>
+    series.reduce((sum, item) => sum + (item.values[index] ?? 0), 0)
+  );
+  const extent = isStacked
+    ? totals
+    : series.flatMap((item) =>
+        item.values.filter((value): value is number => value !== null)
+      );
+  const domain = getChartDomain(
+    maxValue === undefined ? extent : [...extent, maxValue]
+  );
+
+  const toY = (value: number) =>
+    VIEW_HEIGHT - scaleValue(value, domain) * VIEW_HEIGHT;
+  // Lines run edge to edge; bars sit in the middle of equal slots
+  const slotWidth = VIEW_WIDTH / pointCount;
+  const toX = (index: number) =>
+    type === 'bar'
+      ? (index + 0.5) * slotWidth
+      : pointCount === 1
+        ? VIEW_WIDTH / 2
+        : (index / (pointCount - 1)) * VIEW_WIDTH;
+
+  const labelStep = Math.ceil(pointCount / MAX_X_LABELS);
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - rect.left) / rect.width;
+    const index =
+      type === 'bar'
+        ? Math.floor(ratio * pointCount)
+        : Math.round(ratio * (pointCount - 1));
+    setHoveredIndex(Math.max(0, Math.min(pointCount - 1, index)));
+  };
+
+  const renderBars = () => {
+    const groupWidth = slotWidth * 0.7;
+    const barWidth = isStacked ? groupWidth : groupWidth / series.length;
+    return labels.map((label, index) => {
+      let stackBase = 0;
+      return (
+        <g key={label + String(index)}>
+          {series.map((item, seriesIndex) => {
+            const value = item.values[index] ?? 0;
+            const bottom = isStacked ? stackBase : 0;
+            const top = bottom + value;
+            stackBase = top;
+            const x =
+              toX(index) -
+              groupWidth / 2 +
+              (isStacked ? 0 : seriesIndex * barWidth);
+            return (
+              <rect
+                key={item.key}
+                x={x}
+                y={toY(top)}
+                width={Math.max(barWidth - 1, 1)}
+                height={Math.max(toY(bottom) - toY(top), 0)}
+                fill="currentColor"
+                className={cn(
+                  item.color ?? 'text-primary',
+                  hoveredIndex !== null &&
+                    hoveredIndex !== index &&
+                    'opacity-50'
+                )}
+              />
+            );
+          })}
+        </g>
+      );
+    });
+  };
+
+  const renderLines = () =>
+    series.map((item) => (
+      <g key={item.key} className={item.color ?? 'text-primary'}>
+        {toSegments(
+          item.values,
+          (index, value) => `${String(toX(index))},${String(toY(value))}`
+        ).map((segment) => (
+          <path
+            key={segment}
+            d={`M ${segment}`}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </g>
+    ));
+
+  const hoveredLabel = hoveredIndex !== null ? labels[hoveredIndex] : null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex gap-2">
+        {/* Y axis */}
+        <div className="relative w-10 shrink-0 text-right" style={{ height }}>
+          {domain.ticks.map((tick) => (
+            <span
+              key={tick}
+              className="absolute right-0 -translate-y-1/2 text-[10px] text-muted-foreground"
+              style={{
+                top: `${String((1 - scaleValue(tick, domain)) * 100)}%`,
+              }}
+            >
+              {formatValue(tick)}
+            </span>
+          ))}
+        </div>
+
+        <div className="relative min-w-0 flex-1">
+          <div className="relative" style={{ height }}>
+            <svg
+              viewBox={`0 0 ${String(VIEW_WIDTH)} ${String(VIEW_HEIGHT)}`}
+              preserveAspectRatio="none"
+              className="h-full w-full overflow-visible"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => {
+                setHoveredIndex(null);
+              }}
+              role="img"
+              aria-label={`${type === 'bar' ? 'Bar' : 'Line'} chart of ${series
+                .map((item) => item.label)
+                .join(', ')} over ${String(pointCount)} points`}
+            >
+              {domain.ticks.map((tick) => (
+                <line
+                  key={tick}
+                  x1={0}
+                  x2={VIEW_WIDTH}
+                  y1={toY(tick)}
+                  y2={toY(tick)}
+                  stroke="currentColor"
+                  className="text-border"
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+
+              {type === 'bar' ? renderBars() : renderLines()}
+
+              {type === 'line' && hoveredIndex !== null && (
+                <line
+                  x1={toX(hoveredIndex)}
+                  x2={toX(hoveredIndex)}
+                  y1={0}
+                  y2={VIEW_HEIGHT}
+                  stroke="currentColor"
+                  strokeDasharray="4 4"
+                  className="text-muted-foreground"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+
+            {/* Tooltip */}
+            {hoveredIndex !== null && hoveredLabel !== null && (
+              <div
+                className="pointer-events-none absolute top-0 z-10 min-w-32 rounded-md border bg-popover px-3 py-2 text-xs text-popover-foreground shadow-md"
+                style={{
+                  left: `${String((toX(hoveredIndex) / VIEW_WIDTH) * 100)}%`,
+                  transform:
+                    toX(hoveredIndex) > VIEW_WIDTH / 2
+                      ? 'translateX(calc(-100% - 8px))'
+                      : 'translateX(8px)',
+                }}
+              >
+                <div className="mb-1 font-medium">{hoveredLabel}</div>
+                {series.map((item) => {
+                  const value = item.values[hoveredIndex];
+                  return (
+                    <div
+                      key={item.key}
+                      className="flex items-center justify-between gap-4"
+                    >
+                      <span className="flex items-center gap-1.5">
+                        <span
+                          className={cn(
+                            'h-2 w-2 rounded-full bg-current',
+                            item.color ?? 'text-primary'
+                          )}
+                        />
+                        {item.label}
+                      </span>
+                      <span className="font-mono">
+                        {value == null ? '—' : formatValue(value)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* X axis */}
+          <div className="relative mt-1 h-4">
+            {labels.map((label, index) =>
+              index % labelStep === 0 ? (
+                <span
+                  key={label + String(index)}
+                  className="absolute -translate-x-1/2 whitespace-nowrap text-[10px] text-muted-foreground"
+                  style={{
+                    left: `${String((toX(index) / VIEW_WIDTH) * 100)}%`,
+                  }}
+                >
+                  {label}
+                </span>
+              ) : null
+            )}
+          </div>
+        </div>
+      </div>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-4 text-xs text-muted-foreground">
+          {series.map((item) => (
+            <span key={item.key} className="flex items-center gap-1.5">
+              <span
+                className={cn(
+                  'h-2 w-2 rounded-full bg-current',
+                  item.color ?? 'text-primary'
+                )}
+              />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { MetricChart };
@@ -1,17 +1,33 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Alert, AlertDescription } from '@/components/ui/Alert';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { Label } from '@/components/ui/Label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
 import { Textarea } from '@/components/ui/Textarea';
+import {
+  type FieldMapping,
+  findDuplicateTargets,
+  formatTemplate,
+  HELPERS,
+  mappingsToTemplate,
+  runTransformation,
+  templateToMappings,
+  validateTransformation,
+} from '@/lib/transform';
 import { cn } from '@/lib/utils';
+import { FieldMapper } from './FieldMapper';
 
 export interface TransformationEditorProps {
   mode: 'visual' | 'code';
   value: string;
   onChange: (value: string) => void;
+  /** Called after the editor switches between visual and code mode */
+  onModeChange?: (mode: 'visual' | 'code') => void;
   inputSchema?: object;
+  /** Input the transformation runs against for the live output preview */
+  sampleInput?: object;
+  /** Shown when there is no sampleInput to compute a preview from */
   outputPreview?: object;
   className?: string;
 }
@@ -26,7 +42,7 @@ export interface TransformationEditorProps {
  *   value="{ user: $.data.user.name, timestamp: $.timestamp }"
  *   onChange={(value) => setTransformation(value)}
  *   inputSchema={{ data: { user: { name: 'string' } }, timestamp: 'number' }}
- *   outputPreview={{ user: 'John Doe', timestamp: 1634567890 }}
+ *   sampleInput={{ data: { user: { name: 'John Doe' } }, timestamp: 1634567890 }}
  * />
  * ```
  */
@@ -34,60 +50,104 @@ function TransformationEditor({
   mode: initialMode = 'visual',
   value,
   onChange,
+  onModeChange,
   inputSchema,
+  sampleInput,
   outputPreview,
   className,
 }: TransformationEditorProps) {
-  const [currentMode, setCurrentMode] = useState<'visual' | 'code'>(
-    initialMode
+  // Visual rows parsed from the template; code that the visual editor cannot
+  // represent keeps the editor in code mode
+  const [mappings, setMappings] = useState<FieldMapping[]>(() => {
+    const parsed = templateToMappings(value);
+    return parsed.ok ? parsed.mappings : [];
+  });
+  const [currentMode, setCurrentMode] = useState<'visual' | 'code'>(() =>
+    initialMode === 'visual' && !templateToMappings(value).ok
+      ? 'code'
+      : initialMode
   );
-  const [isValid, setIsValid] = useState(true);
-  const [validationError, setValidationError] = useState<string | null>(null);
+  const [modeNotice, setModeNotice] = useState<string | null>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  // Last template serialized from the rows, to spot outside changes
+  const serializedRef = useRef(value);
 
-  // Validate JSON syntax
+  // Reload the rows when the value is replaced from outside in visual mode
   useEffect(() => {
-    if (currentMode === 'code' && value.trim()) {
-      try {
-        JSON.parse(value);
-        setIsValid(true);
-        setValidationError(null);
-      } catch (error) {
-        setIsValid(false);
-        setValidationError(
-          error instanceof Error ? error.message : 'Invalid JSON syntax'
-        );
-      }
+    if (currentMode !== 'visual' || value === serializedRef.current) return;
+    serializedRef.current = value;
+    const parsed = templateToMappings(value);
+    if (parsed.ok) {
+      setMappings(parsed.mappings);
     } else {
-      setIsValid(true);
-      setValidationError(null);
+      setCurrentMode('code');
+      setModeNotice(parsed.reason);
+      onModeChange?.('code');
     }
-  }, [value, currentMode]);
+  }, [value, currentMode, onModeChange]);
+
+  // Compile the template; syntax errors carry their line and column
+  const validation = useMemo(
+    () => (value.trim() ? validateTransformation(value) : null),
+    [value]
+  );
+  const isValid = validation?.valid ?? true;
+
+  // Live preview against the sample input; runtime errors null out a field
+  const result = useMemo(
+    () =>
+      validation?.valid && sampleInput
+        ? runTransformation(validation.transformation, sampleInput)
+        : null,
+    [validation, sampleInput]
+  );
+  const runtimeErrors = result?.errors ?? [];
+  const pickerData = sampleInput ?? inputSchema;
+  const preview = result ? result.output : outputPreview;
+
+  const errorLines = new Set(
+    validation?.valid === false
+      ? [validation.error.line]
+      : runtimeErrors.map((error) => error.line)
+  );
+  const lineNumbers = Array.from(
+    { length: value.split('\n').length },
+    (_, index) => index + 1
+  );
+
+  const handleMappingsChange = (next: FieldMapping[]) => {
+    setMappings(next);
+    const template = mappingsToTemplate(next);
+    serializedRef.current = template;
+    onChange(template);
+  };
 
   const handleModeChange = (newMode: 'visual' | 'code') => {
-    setCurrentMode(newMode);
+    if (newMode === currentMode) return;
 
-    // Convert between modes if needed
-    if (newMode === 'code' && currentMode === 'visual') {
-      // In a real implementation, convert visual rules to code
-      // For now, we'll just ensure proper JSON format
-      try {
-        if (value && !value.startsWith('{')) {
-          onChange(`{\n  ${value}\n}`);
-        }
-      } catch {
-        // Keep existing value if conversion fails
+    if (newMode === 'visual') {
+      const parsed = templateToMappings(value);
+      if (!parsed.ok) {
+        setModeNotice(parsed.reason);
+        return;
       }
+      setMappings(parsed.mappings);
+      serializedRef.current = value;
+    } else if (findDuplicateTargets(mappings).size > 0) {
+      // The template would keep only one of the duplicated fields
+      setModeNotice('Give every output field a unique name first');
+      return;
     }
+
+    setModeNotice(null);
+    setCurrentMode(newMode);
+    onModeChange?.(newMode);
   };
 
+  // Only reachable for templates that parse; the button is disabled otherwise
   const formatCode = () => {
-    try {
-      const parsed = JSON.parse(value) as unknown;
-      const formatted = JSON.stringify(parsed, null, 2);
-      onChange(formatted);
-    } catch {
-      // Do nothing if JSON is invalid
-    }
+    if (!value.trim()) return;
+    onChange(formatTemplate(value));
   };
 
   const sampleTransformations = [
@@ -124,6 +184,12 @@ function TransformationEditor({
               Syntax Error
             </Badge>
           )}
+          {isValid && runtimeErrors.length > 0 && (
+            <Badge variant="warning" size="sm">
+              {runtimeErrors.length} error
+              {runtimeErrors.length !== 1 ? 's' : ''}
+            </Badge>
+          )}
           <Tabs
             value={currentMode}
             onValueChange={(value) => {
@@ -142,11 +208,36 @@ function TransformationEditor({
         </div>
       </div>
 
+      {modeNotice && (
+        <Alert className="border-warning">
+          <AlertDescription className="text-sm">
+            <strong>Can&apos;t switch modes:</strong> {modeNotice}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Error Display */}
-      {validationError && (
+      {currentMode === 'code' && validation?.valid === false && (
         <Alert className="border-destructive">
           <AlertDescription className="text-sm">
-            <strong>Syntax Error:</strong> {validationError}
+            <strong>
+              Syntax Error on line {validation.error.line}, column{' '}
+              {validation.error.column}:
+            </strong>{' '}
+            {validation.error.reason}
+          </AlertDescription>
+        </Alert>
+      )}
+      {runtimeErrors.length > 0 && (
+        <Alert className="border-warning">
+          <AlertDescription className="text-sm">
+            <ul className="space-y-1">
+              {runtimeErrors.map((error) => (
+                <li key={`${String(error.line)}:${String(error.column)}`}>
+                  <strong>Line {error.line}:</strong> {error.reason}
+                </li>
+              ))}
+            </ul>
           </AlertDescription>
         </Alert>
       )}
@@ -154,44 +245,70 @@ function TransformationEditor({
       <Tabs value={currentMode} className="space-y-4">
         {/* Visual Mode */}
         <TabsContent value="visual" className="space-y-4 mt-0">
-          <div className="rounded-lg border p-4 bg-muted/30">
-            <div className="text-center text-muted-foreground py-8">
-              <div className="text-sm font-medium mb-2">Visual Editor</div>
-              <div className="text-xs">
-                Visual drag-and-drop transformation builder coming soon.
-                <br />
-                Switch to Code mode to edit transformations manually.
-              </div>
-            </div>
-          </div>
+          <FieldMapper
+            mappings={mappings}
+            onChange={handleMappingsChange}
+            {...(pickerData ? { sampleData: pickerData } : {})}
+          />
         </TabsContent>
 
         {/* Code Mode */}
         <TabsContent value="code" className="space-y-4 mt-0">
           <div className="space-y-2">
             <div className="flex items-center justify-between">
-              <Label htmlFor="transformation-code">Transformation JSON</Label>
+              <Label htmlFor="transformation-code">Transformation</Label>
               <Button
                 variant="ghost"
                 size="sm"
                 onClick={formatCode}
                 disabled={!isValid}
+                title={isValid ? undefined : 'Fix the syntax error to format'}
               >
                 Format
               </Button>
             </div>
-            <Textarea
-              id="transformation-code"
-              value={value}
-              onChange={(e) => {
-                onChange(e.target.value);
-              }}
+            <div
               className={cn(
-                'font-mono text-sm min-h-[200px] resize-none',
-                !isValid && 'border-destructive focus:border-destructive'
+                'flex overflow-hidden rounded-md border',
+                !isValid && 'border-destructive'
               )}
-              placeholder={placeholderText}
-            />
+            >
+              {/* Line numbers, with error lines marked */}
+              <div
+                ref={gutterRef}
+                aria-hidden="true"
+                className="select-none overflow-hidden border-r bg-muted/50 py-2 pr-2 pl-3 text-right font-mono text-sm leading-6 text-muted-foreground"
+              >
+                {lineNumbers.map((lineNumber) => (
+                  <div
+                    key={lineNumber}
+                    className={cn(
+                      errorLines.has(lineNumber) &&
+                        'font-semibold text-destructive'
+                    )}
+                  >
+                    {lineNumber}
+                  </div>
+                ))}
+              </div>
+              <Textarea
+                id="transformation-code"
+                value={value}
+                wrap="off"
+                spellCheck={false}
+                onChange={(e) => {
+                  onChange(e.target.value);
+                }}
+                onScroll={(e) => {
+                  if (gutterRef.current) {
+                    gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+                  }
+                }}
+                aria-invalid={!isValid}
+                className="font-mono text-sm leading-6 min-h-[200px] resize-none rounded-none border-0 shadow-none focus-visible:ring-0"
+                placeholder={placeholderText}
+              />
+            </div>
           </div>
 
           {/* Sample Transformations */}
@@ -234,11 +351,18 @@ function TransformationEditor({
       )}
 
       {/* Output Preview */}
-      {outputPreview && (
+      {preview !== undefined && (
         <div className="space-y-2">
-          <Label className="text-sm">Output Preview</Label>
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">Output Preview</Label>
+            {result && (
+              <Badge variant="secondary" size="sm">
+                Live
+              </Badge>
+            )}
+          </div>
           <Textarea
-            value={JSON.stringify(outputPreview, null, 2)}
+            value={JSON.stringify(preview, null, 2)}
             readOnly
             className="font-mono text-sm min-h-[100px] resize-none bg-success/5 border-success/20"
           />
@@ -265,7 +389,32 @@ function TransformationEditor({
             <code>&quot;field&quot;: &quot;$.input.value * 2&quot;</code> -
             Apply calculations
           </li>
+          <li>
+            <code>
+              &quot;field&quot;: &quot;$.a == 1 ? &apos;x&apos; :
+              &apos;y&apos;&quot;
+            </code>{' '}
+            - Conditional value
+          </li>
+          <li>
+            <code>
+              &quot;field&quot;: &quot;$.items[*].{'{'}id, label: name{'}'}
+              &quot;
+            </code>{' '}
+            - Project array items
+          </li>
+          <li>
+            <code>&quot;field&quot;: &quot;=upper($.name)&quot;</code> - Start
+            with <code>=</code> for expressions that don&apos;t begin with{' '}
+            <code>$</code>; use <code>$$</code> for a literal dollar sign
+          </li>
         </ul>
+        <p className="mt-2 text-xs">
+          <span className="font-medium">Helpers:</span>{' '}
+          {Object.values(HELPERS)
+            .map((helper) => helper.signature)
+            .join(', ')}
+        </p>
       </div>
     </div>
   );
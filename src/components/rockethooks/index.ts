@@ -12,7 +12,14 @@ export {
 // Re-export the WebhookEvent type from event-timeline
 export type { WebhookEvent } from './EventTimeline';
 export { EventTimeline, type EventTimelineProps } from './EventTimeline';
+export { FieldMapper, type FieldMapperProps } from './FieldMapper';
 export { JSONPathBuilder, type JSONPathBuilderProps } from './JsonpathBuilder';
+export { JSONTreePicker, type JSONTreePickerProps } from './JsonTreePicker';
+export {
+  MetricChart,
+  type MetricChartProps,
+  type MetricChartSeries,
+} from './MetricChart';
 export { Sparkline, type SparklineProps } from './Sparkline';
 export {
   TransformationEditor,
@@ -0,0 +1,219 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { addDays } from 'date-fns';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import {
+  type ApiKeyFormData,
+  apiKeyExpiryOptions,
+  apiKeyFormSchema,
+} from '@/lib/validations/apiKey';
+import {
+  API_KEY_SCOPE_LABELS,
+  API_KEY_SCOPES,
+  type ApiKeyScope,
+  type CreateApiKeyInput,
+} from '@/services/graphql/apiKeys';
+
+export interface ApiKeyFormDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback with the key input when the form is submitted */
+  onSubmit: (input: CreateApiKeyInput) => Promise<void>;
+}
+
+const expiryLabels: Record<ApiKeyFormData['expiresIn'], string> = {
+  never: 'Never',
+  '30d': 'In 30 days',
+  '90d': 'In 90 days',
+  '365d': 'In 1 year',
+};
+
+const expiryDays: Record<ApiKeyFormData['expiresIn'], number | null> = {
+  never: null,
+  '30d': 30,
+  '90d': 90,
+  '365d': 365,
+};
+
+// Read-only access is the safest starting point for a new key
+const DEFAULT_VALUES: ApiKeyFormData = {
+  name: '',
+  scopes: ['webhooks:read', 'endpoints:read', 'events:read'],
+  expiresIn: '90d',
+};
+
+/**
+ * ApiKeyFormDialog - name, scopes and expiry for a new API key
+ */
+export function ApiKeyFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+}: ApiKeyFormDialogProps) {
+  const form = useForm<ApiKeyFormData>({
+    resolver: zodResolver(apiKeyFormSchema),
+    mode: 'onChange',
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { reset } = form;
+
+  // Start from a blank key each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      reset(DEFAULT_VALUES);
+    }
+  }, [open, reset]);
+
+  const handleSubmit = async (values: ApiKeyFormData) => {
+    const days = expiryDays[values.expiresIn];
+    await onSubmit({
+      name: values.name.trim(),
+      scopes: values.scopes as ApiKeyScope[],
+      ...(days !== null && {
+        expiresAt: addDays(new Date(), days).toISOString(),
+      }),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New API key</DialogTitle>
+          <DialogDescription>
+            Keys authenticate requests to the RocketHooks API on behalf of this
+            organization.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="CI deploy pipeline" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scopes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Scopes</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {API_KEY_SCOPES.map((scope) => {
+                      const selected = field.value.includes(scope);
+                      return (
+                        <Button
+                          key={scope}
+                          type="button"
+                          size="sm"
+                          variant={selected ? 'default' : 'outline'}
+                          aria-pressed={selected}
+                          title={API_KEY_SCOPE_LABELS[scope]}
+                          onClick={() => {
+                            field.onChange(
+                              selected
+                                ? field.value.filter((s) => s !== scope)
+                                : [...field.value, scope]
+                            );
+                          }}
+                        >
+                          {scope}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="expiresIn"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {apiKeyExpiryOptions.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {expiryLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Expiring keys limit the damage if one leaks
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Creating...' : 'Create key'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { AlertTriangle, Check, Copy, KeyRound } from 'lucide-react';
+import { useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+
+export interface ApiKeySecretDialogProps {
+  /** Newly issued secret; null closes the dialog */
+  secret: string | null;
+  keyName?: string;
+  onClose: () => void;
+}
+
+/**
+ * ApiKeySecretDialog - shows a new key's secret the one time it is available
+ */
+export function ApiKeySecretDialog({
+  secret,
+  keyName,
+  onClose,
+}: ApiKeySecretDialogProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => {
+      setCopied(false);
+    }, 2000);
+  };
+
+  return (
+    <Dialog
+      open={secret !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-4 w-4" />
+            {keyName ? `Secret for "${keyName}"` : 'API key secret'}
+          </DialogTitle>
+          <DialogDescription>
+            Store this secret somewhere safe, such as your CI secret store.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Alert className="border-warning">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            This is the only time the full secret is shown. If you lose it,
+            rotate the key to get a new one.
+          </AlertDescription>
+        </Alert>
+
+        <div className="flex items-center gap-2">
+          <code className="flex-1 break-all rounded-md bg-muted px-3 py-2 font-mono text-xs">
+            {secret}
+          </code>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => void handleCopy()}
+            aria-label="Copy secret to clipboard"
+          >
+            {copied ? <Check /> : <Copy />}
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose}>I&apos;ve saved the secret</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
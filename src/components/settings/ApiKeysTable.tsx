@@ -0,0 +1,122 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import {
+  type ApiKey,
+  type ApiKeyStatus,
+  getApiKeyStatus,
+} from '@/services/graphql/apiKeys';
+
+export interface ApiKeysTableProps {
+  apiKeys: ApiKey[];
+  onRotate: (apiKey: ApiKey) => void;
+  onRevoke: (apiKey: ApiKey) => void;
+}
+
+const statusBadges: Record<
+  ApiKeyStatus,
+  { label: string; variant: 'success' | 'warning' | 'destructive' }
+> = {
+  active: { label: 'Active', variant: 'success' },
+  expiring: { label: 'Expiring', variant: 'warning' },
+  expired: { label: 'Expired', variant: 'destructive' },
+};
+
+/**
+ * ApiKeysTable - organization API keys with scopes, usage and expiry
+ */
+export function ApiKeysTable({
+  apiKeys,
+  onRotate,
+  onRevoke,
+}: ApiKeysTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Scopes</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Last used</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {apiKeys.map((apiKey) => {
+          const status = statusBadges[getApiKeyStatus(apiKey)];
+
+          return (
+            <TableRow key={apiKey.id}>
+              <TableCell>
+                <p className="text-sm font-medium">{apiKey.name}</p>
+                <code className="text-xs text-muted-foreground">
+                  {apiKey.prefix}…
+                </code>
+              </TableCell>
+              <TableCell>
+                <div className="flex max-w-xs flex-wrap gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary" size="sm">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                <Badge variant={status.variant} size="sm">
+                  {status.label}
+                </Badge>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {apiKey.expiresAt
+                    ? `Expires ${format(new Date(apiKey.expiresAt), 'MMM d, yyyy')}`
+                    : 'Never expires'}
+                </p>
+              </TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {apiKey.lastUsedAt
+                  ? formatDistanceToNow(new Date(apiKey.lastUsedAt), {
+                      addSuffix: true,
+                    })
+                  : 'Never'}
+                {apiKey.createdBy && <p>Created by {apiKey.createdBy}</p>}
+              </TableCell>
+              <TableCell className="text-right">
+                <div className="flex justify-end gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      onRotate(apiKey);
+                    }}
+                  >
+                    <RefreshCw />
+                    Rotate
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onRevoke(apiKey);
+                    }}
+                    aria-label={`Revoke ${apiKey.name}`}
+                  >
+                    <Trash2 className="text-destructive" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
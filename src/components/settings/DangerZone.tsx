@@ -0,0 +1,120 @@
+import { AlertTriangle } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/Card';
+import { Label } from '@/components/ui/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { Separator } from '@/components/ui/Separator';
+import { MEMBER_ROLES, type Member } from '@/services/graphql/team';
+
+export interface DangerZoneProps {
+  /** Members who could become owner; the current owner is excluded */
+  candidates: Member[];
+  /** Whether the signed-in user owns the organization */
+  isOwner: boolean;
+  onTransfer: (member: Member) => void;
+  onDelete: () => void;
+}
+
+/**
+ * DangerZone - ownership transfer and organization deletion
+ */
+export function DangerZone({
+  candidates,
+  isOwner,
+  onTransfer,
+  onDelete,
+}: DangerZoneProps) {
+  const [targetId, setTargetId] = useState('');
+  const target = candidates.find((member) => member.id === targetId);
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          Danger zone
+        </CardTitle>
+        <CardDescription>
+          {isOwner
+            ? 'These actions affect everyone in the organization'
+            : 'Only the organization owner can perform these actions'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div>
+            <h3 className="text-sm font-medium">Transfer ownership</h3>
+            <p className="text-sm text-muted-foreground">
+              The new owner gets full control. You will become an admin.
+            </p>
+          </div>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="transfer-owner">New owner</Label>
+              <Select
+                value={targetId}
+                onValueChange={setTargetId}
+                disabled={!isOwner || candidates.length === 0}
+              >
+                <SelectTrigger id="transfer-owner" className="w-full">
+                  <SelectValue
+                    placeholder={
+                      candidates.length === 0
+                        ? 'Invite a member first'
+                        : 'Select a member'
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name ?? member.email} (
+                      {MEMBER_ROLES[member.role].label})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              disabled={!isOwner || !target}
+              onClick={() => {
+                if (target) onTransfer(target);
+              }}
+            >
+              Transfer ownership
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h3 className="text-sm font-medium">Delete organization</h3>
+            <p className="text-sm text-muted-foreground">
+              Permanently removes all endpoints, webhooks, events and members.
+              This cannot be undone.
+            </p>
+          </div>
+          <Button variant="destructive" disabled={!isOwner} onClick={onDelete}>
+            Delete organization
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
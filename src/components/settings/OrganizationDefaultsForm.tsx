@@ -0,0 +1,238 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { COMMON_TIMEZONES } from '@/lib/timezones';
+import {
+  type OrganizationDefaultsFormData,
+  organizationDefaultsSchema,
+} from '@/lib/validations/organization';
+import { backoffStrategies, parseDelayList } from '@/lib/validations/webhook';
+import type { OrganizationDefaults } from '@/services/graphql/organization';
+
+export interface OrganizationDefaultsFormProps {
+  defaults: OrganizationDefaults;
+  /** Callback with the parsed defaults when the form is saved */
+  onSubmit: (defaults: OrganizationDefaults) => Promise<void>;
+}
+
+// Values a fresh organization starts with, offered by "Reset defaults"
+const FACTORY_DEFAULTS: OrganizationDefaultsFormData = {
+  timezone: 'UTC',
+  pollingInterval: 60,
+  retryPolicy: {
+    maxRetries: 3,
+    backoffStrategy: 'exponential',
+    retryDelays: '',
+  },
+};
+
+function toFormValues(
+  defaults: OrganizationDefaults
+): OrganizationDefaultsFormData {
+  return {
+    timezone: defaults.timezone,
+    pollingInterval: defaults.pollingInterval,
+    retryPolicy: {
+      maxRetries: defaults.retryPolicy.maxRetries,
+      backoffStrategy: defaults.retryPolicy.backoffStrategy,
+      retryDelays: defaults.retryPolicy.retryDelays.join(', '),
+    },
+  };
+}
+
+/**
+ * OrganizationDefaultsForm - timezone, polling interval and retry policy
+ * applied to new endpoints and webhooks
+ */
+export function OrganizationDefaultsForm({
+  defaults,
+  onSubmit,
+}: OrganizationDefaultsFormProps) {
+  const form = useForm<OrganizationDefaultsFormData>({
+    resolver: zodResolver(organizationDefaultsSchema),
+    mode: 'onChange',
+    defaultValues: toFormValues(defaults),
+  });
+
+  const { reset } = form;
+
+  // Pick up saved values, including ones changed elsewhere
+  useEffect(() => {
+    reset(toFormValues(defaults));
+  }, [defaults, reset]);
+
+  const handleSubmit = async (values: OrganizationDefaultsFormData) => {
+    await onSubmit({
+      timezone: values.timezone,
+      pollingInterval: values.pollingInterval,
+      retryPolicy: {
+        maxRetries: values.retryPolicy.maxRetries,
+        backoffStrategy: values.retryPolicy.backoffStrategy,
+        retryDelays: parseDelayList(values.retryPolicy.retryDelays) ?? [],
+      },
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="timezone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Timezone</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {COMMON_TIMEZONES.map((timezone) => (
+                      <SelectItem key={timezone.value} value={timezone.value}>
+                        {timezone.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Used for schedules and timestamps in reports
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="pollingInterval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Polling interval (seconds)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={10}
+                    {...field}
+                    onChange={(e) => {
+                      field.onChange(e.target.valueAsNumber);
+                    }}
+                  />
+                </FormControl>
+                <FormDescription>
+                  How often new endpoints are checked
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium">Retry policy</h3>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <FormField
+              control={form.control}
+              name="retryPolicy.maxRetries"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max retries</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={10}
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e.target.valueAsNumber);
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="retryPolicy.backoffStrategy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Backoff</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {backoffStrategies.map((strategy) => (
+                        <SelectItem key={strategy} value={strategy}>
+                          {strategy}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="retryPolicy.retryDelays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Custom delays (ms)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="1000, 5000, 30000" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={form.formState.isSubmitting}
+            onClick={() => {
+              reset(FACTORY_DEFAULTS, { keepDefaultValues: true });
+            }}
+          >
+            Reset defaults
+          </Button>
+          <Button
+            type="submit"
+            disabled={!form.formState.isDirty || form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting ? 'Saving...' : 'Save configuration'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,119 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  type OrganizationGeneralFormData,
+  organizationGeneralSchema,
+} from '@/lib/validations/organization';
+import type { Organization } from '@/services/graphql/organization';
+
+export interface OrganizationGeneralFormProps {
+  organization: Organization;
+  /** Callback with the trimmed name and domain when the form is saved */
+  onSubmit: (values: OrganizationGeneralFormData) => Promise<void>;
+}
+
+/**
+ * OrganizationGeneralForm - organization name and domain
+ */
+export function OrganizationGeneralForm({
+  organization,
+  onSubmit,
+}: OrganizationGeneralFormProps) {
+  const form = useForm<OrganizationGeneralFormData>({
+    resolver: zodResolver(organizationGeneralSchema),
+    mode: 'onChange',
+    defaultValues: {
+      name: organization.name,
+      domain: organization.domain ?? '',
+    },
+  });
+
+  const { reset } = form;
+
+  // Pick up saved values, including ones changed elsewhere
+  useEffect(() => {
+    reset({
+      name: organization.name,
+      domain: organization.domain ?? '',
+    });
+  }, [organization.name, organization.domain, reset]);
+
+  const handleSubmit = async (values: OrganizationGeneralFormData) => {
+    await onSubmit({
+      name: values.name.trim(),
+      domain: values.domain.trim().toLowerCase(),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Organization name</FormLabel>
+              <FormControl>
+                <Input placeholder="Acme Corp" {...field} />
+              </FormControl>
+              <FormDescription>
+                How your organization appears throughout RocketHooks
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="domain"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Domain</FormLabel>
+              <FormControl>
+                <Input placeholder="acme.com" {...field} />
+              </FormControl>
+              <FormDescription>
+                Used to suggest this organization to teammates who sign up with
+                the same email domain
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!form.formState.isDirty || form.formState.isSubmitting}
+            onClick={() => {
+              reset();
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={!form.formState.isDirty || form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting ? 'Saving...' : 'Save changes'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
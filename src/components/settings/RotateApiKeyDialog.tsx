@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { Label } from '@/components/ui/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import type { ApiKey } from '@/services/graphql/apiKeys';
+
+export interface RotateApiKeyDialogProps {
+  /** Key being rotated; null closes the dialog */
+  apiKey: ApiKey | null;
+  onOpenChange: (open: boolean) => void;
+  /** Callback with how long the old secret should keep working */
+  onConfirm: (apiKey: ApiKey, overlapHours: number) => Promise<void>;
+}
+
+const overlapOptions = [
+  { hours: 0, label: 'Revoke the old secret immediately' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 168, label: '7 days' },
+] as const;
+
+const DEFAULT_OVERLAP_HOURS = 24;
+
+/**
+ * RotateApiKeyDialog - issue a new secret with an overlap window for the old one
+ */
+export function RotateApiKeyDialog({
+  apiKey,
+  onOpenChange,
+  onConfirm,
+}: RotateApiKeyDialogProps) {
+  const [overlapHours, setOverlapHours] = useState(DEFAULT_OVERLAP_HOURS);
+  const [isRotating, setIsRotating] = useState(false);
+
+  useEffect(() => {
+    if (apiKey) {
+      setOverlapHours(DEFAULT_OVERLAP_HOURS);
+    }
+  }, [apiKey]);
+
+  const handleConfirm = async () => {
+    if (!apiKey) return;
+    setIsRotating(true);
+    try {
+      await onConfirm(apiKey, overlapHours);
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <Dialog open={apiKey !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rotate {apiKey?.name}</DialogTitle>
+          <DialogDescription>
+            A new secret is issued right away. Keep the old one working long
+            enough to update every client that uses it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="rotate-overlap">Old secret stays valid for</Label>
+          <Select
+            value={String(overlapHours)}
+            onValueChange={(value) => {
+              setOverlapHours(Number(value));
+            }}
+          >
+            <SelectTrigger id="rotate-overlap" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {overlapOptions.map((option) => (
+                <SelectItem key={option.hours} value={String(option.hours)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={isRotating}
+            onClick={() => {
+              onOpenChange(false);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button disabled={isRotating} onClick={() => void handleConfirm()}>
+            {isRotating ? 'Rotating...' : 'Rotate key'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
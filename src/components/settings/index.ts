@@ -0,0 +1,26 @@
+/**
+ * Organization settings components
+ */
+
+export {
+  ApiKeyFormDialog,
+  type ApiKeyFormDialogProps,
+} from './ApiKeyFormDialog';
+export {
+  ApiKeySecretDialog,
+  type ApiKeySecretDialogProps,
+} from './ApiKeySecretDialog';
+export { ApiKeysTable, type ApiKeysTableProps } from './ApiKeysTable';
+export { DangerZone, type DangerZoneProps } from './DangerZone';
+export {
+  OrganizationDefaultsForm,
+  type OrganizationDefaultsFormProps,
+} from './OrganizationDefaultsForm';
+export {
+  OrganizationGeneralForm,
+  type OrganizationGeneralFormProps,
+} from './OrganizationGeneralForm';
+export {
+  RotateApiKeyDialog,
+  type RotateApiKeyDialogProps,
+} from './RotateApiKeyDialog';
@@ -0,0 +1,121 @@
+import { formatDistanceToNow } from 'date-fns';
+import { RotateCw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import {
+  getInvitationStatus,
+  type Invitation,
+  MEMBER_ROLES,
+} from '@/services/graphql/team';
+
+export interface InvitationsTableProps {
+  invitations: Invitation[];
+  /** Whether the signed-in user may resend and revoke invitations */
+  canManage: boolean;
+  /** Invitation whose resend is in flight */
+  resendingInvitationId?: string | null;
+  onResend: (invitation: Invitation) => void;
+  onRevoke: (invitation: Invitation) => void;
+}
+
+/**
+ * InvitationsTable - outstanding invitations with their pending or expired state
+ */
+export function InvitationsTable({
+  invitations,
+  canManage,
+  resendingInvitationId,
+  onResend,
+  onRevoke,
+}: InvitationsTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Email</TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Invited</TableHead>
+          {canManage && <TableHead className="text-right">Actions</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {invitations.map((invitation) => {
+          const status = getInvitationStatus(invitation);
+          const expiresAt = formatDistanceToNow(
+            new Date(invitation.expiresAt),
+            { addSuffix: true }
+          );
+
+          return (
+            <TableRow key={invitation.id}>
+              <TableCell className="text-sm font-medium">
+                {invitation.email}
+              </TableCell>
+              <TableCell>
+                <Badge variant="secondary" size="sm">
+                  {MEMBER_ROLES[invitation.role].label}
+                </Badge>
+              </TableCell>
+              <TableCell>
+                {status === 'expired' ? (
+                  <Badge variant="warning" size="sm">
+                    Expired
+                  </Badge>
+                ) : (
+                  <Badge variant="info" size="sm">
+                    Pending
+                  </Badge>
+                )}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {status === 'expired' ? 'Expired' : 'Expires'} {expiresAt}
+                </p>
+              </TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(invitation.invitedAt), {
+                  addSuffix: true,
+                })}
+                {invitation.invitedBy && <p>by {invitation.invitedBy}</p>}
+              </TableCell>
+              {canManage && (
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={resendingInvitationId === invitation.id}
+                      onClick={() => {
+                        onResend(invitation);
+                      }}
+                    >
+                      <RotateCw />
+                      Resend
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        onRevoke(invitation);
+                      }}
+                      aria-label={`Revoke invitation for ${invitation.email}`}
+                    >
+                      <X className="text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              )}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,161 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import {
+  type InviteMemberFormData,
+  inviteMemberSchema,
+} from '@/lib/validations/team';
+import { ASSIGNABLE_ROLES, MEMBER_ROLES } from '@/services/graphql/team';
+
+export interface InviteMemberDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback with the normalized email and role when the form is submitted */
+  onSubmit: (values: InviteMemberFormData) => Promise<void>;
+}
+
+const DEFAULT_VALUES: InviteMemberFormData = {
+  email: '',
+  role: 'developer',
+};
+
+/**
+ * InviteMemberDialog - invite someone to the organization by email
+ */
+export function InviteMemberDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+}: InviteMemberDialogProps) {
+  const form = useForm<InviteMemberFormData>({
+    resolver: zodResolver(inviteMemberSchema),
+    mode: 'onChange',
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { reset } = form;
+
+  // Start from a blank invitation each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      reset(DEFAULT_VALUES);
+    }
+  }, [open, reset]);
+
+  const handleSubmit = async (values: InviteMemberFormData) => {
+    await onSubmit({
+      email: values.email.trim().toLowerCase(),
+      role: values.role,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invite member</DialogTitle>
+          <DialogDescription>
+            We&apos;ll email an invitation link that expires after 7 days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="teammate@company.com"
+                      autoComplete="off"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ASSIGNABLE_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {MEMBER_ROLES[role].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {MEMBER_ROLES[field.value].description}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Sending...' : 'Send invitation'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
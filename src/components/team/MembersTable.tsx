@@ -0,0 +1,169 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import {
+  ASSIGNABLE_ROLES,
+  MEMBER_ROLES,
+  type Member,
+  type UpdateMemberRoleInput,
+} from '@/services/graphql/team';
+
+export interface MembersTableProps {
+  members: Member[];
+  /** Member id of the signed-in user, whose own row cannot be changed */
+  currentMemberId?: string | null;
+  /** Whether the signed-in user may change roles and remove members */
+  canManage: boolean;
+  /** Member whose role change is in flight */
+  updatingMemberId?: string | null;
+  onRoleChange: (member: Member, role: UpdateMemberRoleInput['role']) => void;
+  onRemove: (member: Member) => void;
+}
+
+function getInitials(member: Member): string {
+  const source = member.name ?? member.email;
+  return source
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join('');
+}
+
+/**
+ * MembersTable - organization members with inline role changes
+ */
+export function MembersTable({
+  members,
+  currentMemberId,
+  canManage,
+  updatingMemberId,
+  onRoleChange,
+  onRemove,
+}: MembersTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Member</TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead>Joined</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {members.map((member) => {
+          const isSelf = member.id === currentMemberId;
+          // The owner is changed by transferring ownership, not from this table
+          const isEditable = canManage && !isSelf && member.role !== 'owner';
+
+          return (
+            <TableRow key={member.id}>
+              <TableCell>
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    {member.avatarUrl && (
+                      <AvatarImage
+                        src={member.avatarUrl}
+                        alt={member.name ?? member.email}
+                      />
+                    )}
+                    <AvatarFallback className="text-xs font-medium">
+                      {getInitials(member)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-2 text-sm font-medium">
+                      {member.name ?? member.email}
+                      {isSelf && (
+                        <Badge variant="outline" size="sm">
+                          You
+                        </Badge>
+                      )}
+                    </p>
+                    {member.name && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {member.email}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </TableCell>
+              <TableCell>
+                {isEditable ? (
+                  <Select
+                    value={member.role}
+                    disabled={updatingMemberId === member.id}
+                    onValueChange={(role) => {
+                      onRoleChange(
+                        member,
+                        role as UpdateMemberRoleInput['role']
+                      );
+                    }}
+                  >
+                    <SelectTrigger
+                      className="w-36"
+                      aria-label={`Role for ${member.email}`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ASSIGNABLE_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {MEMBER_ROLES[role].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge
+                    variant={member.role === 'owner' ? 'default' : 'secondary'}
+                    size="sm"
+                  >
+                    {MEMBER_ROLES[member.role].label}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(member.joinedAt), {
+                  addSuffix: true,
+                })}
+              </TableCell>
+              <TableCell className="text-right">
+                {isEditable && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onRemove(member);
+                    }}
+                    aria-label={`Remove ${member.email}`}
+                  >
+                    <Trash2 className="text-destructive" />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
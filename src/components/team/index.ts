@@ -0,0 +1,13 @@
+/**
+ * Team management components
+ */
+
+export {
+  InvitationsTable,
+  type InvitationsTableProps,
+} from './InvitationsTable';
+export {
+  InviteMemberDialog,
+  type InviteMemberDialogProps,
+} from './InviteMemberDialog';
+export { MembersTable, type MembersTableProps } from './MembersTable';
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { Switch } from '@/components/ui/Switch';
+import type { Webhook } from '@/services/graphql/webhooks';
+
+export interface AttachWebhooksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  webhooks: Webhook[];
+  /** Webhooks the transformation is attached to when the dialog opens */
+  attachedIds: string[];
+  /** Callback with the complete set of selected webhook ids */
+  onSubmit: (webhookIds: string[]) => Promise<void>;
+}
+
+/**
+ * AttachWebhooksDialog - choose which webhooks run a transformation
+ */
+export function AttachWebhooksDialog({
+  open,
+  onOpenChange,
+  webhooks,
+  attachedIds,
+  onSubmit,
+}: AttachWebhooksDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isPending, setIsPending] = useState(false);
+
+  // Start from the saved attachments whenever the dialog is reopened
+  useEffect(() => {
+    if (open) setSelected(new Set(attachedIds));
+  }, [open, attachedIds]);
+
+  const toggle = (id: string, attached: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (attached) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setIsPending(true);
+    try {
+      await onSubmit([...selected]);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Attach to webhooks</DialogTitle>
+          <DialogDescription>
+            Deliveries from the selected webhooks are transformed before they
+            are sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        {webhooks.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No webhooks to attach to yet
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {webhooks.map((webhook) => (
+              <li
+                key={webhook.id}
+                className="flex items-center justify-between gap-4 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{webhook.name}</p>
+                  <p className="truncate font-mono text-xs text-muted-foreground">
+                    {webhook.url}
+                  </p>
+                </div>
+                <Switch
+                  checked={selected.has(webhook.id)}
+                  onCheckedChange={(checked) => {
+                    toggle(webhook.id, checked);
+                  }}
+                  aria-label={`Attach to ${webhook.name}`}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              onOpenChange(false);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void handleSubmit()}
+            disabled={isPending}
+          >
+            {isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
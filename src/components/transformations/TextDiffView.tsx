@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import { countDiffLines, diffLines, type TextDiffKind } from '@/lib/textDiff';
+import { cn } from '@/lib/utils';
+
+export interface TextDiffViewProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+const KIND_STYLES: Record<TextDiffKind, { marker: string; className: string }> =
+  {
+    unchanged: { marker: ' ', className: '' },
+    added: { marker: '+', className: 'bg-success/10 text-success' },
+    removed: { marker: '-', className: 'bg-destructive/10 text-destructive' },
+  };
+
+/**
+ * TextDiffView - unified line diff with old and new line numbers
+ */
+export function TextDiffView({ before, after, className }: TextDiffViewProps) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const stats = countDiffLines(lines);
+
+  if (stats.added === 0 && stats.removed === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        These versions are identical
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="text-sm text-muted-foreground">
+        <span className="text-success">+{stats.added}</span>{' '}
+        <span className="text-destructive">-{stats.removed}</span> line
+        {stats.added + stats.removed !== 1 ? 's' : ''} changed
+      </p>
+      <div className="overflow-x-auto rounded-md border font-mono text-xs">
+        <table className="w-full border-collapse">
+          <tbody>
+            {lines.map((line) => {
+              const style = KIND_STYLES[line.kind];
+              return (
+                <tr
+                  key={`${String(line.beforeLine)}:${String(line.afterLine)}`}
+                  className={style.className}
+                >
+                  <td className="w-10 select-none px-2 text-right text-muted-foreground">
+                    {line.beforeLine}
+                  </td>
+                  <td className="w-10 select-none px-2 text-right text-muted-foreground">
+                    {line.afterLine}
+                  </td>
+                  <td className="w-4 select-none">{style.marker}</td>
+                  <td className="whitespace-pre pr-2">{line.text}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import {
+  type TransformationFormData,
+  transformationFormSchema,
+} from '@/lib/validations/transformation';
+import type { Transformation } from '@/services/graphql/transformations';
+
+export interface TransformationFormDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Transformation being renamed; omit to create a new transformation */
+  transformation?: Transformation | null;
+  /** Callback with the trimmed details when the form is submitted */
+  onSubmit: (values: TransformationFormData) => Promise<void>;
+}
+
+const DEFAULT_VALUES: TransformationFormData = {
+  name: '',
+  description: '',
+};
+
+/**
+ * TransformationFormDialog - name and description of a transformation
+ */
+export function TransformationFormDialog({
+  open,
+  onOpenChange,
+  transformation,
+  onSubmit,
+}: TransformationFormDialogProps) {
+  const isEditing = Boolean(transformation);
+
+  const form = useForm<TransformationFormData>({
+    resolver: zodResolver(transformationFormSchema),
+    mode: 'onChange',
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { reset } = form;
+
+  // Reset the form whenever the dialog opens for a different transformation
+  useEffect(() => {
+    if (open) {
+      reset(
+        transformation
+          ? {
+              name: transformation.name,
+              description: transformation.description ?? '',
+            }
+          : DEFAULT_VALUES
+      );
+    }
+  }, [open, transformation, reset]);
+
+  const handleSubmit = async (values: TransformationFormData) => {
+    await onSubmit({
+      name: values.name.trim(),
+      description: values.description.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit transformation' : 'New transformation'}
+          </DialogTitle>
+          <DialogDescription>
+            Transformations reshape event payloads before they are delivered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Slack order summary" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What the output is used for"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting
+                  ? 'Saving...'
+                  : isEditing
+                    ? 'Save changes'
+                    : 'Create transformation'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
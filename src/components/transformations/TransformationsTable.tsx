@@ -0,0 +1,112 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import type { Transformation } from '@/services/graphql/transformations';
+
+export interface TransformationsTableProps {
+  transformations: Transformation[];
+  /** Omit to hide the edit action */
+  onEdit?: (transformation: Transformation) => void;
+  /** Omit to hide the delete action */
+  onDelete?: (transformation: Transformation) => void;
+}
+
+/**
+ * TransformationsTable - the transformations library with row actions
+ */
+export function TransformationsTable({
+  transformations,
+  onEdit,
+  onDelete,
+}: TransformationsTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Version</TableHead>
+          <TableHead>Webhooks</TableHead>
+          <TableHead>Last updated</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transformations.map((transformation) => (
+          <TableRow key={transformation.id}>
+            <TableCell>
+              <Link
+                to={`/transformations/${transformation.id}`}
+                className="font-medium hover:underline"
+              >
+                {transformation.name}
+              </Link>
+              {transformation.description && (
+                <p className="text-xs text-muted-foreground truncate max-w-[320px]">
+                  {transformation.description}
+                </p>
+              )}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline" size="sm">
+                v{transformation.currentVersion}
+              </Badge>
+            </TableCell>
+            <TableCell>
+              {transformation.webhookIds.length > 0 ? (
+                <Badge variant="secondary" size="sm">
+                  {transformation.webhookIds.length} attached
+                </Badge>
+              ) : (
+                <span className="text-xs text-muted-foreground">None</span>
+              )}
+            </TableCell>
+            <TableCell className="text-xs text-muted-foreground">
+              {formatDistanceToNow(
+                new Date(transformation.updatedAt ?? transformation.createdAt),
+                { addSuffix: true }
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              <div className="flex justify-end gap-1">
+                {onEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onEdit(transformation);
+                    }}
+                    aria-label={`Edit ${transformation.name}`}
+                  >
+                    <Pencil />
+                  </Button>
+                )}
+                {onDelete && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onDelete(transformation);
+                    }}
+                    aria-label={`Delete ${transformation.name}`}
+                  >
+                    <Trash2 className="text-destructive" />
+                  </Button>
+                )}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,156 @@
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { useState } from 'react';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Label } from '@/components/ui/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import type { TransformationVersion } from '@/services/graphql/transformations';
+import { TextDiffView } from './TextDiffView';
+
+export interface VersionHistoryProps {
+  /** Versions newest first */
+  versions: TransformationVersion[];
+  currentVersion: number;
+  /** Omit to hide rollback, e.g. for members who cannot edit */
+  onRollback?: (version: TransformationVersion) => void;
+}
+
+/**
+ * VersionHistory - saved versions of a transformation with a diff between
+ * any two of them
+ */
+export function VersionHistory({
+  versions,
+  currentVersion,
+  onRollback,
+}: VersionHistoryProps) {
+  // Compare the current version with the one before it until the user picks
+  const [selection, setSelection] = useState<{
+    base: number;
+    target: number;
+  } | null>(null);
+
+  const base =
+    selection?.base ?? versions[1]?.version ?? versions[0]?.version ?? 0;
+  const target = selection?.target ?? currentVersion;
+
+  const baseVersion = versions.find((version) => version.version === base);
+  const targetVersion = versions.find((version) => version.version === target);
+
+  if (versions.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No versions saved yet
+      </p>
+    );
+  }
+
+  const renderVersionSelect = (
+    id: string,
+    value: number,
+    onValueChange: (version: number) => void
+  ) => (
+    <Select
+      value={String(value)}
+      onValueChange={(next) => {
+        onValueChange(Number(next));
+      }}
+    >
+      <SelectTrigger id={id} className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.version} value={String(version.version)}>
+            v{version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <ul className="divide-y rounded-md border">
+        {versions.map((version) => (
+          <li
+            key={version.version}
+            className="flex items-center justify-between gap-4 p-3"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-sm font-medium">
+                  v{version.version}
+                </span>
+                {version.version === currentVersion && (
+                  <Badge variant="success" size="sm">
+                    Current
+                  </Badge>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(version.createdAt), 'MMM d, yyyy HH:mm')}
+                  {version.createdBy && ` by ${version.createdBy}`}
+                </span>
+              </div>
+              {version.message && (
+                <p className="truncate text-sm text-muted-foreground">
+                  {version.message}
+                </p>
+              )}
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSelection({ base: version.version, target });
+                }}
+              >
+                Compare
+              </Button>
+              {onRollback && version.version !== currentVersion && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    onRollback(version);
+                  }}
+                >
+                  <History />
+                  Roll back
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <section className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label htmlFor="diff-base" className="text-sm">
+            Compare
+          </Label>
+          {renderVersionSelect('diff-base', base, (version) => {
+            setSelection({ base: version, target });
+          })}
+          <Label htmlFor="diff-target" className="text-sm">
+            with
+          </Label>
+          {renderVersionSelect('diff-target', target, (version) => {
+            setSelection({ base, target: version });
+          })}
+        </div>
+        {baseVersion && targetVersion && (
+          <TextDiffView before={baseVersion.code} after={targetVersion.code} />
+        )}
+      </section>
+    </div>
+  );
+}
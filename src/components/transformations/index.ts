@@ -0,0 +1,18 @@
+/**
+ * Transformations library components
+ */
+
+export {
+  AttachWebhooksDialog,
+  type AttachWebhooksDialogProps,
+} from './AttachWebhooksDialog';
+export { TextDiffView, type TextDiffViewProps } from './TextDiffView';
+export {
+  TransformationFormDialog,
+  type TransformationFormDialogProps,
+} from './TransformationFormDialog';
+export {
+  TransformationsTable,
+  type TransformationsTableProps,
+} from './TransformationsTable';
+export { VersionHistory, type VersionHistoryProps } from './VersionHistory';
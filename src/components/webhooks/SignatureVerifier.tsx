@@ -0,0 +1,145 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { type ChangeEvent, useEffect, useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Textarea } from '@/components/ui/Textarea';
+import {
+  SIGNATURE_HEADER,
+  SIGNATURE_TOLERANCE_SECONDS,
+  type SignatureVerificationResult,
+  TIMESTAMP_HEADER,
+  verifySignature,
+} from '@/lib/signing';
+
+export interface SignatureVerifierProps {
+  /** Secret to prefill; it can still be overridden in the form */
+  secret?: string | null;
+}
+
+const failureMessages: Record<
+  Extract<SignatureVerificationResult, { valid: false }>['reason'],
+  string
+> = {
+  'malformed-header': `The ${SIGNATURE_HEADER} value should contain one or more v1=<hex digest> entries.`,
+  'invalid-timestamp': `The ${TIMESTAMP_HEADER} value should be a Unix timestamp in seconds.`,
+  'stale-timestamp': `The timestamp is more than ${String(SIGNATURE_TOLERANCE_SECONDS / 60)} minutes from now, so receivers reject it as a possible replay. Check a delivery received within that window.`,
+  mismatch:
+    'The signature does not match. Check that the payload is the raw body exactly as received and that the timestamp and secret are correct.',
+};
+
+/**
+ * SignatureVerifier - checks a pasted delivery against a signing secret
+ */
+export function SignatureVerifier({ secret }: SignatureVerifierProps) {
+  const [secretValue, setSecretValue] = useState(secret ?? '');
+  const [timestamp, setTimestamp] = useState('');
+  const [header, setHeader] = useState('');
+  const [payload, setPayload] = useState('');
+  const [result, setResult] = useState<SignatureVerificationResult | null>(
+    null
+  );
+
+  useEffect(() => {
+    setSecretValue(secret ?? '');
+  }, [secret]);
+
+  // A stale verdict is misleading once any input changes
+  const updateField =
+    (setter: (value: string) => void) =>
+    (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      setter(e.target.value);
+      setResult(null);
+    };
+
+  const canVerify =
+    secretValue.length > 0 && timestamp.trim().length > 0 && header.length > 0;
+
+  const handleVerify = async () => {
+    setResult(
+      await verifySignature({
+        secret: secretValue,
+        timestamp,
+        payload,
+        header,
+      })
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="verify-secret">Signing secret</Label>
+        <Input
+          id="verify-secret"
+          type="password"
+          autoComplete="off"
+          className="font-mono"
+          value={secretValue}
+          onChange={updateField(setSecretValue)}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="verify-timestamp">{TIMESTAMP_HEADER}</Label>
+          <Input
+            id="verify-timestamp"
+            placeholder="1767225600"
+            className="font-mono"
+            value={timestamp}
+            onChange={updateField(setTimestamp)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="verify-header">{SIGNATURE_HEADER}</Label>
+          <Input
+            id="verify-header"
+            placeholder="v1=5d41402abc4b2a76…"
+            className="font-mono"
+            value={header}
+            onChange={updateField(setHeader)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="verify-payload">Raw payload</Label>
+        <Textarea
+          id="verify-payload"
+          rows={6}
+          className="font-mono text-xs"
+          placeholder='{"event":"item.added", ...}'
+          value={payload}
+          onChange={updateField(setPayload)}
+        />
+      </div>
+
+      {result &&
+        (result.valid ? (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4 text-success" />
+            <AlertTitle>Signature is valid</AlertTitle>
+            <AlertDescription>
+              This delivery was signed with the secret above.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Signature is not valid</AlertTitle>
+            <AlertDescription>
+              {failureMessages[result.reason]}
+            </AlertDescription>
+          </Alert>
+        ))}
+
+      <div className="flex justify-end">
+        <Button disabled={!canVerify} onClick={() => void handleVerify()}>
+          Verify signature
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { JsonViewer } from '@/components/events/JsonViewer';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import {
+  SIGNATURE_HEADER,
+  SIGNATURE_TOLERANCE_SECONDS,
+  TIMESTAMP_HEADER,
+} from '@/lib/signing';
+
+const signatureHeader = SIGNATURE_HEADER.toLowerCase();
+const timestampHeader = TIMESTAMP_HEADER.toLowerCase();
+const tolerance = String(SIGNATURE_TOLERANCE_SECONDS);
+
+const snippets = [
+  {
+    language: 'node',
+    label: 'Node.js',
+    code: `import crypto from 'node:crypto';
+
+const TOLERANCE_SECONDS = ${tolerance};
+
+// rawBody must be the exact bytes received, before any JSON parsing
+export function verifyRocketHooksSignature(rawBody, headers, secret) {
+  const timestamp = headers['${timestampHeader}'];
+  // Reject old deliveries so a captured request cannot be replayed later
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > TOLERANCE_SECONDS) return false;
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(\`\${timestamp}.\${rawBody}\`)
+    .digest('hex');
+
+  return headers['${signatureHeader}']
+    .split(',')
+    .map((entry) => entry.trim().replace(/^v1=/, ''))
+    .some(
+      (signature) =>
+        signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    );
+}`,
+  },
+  {
+    language: 'python',
+    label: 'Python',
+    code: `import hashlib
+import hmac
+import time
+
+TOLERANCE_SECONDS = ${tolerance}
+
+
+def verify_rockethooks_signature(raw_body: bytes, headers, secret: str) -> bool:
+    # raw_body must be the exact bytes received, before any JSON parsing
+    timestamp = headers["${TIMESTAMP_HEADER}"]
+    # Reject old deliveries so a captured request cannot be replayed later
+    try:
+        age = abs(time.time() - int(timestamp))
+    except (TypeError, ValueError):
+        return False
+    if age > TOLERANCE_SECONDS:
+        return False
+
+    expected = hmac.new(
+        secret.encode(),
+        f"{timestamp}.".encode() + raw_body,
+        hashlib.sha256,
+    ).hexdigest()
+
+    signatures = [
+        entry.strip().removeprefix("v1=")
+        for entry in headers["${SIGNATURE_HEADER}"].split(",")
+    ]
+    return any(hmac.compare_digest(sig, expected) for sig in signatures)`,
+  },
+  {
+    language: 'go',
+    label: 'Go',
+    code: `package webhooks
+
+import (
+	"crypto/hmac"
+	"crypto/sha256"
+	"encoding/hex"
+	"math"
+	"net/http"
+	"strconv"
+	"strings"
+	"time"
+)
+
+const toleranceSeconds = ${tolerance}
+
+// rawBody must be the exact bytes received, before any JSON parsing
+func VerifyRocketHooksSignature(rawBody []byte, header http.Header, secret string) bool {
+	timestamp := header.Get("${TIMESTAMP_HEADER}")
+	// Reject old deliveries so a captured request cannot be replayed later
+	sentAt, err := strconv.ParseInt(timestamp, 10, 64)
+	if err != nil || math.Abs(float64(time.Now().Unix()-sentAt)) > toleranceSeconds {
+		return false
+	}
+
+	mac := hmac.New(sha256.New, []byte(secret))
+	mac.Write([]byte(timestamp + "."))
+	mac.Write(rawBody)
+	expected := hex.EncodeToString(mac.Sum(nil))
+
+	for _, entry := range strings.Split(header.Get("${SIGNATURE_HEADER}"), ",") {
+		signature := strings.TrimPrefix(strings.TrimSpace(entry), "v1=")
+		if hmac.Equal([]byte(signature), []byte(expected)) {
+			return true
+		}
+	}
+	return false
+}`,
+  },
+] as const;
+
+/**
+ * VerificationSnippets - copyable receiver-side signature checks per language
+ */
+export function VerificationSnippets() {
+  return (
+    <Tabs defaultValue="node">
+      <TabsList>
+        {snippets.map((snippet) => (
+          <TabsTrigger key={snippet.language} value={snippet.language}>
+            {snippet.label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {snippets.map((snippet) => (
+        <TabsContent key={snippet.language} value={snippet.language}>
+          <JsonViewer value={snippet.code} />
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
@@ -0,0 +1,459 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Eye, EyeOff, Wand2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/Form';
+import { Input } from '@/components/ui/Input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { Switch } from '@/components/ui/Switch';
+import { Textarea } from '@/components/ui/Textarea';
+import { generateSigningSecret } from '@/lib/signing';
+import {
+  backoffStrategies,
+  formatHeaderLines,
+  parseDelayList,
+  parseHeaderLines,
+  parseLines,
+  resolveSecretInput,
+  type WebhookFormData,
+  webhookFormSchema,
+} from '@/lib/validations/webhook';
+import {
+  type CreateWebhookInput,
+  fromHeaderEntries,
+  toHeaderEntries,
+  WEBHOOK_EVENT_TYPES,
+  type Webhook,
+} from '@/services/graphql/webhooks';
+
+export interface WebhookFormDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Webhook being edited; omit to create a new webhook */
+  webhook?: Webhook | null;
+  /** Callback with the webhook input when the form is submitted */
+  onSubmit: (input: CreateWebhookInput) => Promise<void>;
+}
+
+const DEFAULT_VALUES: WebhookFormData = {
+  name: '',
+  url: '',
+  events: ['change.detected'],
+  secret: '',
+  active: true,
+  retryConfig: {
+    maxRetries: 3,
+    backoffStrategy: 'exponential',
+    retryDelays: '',
+  },
+  filters: {
+    headers: '',
+    bodyPatterns: '',
+  },
+};
+
+/**
+ * Map an existing webhook onto the form's text-friendly field values
+ */
+function toFormValues(webhook: Webhook): WebhookFormData {
+  return {
+    name: webhook.name,
+    url: webhook.url,
+    events: webhook.events,
+    secret: webhook.secret ?? '',
+    active: webhook.active,
+    retryConfig: {
+      maxRetries: webhook.retryConfig.maxRetries,
+      backoffStrategy: webhook.retryConfig.backoffStrategy,
+      retryDelays: webhook.retryConfig.retryDelays.join(', '),
+    },
+    filters: {
+      headers: formatHeaderLines(fromHeaderEntries(webhook.filters.headers)),
+      bodyPatterns: webhook.filters.bodyPatterns.join('\n'),
+    },
+  };
+}
+
+/**
+ * Map validated form values onto the GraphQL webhook input
+ */
+function toWebhookInput(
+  values: WebhookFormData,
+  webhook?: Webhook | null
+): CreateWebhookInput {
+  const secret = resolveSecretInput(values.secret, webhook?.secret);
+  return {
+    name: values.name.trim(),
+    url: values.url.trim(),
+    events: values.events,
+    ...(secret !== undefined && { secret }),
+    active: values.active,
+    retryConfig: {
+      maxRetries: values.retryConfig.maxRetries,
+      backoffStrategy: values.retryConfig.backoffStrategy,
+      retryDelays: parseDelayList(values.retryConfig.retryDelays) ?? [],
+    },
+    filters: {
+      headers: toHeaderEntries(
+        parseHeaderLines(values.filters.headers) ?? undefined
+      ),
+      bodyPatterns: parseLines(values.filters.bodyPatterns),
+    },
+  };
+}
+
+/**
+ * WebhookFormDialog - create/edit dialog covering every WebhookDraft field
+ */
+export function WebhookFormDialog({
+  open,
+  onOpenChange,
+  webhook,
+  onSubmit,
+}: WebhookFormDialogProps) {
+  const isEditing = Boolean(webhook);
+  const [showSecret, setShowSecret] = useState(false);
+
+  const form = useForm<WebhookFormData>({
+    resolver: zodResolver(webhookFormSchema),
+    mode: 'onChange',
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { reset } = form;
+
+  // Reset the form whenever the dialog opens for a different webhook
+  useEffect(() => {
+    if (open) {
+      reset(webhook ? toFormValues(webhook) : DEFAULT_VALUES);
+      setShowSecret(false);
+    }
+  }, [open, webhook, reset]);
+
+  const handleSubmit = async (values: WebhookFormData) => {
+    await onSubmit(toWebhookInput(values, webhook));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit webhook' : 'New webhook'}
+          </DialogTitle>
+          <DialogDescription>
+            Configure where change events are delivered and how failed
+            deliveries are retried.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-6"
+          >
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Order updates" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Destination URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="url"
+                        placeholder="https://example.com/hooks"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Events</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {WEBHOOK_EVENT_TYPES.map((eventType) => {
+                      const selected = field.value.includes(eventType);
+                      return (
+                        <Button
+                          key={eventType}
+                          type="button"
+                          size="sm"
+                          variant={selected ? 'default' : 'outline'}
+                          aria-pressed={selected}
+                          onClick={() => {
+                            field.onChange(
+                              selected
+                                ? field.value.filter((e) => e !== eventType)
+                                : [...field.value, eventType]
+                            );
+                          }}
+                        >
+                          {eventType}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="secret"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Signing secret</FormLabel>
+                    <div className="flex gap-1">
+                      <FormControl>
+                        <Input
+                          type={showSecret ? 'text' : 'password'}
+                          autoComplete="off"
+                          placeholder="Leave blank to skip signing"
+                          className="font-mono"
+                          {...field}
+                        />
+                      </FormControl>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => {
+                          setShowSecret((shown) => !shown);
+                        }}
+                        aria-label={showSecret ? 'Hide secret' : 'Show secret'}
+                      >
+                        {showSecret ? <EyeOff /> : <Eye />}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => {
+                          field.onChange(generateSigningSecret());
+                          setShowSecret(true);
+                        }}
+                        aria-label="Generate secret"
+                        title="Generate secret"
+                      >
+                        <Wand2 />
+                      </Button>
+                    </div>
+                    <FormDescription>
+                      Used to sign each delivery with HMAC-SHA256
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel>Active</FormLabel>
+                      <FormDescription>
+                        Paused webhooks receive no deliveries
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Retry Configuration */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium">Retry policy</h3>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="retryConfig.maxRetries"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max retries</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={10}
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(e.target.valueAsNumber);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="retryConfig.backoffStrategy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Backoff</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {backoffStrategies.map((strategy) => (
+                            <SelectItem key={strategy} value={strategy}>
+                              {strategy}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="retryConfig.retryDelays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Custom delays (ms)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="1000, 5000, 30000" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            {/* Delivery Filters */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium">Filters</h3>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="filters.headers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Required headers</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          className="font-mono text-xs"
+                          placeholder="X-Source: billing"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>One per line</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="filters.bodyPatterns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Body patterns</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          className="font-mono text-xs"
+                          placeholder={'$.status\n$.items[*].price'}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Only deliver events matching one of these JSONPaths
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onOpenChange(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting
+                  ? 'Saving...'
+                  : isEditing
+                    ? 'Save changes'
+                    : 'Create webhook'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+import { format } from 'date-fns';
+import { Check, Copy, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { Label } from '@/components/ui/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { Separator } from '@/components/ui/Separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import { maskSecret } from '@/lib/signing';
+import type { Webhook } from '@/services/graphql/webhooks';
+import { SignatureVerifier } from './SignatureVerifier';
+import { VerificationSnippets } from './VerificationSnippets';
+
+export interface WebhookSigningDialogProps {
+  /** Webhook whose secret is shown; null closes the dialog */
+  webhook: Webhook | null;
+  /**
+   * Signing secret, or null when deliveries are unsigned. Leave undefined for
+   * members who may not see it; they get a masked placeholder.
+   */
+  secret?: string | null | undefined;
+  /** The secret is still being fetched */
+  isSecretLoading?: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Omit to hide rotation */
+  onRotate?: (webhook: Webhook, gracePeriodHours: number) => Promise<void>;
+}
+
+const gracePeriodOptions = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+] as const;
+
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+
+const HIDDEN_SECRET = '•'.repeat(12);
+
+/**
+ * WebhookSigningDialog - signing secret reveal and rotation, a signature
+ * checker and receiver snippets for one webhook
+ */
+export function WebhookSigningDialog({
+  webhook,
+  secret,
+  isSecretLoading = false,
+  onOpenChange,
+  onRotate,
+}: WebhookSigningDialogProps) {
+  // Tracks which secret was revealed so a different webhook or a freshly
+  // rotated secret starts out masked
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [gracePeriodHours, setGracePeriodHours] = useState(
+    DEFAULT_GRACE_PERIOD_HOURS
+  );
+  const [isRotating, setIsRotating] = useState(false);
+
+  const revealed = secret != null && revealedSecret === secret;
+  const previousSecretExpiresAt = webhook?.previousSecretExpiresAt;
+  const inGracePeriod =
+    previousSecretExpiresAt != null &&
+    new Date(previousSecretExpiresAt) > new Date();
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => {
+      setCopied(false);
+    }, 2000);
+  };
+
+  const handleRotate = async () => {
+    if (!webhook || !onRotate) return;
+    setIsRotating(true);
+    try {
+      await onRotate(webhook, gracePeriodHours);
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <Dialog open={webhook !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Signing for {webhook?.name}</DialogTitle>
+          <DialogDescription>
+            Each delivery is signed with HMAC-SHA256 so receivers can confirm it
+            came from RocketHooks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="secret">
+          <TabsList>
+            <TabsTrigger value="secret">Secret</TabsTrigger>
+            <TabsTrigger value="verify">Verify a signature</TabsTrigger>
+            <TabsTrigger value="snippets">Code snippets</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="secret" className="space-y-4">
+            {isSecretLoading ? (
+              <p className="text-sm text-muted-foreground">Loading secret...</p>
+            ) : secret === undefined ? (
+              <div className="space-y-2">
+                <code className="block rounded-md bg-muted px-3 py-2 font-mono text-xs">
+                  {HIDDEN_SECRET}
+                </code>
+                <p className="text-xs text-muted-foreground">
+                  Only members who can edit webhooks can view or copy the
+                  signing secret.
+                </p>
+              </div>
+            ) : secret ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 break-all rounded-md bg-muted px-3 py-2 font-mono text-xs">
+                    {revealed ? secret : maskSecret(secret)}
+                  </code>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => {
+                      setRevealedSecret(revealed ? null : secret);
+                    }}
+                    aria-label={revealed ? 'Hide secret' : 'Reveal secret'}
+                  >
+                    {revealed ? <EyeOff /> : <Eye />}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => void handleCopy()}
+                    aria-label="Copy secret to clipboard"
+                  >
+                    {copied ? <Check /> : <Copy />}
+                  </Button>
+                </div>
+                {inGracePeriod && (
+                  <p className="text-xs text-muted-foreground">
+                    The previous secret is also accepted until{' '}
+                    {format(new Date(previousSecretExpiresAt), 'PPp')}.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Deliveries to this webhook are not signed. Edit the webhook to
+                add a secret, or rotate to generate one.
+              </p>
+            )}
+
+            {onRotate && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <Label htmlFor="rotate-grace-period">
+                    Rotate secret; keep the current one valid for
+                  </Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={String(gracePeriodHours)}
+                      onValueChange={(value) => {
+                        setGracePeriodHours(Number(value));
+                      }}
+                    >
+                      <SelectTrigger id="rotate-grace-period" className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gracePeriodOptions.map((option) => (
+                          <SelectItem
+                            key={option.hours}
+                            value={String(option.hours)}
+                          >
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      disabled={isRotating}
+                      onClick={() => void handleRotate()}
+                    >
+                      <RefreshCw />
+                      {isRotating ? 'Rotating...' : 'Rotate secret'}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Deliveries carry a signature for both secrets until the
+                    grace period ends, so receivers can switch without rejecting
+                    anything.
+                  </p>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="verify">
+            <SignatureVerifier secret={secret ?? null} />
+          </TabsContent>
+
+          <TabsContent value="snippets">
+            <VerificationSnippets />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,293 @@
+import { Send } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { HeadersTable, JsonViewer } from '@/components/events';
+import { WebhookStatus } from '@/components/rockethooks';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { Label } from '@/components/ui/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/Select';
+import { Switch } from '@/components/ui/Switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import { Textarea } from '@/components/ui/Textarea';
+import { runTransformation } from '@/lib/transform';
+import { parseJsonValue } from '@/services/graphql/events';
+import type { Transformation } from '@/services/graphql/transformations';
+import {
+  buildSamplePayload,
+  type TestDeliveryResult,
+  type TestWebhookInput,
+  WEBHOOK_EVENT_TYPES,
+  type Webhook,
+  type WebhookEventType,
+} from '@/services/graphql/webhooks';
+
+export interface WebhookTestDialogProps {
+  /** Webhook to test; null closes the dialog */
+  webhook: Webhook | null;
+  /** Transformation attached to the webhook, if any */
+  transformation?: Transformation | null;
+  onOpenChange: (open: boolean) => void;
+  /** Send the delivery; resolves to null when it could not be sent */
+  onSend: (
+    webhook: Webhook,
+    input: TestWebhookInput
+  ) => Promise<TestDeliveryResult | null>;
+}
+
+function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+function formatSample(eventType: WebhookEventType): string {
+  return JSON.stringify(buildSamplePayload(eventType), null, 2);
+}
+
+/**
+ * Parse the payload text; it must be a JSON object or array
+ */
+function parsePayload(text: string): { value?: object; error?: string } {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null) {
+      return { error: 'Payload must be a JSON object or array' };
+    }
+    return { value: parsed };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Invalid JSON',
+    };
+  }
+}
+
+interface WebhookTestFormProps
+  extends Omit<WebhookTestDialogProps, 'webhook' | 'onOpenChange'> {
+  webhook: Webhook;
+}
+
+/**
+ * Payload editor and last result; remounted for each webhook so nothing
+ * carries over between them
+ */
+function WebhookTestForm({
+  webhook,
+  transformation,
+  onSend,
+}: WebhookTestFormProps) {
+  const [eventType, setEventType] = useState<WebhookEventType>(
+    webhook.events.find(isWebhookEventType) ?? WEBHOOK_EVENT_TYPES[0]
+  );
+  const [payloadText, setPayloadText] = useState(() => formatSample(eventType));
+  const [applyTransformation, setApplyTransformation] = useState(
+    Boolean(transformation)
+  );
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<TestDeliveryResult | null>(null);
+
+  const payload = useMemo(() => parsePayload(payloadText), [payloadText]);
+
+  // Local preview of what the server will send after the transformation
+  const preview = useMemo(
+    () =>
+      transformation && applyTransformation && payload.value
+        ? runTransformation(transformation.code, payload.value)
+        : null,
+    [transformation, applyTransformation, payload.value]
+  );
+
+  const handleEventTypeChange = (value: string) => {
+    if (!isWebhookEventType(value)) return;
+    setEventType(value);
+    setPayloadText(formatSample(value));
+  };
+
+  const handleSend = async () => {
+    if (!payload.value) return;
+    setIsSending(true);
+    try {
+      setResult(
+        await onSend(webhook, {
+          eventType,
+          payload: JSON.stringify(payload.value),
+          applyTransformation: Boolean(transformation) && applyTransformation,
+        })
+      );
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="test-event-type">Sample event</Label>
+          <Select value={eventType} onValueChange={handleEventTypeChange}>
+            <SelectTrigger id="test-event-type" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEBHOOK_EVENT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                  {!webhook.events.includes(type) && ' (not subscribed)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {transformation && (
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="test-apply-transformation">
+                Apply transformation
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {transformation.name}
+              </p>
+            </div>
+            <Switch
+              id="test-apply-transformation"
+              checked={applyTransformation}
+              onCheckedChange={setApplyTransformation}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="test-payload">Payload</Label>
+        <Textarea
+          id="test-payload"
+          rows={10}
+          className="font-mono text-xs"
+          value={payloadText}
+          onChange={(e) => {
+            setPayloadText(e.target.value);
+          }}
+        />
+        {payload.error && (
+          <p className="text-sm text-destructive">{payload.error}</p>
+        )}
+      </div>
+
+      {preview && (
+        <div className="space-y-2">
+          <Label>Transformed payload</Label>
+          {preview.errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {preview.errors.map((error) => error.message).join('; ')}
+              </AlertDescription>
+            </Alert>
+          )}
+          <JsonViewer
+            value={preview.output}
+            className="max-h-64"
+            emptyMessage="The transformation produced no output"
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          disabled={!payload.value || isSending}
+          onClick={() => void handleSend()}
+        >
+          <Send />
+          {isSending ? 'Sending...' : 'Send test delivery'}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <WebhookStatus status={result.status} showLabel />
+            {result.statusCode != null && (
+              <Badge variant="outline">HTTP {result.statusCode}</Badge>
+            )}
+            {result.responseTime != null && (
+              <span className="text-sm text-muted-foreground">
+                {result.responseTime} ms
+              </span>
+            )}
+          </div>
+          {result.errorMessage && (
+            <p className="text-sm text-destructive">{result.errorMessage}</p>
+          )}
+
+          <Tabs defaultValue="body">
+            <TabsList>
+              <TabsTrigger value="body">Response body</TabsTrigger>
+              <TabsTrigger value="headers">Response headers</TabsTrigger>
+              <TabsTrigger value="request">Sent payload</TabsTrigger>
+            </TabsList>
+            <TabsContent value="body">
+              <JsonViewer
+                value={parseJsonValue(result.responseBody)}
+                className="max-h-64"
+                emptyMessage="The destination returned an empty body"
+              />
+            </TabsContent>
+            <TabsContent value="headers">
+              <HeadersTable
+                headers={result.responseHeaders}
+                emptyMessage="No response received"
+              />
+            </TabsContent>
+            <TabsContent value="request">
+              <JsonViewer
+                value={parseJsonValue(result.requestBody)}
+                className="max-h-64"
+                emptyMessage="Nothing was sent"
+              />
+            </TabsContent>
+          </Tabs>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * WebhookTestDialog - send a sample or hand-written payload to a webhook and
+ * inspect the destination's response
+ */
+export function WebhookTestDialog({
+  webhook,
+  onOpenChange,
+  ...props
+}: WebhookTestDialogProps) {
+  return (
+    <Dialog open={webhook !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Test {webhook?.name}</DialogTitle>
+          <DialogDescription>
+            Test deliveries go to{' '}
+            <code className="font-mono text-xs">{webhook?.url}</code> and are
+            not recorded in activity.
+          </DialogDescription>
+        </DialogHeader>
+
+        {webhook && (
+          <WebhookTestForm key={webhook.id} webhook={webhook} {...props} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { formatDistanceToNow } from 'date-fns';
+import { KeyRound, Pencil, Send, Trash2 } from 'lucide-react';
+import { WebhookStatus } from '@/components/rockethooks/WebhookStatus';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Switch } from '@/components/ui/Switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import type { Webhook } from '@/services/graphql/webhooks';
+
+export interface WebhooksTableProps {
+  webhooks: Webhook[];
+  /** Omit to hide the edit action */
+  onEdit?: (webhook: Webhook) => void;
+  /** Omit to hide the delete action */
+  onDelete?: (webhook: Webhook) => void;
+  /** Omit to hide the test delivery action */
+  onTest?: (webhook: Webhook) => void;
+  /** Omit to hide the signing secret action */
+  onManageSigning?: (webhook: Webhook) => void;
+  /** Omit to show the active switch read-only */
+  onToggleActive?: (webhook: Webhook, active: boolean) => void;
+}
+
+/**
+ * WebhooksTable - tabular list of webhook destinations with row actions
+ */
+export function WebhooksTable({
+  webhooks,
+  onEdit,
+  onDelete,
+  onTest,
+  onManageSigning,
+  onToggleActive,
+}: WebhooksTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Destination</TableHead>
+          <TableHead>Events</TableHead>
+          <TableHead>Last delivery</TableHead>
+          <TableHead>Active</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {webhooks.map((webhook) => (
+          <TableRow key={webhook.id}>
+            <TableCell className="font-medium">{webhook.name}</TableCell>
+            <TableCell>
+              <code className="px-1.5 py-0.5 text-xs bg-muted rounded font-mono truncate inline-block max-w-[260px] align-middle">
+                {webhook.url}
+              </code>
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {webhook.events.map((event) => (
+                  <Badge key={event} variant="outline" size="sm">
+                    {event}
+                  </Badge>
+                ))}
+              </div>
+            </TableCell>
+            <TableCell>
+              {webhook.lastDeliveryAt && webhook.lastDeliveryStatus ? (
+                <div className="flex items-center gap-2">
+                  <WebhookStatus
+                    status={webhook.lastDeliveryStatus}
+                    size="sm"
+                  />
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(webhook.lastDeliveryAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </div>
+              ) : (
+                <span className="text-xs text-muted-foreground">Never</span>
+              )}
+            </TableCell>
+            <TableCell>
+              <Switch
+                checked={webhook.active}
+                disabled={!onToggleActive}
+                onCheckedChange={(checked) => {
+                  onToggleActive?.(webhook, checked);
+                }}
+                aria-label={`Toggle ${webhook.name}`}
+              />
+            </TableCell>
+            <TableCell className="text-right">
+              <div className="flex justify-end gap-1">
+                {onTest && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onTest(webhook);
+                    }}
+                    aria-label={`Send test delivery to ${webhook.name}`}
+                  >
+                    <Send />
+                  </Button>
+                )}
+                {onManageSigning && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onManageSigning(webhook);
+                    }}
+                    aria-label={`Signing secret for ${webhook.name}`}
+                  >
+                    <KeyRound />
+                  </Button>
+                )}
+                {onEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onEdit(webhook);
+                    }}
+                    aria-label={`Edit ${webhook.name}`}
+                  >
+                    <Pencil />
+                  </Button>
+                )}
+                {onDelete && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      onDelete(webhook);
+                    }}
+                    aria-label={`Delete ${webhook.name}`}
+                  >
+                    <Trash2 className="text-destructive" />
+                  </Button>
+                )}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
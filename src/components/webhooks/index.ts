@@ -0,0 +1,22 @@
+/**
+ * Webhook management components
+ */
+
+export {
+  SignatureVerifier,
+  type SignatureVerifierProps,
+} from './SignatureVerifier';
+export { VerificationSnippets } from './VerificationSnippets';
+export {
+  WebhookFormDialog,
+  type WebhookFormDialogProps,
+} from './WebhookFormDialog';
+export {
+  WebhookSigningDialog,
+  type WebhookSigningDialogProps,
+} from './WebhookSigningDialog';
+export { WebhooksTable, type WebhooksTableProps } from './WebhooksTable';
+export {
+  WebhookTestDialog,
+  type WebhookTestDialogProps,
+} from './WebhookTestDialog';
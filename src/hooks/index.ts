@@ -1,5 +1,7 @@
 // Export all custom hooks
 
+export { useEventHistory } from './useEventHistory';
+export { useEventStream } from './useEventStream';
 export { useGraphQLError } from './useGraphQLError';
 export {
   useOnboardingInit,
@@ -8,4 +10,7 @@ export {
 } from './useOnboardingInit';
 export type { OnboardingStatus } from './useOnboardingStatus';
 export { useOnboardingStatus } from './useOnboardingStatus';
+export { useCurrentRole, usePermission } from './usePermission';
+export { useRedelivery } from './useRedelivery';
 export { useSessionMonitor } from './useSessionMonitor';
+export { useStaleAwareQuery } from './useStaleAwareQuery';
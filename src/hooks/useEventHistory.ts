@@ -0,0 +1,73 @@
+import { NetworkStatus, useQuery } from '@apollo/client';
+import { useCallback, useMemo } from 'react';
+import type { WebhookEvent } from '@/components/rockethooks';
+import {
+  EVENT_HISTORY_PAGE_SIZE,
+  LIST_WEBHOOK_EVENTS_QUERY,
+  type ListWebhookEventsResponse,
+  type ListWebhookEventsVariables,
+  toTimelineEvent,
+  type WebhookEventFilter,
+} from '@/services/graphql/events';
+
+const NO_FILTER: WebhookEventFilter = {};
+
+interface UseEventHistoryOptions {
+  filter?: WebhookEventFilter;
+  pageSize?: number;
+}
+
+interface UseEventHistoryReturn {
+  /** Every page loaded so far, newest first */
+  events: WebhookEvent[];
+  /** Whether older events remain on the server */
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: Error | undefined;
+  /** Fetch the next page; a no-op while one is in flight or none remain */
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Page through past webhook events. Pages are stitched together by the
+ * `listWebhookEvents` cursor policy, so this only tracks the next cursor.
+ */
+export function useEventHistory({
+  filter = NO_FILTER,
+  pageSize = EVENT_HISTORY_PAGE_SIZE,
+}: UseEventHistoryOptions = {}): UseEventHistoryReturn {
+  const { data, error, networkStatus, fetchMore } = useQuery<
+    ListWebhookEventsResponse,
+    ListWebhookEventsVariables
+  >(LIST_WEBHOOK_EVENTS_QUERY, {
+    variables: { filter, limit: pageSize },
+    notifyOnNetworkStatusChange: true,
+  });
+
+  const page = data?.listWebhookEvents;
+  const nextToken = page?.nextToken ?? null;
+  const isLoadingMore = networkStatus === NetworkStatus.fetchMore;
+
+  const events = useMemo(
+    () => (page?.items ?? []).map(toTimelineEvent),
+    [page?.items]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!nextToken || isLoadingMore) return;
+    await fetchMore({ variables: { nextToken } });
+  }, [fetchMore, nextToken, isLoadingMore]);
+
+  return useMemo(
+    () => ({
+      events,
+      hasMore: nextToken !== null,
+      isLoading: networkStatus === NetworkStatus.loading,
+      isLoadingMore,
+      error,
+      loadMore,
+    }),
+    [events, nextToken, networkStatus, isLoadingMore, error, loadMore]
+  );
+}
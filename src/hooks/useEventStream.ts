@@ -0,0 +1,116 @@
+import { useSubscription } from '@apollo/client';
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { WebhookEvent } from '@/components/rockethooks';
+import {
+  ON_WEBHOOK_EVENT_SUBSCRIPTION,
+  type OnWebhookEventResponse,
+  toTimelineEvent,
+} from '@/services/graphql/events';
+
+const DEFAULT_MAX_EVENTS = 500;
+
+interface UseEventStreamOptions {
+  /** Maximum number of events kept in memory (oldest are dropped) */
+  maxEvents?: number;
+  /** Initial events to seed the stream with */
+  initialEvents?: WebhookEvent[];
+}
+
+interface UseEventStreamReturn {
+  /** Events shown to the user, newest first */
+  events: WebhookEvent[];
+  /** Events received while paused, not yet shown */
+  pendingCount: number;
+  isPaused: boolean;
+  isConnecting: boolean;
+  error: Error | undefined;
+  pause: () => void;
+  resume: () => void;
+  clear: () => void;
+}
+
+/**
+ * Stream webhook events live over the GraphQL subscription.
+ * While paused, incoming events are buffered and merged on resume.
+ */
+export function useEventStream({
+  maxEvents = DEFAULT_MAX_EVENTS,
+  initialEvents = [],
+}: UseEventStreamOptions = {}): UseEventStreamReturn {
+  const [events, setEvents] = useState<WebhookEvent[]>(initialEvents);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+
+  // Buffer for events received while paused, newest first
+  const pendingRef = useRef<WebhookEvent[]>([]);
+
+  // Read inside the subscription callback without resubscribing on toggle
+  const isPausedRef = useRef(isPaused);
+  isPausedRef.current = isPaused;
+
+  const prepend = useCallback(
+    (incoming: WebhookEvent[]) => {
+      setEvents((current) => {
+        const seen = new Set(current.map((event) => event.id));
+        const fresh = incoming.filter((event) => !seen.has(event.id));
+        return [...fresh, ...current].slice(0, maxEvents);
+      });
+    },
+    [maxEvents]
+  );
+
+  const { loading, error } = useSubscription<OnWebhookEventResponse>(
+    ON_WEBHOOK_EVENT_SUBSCRIPTION,
+    {
+      onData: ({ data }) => {
+        const record = data.data?.onWebhookEvent;
+        if (!record) return;
+
+        const event = toTimelineEvent(record);
+        if (isPausedRef.current) {
+          pendingRef.current = [event, ...pendingRef.current].slice(
+            0,
+            maxEvents
+          );
+          setPendingCount(pendingRef.current.length);
+        } else {
+          prepend([event]);
+        }
+      },
+    }
+  );
+
+  const pause = useCallback(() => {
+    isPausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    isPausedRef.current = false;
+    setIsPaused(false);
+    const buffered = pendingRef.current;
+    pendingRef.current = [];
+    setPendingCount(0);
+    if (buffered.length > 0) prepend(buffered);
+  }, [prepend]);
+
+  const clear = useCallback(() => {
+    setEvents([]);
+    pendingRef.current = [];
+    setPendingCount(0);
+  }, []);
+
+  return useMemo(
+    () => ({
+      events,
+      pendingCount,
+      isPaused,
+      isConnecting: loading,
+      error,
+      pause,
+      resume,
+      clear,
+    }),
+    [events, pendingCount, isPaused, loading, error, pause, resume, clear]
+  );
+}
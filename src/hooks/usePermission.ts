@@ -0,0 +1,42 @@
+import { hasPermission } from '@/lib/permissions';
+import {
+  GET_CURRENT_MEMBER_QUERY,
+  type GetCurrentMemberResponse,
+} from '@/services/graphql/team';
+import type { OrganizationRole, Permission } from '@/types/auth';
+import { useStaleAwareQuery } from './useStaleAwareQuery';
+
+// Roles change rarely, so every permission check can share one cached answer
+const ROLE_TTL_MS = 5 * 60 * 1000;
+
+interface UseCurrentRoleReturn {
+  role: OrganizationRole | null;
+  /** Member id of the signed-in user in the current organization */
+  memberId: string | null;
+  loading: boolean;
+}
+
+/**
+ * The signed-in user's role in the current organization
+ */
+export function useCurrentRole(): UseCurrentRoleReturn {
+  const { data, loading } = useStaleAwareQuery<GetCurrentMemberResponse>(
+    GET_CURRENT_MEMBER_QUERY,
+    { ttl: ROLE_TTL_MS }
+  );
+
+  return {
+    role: data?.currentMember?.role ?? null,
+    memberId: data?.currentMember?.id ?? null,
+    loading,
+  };
+}
+
+/**
+ * Whether the signed-in user's role grants the permission. Stays false while
+ * the role loads so restricted actions never flash into view.
+ */
+export function usePermission(permission: Permission): boolean {
+  const { role } = useCurrentRole();
+  return hasPermission(role, permission);
+}
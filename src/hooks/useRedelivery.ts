@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  type PendingRedeliveryRetry,
+  recoverRedeliveryFailures,
+} from '@/lib/errors/recovery';
+import { RedeliveryError } from '@/lib/errors/types';
+import { EventService } from '@/services/graphql/events';
+
+// Replays in flight at once during a bulk redelivery
+const REDELIVERY_CONCURRENCY = 4;
+
+export type RedeliveryItemStatus =
+  | 'queued'
+  | 'delivering'
+  | 'delivered'
+  | 'failed'
+  | 'skipped';
+
+export interface RedeliveryTarget {
+  id: string;
+  endpoint: string;
+  webhookId?: string;
+}
+
+export interface RedeliveryItem {
+  eventId: string;
+  endpoint: string;
+  status: RedeliveryItemStatus;
+  statusCode?: number;
+  responseTime?: number;
+  errorMessage?: string;
+}
+
+interface UseRedeliveryReturn {
+  items: RedeliveryItem[];
+  isRunning: boolean;
+  /** Processed items as a percentage of the batch */
+  progress: number;
+  counts: Record<RedeliveryItemStatus, number>;
+  /** Automatic retry of transient failures waiting to start */
+  pendingRetry: PendingRedeliveryRetry | null;
+  start: (targets: RedeliveryTarget[]) => void;
+  cancel: () => void;
+  reset: () => void;
+}
+
+const queued = (target: RedeliveryTarget): RedeliveryItem => ({
+  eventId: target.id,
+  endpoint: target.endpoint,
+  status: 'queued',
+});
+
+/**
+ * Replay a batch of events with bounded concurrency, tracking a result per
+ * event. Transient delivery failures are retried once through the redelivery
+ * recovery path; `cancel` also cancels a retry that has not started yet.
+ */
+export function useRedelivery(): UseRedeliveryReturn {
+  const [items, setItems] = useState<RedeliveryItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [pendingRetry, setPendingRetry] =
+    useState<PendingRedeliveryRetry | null>(null);
+
+  // Incremented per run so stale workers stop touching state
+  const runIdRef = useRef(0);
+  const cancelledRef = useRef(false);
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  const stopRecovery = useCallback(() => {
+    if (cleanupRef.current) {
+      cleanupRef.current();
+      cleanupRef.current = null;
+    }
+    setPendingRetry(null);
+  }, []);
+
+  const run = useCallback(
+    async (targets: RedeliveryTarget[], isRetry: boolean) => {
+      stopRecovery();
+      cancelledRef.current = false;
+      const runId = ++runIdRef.current;
+
+      // Read through a function: the flag flips while workers are awaiting
+      const isCancelled = () => cancelledRef.current;
+
+      const targetIds = new Set(targets.map((target) => target.id));
+      setItems((current) =>
+        isRetry
+          ? current.map((item) =>
+              targetIds.has(item.eventId)
+                ? {
+                    eventId: item.eventId,
+                    endpoint: item.endpoint,
+                    status: 'queued',
+                  }
+                : item
+            )
+          : targets.map(queued)
+      );
+      setIsRunning(true);
+
+      const update = (eventId: string, next: RedeliveryItem) => {
+        if (runIdRef.current !== runId) return;
+        setItems((current) =>
+          current.map((item) => (item.eventId === eventId ? next : item))
+        );
+      };
+
+      const failures: RedeliveryError[] = [];
+      let cursor = 0;
+
+      const worker = async () => {
+        while (!isCancelled() && runIdRef.current === runId) {
+          const target = targets[cursor++];
+          if (!target) return;
+
+          update(target.id, { ...queued(target), status: 'delivering' });
+
+          try {
+            const result = await EventService.replayWebhookEvent(target.id);
+            const outcome: RedeliveryItem = {
+              ...queued(target),
+              status: result.success ? 'delivered' : 'failed',
+              ...(result.statusCode != null && {
+                statusCode: result.statusCode,
+              }),
+              ...(result.responseTime != null && {
+                responseTime: result.responseTime,
+              }),
+              ...(result.errorMessage && { errorMessage: result.errorMessage }),
+            };
+            update(target.id, outcome);
+
+            if (!result.success) {
+              failures.push(
+                new RedeliveryError(
+                  result.errorMessage ?? 'Delivery failed',
+                  target.id,
+                  {
+                    webhookUrl: target.endpoint,
+                    ...(target.webhookId && { webhookId: target.webhookId }),
+                    ...(result.statusCode != null && {
+                      statusCode: result.statusCode,
+                    }),
+                    circuitOpen: result.status === 'circuit-open',
+                  }
+                )
+              );
+            }
+          } catch (error) {
+            // The replay request itself failed, so nothing reached the
+            // destination; the error is shown on the item, not retried
+            update(target.id, {
+              ...queued(target),
+              status: 'failed',
+              errorMessage:
+                error instanceof Error ? error.message : 'Replay failed',
+            });
+          }
+        }
+      };
+
+      await Promise.all(
+        Array.from(
+          { length: Math.min(REDELIVERY_CONCURRENCY, targets.length) },
+          worker
+        )
+      );
+
+      if (runIdRef.current !== runId) return;
+      setIsRunning(false);
+
+      if (isCancelled()) {
+        setItems((current) =>
+          current.map((item) =>
+            item.status === 'queued' ? { ...item, status: 'skipped' } : item
+          )
+        );
+        return;
+      }
+
+      if (failures.length > 0) {
+        cleanupRef.current =
+          recoverRedeliveryFailures(failures, {
+            // Retry transient failures once; repeated failures need a human
+            redeliver: isRetry
+              ? undefined
+              : (eventIds) => {
+                  const retryIds = new Set(eventIds);
+                  void run(
+                    targets.filter((target) => retryIds.has(target.id)),
+                    true
+                  );
+                },
+            onRetryChange: (retry) => {
+              if (runIdRef.current === runId) setPendingRetry(retry);
+            },
+          }) ?? null;
+      }
+    },
+    [stopRecovery]
+  );
+
+  const start = useCallback(
+    (targets: RedeliveryTarget[]) => {
+      void run(targets, false);
+    },
+    [run]
+  );
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    stopRecovery();
+  }, [stopRecovery]);
+
+  const reset = useCallback(() => {
+    cancelledRef.current = true;
+    runIdRef.current++;
+    stopRecovery();
+    setItems([]);
+    setIsRunning(false);
+  }, [stopRecovery]);
+
+  // Stop pending retries when the component using the hook unmounts
+  useEffect(() => stopRecovery, [stopRecovery]);
+
+  const counts = useMemo(() => {
+    const totals: Record<RedeliveryItemStatus, number> = {
+      queued: 0,
+      delivering: 0,
+      delivered: 0,
+      failed: 0,
+      skipped: 0,
+    };
+    for (const item of items) totals[item.status]++;
+    return totals;
+  }, [items]);
+
+  const processed = counts.delivered + counts.failed + counts.skipped;
+  const progress =
+    items.length > 0 ? Math.round((processed / items.length) * 100) : 0;
+
+  return useMemo(
+    () => ({
+      items,
+      isRunning,
+      progress,
+      counts,
+      pendingRetry,
+      start,
+      cancel,
+      reset,
+    }),
+    [items, isRunning, progress, counts, pendingRetry, start, cancel, reset]
+  );
+}
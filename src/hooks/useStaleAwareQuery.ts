@@ -0,0 +1,78 @@
+import {
+  type DocumentNode,
+  type OperationVariables,
+  type QueryHookOptions,
+  type QueryResult,
+  type TypedDocumentNode,
+  useApolloClient,
+  useQuery,
+} from '@apollo/client';
+import { getOperationName } from '@apollo/client/utilities';
+import { useEffect, useRef } from 'react';
+import { getCacheTtl, getQueryKey } from '@/lib/apollo';
+import { loggers } from '@/utils';
+
+const logger = loggers.graphql;
+
+type UseStaleAwareQueryOptions<
+  TData,
+  TVariables extends OperationVariables,
+> = QueryHookOptions<TData, TVariables> & {
+  /** How long a network result stays fresh, in milliseconds */
+  ttl: number;
+};
+
+/**
+ * useQuery that answers from the cache while its result is younger than
+ * `ttl`, and refetches in the background once it is older. Results with no
+ * known fetch time, such as ones restored from a persisted snapshot, are
+ * refetched on mount.
+ */
+export function useStaleAwareQuery<
+  TData = unknown,
+  TVariables extends OperationVariables = OperationVariables,
+>(
+  query: DocumentNode | TypedDocumentNode<TData, TVariables>,
+  { ttl, ...options }: UseStaleAwareQueryOptions<TData, TVariables>
+): QueryResult<TData, TVariables> {
+  const client = useApolloClient(options.client);
+  const result = useQuery<TData, TVariables>(query, {
+    fetchPolicy: 'cache-first',
+    notifyOnNetworkStatusChange: true,
+    ...options,
+  });
+
+  const key = getQueryKey(getOperationName(query), options.variables);
+  const fetchedAt = getCacheTtl(client)?.getQueryFetchedAt(key) ?? null;
+  const { loading, refetch } = result;
+  const skip = options.skip ?? false;
+
+  // A failed refetch leaves fetchedAt unchanged, so the last attempt also
+  // counts towards the age to keep errors from retrying in a tight loop
+  const attemptedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (skip || loading) return;
+
+    const refresh = () => {
+      attemptedAt.current = Date.now();
+      refetch().catch((error: unknown) => {
+        logger.warn('Failed to refresh stale query', { key, error });
+      });
+    };
+
+    const lastUpdate = Math.max(fetchedAt ?? 0, attemptedAt.current ?? 0);
+    const age = Date.now() - lastUpdate;
+    if (age >= ttl) {
+      refresh();
+      return;
+    }
+
+    const timer = setTimeout(refresh, ttl - age);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [key, fetchedAt, loading, refetch, skip, ttl]);
+
+  return result;
+}
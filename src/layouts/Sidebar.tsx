@@ -5,6 +5,7 @@ import {
   ChevronRight,
   Home,
   Settings,
+  Shuffle,
   User,
   Users,
   Webhook,
@@ -15,8 +16,11 @@ import { Link, useLocation } from 'react-router-dom';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
 import { Button } from '@/components/ui/Button';
 import { Separator } from '@/components/ui/Separator';
+import { useCurrentRole } from '@/hooks/usePermission';
+import { hasPermission } from '@/lib/permissions';
 import { cn } from '@/lib/utils';
 import { ComponentErrorBoundary } from '@/shared/components/ErrorBoundary';
+import type { Permission } from '@/types/auth';
 
 interface SidebarProps {
   collapsed?: boolean;
@@ -29,6 +33,8 @@ interface NavItem {
   href: string;
   icon: React.ComponentType<{ className?: string }>;
   badge?: string;
+  /** Hide the item from members whose role lacks this permission */
+  permission?: Permission;
 }
 
 const navItems: NavItem[] = [
@@ -48,6 +54,11 @@ const navItems: NavItem[] = [
     href: '/endpoints',
     icon: Zap,
   },
+  {
+    title: 'Transformations',
+    href: '/transformations',
+    icon: Shuffle,
+  },
   {
     title: 'Analytics',
     href: '/analytics',
@@ -67,6 +78,7 @@ const navItems: NavItem[] = [
     title: 'Settings',
     href: '/settings',
     icon: Settings,
+    permission: 'settings:manage',
   },
 ];
 
@@ -76,8 +88,13 @@ export function Sidebar({
   className,
 }: SidebarProps) {
   const location = useLocation();
+  const { role } = useCurrentRole();
   const [isCollapsed, setIsCollapsed] = useState(collapsed);
 
+  const visibleNavItems = navItems.filter(
+    (item) => !item.permission || hasPermission(role, item.permission)
+  );
+
   const toggleCollapsed = () => {
     const newCollapsed = !isCollapsed;
     setIsCollapsed(newCollapsed);
@@ -117,7 +134,7 @@ export function Sidebar({
 
         {/* Navigation */}
         <nav className="flex-1 space-y-2 p-2">
-          {navItems.map((item) => {
+          {visibleNavItems.map((item) => {
             const Icon = item.icon;
             const active = isActive(item.href);
 
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ChangeRules,
+  DEFAULT_CHANGE_RULES,
+  detectChanges,
+  findInvalidPaths,
+  stripIgnoredFields,
+} from '../changeRules';
+
+const rules = (overrides: Partial<ChangeRules>): ChangeRules => ({
+  ...DEFAULT_CHANGE_RULES,
+  ...overrides,
+});
+
+describe('stripIgnoredFields', () => {
+  const document = {
+    requestId: 'abc',
+    data: { requestId: 'def', price: 10, meta: { etag: 'x' } },
+    items: [{ id: 1 }, { id: 2 }],
+  };
+
+  it('drops named fields at any depth', () => {
+    expect(stripIgnoredFields(document, ['requestId'])).toEqual({
+      data: { price: 10, meta: { etag: 'x' } },
+      items: [{ id: 1 }, { id: 2 }],
+    });
+  });
+
+  it('drops exactly the nodes a JSONPath selects', () => {
+    expect(stripIgnoredFields(document, ['$.data.meta', '$.items[0]'])).toEqual(
+      {
+        requestId: 'abc',
+        data: { requestId: 'def', price: 10 },
+        items: [{ id: 2 }],
+      }
+    );
+  });
+});
+
+describe('detectChanges', () => {
+  it('returns nothing when only ignored fields change', () => {
+    expect(
+      detectChanges(
+        { price: 10, timestamp: 1 },
+        { price: 10, timestamp: 2 },
+        rules({ ignoredFields: ['timestamp'] })
+      )
+    ).toEqual([]);
+  });
+
+  it('groups body changes into one change.detected', () => {
+    expect(
+      detectChanges(
+        { price: 10, stock: 3 },
+        { price: 12, stock: 3, sale: true },
+        DEFAULT_CHANGE_RULES
+      )
+    ).toEqual([
+      {
+        type: 'change.detected',
+        changes: [
+          { path: '$.price', kind: 'changed', before: 10, after: 12 },
+          { path: '$.sale', kind: 'added', after: true },
+        ],
+      },
+    ]);
+  });
+
+  it('only compares tracked paths', () => {
+    const before = { price: 10, description: 'old' };
+    const after = { price: 10, description: 'new' };
+    const tracked = rules({ scope: 'paths', trackedPaths: ['$.price'] });
+
+    expect(detectChanges(before, after, tracked)).toEqual([]);
+    expect(detectChanges(before, { ...after, price: 11 }, tracked)).toEqual([
+      {
+        type: 'change.detected',
+        changes: [{ path: '$.price', kind: 'changed', before: 10, after: 11 }],
+      },
+    ]);
+  });
+
+  it('emits item events for keyed arrays', () => {
+    const before = {
+      items: [
+        { id: 'a', price: 1 },
+        { id: 'b', price: 2 },
+      ],
+    };
+    const after = {
+      items: [
+        { id: 'b', price: 3 },
+        { id: 'c', price: 4 },
+      ],
+    };
+
+    expect(
+      detectChanges(
+        before,
+        after,
+        rules({ arrayKeys: [{ path: '$.items', key: 'id' }] })
+      )
+    ).toEqual([
+      {
+        type: 'item.modified',
+        path: '$.items',
+        key: 'b',
+        item: { id: 'b', price: 3 },
+        changes: [
+          { path: '$.items[0].price', kind: 'changed', before: 2, after: 3 },
+        ],
+      },
+      {
+        type: 'item.added',
+        path: '$.items',
+        key: 'c',
+        item: { id: 'c', price: 4 },
+      },
+      {
+        type: 'item.removed',
+        path: '$.items',
+        key: 'a',
+        item: { id: 'a', price: 1 },
+      },
+    ]);
+  });
+
+  it('treats a reordered keyed array as unchanged', () => {
+    expect(
+      detectChanges(
+        [{ id: 1 }, { id: 2 }],
+        [{ id: 2 }, { id: 1 }],
+        rules({ arrayKeys: [{ path: '$', key: 'id' }] })
+      )
+    ).toEqual([]);
+  });
+
+  it('matches wildcard array key paths', () => {
+    const events = detectChanges(
+      { orders: [{ lines: [{ sku: 'x' }] }] },
+      { orders: [{ lines: [{ sku: 'x' }, { sku: 'y' }] }] },
+      rules({ arrayKeys: [{ path: '$.orders[*].lines', key: 'sku' }] })
+    );
+    expect(events).toEqual([
+      {
+        type: 'item.added',
+        path: '$.orders[0].lines',
+        key: 'y',
+        item: { sku: 'y' },
+      },
+    ]);
+  });
+
+  it('matches array key paths written in another notation', () => {
+    const events = detectChanges(
+      { data: { o: [{ id: 'a' }, { id: 'b' }] } },
+      { data: { o: [{ id: 'b' }, { id: 'c' }] } },
+      rules({ arrayKeys: [{ path: "$['data']['o']", key: 'id' }] })
+    );
+    expect(events).toEqual([
+      { type: 'item.added', path: '$.data.o', key: 'c', item: { id: 'c' } },
+      { type: 'item.removed', path: '$.data.o', key: 'a', item: { id: 'a' } },
+    ]);
+  });
+});
+
+describe('findInvalidPaths', () => {
+  it('reports unparseable JSONPaths but not plain field names', () => {
+    expect(
+      findInvalidPaths(
+        rules({
+          scope: 'paths',
+          trackedPaths: ['$.ok', '$.['],
+          ignoredFields: ['updatedAt', '$..bad['],
+        })
+      )
+    ).toEqual(['$.[', '$..bad[']);
+  });
+});
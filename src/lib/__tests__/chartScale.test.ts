@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { formatTickValue, getChartDomain, scaleValue } from '../chartScale';
+
+describe('getChartDomain', () => {
+  it('rounds the extent out to nice steps from zero', () => {
+    expect(getChartDomain([3, 87, 42])).toEqual({
+      min: 0,
+      max: 100,
+      ticks: [0, 20, 40, 60, 80, 100],
+    });
+  });
+
+  it('uses fractional steps for small values without float drift', () => {
+    expect(getChartDomain([0.1, 0.7]).ticks).toEqual([0, 0.2, 0.4, 0.6, 0.8]);
+  });
+
+  it('extends below zero for negative values', () => {
+    expect(getChartDomain([-30, 50])).toEqual({
+      min: -40,
+      max: 60,
+      ticks: [-40, -20, 0, 20, 40, 60],
+    });
+  });
+
+  it('falls back to a unit domain for empty or all-zero data', () => {
+    expect(getChartDomain([])).toEqual({ min: 0, max: 1, ticks: [0, 1] });
+    expect(getChartDomain([0, 0])).toEqual({ min: 0, max: 1, ticks: [0, 1] });
+  });
+
+  it('ignores non-finite values', () => {
+    expect(getChartDomain([Number.NaN, 4]).max).toBe(4);
+  });
+});
+
+describe('scaleValue', () => {
+  it('maps values onto 0..1 within the domain', () => {
+    const domain = getChartDomain([100]);
+    expect(scaleValue(0, domain)).toBe(0);
+    expect(scaleValue(50, domain)).toBe(0.5);
+    expect(scaleValue(100, domain)).toBe(1);
+  });
+});
+
+describe('formatTickValue', () => {
+  it('abbreviates thousands and millions', () => {
+    expect(formatTickValue(950)).toBe('950');
+    expect(formatTickValue(1200)).toBe('1.2k');
+    expect(formatTickValue(3_500_000)).toBe('3.5M');
+    expect(formatTickValue(0.25)).toBe('0.25');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { diffJson } from '../jsonDiff';
+
+describe('diffJson', () => {
+  it('returns no entries for structurally equal values', () => {
+    expect(diffJson({ a: [1, { b: 'x' }] }, { a: [1, { b: 'x' }] })).toEqual(
+      []
+    );
+  });
+
+  it('reports changed leaves with before and after values', () => {
+    expect(diffJson({ status: 'pending' }, { status: 'shipped' })).toEqual([
+      {
+        path: '$.status',
+        kind: 'changed',
+        before: 'pending',
+        after: 'shipped',
+      },
+    ]);
+  });
+
+  it('reports added and removed object keys', () => {
+    expect(diffJson({ a: 1, b: 2 }, { b: 2, c: 3 })).toEqual([
+      { path: '$.a', kind: 'removed', before: 1 },
+      { path: '$.c', kind: 'added', after: 3 },
+    ]);
+  });
+
+  it('compares arrays by position', () => {
+    expect(diffJson({ items: [1, 2, 3] }, { items: [1, 5] })).toEqual([
+      { path: '$.items[1]', kind: 'changed', before: 2, after: 5 },
+      { path: '$.items[2]', kind: 'removed', before: 3 },
+    ]);
+  });
+
+  it('recurses into nested structures', () => {
+    expect(
+      diffJson(
+        { order: { lines: [{ qty: 1 }] } },
+        { order: { lines: [{ qty: 2 }, { qty: 1 }] } }
+      )
+    ).toEqual([
+      { path: '$.order.lines[0].qty', kind: 'changed', before: 1, after: 2 },
+      { path: '$.order.lines[1]', kind: 'added', after: { qty: 1 } },
+    ]);
+  });
+
+  it('treats a type change as a single changed entry', () => {
+    expect(diffJson({ a: { b: 1 } }, { a: [1] })).toEqual([
+      { path: '$.a', kind: 'changed', before: { b: 1 }, after: [1] },
+    ]);
+  });
+
+  it('bracket-quotes keys that are not identifiers', () => {
+    expect(diffJson({ 'x-id': 1 }, { 'x-id': 2 })).toEqual([
+      { path: "$['x-id']", kind: 'changed', before: 1, after: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { hasPermission } from '../permissions';
+
+describe('hasPermission', () => {
+  it('lets developers change resources but not delete them', () => {
+    expect(hasPermission('developer', 'webhooks:write')).toBe(true);
+    expect(hasPermission('developer', 'webhooks:delete')).toBe(false);
+    expect(hasPermission('developer', 'members:manage')).toBe(false);
+  });
+
+  it('gives owners and admins management permissions', () => {
+    expect(hasPermission('owner', 'settings:manage')).toBe(true);
+    expect(hasPermission('admin', 'members:manage')).toBe(true);
+  });
+
+  it('reserves transferring and deleting the organization for owners', () => {
+    expect(hasPermission('owner', 'organization:delete')).toBe(true);
+    expect(hasPermission('admin', 'organization:delete')).toBe(false);
+    expect(hasPermission('admin', 'organization:transfer')).toBe(false);
+  });
+
+  it('grants nothing to viewers or an unknown role', () => {
+    expect(hasPermission('viewer', 'webhooks:write')).toBe(false);
+    expect(hasPermission(null, 'webhooks:write')).toBe(false);
+    expect(hasPermission(undefined, 'events:redeliver')).toBe(false);
+  });
+});
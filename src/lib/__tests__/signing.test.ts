@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeSignature,
+  generateSigningSecret,
+  maskSecret,
+  parseSignatureHeader,
+  verifySignature,
+} from '../signing';
+
+const secret = 'whsec_test_secret_value';
+const timestamp = '1767225600';
+const payload = '{"event":"item.added","id":"evt_1"}';
+// Verification time matching the timestamp above
+const now = Number(timestamp) * 1000;
+
+describe('generateSigningSecret', () => {
+  it('produces prefixed 32-byte hex secrets', () => {
+    const generated = generateSigningSecret();
+    expect(generated).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(generateSigningSecret()).not.toBe(generated);
+  });
+});
+
+describe('maskSecret', () => {
+  it('keeps the prefix and last four characters', () => {
+    expect(maskSecret('whsec_abcdef0123456789')).toBe('whsec_••••••••6789');
+  });
+
+  it('hides short secrets entirely', () => {
+    expect(maskSecret('short')).toBe('••••••••');
+  });
+});
+
+describe('computeSignature', () => {
+  it('matches the HMAC-SHA256 of timestamp.payload', async () => {
+    // echo -n "<timestamp>.<payload>" | openssl dgst -sha256 -hmac <secret>
+    expect(await computeSignature(secret, timestamp, payload)).toBe(
+      '0e9eb80065a4ddec746773f2d2881cd3b3de4c1207a8f13cde1a369d554bea9f'
+    );
+  });
+
+  it('changes with the timestamp', async () => {
+    expect(await computeSignature(secret, '1767225601', payload)).not.toBe(
+      await computeSignature(secret, timestamp, payload)
+    );
+  });
+});
+
+describe('parseSignatureHeader', () => {
+  const digest = 'a'.repeat(64);
+
+  it('reads every v1 entry', () => {
+    expect(parseSignatureHeader(`v1=${digest},v1=${'B'.repeat(64)}`)).toEqual([
+      digest,
+      'b'.repeat(64),
+    ]);
+  });
+
+  it('accepts a bare digest and ignores other versions', () => {
+    expect(parseSignatureHeader(digest)).toEqual([digest]);
+    expect(parseSignatureHeader(`v0=xyz v1=${digest}`)).toEqual([digest]);
+  });
+
+  it('rejects malformed headers', () => {
+    expect(parseSignatureHeader('')).toBe(null);
+    expect(parseSignatureHeader('v1=not-hex')).toBe(null);
+  });
+});
+
+describe('verifySignature', () => {
+  it('accepts a header signed with the secret', async () => {
+    const signature = await computeSignature(secret, timestamp, payload);
+    expect(
+      await verifySignature({
+        secret,
+        timestamp,
+        payload,
+        header: `v1=${signature}`,
+        now,
+      })
+    ).toEqual({ valid: true });
+  });
+
+  it('accepts a header carrying old and new signatures during rotation', async () => {
+    const signature = await computeSignature(secret, timestamp, payload);
+    const previous = await computeSignature('whsec_old', timestamp, payload);
+    expect(
+      await verifySignature({
+        secret,
+        timestamp,
+        payload,
+        header: `v1=${previous},v1=${signature}`,
+        now,
+      })
+    ).toEqual({ valid: true });
+  });
+
+  it('reports a mismatch when the payload changed', async () => {
+    const signature = await computeSignature(secret, timestamp, payload);
+    expect(
+      await verifySignature({
+        secret,
+        timestamp,
+        payload: `${payload} `,
+        header: `v1=${signature}`,
+        now,
+      })
+    ).toEqual({ valid: false, reason: 'mismatch' });
+  });
+
+  it('reports a malformed header', async () => {
+    expect(
+      await verifySignature({ secret, timestamp, payload, header: 'sig', now })
+    ).toEqual({ valid: false, reason: 'malformed-header' });
+  });
+
+  it('rejects validly signed deliveries outside the tolerance window', async () => {
+    const signature = await computeSignature(secret, timestamp, payload);
+    const verifyAt = (at: number) =>
+      verifySignature({
+        secret,
+        timestamp,
+        payload,
+        header: `v1=${signature}`,
+        now: at,
+      });
+
+    expect(await verifyAt(now + 300_000)).toEqual({ valid: true });
+    expect(await verifyAt(now + 301_000)).toEqual({
+      valid: false,
+      reason: 'stale-timestamp',
+    });
+    expect(await verifyAt(now - 301_000)).toEqual({
+      valid: false,
+      reason: 'stale-timestamp',
+    });
+  });
+
+  it('rejects timestamps that are not Unix seconds', async () => {
+    const signature = await computeSignature(secret, 'soon', payload);
+    expect(
+      await verifySignature({
+        secret,
+        timestamp: 'soon',
+        payload,
+        header: `v1=${signature}`,
+        now,
+      })
+    ).toEqual({ valid: false, reason: 'invalid-timestamp' });
+  });
+});
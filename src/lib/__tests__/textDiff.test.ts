@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { countDiffLines, diffLines } from '../textDiff';
+
+describe('diffLines', () => {
+  it('keeps identical texts unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { kind: 'unchanged', text: 'a', beforeLine: 1, afterLine: 1 },
+      { kind: 'unchanged', text: 'b', beforeLine: 2, afterLine: 2 },
+    ]);
+  });
+
+  it('reports a changed line as removed then added', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { kind: 'unchanged', text: 'a', beforeLine: 1, afterLine: 1 },
+      { kind: 'removed', text: 'b', beforeLine: 2 },
+      { kind: 'added', text: 'B', afterLine: 2 },
+      { kind: 'unchanged', text: 'c', beforeLine: 3, afterLine: 3 },
+    ]);
+  });
+
+  it('aligns on common lines around insertions and deletions', () => {
+    const lines = diffLines(
+      '{\n  "a": 1,\n  "b": 2\n}',
+      '{\n  "b": 2,\n  "c": 3\n}'
+    );
+    expect(lines.map((line) => `${line.kind} ${line.text}`)).toEqual([
+      'unchanged {',
+      'removed   "a": 1,',
+      'removed   "b": 2',
+      'added   "b": 2,',
+      'added   "c": 3',
+      'unchanged }',
+    ]);
+  });
+
+  it('treats an empty text as having no lines', () => {
+    expect(diffLines('', 'x')).toEqual([
+      { kind: 'added', text: 'x', afterLine: 1 },
+    ]);
+    expect(diffLines('x', '')).toEqual([
+      { kind: 'removed', text: 'x', beforeLine: 1 },
+    ]);
+  });
+
+  it('ignores Windows line endings', () => {
+    expect(countDiffLines(diffLines('a\r\nb', 'a\nb'))).toEqual({
+      added: 0,
+      removed: 0,
+    });
+  });
+});
+
+describe('countDiffLines', () => {
+  it('counts added and removed lines', () => {
+    expect(countDiffLines(diffLines('a\nb\nc', 'a\nx\ny'))).toEqual({
+      added: 2,
+      removed: 2,
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTimeRange,
+  getAxisDateFormat,
+  getTimeRangeBounds,
+  isTimeRangePreset,
+} from '../timeRange';
+
+const now = new Date('2026-03-08T12:00:00Z');
+
+describe('getTimeRangeBounds', () => {
+  it('resolves presets relative to now', () => {
+    expect(getTimeRangeBounds({ preset: '1h' }, now)).toEqual({
+      from: new Date('2026-03-08T11:00:00Z'),
+      to: now,
+    });
+    expect(getTimeRangeBounds({ preset: '7d' }, now).from).toEqual(
+      new Date('2026-03-01T12:00:00Z')
+    );
+  });
+
+  it('returns custom bounds unchanged', () => {
+    const from = new Date('2026-01-01T00:00:00Z');
+    const to = new Date('2026-01-03T00:00:00Z');
+    expect(getTimeRangeBounds({ preset: 'custom', from, to }, now)).toEqual({
+      from,
+      to,
+    });
+  });
+});
+
+describe('getAxisDateFormat', () => {
+  it('shows times for short ranges and dates for long ones', () => {
+    expect(getAxisDateFormat({ preset: '24h' })).toBe('HH:mm');
+    expect(getAxisDateFormat({ preset: '30d' })).toBe('MMM d');
+    expect(
+      getAxisDateFormat({
+        preset: 'custom',
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T12:00:00Z'),
+      })
+    ).toBe('MMM d HH:mm');
+  });
+});
+
+describe('formatTimeRange', () => {
+  it('labels presets by name', () => {
+    expect(formatTimeRange({ preset: '7d' })).toBe('Last 7 days');
+  });
+});
+
+describe('isTimeRangePreset', () => {
+  it('accepts only known presets', () => {
+    expect(isTimeRangePreset('30d')).toBe(true);
+    expect(isTimeRangePreset('custom')).toBe(false);
+    expect(isTimeRangePreset('90d')).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeOffsets,
+  findRowAtOffset,
+  getVisibleRange,
+} from '../virtualList';
+
+// Rows of 40, 100, 60 and 100 px: tops at 0, 40, 140, 200; total 300
+const offsets = computeOffsets([40, 100, 60, 100]);
+
+describe('computeOffsets', () => {
+  it('returns row tops followed by the total height', () => {
+    expect(offsets).toEqual([0, 40, 140, 200, 300]);
+    expect(computeOffsets([])).toEqual([0]);
+  });
+});
+
+describe('findRowAtOffset', () => {
+  it('finds the row containing an offset', () => {
+    expect(findRowAtOffset(offsets, 0)).toBe(0);
+    expect(findRowAtOffset(offsets, 39)).toBe(0);
+    expect(findRowAtOffset(offsets, 40)).toBe(1);
+    expect(findRowAtOffset(offsets, 199)).toBe(2);
+  });
+
+  it('clamps offsets outside the list', () => {
+    expect(findRowAtOffset(offsets, -10)).toBe(0);
+    expect(findRowAtOffset(offsets, 1000)).toBe(3);
+    expect(findRowAtOffset([0], 50)).toBe(0);
+  });
+});
+
+describe('getVisibleRange', () => {
+  it('covers every row intersecting the viewport', () => {
+    expect(getVisibleRange(offsets, 50, 100)).toEqual({ start: 1, end: 3 });
+    expect(getVisibleRange(offsets, 0, 40)).toEqual({ start: 0, end: 2 });
+  });
+
+  it('adds overscan without leaving the list', () => {
+    expect(getVisibleRange(offsets, 50, 100, 1)).toEqual({ start: 0, end: 4 });
+    expect(getVisibleRange(offsets, 250, 500, 2)).toEqual({ start: 1, end: 4 });
+  });
+
+  it('is empty for an empty list', () => {
+    expect(getVisibleRange([0], 0, 500)).toEqual({ start: 0, end: 0 });
+  });
+});
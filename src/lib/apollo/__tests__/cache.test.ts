@@ -0,0 +1,141 @@
+import { gql } from '@apollo/client';
+import { describe, expect, it } from 'vitest';
+import { createApolloCache } from '../cache';
+
+const WEBHOOKS_QUERY = gql`
+  query Webhooks {
+    listWebhooks {
+      id
+      events
+    }
+  }
+`;
+
+const EVENTS_QUERY = gql`
+  query Events($filter: WebhookEventFilter, $limit: Int, $nextToken: String) {
+    listWebhookEvents(filter: $filter, limit: $limit, nextToken: $nextToken) {
+      items {
+        id
+      }
+      nextToken
+    }
+  }
+`;
+
+const EVENT_QUERY = gql`
+  query Event($id: ID!, $attemptsNextToken: String) {
+    getWebhookEvent(id: $id) {
+      id
+      attempts(nextToken: $attemptsNextToken) {
+        items {
+          id
+        }
+        nextToken
+      }
+    }
+  }
+`;
+
+function eventPage(ids: string[], nextToken: string | null) {
+  return {
+    listWebhookEvents: {
+      __typename: 'WebhookEventConnection',
+      items: ids.map((id) => ({ __typename: 'WebhookEvent', id })),
+      nextToken,
+    },
+  };
+}
+
+describe('createApolloCache', () => {
+  it('reads subscribed webhook event types back as a plain list', () => {
+    const cache = createApolloCache();
+    cache.writeQuery({
+      query: WEBHOOKS_QUERY,
+      data: {
+        listWebhooks: [
+          {
+            __typename: 'Webhook',
+            id: 'wh_1',
+            events: ['monitor.changed', 'monitor.failed'],
+          },
+        ],
+      },
+    });
+
+    expect(cache.readQuery({ query: WEBHOOKS_QUERY })).toEqual({
+      listWebhooks: [
+        {
+          __typename: 'Webhook',
+          id: 'wh_1',
+          events: ['monitor.changed', 'monitor.failed'],
+        },
+      ],
+    });
+  });
+
+  it('keeps event lists with different page sizes apart', () => {
+    const cache = createApolloCache();
+    const history = { filter: {}, limit: 2 };
+    const recent = { filter: {}, limit: 1 };
+
+    cache.writeQuery({
+      query: EVENTS_QUERY,
+      variables: history,
+      data: eventPage(['a', 'b'], 'next'),
+    });
+    cache.writeQuery({
+      query: EVENTS_QUERY,
+      variables: { ...history, nextToken: 'next' },
+      data: eventPage(['c'], null),
+    });
+    cache.writeQuery({
+      query: EVENTS_QUERY,
+      variables: recent,
+      data: eventPage(['z'], 'more'),
+    });
+
+    const ids = (variables: object) =>
+      cache
+        .readQuery<{ listWebhookEvents: { items: { id: string }[] } }>({
+          query: EVENTS_QUERY,
+          variables,
+        })
+        ?.listWebhookEvents.items.map((item) => item.id);
+
+    expect(ids(history)).toEqual(['a', 'b', 'c']);
+    expect(ids(recent)).toEqual(['z']);
+  });
+
+  it('appends later pages of delivery attempts to the event', () => {
+    const cache = createApolloCache();
+    const attemptsPage = (ids: string[], nextToken: string | null) => ({
+      getWebhookEvent: {
+        __typename: 'WebhookEvent',
+        id: 'evt_1',
+        attempts: {
+          __typename: 'DeliveryAttemptConnection',
+          items: ids.map((id) => ({ __typename: 'DeliveryAttempt', id })),
+          nextToken,
+        },
+      },
+    });
+
+    cache.writeQuery({
+      query: EVENT_QUERY,
+      variables: { id: 'evt_1' },
+      data: attemptsPage(['1', '2'], 'next'),
+    });
+    cache.writeQuery({
+      query: EVENT_QUERY,
+      variables: { id: 'evt_1', attemptsNextToken: 'next' },
+      data: attemptsPage(['3'], null),
+    });
+
+    const result = cache.readQuery<{
+      getWebhookEvent: { attempts: { items: { id: string }[] } };
+    }>({ query: EVENT_QUERY, variables: { id: 'evt_1' } });
+    expect(
+      result?.getWebhookEvent.attempts.items.map((attempt) => attempt.id)
+    ).toEqual(['1', '2', '3']);
+  });
+});
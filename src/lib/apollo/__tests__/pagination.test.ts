@@ -0,0 +1,106 @@
+import { gql, InMemoryCache } from '@apollo/client';
+import { describe, expect, it } from 'vitest';
+import { cursorPagination } from '../pagination';
+
+const EVENTS_QUERY = gql`
+  query Events($filter: String, $nextToken: String) {
+    events(filter: $filter, nextToken: $nextToken) {
+      items {
+        id
+      }
+      nextToken
+    }
+  }
+`;
+
+interface EventsData {
+  events: {
+    __typename: 'EventPage';
+    items: { __typename: 'Event'; id: string }[];
+    nextToken: string | null;
+  };
+}
+
+function createCache() {
+  return new InMemoryCache({
+    typePolicies: {
+      Query: { fields: { events: cursorPagination(['filter']) } },
+    },
+  });
+}
+
+function page(ids: string[], nextToken: string | null): EventsData {
+  return {
+    events: {
+      __typename: 'EventPage',
+      items: ids.map((id) => ({ __typename: 'Event', id })),
+      nextToken,
+    },
+  };
+}
+
+function writePage(
+  cache: InMemoryCache,
+  data: EventsData,
+  variables: { filter?: string; nextToken?: string }
+) {
+  cache.writeQuery({ query: EVENTS_QUERY, variables, data });
+}
+
+function readIds(cache: InMemoryCache, filter?: string) {
+  const result = cache.readQuery<EventsData>({
+    query: EVENTS_QUERY,
+    variables: { filter },
+  });
+  return {
+    ids: result?.events.items.map((item) => item.id),
+    nextToken: result?.events.nextToken,
+  };
+}
+
+describe('cursorPagination', () => {
+  it('appends pages fetched with a cursor', () => {
+    const cache = createCache();
+    writePage(cache, page(['a', 'b'], 'c1'), {});
+    writePage(cache, page(['c', 'd'], null), { nextToken: 'c1' });
+
+    expect(readIds(cache)).toEqual({
+      ids: ['a', 'b', 'c', 'd'],
+      nextToken: null,
+    });
+  });
+
+  it('skips items already in the list', () => {
+    const cache = createCache();
+    writePage(cache, page(['a', 'b'], 'c1'), {});
+    writePage(cache, page(['b', 'c'], 'c2'), { nextToken: 'c1' });
+
+    expect(readIds(cache)).toEqual({ ids: ['a', 'b', 'c'], nextToken: 'c2' });
+  });
+
+  it('starts over when the first page is fetched again', () => {
+    const cache = createCache();
+    writePage(cache, page(['a', 'b'], 'c1'), {});
+    writePage(cache, page(['c'], null), { nextToken: 'c1' });
+    writePage(cache, page(['z', 'a'], 'c3'), {});
+
+    expect(readIds(cache)).toEqual({ ids: ['z', 'a'], nextToken: 'c3' });
+  });
+
+  it('keeps a separate list per key argument', () => {
+    const cache = createCache();
+    writePage(cache, page(['a'], null), { filter: 'failed' });
+    writePage(cache, page(['b'], null), { filter: 'success' });
+
+    expect(readIds(cache, 'failed').ids).toEqual(['a']);
+    expect(readIds(cache, 'success').ids).toEqual(['b']);
+  });
+
+  it('drops items evicted from the cache', () => {
+    const cache = createCache();
+    writePage(cache, page(['a', 'b'], null), {});
+    cache.evict({ id: 'Event:a' });
+
+    expect(readIds(cache).ids).toEqual(['b']);
+  });
+});
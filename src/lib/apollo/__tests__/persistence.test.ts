@@ -0,0 +1,258 @@
+import { gql, InMemoryCache } from '@apollo/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type CacheScope,
+  clearPersistedCaches,
+  createCachePersistor,
+  getCacheKey,
+  type PersistentStorage,
+} from '../persistence';
+
+const VIEWER_QUERY = gql`
+  query Viewer {
+    viewer {
+      id
+      name
+    }
+  }
+`;
+
+const WEBHOOK_QUERY = gql`
+  query Webhook {
+    webhook {
+      id
+      name
+      secret
+    }
+    monitor {
+      id
+      name
+      authentication {
+        type
+        credentials {
+          key
+          value
+        }
+      }
+    }
+  }
+`;
+
+const CREATE_API_KEY_MUTATION = gql`
+  mutation CreateApiKey {
+    createApiKey {
+      secret
+    }
+  }
+`;
+
+const alice: CacheScope = { userId: 'user_1', organizationId: 'org_1' };
+
+function createMemoryStorage(): PersistentStorage & {
+  items: Map<string, string>;
+} {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => Promise.resolve(items.get(key) ?? null),
+    setItem: (key, value) => {
+      items.set(key, value);
+      return Promise.resolve();
+    },
+    removeItem: (key) => {
+      items.delete(key);
+      return Promise.resolve();
+    },
+    clear: () => {
+      items.clear();
+      return Promise.resolve();
+    },
+  };
+}
+
+function writeViewer(cache: InMemoryCache, name: string) {
+  cache.writeQuery({
+    query: VIEWER_QUERY,
+    data: { viewer: { __typename: 'User', id: '1', name } },
+  });
+}
+
+function readViewerName(cache: InMemoryCache) {
+  return cache.readQuery<{ viewer: { name: string } }>({ query: VIEWER_QUERY })
+    ?.viewer.name;
+}
+
+describe('createCachePersistor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves after writes settle and restores into a new cache', async () => {
+    const storage = createMemoryStorage();
+    const cache = new InMemoryCache();
+    const persistor = createCachePersistor({ cache, storage, scope: alice });
+
+    writeViewer(cache, 'Alice');
+    expect(storage.items.size).toBe(0);
+    await vi.runAllTimersAsync();
+    await persistor.stop();
+
+    const reloaded = new InMemoryCache();
+    const restored = createCachePersistor({
+      cache: reloaded,
+      storage,
+      scope: alice,
+    });
+    expect(await restored.restore()).toBe(true);
+    expect(readViewerName(reloaded)).toBe('Alice');
+  });
+
+  it('reports when a restored snapshot was saved', async () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const storage = createMemoryStorage();
+    const cache = new InMemoryCache();
+    const persistor = createCachePersistor({ cache, storage, scope: alice });
+    writeViewer(cache, 'Alice');
+    const saved = cache.extract();
+    await persistor.stop();
+
+    const onRestore = vi.fn();
+    const restored = createCachePersistor({
+      cache: new InMemoryCache(),
+      storage,
+      scope: alice,
+      onRestore,
+    });
+    await restored.restore();
+
+    expect(onRestore).toHaveBeenCalledWith(
+      saved,
+      Date.parse('2026-01-01T00:00:00Z')
+    );
+  });
+
+  it('keeps users and organizations apart', async () => {
+    const storage = createMemoryStorage();
+    const cache = new InMemoryCache();
+    const persistor = createCachePersistor({ cache, storage, scope: alice });
+    writeViewer(cache, 'Alice');
+    await persistor.stop();
+
+    for (const scope of [
+      { userId: 'user_1', organizationId: 'org_2' },
+      { userId: 'user_2', organizationId: 'org_1' },
+    ]) {
+      const other = new InMemoryCache();
+      const restored = createCachePersistor({ cache: other, storage, scope });
+      expect(await restored.restore()).toBe(false);
+      expect(readViewerName(other)).toBeUndefined();
+    }
+  });
+
+  it('purges snapshots from another cache version', async () => {
+    const storage = createMemoryStorage();
+    const cache = new InMemoryCache();
+    const persistor = createCachePersistor({
+      cache,
+      storage,
+      scope: alice,
+      version: 1,
+    });
+    writeViewer(cache, 'Alice');
+    await persistor.stop();
+
+    const upgraded = createCachePersistor({
+      cache: new InMemoryCache(),
+      storage,
+      scope: alice,
+      version: 2,
+    });
+    expect(await upgraded.restore()).toBe(false);
+    expect(storage.items.has(getCacheKey(alice))).toBe(false);
+  });
+
+  it('leaves secrets out of the snapshot', async () => {
+    const storage = createMemoryStorage();
+    const cache = new InMemoryCache();
+    const persistor = createCachePersistor({ cache, storage, scope: alice });
+
+    cache.writeQuery({
+      query: WEBHOOK_QUERY,
+      data: {
+        webhook: {
+          __typename: 'Webhook',
+          id: 'wh_1',
+          name: 'Deploys',
+          secret: 'whsec_signing',
+        },
+        monitor: {
+          __typename: 'Monitor',
+          id: 'm1',
+          name: 'API',
+          authentication: {
+            __typename: 'MonitorAuthentication',
+            type: 'BEARER',
+            credentials: [
+              { __typename: 'HeaderEntry', key: 'token', value: 'tok_live' },
+            ],
+          },
+        },
+      },
+    });
+    cache.writeQuery({
+      query: CREATE_API_KEY_MUTATION,
+      id: 'ROOT_MUTATION',
+      data: {
+        createApiKey: { __typename: 'CreateApiKeyPayload', secret: 'rk_live' },
+      },
+    });
+    await persistor.persist();
+
+    const serialized = storage.items.get(getCacheKey(alice)) ?? '';
+    expect(serialized).toContain('Deploys');
+    for (const secret of ['whsec_signing', 'tok_live', 'rk_live']) {
+      expect(serialized).not.toContain(secret);
+    }
+  });
+
+  it('drops the snapshot once the cache outgrows the size cap', async () => {
+    const storage = createMemoryStorage();
+    const cache = new InMemoryCache();
+    const persistor = createCachePersistor({
+      cache,
+      storage,
+      scope: alice,
+      maxSize: 200,
+    });
+
+    writeViewer(cache, 'Alice');
+    await persistor.persist();
+    expect(storage.items.has(getCacheKey(alice))).toBe(true);
+
+    writeViewer(cache, 'A'.repeat(500));
+    await persistor.persist();
+    expect(storage.items.has(getCacheKey(alice))).toBe(false);
+  });
+});
+
+describe('clearPersistedCaches', () => {
+  it('wipes snapshots and cancels pending saves', async () => {
+    vi.useFakeTimers();
+    const storage = createMemoryStorage();
+    const cache = new InMemoryCache();
+    const persistor = createCachePersistor({ cache, storage, scope: alice });
+    writeViewer(cache, 'Alice');
+    await persistor.persist();
+
+    writeViewer(cache, 'Alice again');
+    await clearPersistedCaches(storage);
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+
+    expect(storage.items.size).toBe(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { gql, InMemoryCache } from '@apollo/client';
+import { describe, expect, it } from 'vitest';
+import { createCacheTtl, getQueryKey } from '../ttl';
+
+const MONITOR_QUERY = gql`
+  query Monitor {
+    monitor {
+      id
+      name
+      successRate
+    }
+  }
+`;
+
+const SUCCESS_RATE_QUERY = gql`
+  query SuccessRate {
+    monitor {
+      id
+      successRate
+    }
+  }
+`;
+
+const VIEWER_QUERY = gql`
+  query Viewer {
+    viewer {
+      id
+      name
+      tags
+    }
+  }
+`;
+
+function setup() {
+  let time = 0;
+  const ttl = createCacheTtl(
+    {
+      User: { ttl: 1000 },
+      Monitor: { fields: { successRate: 500 } },
+    },
+    () => time
+  );
+  const cache = new InMemoryCache({
+    typePolicies: ttl.typePolicies({
+      User: {
+        fields: {
+          // Accumulates across writes, to check existing merges still run
+          tags: {
+            merge: (existing: string[] = [], incoming: string[]) => [
+              ...existing,
+              ...incoming,
+            ],
+          },
+        },
+      },
+    }),
+  });
+  const advance = (ms: number) => {
+    time += ms;
+  };
+  return { ttl, cache, advance };
+}
+
+function writeMonitor(cache: InMemoryCache, successRate: number) {
+  cache.writeQuery({
+    query: MONITOR_QUERY,
+    data: {
+      monitor: { __typename: 'Monitor', id: 'm1', name: 'API', successRate },
+    },
+  });
+}
+
+function writeViewer(cache: InMemoryCache, tags: string[]) {
+  cache.writeQuery({
+    query: VIEWER_QUERY,
+    data: { viewer: { __typename: 'User', id: 'u1', name: 'Alice', tags } },
+  });
+}
+
+describe('createCacheTtl', () => {
+  it('evicts entities once their type TTL has passed', () => {
+    const { ttl, cache, advance } = setup();
+    writeViewer(cache, ['a']);
+
+    advance(999);
+    expect(ttl.collect(cache)).toBe(0);
+    expect(cache.readQuery({ query: VIEWER_QUERY })).not.toBeNull();
+
+    advance(1);
+    expect(ttl.collect(cache)).toBe(1);
+    expect(cache.readQuery({ query: VIEWER_QUERY })).toBeNull();
+  });
+
+  it('restarts an entity lifetime on every write', () => {
+    const { ttl, cache, advance } = setup();
+    writeViewer(cache, ['a']);
+    advance(800);
+    writeViewer(cache, ['b']);
+    advance(800);
+
+    expect(ttl.collect(cache)).toBe(0);
+    expect(
+      cache.readQuery<{ viewer: { tags: string[] } }>({ query: VIEWER_QUERY })
+        ?.viewer.tags
+    ).toEqual(['a', 'b']);
+  });
+
+  it('expires individual fields and leaves the rest of the entity', () => {
+    const { ttl, cache, advance } = setup();
+    writeMonitor(cache, 99);
+
+    advance(500);
+    // Reads the cache has not memoized see the expiry before the collector runs
+    expect(cache.readQuery({ query: SUCCESS_RATE_QUERY })).toBeNull();
+
+    expect(ttl.collect(cache)).toBe(0);
+    expect(cache.readQuery({ query: MONITOR_QUERY })).toBeNull();
+    expect(cache.extract()['Monitor:m1']).toEqual({
+      __typename: 'Monitor',
+      id: 'm1',
+      name: 'API',
+    });
+  });
+
+  it('keeps rewritten fields until their new expiry', () => {
+    const { ttl, cache, advance } = setup();
+    writeMonitor(cache, 99);
+    advance(400);
+    writeMonitor(cache, 98);
+    advance(400);
+
+    ttl.collect(cache);
+    expect(
+      cache.readQuery<{ monitor: { successRate: number } }>({
+        query: MONITOR_QUERY,
+      })?.monitor.successRate
+    ).toBe(98);
+
+    advance(100);
+    ttl.collect(cache);
+    expect(cache.readQuery({ query: MONITOR_QUERY })).toBeNull();
+  });
+
+  it('ages restored entities from when their snapshot was saved', () => {
+    const { ttl, cache, advance } = setup();
+    const snapshot = {
+      'User:u1': { __typename: 'User', id: 'u1', name: 'Alice', tags: [] },
+      'Monitor:m1': {
+        __typename: 'Monitor',
+        id: 'm1',
+        name: 'API',
+        successRate: 99,
+      },
+      ROOT_QUERY: {
+        __typename: 'Query',
+        viewer: { __ref: 'User:u1' },
+        monitor: { __ref: 'Monitor:m1' },
+      },
+    };
+    advance(2000);
+    cache.restore(snapshot);
+    ttl.seed(snapshot, 1600);
+
+    // Saved 400ms ago, so the 500ms field has 100ms left
+    expect(cache.readQuery({ query: MONITOR_QUERY })).not.toBeNull();
+    advance(100);
+    expect(cache.readQuery({ query: SUCCESS_RATE_QUERY })).toBeNull();
+
+    expect(ttl.collect(cache)).toBe(0);
+    expect(cache.extract()['Monitor:m1']).toEqual({
+      __typename: 'Monitor',
+      id: 'm1',
+      name: 'API',
+    });
+
+    // The user's 1000ms lifetime also started at the save
+    advance(500);
+    expect(ttl.collect(cache)).toBe(1);
+    expect(cache.readQuery({ query: VIEWER_QUERY })).toBeNull();
+  });
+
+  it('remembers query fetch times until cleared', () => {
+    const { ttl, advance } = setup();
+    const key = getQueryKey('Viewer', { b: 2, a: 1 });
+    expect(ttl.getQueryFetchedAt(key)).toBeNull();
+
+    advance(250);
+    ttl.recordQuery(key);
+    expect(ttl.getQueryFetchedAt(getQueryKey('Viewer', { a: 1, b: 2 }))).toBe(
+      250
+    );
+
+    ttl.clear();
+    expect(ttl.getQueryFetchedAt(key)).toBeNull();
+  });
+});
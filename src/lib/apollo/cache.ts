@@ -1,9 +1,13 @@
 /**
  * Apollo Client InMemoryCache Configuration
- * Defines cache policies and key fields for GraphQL types
+ * Defines cache policies, key fields and freshness lifetimes for GraphQL types
  */
 
 import { InMemoryCache, type TypePolicies } from '@apollo/client';
+import { cursorPagination } from './pagination';
+import { type CacheTtl, createCacheTtl, type TtlPolicies } from './ttl';
+
+const MINUTE = 60 * 1000;
 
 // Type definitions for GraphQL entities
 interface Member {
@@ -15,23 +19,28 @@ interface Member {
   updatedAt: string;
 }
 
-interface WebhookEvent {
+interface Invitation {
   id: string;
-  webhookId: string;
-  status: string;
-  payload: Record<string, unknown>;
-  response?: Record<string, unknown>;
-  createdAt: string;
+  email: string;
+  role: string;
+  expiresAt: string;
 }
 
 /**
  * Type policies for caching GraphQL types
  */
 const typePolicies: TypePolicies = {
+  Query: {
+    fields: {
+      // Delivery log, one list per filter and page size, paged with nextToken.
+      // Keying on limit keeps the dashboard's short list, the Activity history
+      // and bulk lookups from resetting or growing each other's pages
+      listWebhookEvents: cursorPagination(['filter', 'limit']),
+    },
+  },
   User: {
     keyFields: ['id'],
     fields: {
-      // Cache user data for 5 minutes
       createdAt: {
         merge: false,
       },
@@ -48,33 +57,61 @@ const typePolicies: TypePolicies = {
           return incoming;
         },
       },
-    },
-  },
-  Webhook: {
-    keyFields: ['id'],
-    fields: {
-      events: {
-        merge: (_, incoming: WebhookEvent[] = []) => {
+      invitations: {
+        merge: (_, incoming: Invitation[] = []) => {
           return incoming;
         },
       },
     },
   },
+  Webhook: {
+    keyFields: ['id'],
+  },
   WebhookEvent: {
     keyFields: ['id'],
+    fields: {
+      // Delivery attempts of one event, paged with nextToken
+      attempts: cursorPagination(),
+    },
   },
   // Add more type policies as needed for other GraphQL types
 };
 
+/**
+ * How long cached data stays fresh before it is refetched
+ */
+const ttlPolicies: TtlPolicies = {
+  User: { ttl: 5 * MINUTE },
+  Organization: {
+    fields: { members: 5 * MINUTE, invitations: 5 * MINUTE },
+  },
+  // Health stats move with every check, unlike the monitor's configuration
+  Monitor: {
+    fields: {
+      lastCheckedAt: MINUTE,
+      successRate: MINUTE,
+      avgResponseTime: MINUTE,
+    },
+  },
+};
+
+/**
+ * TTL tracking for one cache; the client shares it with its fetch time link
+ * and useStaleAwareQuery (see getCacheTtl)
+ */
+export const createApolloCacheTtl = (): CacheTtl => createCacheTtl(ttlPolicies);
+
 /**
  * Create and configure the Apollo InMemoryCache
+ * ApolloWrapper persists it to IndexedDB per user and organization (see ./persistence)
  */
-export const createApolloCache = (): InMemoryCache => {
+export const createApolloCache = (
+  ttl: CacheTtl = createApolloCacheTtl()
+): InMemoryCache => {
   return new InMemoryCache({
-    typePolicies,
+    typePolicies: ttl.typePolicies(typePolicies),
     // Add introspection fragment matcher if needed
     possibleTypes: {},
-    // Configure cache persistence if needed in the future
     resultCaching: true,
   });
 };
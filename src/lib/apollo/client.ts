@@ -3,36 +3,84 @@
  * Creates and configures Apollo Client instance with all required links
  */
 
-import { ApolloClient, from } from '@apollo/client';
-import { createApolloCache } from './cache';
-import { validateConfig } from './config';
+import { ApolloClient, from, split } from '@apollo/client';
+import { getMainDefinition } from '@apollo/client/utilities';
+import { Kind, OperationTypeNode } from 'graphql';
+import { createApolloCache, createApolloCacheTtl } from './cache';
+import { getGraphqlUrl, getRealtimeUrl, validateConfig } from './config';
 import { createAuthLinkWithTokenGetter } from './links/auth';
 import { createErrorLink, createRetryLink } from './links/error';
+import { createFetchTimeLink } from './links/fetchTime';
 import { createAppSyncHttpLink } from './links/http';
+import { createAppSyncSubscriptionLink } from './links/subscription';
+import {
+  createTokenRefresher,
+  createTokenRefreshLink,
+} from './links/tokenRefresh';
+import type { CacheTtl } from './ttl';
+
+// Each client's TTL tracker, for hooks that read their client's fetch times
+const cacheTtls = new WeakMap<ApolloClient<unknown>, CacheTtl>();
 
 /**
  * Create Apollo Client instance with all configured links
+ * `refreshToken` must bypass any token cache; it runs after the server rejects
+ * a token from `getToken`
  */
 export const createApolloClient = (
-  getToken: () => Promise<string | null>
+  getToken: () => Promise<string | null>,
+  refreshToken: () => Promise<string | null>
 ): ApolloClient<unknown> => {
   // Validate configuration before creating client
   validateConfig();
 
+  // Every client tracks freshness for its own cache only
+  const cacheTtl = createApolloCacheTtl();
+
   // Create all the links
-  const authLink = createAuthLinkWithTokenGetter(getToken);
+  const tokenRefresher = createTokenRefresher(refreshToken);
+  const authLink = createAuthLinkWithTokenGetter(getToken, tokenRefresher);
   const errorLink = createErrorLink();
+  const tokenRefreshLink = createTokenRefreshLink(tokenRefresher);
   const retryLink = createRetryLink();
   const httpLink = createAppSyncHttpLink();
+  const fetchTimeLink = createFetchTimeLink(cacheTtl);
+  const subscriptionLink = createAppSyncSubscriptionLink({
+    realtimeUrl: getRealtimeUrl(),
+    graphqlUrl: getGraphqlUrl(),
+    getToken,
+  });
 
-  // Create the cache
-  const cache = createApolloCache();
+  // Create the cache and collect entities that outlive their TTL
+  const cache = createApolloCache(cacheTtl);
+  const stopCollector = cacheTtl.startCollector(cache);
+
+  // Subscriptions stream over the WebSocket; queries and mutations use HTTP
+  const transportLink = split(
+    ({ query }) => {
+      const definition = getMainDefinition(query);
+      return (
+        definition.kind === Kind.OPERATION_DEFINITION &&
+        definition.operation === OperationTypeNode.SUBSCRIPTION
+      );
+    },
+    subscriptionLink,
+    from([retryLink, httpLink])
+  );
 
   // Combine links in the correct order
-  // Order matters: auth -> error -> retry -> http
-  const link = from([authLink, errorLink, retryLink, httpLink]);
+  // Order matters: auth -> error -> token refresh -> fetch time ->
+  // (subscription | retry -> http), so the error link only sees auth errors
+  // that survived a refresh
+  const link = from([
+    authLink,
+    errorLink,
+    tokenRefreshLink,
+    fetchTimeLink,
+    transportLink,
+  ]);
 
-  return new ApolloClient({
+  const client = new ApolloClient({
     link,
     cache,
     // Use optimized cache policies for better performance
@@ -54,8 +102,33 @@ export const createApolloClient = (
     // Enable development tools in development
     connectToDevTools: import.meta.env.DEV,
   });
+
+  // Timestamps describe data that is gone once the store is cleared or reset
+  const clearTimestamps = () => {
+    cacheTtl.clear();
+    return Promise.resolve();
+  };
+  client.onClearStore(clearTimestamps);
+  client.onResetStore(clearTimestamps);
+
+  // Tearing the client down stops its collector, which would otherwise keep
+  // sweeping a cache nothing uses any more
+  const stopClient = client.stop.bind(client);
+  client.stop = () => {
+    stopCollector();
+    stopClient();
+  };
+
+  cacheTtls.set(client, cacheTtl);
+  return client;
 };
 
+/**
+ * TTL tracker of a client made by createApolloClient, or null for others
+ */
+export const getCacheTtl = (client: ApolloClient<unknown>): CacheTtl | null =>
+  cacheTtls.get(client) ?? null;
+
 /**
  * Singleton Apollo Client instance
  * This will be created once and reused throughout the app
@@ -66,9 +139,10 @@ let apolloClientInstance: ApolloClient<unknown> | null = null;
  * Get or create the Apollo Client instance
  */
 export const getApolloClient = (
-  getToken: () => Promise<string | null>
+  getToken: () => Promise<string | null>,
+  refreshToken: () => Promise<string | null>
 ): ApolloClient<unknown> => {
-  apolloClientInstance ??= createApolloClient(getToken);
+  apolloClientInstance ??= createApolloClient(getToken, refreshToken);
   return apolloClientInstance;
 };
 
@@ -91,5 +165,6 @@ export const getCurrentApolloClient = (): ApolloClient<unknown> => {
  * Useful for testing or when switching authentication contexts
  */
 export const resetApolloClient = (): void => {
+  apolloClientInstance?.stop();
   apolloClientInstance = null;
 };
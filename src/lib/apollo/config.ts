@@ -47,6 +47,23 @@ export const getGraphqlUrl = (): string => {
   return url;
 };
 
+/**
+ * Get the WebSocket endpoint URL for GraphQL subscriptions
+ * Uses VITE_WS_URL when set, otherwise derives the AppSync real-time endpoint
+ * from the GraphQL URL (appsync-api -> appsync-realtime-api, http(s) -> ws(s))
+ */
+export const getRealtimeUrl = (): string => {
+  const explicitUrl = import.meta.env.VITE_WS_URL;
+  if (explicitUrl) {
+    return explicitUrl;
+  }
+
+  const url = new URL(getGraphqlUrl());
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.host = url.host.replace('appsync-api', 'appsync-realtime-api');
+  return url.toString();
+};
+
 /**
  * Get the complete AppSync configuration
  */
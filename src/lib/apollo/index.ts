@@ -5,10 +5,11 @@
 
 // Export types if needed
 export type { TypePolicies } from '@apollo/client';
-export { createApolloCache } from './cache';
+export { createApolloCache, createApolloCacheTtl } from './cache';
 export {
   createApolloClient,
   getApolloClient,
+  getCacheTtl,
   getCurrentApolloClient,
   resetApolloClient,
 } from './client';
@@ -17,7 +18,26 @@ export {
   getAwsRegion,
   getEnvironment,
   getGraphqlUrl,
+  getRealtimeUrl,
   validateConfig,
 } from './config';
 export { useApolloClient } from './hooks';
+export { type CursorPage, cursorPagination } from './pagination';
+export {
+  CACHE_SCHEMA_VERSION,
+  type CachePersistor,
+  type CacheScope,
+  clearPersistedCaches,
+  createCachePersistor,
+  getCacheKey,
+  getPersistentStorage,
+  type PersistentStorage,
+} from './persistence';
 export { ApolloWrapper } from './provider';
+export {
+  type CacheTtl,
+  createCacheTtl,
+  getQueryKey,
+  type TtlPolicies,
+  type TtlPolicy,
+} from './ttl';
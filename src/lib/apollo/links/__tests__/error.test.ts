@@ -0,0 +1,89 @@
+import {
+  ApolloLink,
+  execute,
+  from,
+  gql,
+  Observable,
+  type ServerError,
+} from '@apollo/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRetryLink } from '../error';
+
+const VIEWER_QUERY = gql`
+  query Viewer {
+    viewer {
+      id
+    }
+  }
+`;
+
+function serverError(statusCode: number): ServerError {
+  return Object.assign(
+    new Error(`Response not successful: ${String(statusCode)}`),
+    {
+      name: 'ServerError',
+      response: new Response(null, { status: statusCode }),
+      result: {},
+      statusCode,
+    }
+  );
+}
+
+/**
+ * Send one operation through the retry link to a server that always fails
+ * with `error`, and count how often it was called
+ */
+async function countAttempts(error: unknown) {
+  let attempts = 0;
+  const server = new ApolloLink(
+    () =>
+      new Observable((observer) => {
+        attempts += 1;
+        observer.error(error);
+      })
+  );
+  const done = new Promise<void>((resolve) => {
+    execute(from([createRetryLink(), server]), {
+      query: VIEWER_QUERY,
+    }).subscribe({
+      error: () => {
+        resolve();
+      },
+      complete: () => {
+        resolve();
+      },
+    });
+  });
+  await vi.runAllTimersAsync();
+  await done;
+  return attempts;
+}
+
+describe('createRetryLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries failed requests', async () => {
+    expect(await countAttempts(serverError(503))).toBe(3);
+    expect(await countAttempts(new TypeError('Failed to fetch'))).toBe(3);
+  });
+
+  it('leaves rejected tokens to the token refresh link', async () => {
+    expect(await countAttempts(serverError(401))).toBe(1);
+    expect(await countAttempts(serverError(403))).toBe(1);
+    expect(await countAttempts({ networkError: serverError(401) })).toBe(1);
+  });
+
+  it('does not retry expired sessions', async () => {
+    for (const code of ['UNAUTHENTICATED', 'SESSION_EXPIRED', 'FORBIDDEN']) {
+      expect(
+        await countAttempts({ graphQLErrors: [{ extensions: { code } }] })
+      ).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,247 @@
+import { execute, gql } from '@apollo/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppSyncSubscriptionLink } from '../subscription';
+
+const EVENT_SUBSCRIPTION = gql`
+  subscription OnEvent {
+    onWebhookEvent {
+      id
+    }
+  }
+`;
+
+interface ClientMessage {
+  type: string;
+  id?: string;
+  payload?: { data: string; extensions: { authorization: unknown } };
+}
+
+/**
+ * In-memory stand-in for the AppSync real-time endpoint.
+ * Each socket the link opens is registered here so tests can drive the server side.
+ */
+class MockAppSyncSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: MockAppSyncSocket[] = [];
+
+  readonly url: string;
+  readonly protocols: string[];
+  readyState = MockAppSyncSocket.CONNECTING;
+  received: ClientMessage[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(url: string, protocols: string[]) {
+    this.url = url;
+    this.protocols = protocols;
+    MockAppSyncSocket.instances.push(this);
+  }
+
+  send(raw: string) {
+    const message = JSON.parse(raw) as ClientMessage;
+    this.received.push(message);
+
+    // Auto-acknowledge the handshake and subscription starts like AppSync does
+    if (message.type === 'connection_init') {
+      this.push({
+        type: 'connection_ack',
+        payload: { connectionTimeoutMs: 300000 },
+      });
+    }
+    if (message.type === 'start') {
+      this.push({ type: 'start_ack', id: message.id });
+    }
+  }
+
+  close() {
+    this.readyState = MockAppSyncSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  // Server-side helpers
+  open() {
+    this.readyState = MockAppSyncSocket.OPEN;
+    this.onopen?.();
+  }
+
+  push(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  startedIds(): string[] {
+    return this.received
+      .filter((message) => message.type === 'start')
+      .map((message) => message.id ?? '');
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function createLink() {
+  return new AppSyncSubscriptionLink({
+    realtimeUrl:
+      'wss://example.appsync-realtime-api.us-east-1.amazonaws.com/graphql',
+    graphqlUrl: 'https://example.appsync-api.us-east-1.amazonaws.com/graphql',
+    getToken: () => Promise.resolve('test-token'),
+    webSocketImpl: MockAppSyncSocket as unknown as typeof WebSocket,
+  });
+}
+
+async function openSocket(): Promise<MockAppSyncSocket> {
+  await flush();
+  const socket = MockAppSyncSocket.instances.at(-1);
+  if (!socket) throw new Error('No socket opened');
+  socket.open();
+  await flush();
+  return socket;
+}
+
+describe('AppSyncSubscriptionLink', () => {
+  beforeEach(() => {
+    MockAppSyncSocket.instances = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('performs the AppSync handshake with an encoded authorization header', async () => {
+    const link = createLink();
+    const subscription = execute(link, { query: EVENT_SUBSCRIPTION }).subscribe(
+      {}
+    );
+
+    const socket = await openSocket();
+    const url = new URL(socket.url);
+    const header = JSON.parse(atob(url.searchParams.get('header') ?? '')) as {
+      host: string;
+      Authorization: string;
+    };
+
+    expect(socket.protocols).toEqual(['graphql-ws']);
+    expect(header).toEqual({
+      host: 'example.appsync-api.us-east-1.amazonaws.com',
+      Authorization: 'test-token',
+    });
+    expect(socket.received[0]?.type).toBe('connection_init');
+
+    subscription.unsubscribe();
+  });
+
+  it('starts subscriptions after the ack and forwards data', async () => {
+    const link = createLink();
+    const next = vi.fn();
+    const subscription = execute(link, { query: EVENT_SUBSCRIPTION }).subscribe(
+      { next }
+    );
+
+    const socket = await openSocket();
+    const [id] = socket.startedIds();
+    expect(id).toBeDefined();
+
+    const start = socket.received.find((message) => message.type === 'start');
+    const data = JSON.parse(start?.payload?.data ?? '{}') as { query: string };
+    expect(data.query).toContain('onWebhookEvent');
+
+    socket.push({
+      type: 'data',
+      id,
+      payload: { data: { onWebhookEvent: { id: 'evt_1' } } },
+    });
+
+    expect(next).toHaveBeenCalledWith({
+      data: { onWebhookEvent: { id: 'evt_1' } },
+    });
+
+    subscription.unsubscribe();
+  });
+
+  it('multiplexes subscriptions over one socket and stops them individually', async () => {
+    const link = createLink();
+    const first = execute(link, { query: EVENT_SUBSCRIPTION }).subscribe({});
+    const second = execute(link, { query: EVENT_SUBSCRIPTION }).subscribe({});
+
+    const socket = await openSocket();
+    expect(MockAppSyncSocket.instances).toHaveLength(1);
+    expect(socket.startedIds()).toHaveLength(2);
+
+    first.unsubscribe();
+    expect(socket.received.at(-1)).toEqual({
+      type: 'stop',
+      id: socket.startedIds()[0],
+    });
+    expect(socket.readyState).toBe(MockAppSyncSocket.OPEN);
+
+    second.unsubscribe();
+    expect(socket.readyState).toBe(MockAppSyncSocket.CLOSED);
+  });
+
+  it('surfaces subscription errors to the observer', async () => {
+    const link = createLink();
+    const error = vi.fn();
+    execute(link, { query: EVENT_SUBSCRIPTION }).subscribe({ error });
+
+    const socket = await openSocket();
+    socket.push({
+      type: 'error',
+      id: socket.startedIds()[0],
+      payload: { errors: [{ message: 'Not authorized' }] },
+    });
+
+    expect(error).toHaveBeenCalledWith(new Error('Not authorized'));
+  });
+
+  it('does not open a socket when every subscription ends before the token loads', async () => {
+    const link = createLink();
+    const subscription = execute(link, { query: EVENT_SUBSCRIPTION }).subscribe(
+      {}
+    );
+    subscription.unsubscribe();
+
+    await flush();
+    expect(MockAppSyncSocket.instances).toHaveLength(0);
+  });
+
+  it('opens one socket when resubscribing while the token loads', async () => {
+    const link = createLink();
+    execute(link, { query: EVENT_SUBSCRIPTION }).subscribe({}).unsubscribe();
+    const subscription = execute(link, { query: EVENT_SUBSCRIPTION }).subscribe(
+      {}
+    );
+
+    await flush();
+    expect(MockAppSyncSocket.instances).toHaveLength(1);
+
+    subscription.unsubscribe();
+  });
+
+  it('reconnects and resubscribes after the socket drops', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const link = createLink();
+    const subscription = execute(link, { query: EVENT_SUBSCRIPTION }).subscribe(
+      {}
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    MockAppSyncSocket.instances[0]?.open();
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Server drops the connection
+    MockAppSyncSocket.instances[0]?.close();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const reconnected = MockAppSyncSocket.instances[1];
+    expect(reconnected).toBeDefined();
+    reconnected?.open();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(reconnected?.startedIds()).toHaveLength(1);
+
+    subscription.unsubscribe();
+  });
+});
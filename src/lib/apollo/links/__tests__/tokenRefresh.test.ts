@@ -0,0 +1,132 @@
+import {
+  ApolloLink,
+  execute,
+  type FetchResult,
+  from,
+  gql,
+  Observable,
+  type Operation,
+} from '@apollo/client';
+import { describe, expect, it, vi } from 'vitest';
+import { createAuthLinkWithTokenGetter } from '../auth';
+import { createTokenRefresher, createTokenRefreshLink } from '../tokenRefresh';
+
+const VIEWER_QUERY = gql`
+  query Viewer {
+    viewer {
+      id
+    }
+  }
+`;
+
+const UNAUTHENTICATED: FetchResult = {
+  errors: [
+    { message: 'Token expired', extensions: { code: 'UNAUTHENTICATED' } },
+  ],
+};
+
+/**
+ * Stand-in server that accepts only the current token
+ */
+function createServer(validToken: string) {
+  const seen: (string | undefined)[] = [];
+  const link = new ApolloLink((operation: Operation) => {
+    const { headers } = operation.getContext() as {
+      headers?: { authorization?: string };
+    };
+    seen.push(headers?.authorization);
+    return Observable.of(
+      headers?.authorization === `Bearer ${validToken}`
+        ? { data: { viewer: { __typename: 'User', id: '1' } } }
+        : UNAUTHENTICATED
+    );
+  });
+  return { seen, link };
+}
+
+function setup(refreshToken: () => Promise<string | null>) {
+  const server = createServer('fresh');
+  const refresher = createTokenRefresher(refreshToken);
+  const link = from([
+    createAuthLinkWithTokenGetter(() => Promise.resolve('expired'), refresher),
+    createTokenRefreshLink(refresher),
+    server.link,
+  ]);
+  const run = () =>
+    new Promise<FetchResult>((resolve, reject) => {
+      execute(link, { query: VIEWER_QUERY }).subscribe({
+        next: resolve,
+        error: reject,
+      });
+    });
+  return { server, run };
+}
+
+describe('createTokenRefreshLink', () => {
+  it('replays an operation with the refreshed token', async () => {
+    const refreshToken = vi.fn(() => Promise.resolve('fresh'));
+    const { server, run } = setup(refreshToken);
+
+    const result = await run();
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({ viewer: { __typename: 'User', id: '1' } });
+    expect(server.seen).toEqual(['Bearer expired', 'Bearer fresh']);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one refresh between concurrent failures', async () => {
+    let finish: (token: string) => void = () => undefined;
+    const refreshToken = vi.fn(
+      () =>
+        new Promise<string>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const { run } = setup(refreshToken);
+
+    const results = Promise.all([run(), run(), run()]);
+    await vi.waitFor(() => {
+      expect(refreshToken).toHaveBeenCalled();
+    });
+    finish('fresh');
+
+    for (const result of await results) {
+      expect(result.errors).toBeUndefined();
+    }
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('reuses the new token for failures that arrive after a refresh', async () => {
+    const refreshToken = vi.fn(() => Promise.resolve('fresh'));
+    const { run } = setup(refreshToken);
+
+    await run();
+    const late = await run();
+
+    expect(late.errors).toBeUndefined();
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes the auth error on when the refresh fails', async () => {
+    const { server, run } = setup(() =>
+      Promise.reject(new Error('Session revoked'))
+    );
+
+    const result = await run();
+
+    expect(result).toEqual(UNAUTHENTICATED);
+    expect(server.seen).toEqual(['Bearer expired']);
+  });
+
+  it('refreshes only once when the new token is rejected too', async () => {
+    const refreshToken = vi.fn(() => Promise.resolve('also-expired'));
+    const { server, run } = setup(refreshToken);
+
+    const result = await run();
+
+    expect(result).toEqual(UNAUTHENTICATED);
+    expect(server.seen).toEqual(['Bearer expired', 'Bearer also-expired']);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+});
@@ -5,19 +5,22 @@
 
 import { setContext } from '@apollo/client/link/context';
 import { loggers } from '@/utils';
+import type { TokenRefresher } from './tokenRefresh';
 
 const logger = loggers.auth;
 
 /**
  * Create authentication link that accepts a token getter function
  * This allows for flexible token management with Clerk's useAuth hook
+ * Operations sent while a token refresh is running wait for the new token
  */
 export const createAuthLinkWithTokenGetter = (
-  getToken: () => Promise<string | null>
+  getToken: () => Promise<string | null>,
+  refresher?: TokenRefresher
 ) => {
   return setContext(async (_, { headers }) => {
     try {
-      const token = await getToken();
+      const token = (await refresher?.pending()) ?? (await getToken());
 
       return {
         headers: {
@@ -15,11 +15,21 @@ const logger = loggers.graphql;
 
 interface RetryErrorWithNetwork {
   networkError?: unknown;
+  statusCode?: unknown;
   graphQLErrors?: Array<{
     extensions?: Record<string, unknown>;
   }>;
 }
 
+// Rejected or expired credentials; resending the same token cannot succeed,
+// and the token refresh link above the retry link handles expiry
+const AUTH_FAILURE_STATUSES = new Set([401, 403]);
+const AUTH_FAILURE_CODES = new Set([
+  'UNAUTHENTICATED',
+  'SESSION_EXPIRED',
+  'FORBIDDEN',
+]);
+
 /**
  * Handle authentication errors by redirecting to sign-in
  */
@@ -133,7 +143,7 @@ export const createErrorLink = () => {
       return undefined;
     }
 
-    // Handle auth errors
+    // Handle auth errors that a token refresh could not recover
     if (classifiedError.type === ErrorType.AUTH) {
       toast.error(classifiedError.message);
       handleAuthError();
@@ -165,24 +175,32 @@ export const createRetryLink = () => {
     attempts: {
       max: 3,
       retryIf: (error: unknown) => {
-        const retryError = error as RetryErrorWithNetwork;
-
-        // Only retry network errors and specific GraphQL errors
-        if (retryError.networkError) {
-          return true;
-        }
+        const retryError = error as RetryErrorWithNetwork | null | undefined;
 
-        if (retryError.graphQLErrors) {
+        if (retryError?.graphQLErrors) {
           // Don't retry authentication or authorization errors
           const hasAuthError = retryError.graphQLErrors.some((gqlError) => {
             const code = gqlError.extensions?.code;
-            return code === 'UNAUTHENTICATED' || code === 'FORBIDDEN';
+            return typeof code === 'string' && AUTH_FAILURE_CODES.has(code);
           });
 
           return !hasAuthError;
         }
 
-        return false;
+        // RetryLink passes the network error itself, such as a ServerError
+        const networkError = (retryError?.networkError ?? retryError) as
+          | RetryErrorWithNetwork
+          | null
+          | undefined;
+        if (!networkError) {
+          return false;
+        }
+
+        const { statusCode } = networkError;
+        return !(
+          typeof statusCode === 'number' &&
+          AUTH_FAILURE_STATUSES.has(statusCode)
+        );
       },
     },
   });
@@ -0,0 +1,33 @@
+/**
+ * Apollo Client Fetch Time Link
+ * Records when each query last got a result from the network
+ */
+
+import { ApolloLink } from '@apollo/client';
+import { getMainDefinition } from '@apollo/client/utilities';
+import { Kind, OperationTypeNode } from 'graphql';
+import { type CacheTtl, getQueryKey } from '../ttl';
+
+/**
+ * Create a link that timestamps successful query results, so hooks can tell
+ * how old the cached copy of a query is
+ */
+export const createFetchTimeLink = (ttl: Pick<CacheTtl, 'recordQuery'>) => {
+  return new ApolloLink((operation, forward) => {
+    const definition = getMainDefinition(operation.query);
+    const isQuery =
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      definition.operation === OperationTypeNode.QUERY;
+
+    if (!isQuery) return forward(operation);
+
+    return forward(operation).map((result) => {
+      if (!result.errors?.length) {
+        ttl.recordQuery(
+          getQueryKey(operation.operationName, operation.variables)
+        );
+      }
+      return result;
+    });
+  });
+};
@@ -0,0 +1,347 @@
+/**
+ * Apollo Client Subscription Link
+ * Streams GraphQL subscriptions over the AWS AppSync real-time WebSocket protocol
+ *
+ * Protocol summary (subprotocol "graphql-ws"):
+ *   client -> connection_init            server -> connection_ack / ka
+ *   client -> start { id, payload }      server -> start_ack / data / error / complete
+ *   client -> stop { id }
+ */
+
+import {
+  ApolloLink,
+  type FetchResult,
+  Observable,
+  type Observer,
+  type Operation,
+} from '@apollo/client';
+import { print } from 'graphql';
+import { loggers } from '@/utils';
+
+const logger = loggers.graphql;
+
+const DEFAULT_KEEP_ALIVE_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+export interface AppSyncSubscriptionLinkOptions {
+  /** Real-time WebSocket endpoint (wss://...appsync-realtime-api...) */
+  realtimeUrl: string;
+  /** GraphQL HTTP endpoint; its host is used in the authorization payload */
+  graphqlUrl: string;
+  /** Token getter used for both the handshake and each subscription start */
+  getToken: () => Promise<string | null>;
+  /** WebSocket implementation, overridable for tests */
+  webSocketImpl?: typeof WebSocket;
+}
+
+interface AppSyncMessage {
+  type: string;
+  id?: string;
+  payload?: {
+    data?: Record<string, unknown>;
+    errors?: Array<{ message?: string; errorType?: string }>;
+    connectionTimeoutMs?: number;
+  };
+}
+
+interface ActiveSubscription {
+  operation: Operation;
+  observer: Observer<FetchResult>;
+  /** Whether a start message has been sent on the current connection */
+  started: boolean;
+}
+
+type ConnectionStatus = 'closed' | 'connecting' | 'ready';
+
+/**
+ * Encode a JSON value for the AppSync handshake query string
+ */
+const encodeBase64Json = (value: unknown): string =>
+  btoa(JSON.stringify(value));
+
+/**
+ * Link that multiplexes every subscription over one AppSync WebSocket,
+ * with keep-alive monitoring and automatic reconnect/resubscribe
+ */
+export class AppSyncSubscriptionLink extends ApolloLink {
+  private readonly options: AppSyncSubscriptionLinkOptions;
+  private readonly subscriptions = new Map<string, ActiveSubscription>();
+  private socket: WebSocket | null = null;
+  private status: ConnectionStatus = 'closed';
+  private keepAliveTimeoutMs = DEFAULT_KEEP_ALIVE_TIMEOUT_MS;
+  private keepAliveTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private connectAttempt = 0;
+
+  constructor(options: AppSyncSubscriptionLinkOptions) {
+    super();
+    this.options = options;
+  }
+
+  override request(operation: Operation): Observable<FetchResult> {
+    return new Observable<FetchResult>((observer) => {
+      const id = crypto.randomUUID();
+      this.subscriptions.set(id, { operation, observer, started: false });
+
+      if (this.status === 'ready') {
+        void this.startSubscription(id);
+      } else if (this.status === 'closed') {
+        void this.connect();
+      }
+
+      return () => {
+        this.stopSubscription(id);
+      };
+    });
+  }
+
+  /**
+   * Close the socket and complete every active subscription
+   */
+  dispose(): void {
+    for (const { observer } of this.subscriptions.values()) {
+      observer.complete?.();
+    }
+    this.subscriptions.clear();
+    this.closeSocket();
+  }
+
+  private async authorizationHeader(): Promise<Record<string, string>> {
+    const token = await this.options.getToken();
+    return {
+      host: new URL(this.options.graphqlUrl).host,
+      ...(token && { Authorization: token }),
+    };
+  }
+
+  private async connect(): Promise<void> {
+    this.status = 'connecting';
+    const attempt = ++this.connectAttempt;
+
+    try {
+      const header = await this.authorizationHeader();
+
+      // Everything may have unsubscribed, or a newer attempt taken over,
+      // while the token was loading
+      if (!this.isPendingConnect(attempt)) return;
+
+      const url = new URL(this.options.realtimeUrl);
+      url.searchParams.set('header', encodeBase64Json(header));
+      url.searchParams.set('payload', encodeBase64Json({}));
+
+      const WebSocketImpl = this.options.webSocketImpl ?? WebSocket;
+      const socket = new WebSocketImpl(url.toString(), ['graphql-ws']);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        this.send({ type: 'connection_init' });
+      };
+      socket.onmessage = (event: MessageEvent<string>) => {
+        this.handleMessage(event.data);
+      };
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.handleClose();
+        }
+      };
+      socket.onerror = () => {
+        logger.warn('Subscription WebSocket error');
+      };
+    } catch (error) {
+      logger.error('Failed to open subscription WebSocket:', error);
+      this.handleClose();
+    }
+  }
+
+  /**
+   * Whether `attempt` is still the connection being opened and some
+   * subscription still needs it
+   */
+  private isPendingConnect(attempt: number): boolean {
+    return (
+      attempt === this.connectAttempt &&
+      this.status === 'connecting' &&
+      this.subscriptions.size > 0
+    );
+  }
+
+  private handleMessage(raw: string): void {
+    let message: AppSyncMessage;
+    try {
+      message = JSON.parse(raw) as AppSyncMessage;
+    } catch {
+      logger.warn('Ignoring malformed subscription message');
+      return;
+    }
+
+    const subscription = message.id
+      ? this.subscriptions.get(message.id)
+      : undefined;
+
+    switch (message.type) {
+      case 'connection_ack':
+        this.status = 'ready';
+        this.reconnectAttempts = 0;
+        this.keepAliveTimeoutMs =
+          message.payload?.connectionTimeoutMs ?? DEFAULT_KEEP_ALIVE_TIMEOUT_MS;
+        this.resetKeepAlive();
+        for (const id of this.subscriptions.keys()) {
+          void this.startSubscription(id);
+        }
+        break;
+      case 'ka':
+        this.resetKeepAlive();
+        break;
+      case 'start_ack':
+        logger.debug('Subscription started', { id: message.id });
+        break;
+      case 'data':
+        if (subscription && message.payload) {
+          subscription.observer.next?.({
+            data: message.payload.data ?? null,
+            ...(message.payload.errors && {
+              errors: message.payload.errors.map((error) => ({
+                message: error.message ?? 'Subscription error',
+              })),
+            }),
+          } as FetchResult);
+        }
+        break;
+      case 'error':
+        if (subscription && message.id) {
+          this.subscriptions.delete(message.id);
+          subscription.observer.error?.(
+            new Error(
+              message.payload?.errors?.[0]?.message ?? 'Subscription failed'
+            )
+          );
+        }
+        break;
+      case 'complete':
+        if (subscription && message.id) {
+          this.subscriptions.delete(message.id);
+          subscription.observer.complete?.();
+        }
+        break;
+      case 'connection_error':
+        logger.error('Subscription connection rejected', message.payload);
+        for (const { observer } of this.subscriptions.values()) {
+          observer.error?.(new Error('Subscription connection rejected'));
+        }
+        this.subscriptions.clear();
+        this.closeSocket();
+        break;
+      default:
+        break;
+    }
+  }
+
+  private async startSubscription(id: string): Promise<void> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription || subscription.started) return;
+
+    // Mark before awaiting the token so a concurrent ack cannot start it twice
+    subscription.started = true;
+    const { operation } = subscription;
+    const authorization = await this.authorizationHeader();
+
+    // The subscription may have been cancelled while fetching the token
+    if (!this.subscriptions.has(id) || this.status !== 'ready') return;
+
+    this.send({
+      id,
+      type: 'start',
+      payload: {
+        data: JSON.stringify({
+          query: print(operation.query),
+          variables: operation.variables,
+        }),
+        extensions: { authorization },
+      },
+    });
+  }
+
+  private stopSubscription(id: string): void {
+    if (!this.subscriptions.delete(id)) return;
+
+    if (this.status === 'ready') {
+      this.send({ type: 'stop', id });
+    }
+
+    // Release the socket once nothing is listening
+    if (this.subscriptions.size === 0) {
+      this.closeSocket();
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    const WebSocketImpl = this.options.webSocketImpl ?? WebSocket;
+    if (this.socket?.readyState === WebSocketImpl.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private resetKeepAlive(): void {
+    if (this.keepAliveTimer) clearTimeout(this.keepAliveTimer);
+    this.keepAliveTimer = setTimeout(() => {
+      logger.warn('Subscription keep-alive timed out, reconnecting');
+      this.socket?.close();
+    }, this.keepAliveTimeoutMs);
+  }
+
+  private handleClose(): void {
+    this.clearTimers();
+    this.socket = null;
+    this.status = 'closed';
+
+    // Started subscriptions must be re-sent on the next connection
+    for (const subscription of this.subscriptions.values()) {
+      subscription.started = false;
+    }
+
+    if (this.subscriptions.size === 0) return;
+
+    const delay = Math.min(
+      2 ** this.reconnectAttempts * 1000,
+      MAX_RECONNECT_DELAY_MS
+    );
+    this.reconnectAttempts++;
+    logger.info(
+      `Subscription socket closed, reconnecting in ${String(delay)}ms`
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delay);
+  }
+
+  private closeSocket(): void {
+    this.clearTimers();
+    const socket = this.socket;
+    this.socket = null;
+    this.status = 'closed';
+    socket?.close();
+  }
+
+  private clearTimers(): void {
+    if (this.keepAliveTimer) {
+      clearTimeout(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
+
+/**
+ * Create the AppSync subscription link
+ */
+export const createAppSyncSubscriptionLink = (
+  options: AppSyncSubscriptionLinkOptions
+) => {
+  return new AppSyncSubscriptionLink(options);
+};
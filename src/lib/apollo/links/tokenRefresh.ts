@@ -0,0 +1,163 @@
+/**
+ * Apollo Client Token Refresh Link
+ * Refreshes an expired Clerk token once and replays the operations it failed
+ */
+
+import {
+  ApolloLink,
+  type FetchResult,
+  type NextLink,
+  Observable,
+  type ObservableSubscription,
+  type Operation,
+} from '@apollo/client';
+import { GraphQLErrorClassifier } from '@/lib/errors/classifier';
+import { AuthenticationError } from '@/lib/errors/types';
+import { loggers } from '@/utils';
+
+const logger = loggers.auth;
+
+// Codes for a token the server no longer accepts; FORBIDDEN is a permission
+// problem that a new token would not fix
+const EXPIRED_SESSION_CODES = new Set(['UNAUTHENTICATED', 'SESSION_EXPIRED']);
+
+export interface TokenRefresher {
+  /** The refresh in flight, if any, for new operations to wait on */
+  pending(): Promise<string | null> | null;
+  /**
+   * Get a token to replace `staleToken`. Concurrent callers share one refresh,
+   * and callers whose token was already replaced get the newer one as is.
+   */
+  refresh(staleToken: string | null): Promise<string | null>;
+}
+
+/**
+ * Create a refresher that lets only one token refresh run at a time
+ */
+export const createTokenRefresher = (
+  refreshToken: () => Promise<string | null>
+): TokenRefresher => {
+  let inFlight: Promise<string | null> | null = null;
+  let latest: string | null = null;
+
+  return {
+    pending: () => inFlight,
+    refresh: (staleToken) => {
+      if (inFlight) return inFlight;
+      if (latest !== null && latest !== staleToken) {
+        return Promise.resolve(latest);
+      }
+
+      inFlight = refreshToken()
+        .then((token) => {
+          latest = token;
+          return token;
+        })
+        .finally(() => {
+          inFlight = null;
+        });
+      return inFlight;
+    },
+  };
+};
+
+const isExpiredSession = (
+  operation: Operation,
+  forward: NextLink,
+  failure: { result: FetchResult } | { error: unknown }
+) => {
+  const classified = GraphQLErrorClassifier.classify({
+    operation,
+    forward,
+    ...('result' in failure
+      ? failure.result.errors && { graphQLErrors: failure.result.errors }
+      : { networkError: failure.error as Error }),
+  });
+  return (
+    classified instanceof AuthenticationError &&
+    EXPIRED_SESSION_CODES.has(classified.code ?? '')
+  );
+};
+
+const getSentToken = (operation: Operation): string | null => {
+  const { headers } = operation.getContext() as {
+    headers?: Record<string, string>;
+  };
+  return headers?.authorization?.replace(/^Bearer /, '') ?? null;
+};
+
+/**
+ * Create a link that answers an expired session by refreshing the token and
+ * replaying the operation with it, once. Failures it cannot recover, including
+ * a failed refresh, pass through unchanged for the error link to handle.
+ */
+export const createTokenRefreshLink = (refresher: TokenRefresher) => {
+  return new ApolloLink((operation, forward) => {
+    // A replayed operation reports whatever happens to it
+    if (operation.getContext().tokenRefreshed) {
+      return forward(operation);
+    }
+
+    return new Observable<FetchResult>((observer) => {
+      let subscription: ObservableSubscription | null = null;
+      let replaying = false;
+      let closed = false;
+
+      const replay = (giveUp: () => void) => {
+        replaying = true;
+        refresher.refresh(getSentToken(operation)).then(
+          (token) => {
+            if (closed) return;
+            if (!token) {
+              giveUp();
+              return;
+            }
+
+            const { headers } = operation.getContext() as {
+              headers?: Record<string, string>;
+            };
+            operation.setContext({
+              tokenRefreshed: true,
+              headers: { ...headers, authorization: `Bearer ${token}` },
+            });
+            subscription = forward(operation).subscribe(observer);
+          },
+          (error: unknown) => {
+            logger.warn('Failed to refresh authentication token:', error);
+            if (!closed) giveUp();
+          }
+        );
+      };
+
+      subscription = forward(operation).subscribe({
+        next: (result) => {
+          if (isExpiredSession(operation, forward, { result })) {
+            replay(() => {
+              observer.next(result);
+              observer.complete();
+            });
+            return;
+          }
+          observer.next(result);
+        },
+        error: (error: unknown) => {
+          if (isExpiredSession(operation, forward, { error })) {
+            replay(() => {
+              observer.error(error);
+            });
+            return;
+          }
+          observer.error(error);
+        },
+        complete: () => {
+          if (!replaying) observer.complete();
+        },
+      });
+
+      return () => {
+        closed = true;
+        subscription?.unsubscribe();
+      };
+    });
+  });
+};
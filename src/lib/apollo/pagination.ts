@@ -0,0 +1,60 @@
+/**
+ * Cursor pagination field policy
+ * Pages returned as `{ items, nextToken }` are stitched into one list so
+ * `fetchMore` can walk through history without losing earlier pages.
+ */
+
+import type { FieldPolicy, Reference } from '@apollo/client';
+
+/** Shape of a paginated connection: one page of items and the cursor after it */
+export interface CursorPage<TItem = Reference> {
+  items: TItem[];
+  /** Opaque cursor for the next page; null once the last page is loaded */
+  nextToken: string | null;
+}
+
+interface CursorArgs {
+  nextToken?: string | null;
+}
+
+/**
+ * Field policy for connections paged with a `nextToken` argument.
+ *
+ * A request without a cursor starts the list over, so refetching or changing
+ * the keyed arguments never mixes stale pages in. A request with a cursor
+ * appends its items, skipping any the cache already holds so overlapping pages
+ * never show an item twice. Reads return every page merged so far.
+ *
+ * @param keyArgs Arguments that identify separate lists, such as a filter
+ */
+export function cursorPagination(
+  keyArgs: string[] | false = false
+): FieldPolicy<CursorPage> {
+  return {
+    keyArgs,
+    merge(existing, incoming, { args, readField }) {
+      const cursor = (args as CursorArgs | null)?.nextToken;
+      if (!existing || !cursor) return incoming;
+
+      const seen = new Set(
+        existing.items.map((item) => readField<string>('id', item))
+      );
+      const fresh = incoming.items.filter(
+        (item) => !seen.has(readField<string>('id', item))
+      );
+
+      return {
+        ...incoming,
+        items: [...existing.items, ...fresh],
+      };
+    },
+    read(existing, { canRead }) {
+      if (!existing) return undefined;
+      // Drop items evicted from the cache since their page was merged
+      return {
+        ...existing,
+        items: existing.items.filter((item) => canRead(item)),
+      };
+    },
+  };
+}
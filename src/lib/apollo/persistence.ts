@@ -0,0 +1,356 @@
+/**
+ * Apollo Cache Persistence
+ * Saves the normalized cache to IndexedDB so the dashboard can render from the
+ * previous session while fresh data loads. Every user and organization gets a
+ * separate snapshot, and snapshots from an older cache version are discarded.
+ */
+
+import type { InMemoryCache, NormalizedCacheObject } from '@apollo/client';
+import { loggers } from '@/utils';
+
+const logger = loggers.graphql;
+
+// Bump whenever type policies or fragments change shape, so snapshots written
+// by an older build are purged instead of restored
+export const CACHE_SCHEMA_VERSION = 2;
+
+// Snapshots larger than this (serialized characters) are not saved
+export const MAX_PERSISTED_CACHE_SIZE = 5 * 1024 * 1024;
+
+// A burst of query results is saved once, after the burst settles
+const PERSIST_DEBOUNCE_MS = 1000;
+
+// Render without cached data rather than wait on a stalled database
+const RESTORE_TIMEOUT_MS = 2000;
+
+// Fields that must never reach disk, keyed by __typename. Entities restored
+// without them read as incomplete, so their queries fetch them again.
+const UNPERSISTED_FIELDS: Readonly<Record<string, readonly string[]>> = {
+  Webhook: ['secret'],
+  Monitor: ['authentication'],
+};
+
+// Mutation results are never read back, and some carry one-time secrets
+const UNPERSISTED_IDS = new Set(['ROOT_MUTATION']);
+
+const DATABASE_NAME = 'rockethooks-apollo-cache';
+const STORE_NAME = 'snapshots';
+
+export interface CacheScope {
+  userId: string;
+  /** Active organization; personal workspaces have none */
+  organizationId?: string | null | undefined;
+}
+
+/**
+ * Key-value storage for cache snapshots
+ */
+export interface PersistentStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CachePersistor {
+  /** Load this scope's snapshot into the cache; false when none was usable */
+  restore(): Promise<boolean>;
+  /** Save the cache now */
+  persist(): Promise<void>;
+  /** Stop saving on cache writes, flushing a pending save first */
+  stop(): Promise<void>;
+}
+
+interface CachePersistorOptions {
+  cache: InMemoryCache;
+  storage: PersistentStorage;
+  scope: CacheScope;
+  version?: number;
+  maxSize?: number;
+  debounceMs?: number;
+  /** Called after a snapshot is loaded, with the time it was saved */
+  onRestore?: (data: NormalizedCacheObject, savedAt: number) => void;
+}
+
+interface CacheSnapshot {
+  version: number;
+  savedAt: string;
+  data: NormalizedCacheObject;
+}
+
+/**
+ * Storage key for a user's snapshot within one organization
+ */
+export function getCacheKey(scope: CacheScope): string {
+  return `${scope.userId}:${scope.organizationId ?? 'personal'}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      reject(request.error ?? new Error('IndexedDB request failed'));
+    };
+  });
+}
+
+/**
+ * PersistentStorage backed by one IndexedDB object store
+ */
+export function createIndexedDbStorage(
+  databaseName = DATABASE_NAME
+): PersistentStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        database = null;
+        reject(request.error ?? new Error('Failed to open cache database'));
+      };
+    });
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    return requestToPromise(
+      action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    );
+  };
+
+  return {
+    getItem: async (key) => {
+      const value: unknown = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+    clear: async () => {
+      await run('readwrite', (store) => store.clear());
+    },
+  };
+}
+
+let defaultStorage: PersistentStorage | null = null;
+
+/**
+ * Shared IndexedDB storage, or null where IndexedDB is unavailable
+ */
+export function getPersistentStorage(): PersistentStorage | null {
+  if (typeof indexedDB === 'undefined') return null;
+  defaultStorage ??= createIndexedDbStorage();
+  return defaultStorage;
+}
+
+/**
+ * Copy of the normalized cache without the fields and entries that must not
+ * be persisted. Field arguments are part of the store key, so `secret` also
+ * drops `secret({...})`.
+ */
+function redactCache(data: NormalizedCacheObject): NormalizedCacheObject {
+  const result: NormalizedCacheObject = {};
+  for (const [dataId, entity] of Object.entries(data)) {
+    if (!entity || UNPERSISTED_IDS.has(dataId)) continue;
+
+    const omitted = entity.__typename
+      ? UNPERSISTED_FIELDS[entity.__typename]
+      : undefined;
+    result[dataId] = omitted
+      ? Object.fromEntries(
+          Object.entries(entity).filter(
+            ([storeFieldName]) =>
+              !omitted.includes(storeFieldName.replace(/[(:].*$/s, ''))
+          )
+        )
+      : entity;
+  }
+  return result;
+}
+
+function parseSnapshot(serialized: string): CacheSnapshot | null {
+  try {
+    const parsed = JSON.parse(serialized) as {
+      version?: unknown;
+      savedAt?: unknown;
+      data?: unknown;
+    } | null;
+    if (
+      typeof parsed?.version !== 'number' ||
+      typeof parsed.savedAt !== 'string' ||
+      Number.isNaN(Date.parse(parsed.savedAt)) ||
+      typeof parsed.data !== 'object' ||
+      parsed.data === null
+    ) {
+      return null;
+    }
+    return parsed as CacheSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  fallback: T
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>((resolve) => {
+    timer = setTimeout(() => {
+      resolve(fallback);
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Persistors currently saving, so a sign-out can cancel their pending saves
+const activePersistors = new Set<() => void>();
+
+/**
+ * Keep a scope's snapshot in sync with the cache. Saves are debounced and
+ * triggered by every write, modify and evict on the cache, and leave out
+ * secrets such as webhook signing keys and monitor credentials.
+ */
+export function createCachePersistor({
+  cache,
+  storage,
+  scope,
+  version = CACHE_SCHEMA_VERSION,
+  maxSize = MAX_PERSISTED_CACHE_SIZE,
+  debounceMs = PERSIST_DEBOUNCE_MS,
+  onRestore,
+}: CachePersistorOptions): CachePersistor {
+  const key = getCacheKey(scope);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const persist = async () => {
+    if (stopped) return;
+
+    const snapshot: CacheSnapshot = {
+      version,
+      savedAt: new Date().toISOString(),
+      data: redactCache(cache.extract()),
+    };
+    const serialized = JSON.stringify(snapshot);
+
+    if (serialized.length > maxSize) {
+      // An outdated snapshot would be worse than none
+      logger.warn('Apollo cache too large to persist', {
+        size: serialized.length,
+        maxSize,
+      });
+      await storage.removeItem(key);
+      return;
+    }
+
+    await storage.setItem(key, serialized);
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      persist().catch((error: unknown) => {
+        logger.error('Failed to persist Apollo cache', error);
+      });
+    }, debounceMs);
+  };
+
+  // Wrap the cache's mutating methods so every change schedules a save
+  const write = cache.write.bind(cache);
+  const modify = cache.modify.bind(cache);
+  const evict = cache.evict.bind(cache);
+
+  cache.write = (options) => {
+    const result = write(options);
+    schedule();
+    return result;
+  };
+  cache.modify = (options) => {
+    const result = modify(options);
+    schedule();
+    return result;
+  };
+  cache.evict = (options) => {
+    const result = evict(options);
+    schedule();
+    return result;
+  };
+
+  const detach = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    cache.write = write;
+    cache.modify = modify;
+    cache.evict = evict;
+    activePersistors.delete(detach);
+  };
+  activePersistors.add(detach);
+
+  return {
+    restore: async () => {
+      const serialized = await withTimeout(
+        storage.getItem(key),
+        RESTORE_TIMEOUT_MS,
+        null
+      );
+      if (!serialized || stopped) return false;
+
+      const snapshot = parseSnapshot(serialized);
+      if (snapshot?.version !== version) {
+        logger.debug('Discarding outdated Apollo cache snapshot', { key });
+        await storage.removeItem(key);
+        return false;
+      }
+
+      cache.restore(snapshot.data);
+      onRestore?.(snapshot.data, Date.parse(snapshot.savedAt));
+      return true;
+    },
+    persist,
+    stop: async () => {
+      // persist() reads the cache synchronously, so the snapshot is taken
+      // before the cache is detached and possibly cleared for another scope
+      const flush = timer !== null ? persist() : Promise.resolve();
+      detach();
+      await flush;
+    },
+  };
+}
+
+/**
+ * Delete every persisted snapshot, cancelling saves that are still pending
+ * so nothing is written back afterwards
+ */
+export async function clearPersistedCaches(
+  storage: PersistentStorage | null = getPersistentStorage()
+): Promise<void> {
+  for (const detach of [...activePersistors]) {
+    detach();
+  }
+  await storage?.clear();
+}
@@ -3,15 +3,23 @@
  * Wraps the app with Apollo Provider and integrates with Clerk authentication
  */
 
-import { ApolloProvider } from '@apollo/client';
+import { ApolloProvider, InMemoryCache } from '@apollo/client';
 import { useAuth } from '@clerk/clerk-react';
 import type React from 'react';
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { loggers } from '@/utils';
 
 const logger = loggers.auth;
 
-import { getApolloClient } from './client';
+import { getApolloClient, getCacheTtl } from './client';
+import {
+  createCachePersistor,
+  getCacheKey,
+  getPersistentStorage,
+} from './persistence';
+
+// Clerk JWT template accepted by AppSync
+const TOKEN_TEMPLATE = '1day-template';
 
 interface ApolloWrapperProps {
   children: React.ReactNode;
@@ -19,22 +27,85 @@ interface ApolloWrapperProps {
 
 /**
  * Apollo Provider wrapper that integrates with Clerk authentication
+ *
+ * Once the signed-in user is known, the cache is swapped for that user and
+ * organization's persisted snapshot before the app renders, so pages show the
+ * previous session's data while fresh results load.
  */
 export function ApolloWrapper({ children }: ApolloWrapperProps) {
-  const { getToken } = useAuth();
+  const { getToken, isLoaded, userId, orgId } = useAuth();
+  const [restoredKey, setRestoredKey] = useState<string | null>(null);
 
   // Create Apollo Client with Clerk token getter
   const apolloClient = useMemo(() => {
-    return getApolloClient(async () => {
+    return getApolloClient(
+      async () => {
+        try {
+          // Get JWT token using Clerk's getToken method with the AppSync template
+          return await getToken({ template: TOKEN_TEMPLATE });
+        } catch (error) {
+          logger.error('Failed to get Clerk token:', error);
+          return null;
+        }
+      },
+      // Skip Clerk's token cache, which would hand back the rejected token
+      () => getToken({ template: TOKEN_TEMPLATE, skipCache: true })
+    );
+  }, [getToken]);
+
+  const storage = getPersistentStorage();
+  const canPersist =
+    storage !== null && apolloClient.cache instanceof InMemoryCache;
+  const scopeKey =
+    isLoaded && userId && canPersist
+      ? getCacheKey({ userId, organizationId: orgId })
+      : null;
+
+  // Swap in the snapshot for the current user and organization, and keep it
+  // saved while they stay signed in
+  useEffect(() => {
+    const { cache } = apolloClient;
+    if (!isLoaded || !storage || !(cache instanceof InMemoryCache)) return;
+
+    if (!userId) {
+      // Signed out: nothing from the previous user stays in memory
+      void apolloClient.clearStore();
+      return;
+    }
+
+    const scope = { userId, organizationId: orgId };
+    const persistor = createCachePersistor({
+      cache,
+      storage,
+      scope,
+      // Restored entities age from when they were saved, not from now
+      onRestore: (data, savedAt) => {
+        getCacheTtl(apolloClient)?.seed(data, savedAt);
+      },
+    });
+
+    void (async () => {
       try {
-        // Get JWT token using Clerk's getToken method with the AppSync template
-        return await getToken({ template: '1day-template' });
+        await apolloClient.clearStore();
+        const restored = await persistor.restore();
+        logger.debug('Apollo cache restored', { restored });
       } catch (error) {
-        logger.error('Failed to get Clerk token:', error);
-        return null;
+        logger.warn('Failed to restore Apollo cache', error);
       }
-    });
-  }, [getToken]);
+      // A stale key from a superseded scope never matches, so it is harmless
+      setRestoredKey(getCacheKey(scope));
+    })();
+
+    return () => {
+      void persistor.stop();
+    };
+  }, [apolloClient, storage, isLoaded, userId, orgId]);
+
+  // Hold rendering until the snapshot is in place, so queries don't fetch
+  // into a cache that is about to be replaced
+  if (scopeKey !== null && restoredKey !== scopeKey) {
+    return null;
+  }
 
   return <ApolloProvider client={apolloClient}>{children}</ApolloProvider>;
 }
@@ -0,0 +1,260 @@
+/**
+ * Cache Time-To-Live
+ * Lets type policies declare how long cached data stays fresh, per type and
+ * per field, and collects stale entities in the background so the next read
+ * goes back to the network.
+ */
+
+import type {
+  FieldFunctionOptions,
+  FieldPolicy,
+  FieldReadFunction,
+  InMemoryCache,
+  NormalizedCacheObject,
+  OperationVariables,
+  StoreObject,
+  TypePolicies,
+} from '@apollo/client';
+import type { Modifier } from '@apollo/client/cache';
+import { canonicalStringify } from '@apollo/client/utilities';
+import { loggers } from '@/utils';
+
+const logger = loggers.graphql;
+
+// How often the collector looks for stale entities
+const COLLECT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Freshness rules for one GraphQL type, in milliseconds
+ */
+export interface TtlPolicy {
+  /** Lifetime of the whole entity, measured from its latest write */
+  ttl?: number;
+  /** Lifetimes of individual fields, measured from each field's latest write */
+  fields?: Record<string, number>;
+}
+
+/** TTL policies keyed by __typename */
+export type TtlPolicies = Record<string, TtlPolicy>;
+
+export interface CacheTtl {
+  /** Add write tracking and field expiry to the cache's type policies */
+  typePolicies(base: TypePolicies): TypePolicies;
+  /** Note that a query just got a result from the network */
+  recordQuery(key: string): void;
+  /** When a query last got a network result, or null if unknown */
+  getQueryFetchedAt(key: string): number | null;
+  /** Evict stale entities and drop expired fields; returns evictions */
+  collect(cache: InMemoryCache): number;
+  /** Date entities restored from a snapshot as written at `writtenAt` */
+  seed(data: NormalizedCacheObject, writtenAt: number): void;
+  /** Run collect on an interval; returns a function that stops it */
+  startCollector(cache: InMemoryCache, intervalMs?: number): () => void;
+  /** Forget every timestamp, e.g. after the store is cleared */
+  clear(): void;
+}
+
+interface TrackedEntity {
+  typename: string;
+  writtenAt: number;
+}
+
+/**
+ * Identifies a query and its variables across the link chain and hooks
+ */
+export function getQueryKey(
+  operationName: string | null,
+  variables: OperationVariables | undefined
+): string {
+  return `${operationName ?? ''}:${canonicalStringify(variables ?? {})}`;
+}
+
+function toFieldPolicy(
+  policy: FieldPolicy | FieldReadFunction | undefined
+): FieldPolicy<unknown> {
+  if (!policy) return {};
+  return typeof policy === 'function' ? { read: policy } : policy;
+}
+
+/**
+ * Wrap a field policy so every write is reported before the original merge runs
+ */
+function onFieldWrite(
+  policy: FieldPolicy | FieldReadFunction | undefined,
+  onWrite: (incoming: unknown, options: FieldFunctionOptions) => void
+): FieldPolicy<unknown> {
+  const base = toFieldPolicy(policy);
+  return {
+    ...base,
+    merge(existing, incoming, options) {
+      onWrite(incoming, options);
+      if (typeof base.merge === 'function') {
+        return base.merge(existing, incoming, options);
+      }
+      if (base.merge === true && existing) {
+        return options.mergeObjects(
+          existing as StoreObject,
+          incoming as StoreObject
+        );
+      }
+      return incoming;
+    },
+  };
+}
+
+/**
+ * Create TTL tracking for a set of policies.
+ *
+ * Entities are tracked through their `id` field, so a type's lifetime restarts
+ * whenever any query writes it, and the collector evicts it once expired.
+ * Field lifetimes are kept in Apollo's per-field storage: an expired field
+ * reads as missing on the next uncached read, and the collector deletes it so
+ * memoized results and active queries refetch too. Restored entries skip the
+ * merge functions, so `seed` dates them from the snapshot instead.
+ */
+export function createCacheTtl(
+  policies: TtlPolicies,
+  now: () => number = Date.now
+): CacheTtl {
+  const entities = new Map<string, TrackedEntity>();
+  const queries = new Map<string, number>();
+  // Earliest field expiry seen, so sweeps only run when something is due
+  let nextFieldExpiry = Number.POSITIVE_INFINITY;
+  // Save time of the restored snapshot, for fields no write has dated yet
+  let restoredAt: number | null = null;
+
+  // When a field goes stale, or null for a field with no known write time
+  const fieldExpiry = (storage: Record<string, unknown>, ttl: number) => {
+    if (typeof storage.expiresAt === 'number') return storage.expiresAt;
+    return restoredAt !== null ? restoredAt + ttl : null;
+  };
+
+  const isExpired = (
+    storage: Record<string, unknown>,
+    ttl: number,
+    current: number
+  ) => {
+    const expiresAt = fieldExpiry(storage, ttl);
+    return expiresAt !== null && expiresAt <= current;
+  };
+
+  const typePolicies = (base: TypePolicies): TypePolicies => {
+    const result: TypePolicies = { ...base };
+
+    for (const [typename, policy] of Object.entries(policies)) {
+      const typePolicy = base[typename] ?? {};
+      const fields = { ...typePolicy.fields };
+
+      fields.id = onFieldWrite(fields.id, (incoming, { cache }) => {
+        const dataId = cache.identify({
+          __typename: typename,
+          id: incoming as string,
+        });
+        if (dataId) entities.set(dataId, { typename, writtenAt: now() });
+      });
+
+      for (const [fieldName, ttl] of Object.entries(policy.fields ?? {})) {
+        const written = onFieldWrite(fields[fieldName], (_, { storage }) => {
+          const expiresAt = now() + ttl;
+          storage.expiresAt = expiresAt;
+          nextFieldExpiry = Math.min(nextFieldExpiry, expiresAt);
+        });
+        fields[fieldName] = {
+          ...written,
+          read(existing, options) {
+            if (isExpired(options.storage, ttl, now())) return undefined;
+            const value: unknown = written.read
+              ? written.read(existing, options)
+              : existing;
+            return value;
+          },
+        };
+      }
+
+      result[typename] = { ...typePolicy, fields };
+    }
+
+    return result;
+  };
+
+  const collect = (cache: InMemoryCache): number => {
+    const current = now();
+    const sweepFields = nextFieldExpiry <= current;
+    if (sweepFields) nextFieldExpiry = Number.POSITIVE_INFINITY;
+
+    let evicted = 0;
+    for (const [dataId, entity] of entities) {
+      const policy = policies[entity.typename];
+      if (
+        policy?.ttl !== undefined &&
+        current - entity.writtenAt >= policy.ttl
+      ) {
+        cache.evict({ id: dataId });
+        entities.delete(dataId);
+        evicted += 1;
+      } else if (sweepFields && policy?.fields) {
+        cache.modify({
+          id: dataId,
+          fields: Object.fromEntries(
+            Object.entries(policy.fields).map(([fieldName, ttl]) => {
+              // Keeps fields not due yet and reschedules the next sweep
+              const dropExpired: Modifier<unknown> = (
+                value,
+                { storage, DELETE }
+              ) => {
+                const expiresAt = fieldExpiry(storage, ttl);
+                if (expiresAt === null) return value;
+                if (expiresAt <= current) return DELETE;
+                nextFieldExpiry = Math.min(nextFieldExpiry, expiresAt);
+                return value;
+              };
+              return [fieldName, dropExpired];
+            })
+          ),
+        });
+      }
+    }
+
+    if (evicted > 0) {
+      cache.gc();
+      logger.debug('Evicted stale cache entities', { evicted });
+    }
+    return evicted;
+  };
+
+  return {
+    typePolicies,
+    recordQuery: (key) => {
+      queries.set(key, now());
+    },
+    getQueryFetchedAt: (key) => queries.get(key) ?? null,
+    collect,
+    seed: (data, writtenAt) => {
+      restoredAt = writtenAt;
+      for (const [dataId, entity] of Object.entries(data)) {
+        const typename = entity?.__typename;
+        const policy = typename ? policies[typename] : undefined;
+        if (!typename || !policy || entities.has(dataId)) continue;
+
+        entities.set(dataId, { typename, writtenAt });
+        for (const ttl of Object.values(policy.fields ?? {})) {
+          nextFieldExpiry = Math.min(nextFieldExpiry, writtenAt + ttl);
+        }
+      }
+    },
+    startCollector: (cache, intervalMs = COLLECT_INTERVAL_MS) => {
+      const timer = setInterval(() => {
+        collect(cache);
+      }, intervalMs);
+      return () => {
+        clearInterval(timer);
+      };
+    },
+    clear: () => {
+      entities.clear();
+      queries.clear();
+      nextFieldExpiry = Number.POSITIVE_INFINITY;
+      restoredAt = null;
+    },
+  };
+}
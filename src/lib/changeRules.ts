@@ -0,0 +1,364 @@
+/**
+ * Change detection rules for polled endpoints
+ * Decide which parts of a response are tracked, which fields are ignored,
+ * and how array items are matched so additions, removals and modifications
+ * become distinct events.
+ */
+
+import { appendIndex, appendKey, type JsonDiffEntry } from './jsonDiff';
+import {
+  deepEqual,
+  formatNormalizedPath,
+  isSingularQuery,
+  type NodeLocation,
+  queryJSONPath,
+  validateJSONPath,
+} from './jsonpath';
+
+export type ChangeScope = 'body' | 'paths';
+
+export interface ArrayKeyRule {
+  /**
+   * JSONPath of the array in dot or bracket notation; `[*]` matches any
+   * index, e.g. $.orders[*].lines
+   */
+  path: string;
+  /** Property that identifies an item across responses */
+  key: string;
+}
+
+export interface ChangeRules {
+  /** Track the whole body, or only `trackedPaths` */
+  scope: ChangeScope;
+  trackedPaths: string[];
+  /** Property names ignored at any depth, or JSONPaths starting with `$` */
+  ignoredFields: string[];
+  arrayKeys: ArrayKeyRule[];
+}
+
+export type ChangeEventType =
+  | 'change.detected'
+  | 'item.added'
+  | 'item.removed'
+  | 'item.modified';
+
+export type DetectedChangeEvent =
+  | { type: 'change.detected'; changes: JsonDiffEntry[] }
+  | { type: 'item.added'; path: string; key: string; item: unknown }
+  | { type: 'item.removed'; path: string; key: string; item: unknown }
+  | {
+      type: 'item.modified';
+      path: string;
+      key: string;
+      item: unknown;
+      changes: JsonDiffEntry[];
+    };
+
+export const DEFAULT_CHANGE_RULES: ChangeRules = {
+  scope: 'body',
+  trackedPaths: [],
+  ignoredFields: [],
+  arrayKeys: [],
+};
+
+// Fields that change on every request without the data actually changing
+export const VOLATILE_FIELDS = [
+  'timestamp',
+  'updatedAt',
+  'updated_at',
+  'requestId',
+  'request_id',
+  'traceId',
+  'etag',
+  'generatedAt',
+] as const;
+
+type JsonObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSONPaths in the rules that don't parse, for form validation
+ */
+export function findInvalidPaths(rules: ChangeRules): string[] {
+  const paths = [
+    ...(rules.scope === 'paths' ? rules.trackedPaths : []),
+    ...rules.ignoredFields.filter((field) => field.startsWith('$')),
+    ...rules.arrayKeys.map((rule) => rule.path),
+  ];
+  return paths.filter((path) => !validateJSONPath(path).valid);
+}
+
+/**
+ * Copy of `document` without ignored fields. Names match object keys at any
+ * depth; JSONPaths remove exactly the nodes they select.
+ */
+export function stripIgnoredFields(
+  document: unknown,
+  ignoredFields: string[]
+): unknown {
+  const names = new Set(
+    ignoredFields.filter((field) => !field.startsWith('$'))
+  );
+  const excluded = new Set<string>();
+  for (const field of ignoredFields) {
+    if (!field.startsWith('$') || !validateJSONPath(field).valid) continue;
+    for (const node of queryJSONPath(field, document)) {
+      excluded.add(node.path);
+    }
+  }
+
+  const copy = (value: unknown, location: NodeLocation): unknown => {
+    if (Array.isArray(value)) {
+      return value
+        .map((item, index): [unknown, NodeLocation] => [
+          item,
+          [...location, index],
+        ])
+        .filter(
+          ([, itemLocation]) =>
+            !excluded.has(formatNormalizedPath(itemLocation))
+        )
+        .map(([item, itemLocation]) => copy(item, itemLocation));
+    }
+    if (isPlainObject(value)) {
+      const result: JsonObject = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childLocation = [...location, key];
+        if (
+          names.has(key) ||
+          excluded.has(formatNormalizedPath(childLocation))
+        ) {
+          continue;
+        }
+        result[key] = copy(child, childLocation);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return copy(document, []);
+}
+
+// One child step of a path; null stands for a `[*]` wildcard
+type PathStep = string | number | null;
+
+/**
+ * Steps of a path made only of names, indices and wildcards, so dot and
+ * bracket notation compare equal; null for any other path
+ */
+function parsePathSteps(path: string): PathStep[] | null {
+  const validation = validateJSONPath(path);
+  if (!validation.valid) return null;
+
+  const steps: PathStep[] = [];
+  for (const segment of validation.query.segments) {
+    const [selector] = segment.selectors;
+    if (segment.type !== 'child' || segment.selectors.length !== 1) {
+      return null;
+    }
+    if (selector?.type === 'name') steps.push(selector.name);
+    else if (selector?.type === 'index') steps.push(selector.index);
+    else if (selector?.type === 'wildcard') steps.push(null);
+    else return null;
+  }
+  return steps;
+}
+
+function findArrayKey(path: string, arrayKeys: ArrayKeyRule[]): string | null {
+  const steps = parsePathSteps(path);
+  if (!steps) return null;
+
+  const rule = arrayKeys.find((candidate) => {
+    const ruleSteps = parsePathSteps(candidate.path);
+    return (
+      ruleSteps?.length === steps.length &&
+      ruleSteps.every(
+        (step, index) =>
+          step === steps[index] ||
+          (step === null && typeof steps[index] === 'number')
+      )
+    );
+  });
+  return rule ? rule.key : null;
+}
+
+/**
+ * Identity of an array item; items without the key fall back to position
+ */
+function itemIdentity(item: unknown, key: string, index: number): string {
+  if (isPlainObject(item) && item[key] != null) {
+    const value = item[key];
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return `#${String(index)}`;
+}
+
+function compare(
+  before: unknown,
+  after: unknown,
+  path: string,
+  rules: ChangeRules,
+  changes: JsonDiffEntry[],
+  events: DetectedChangeEvent[]
+): void {
+  if (deepEqual(before, after)) return;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const key = findArrayKey(path, rules.arrayKeys);
+
+    if (key !== null) {
+      const previous = new Map(
+        before.map((item, index) => [itemIdentity(item, key, index), item])
+      );
+      const seen = new Set<string>();
+
+      after.forEach((item, index) => {
+        const identity = itemIdentity(item, key, index);
+        seen.add(identity);
+
+        if (!previous.has(identity)) {
+          events.push({ type: 'item.added', path, key: identity, item });
+          return;
+        }
+
+        const itemChanges: JsonDiffEntry[] = [];
+        compare(
+          previous.get(identity),
+          item,
+          appendIndex(path, index),
+          rules,
+          itemChanges,
+          events
+        );
+        if (itemChanges.length > 0) {
+          events.push({
+            type: 'item.modified',
+            path,
+            key: identity,
+            item,
+            changes: itemChanges,
+          });
+        }
+      });
+
+      for (const [identity, item] of previous) {
+        if (!seen.has(identity)) {
+          events.push({ type: 'item.removed', path, key: identity, item });
+        }
+      }
+      return;
+    }
+
+    const shared = Math.min(before.length, after.length);
+    for (let index = 0; index < shared; index++) {
+      compare(
+        before[index],
+        after[index],
+        appendIndex(path, index),
+        rules,
+        changes,
+        events
+      );
+    }
+    for (let index = shared; index < before.length; index++) {
+      changes.push({
+        path: appendIndex(path, index),
+        kind: 'removed',
+        before: before[index],
+      });
+    }
+    for (let index = shared; index < after.length; index++) {
+      changes.push({
+        path: appendIndex(path, index),
+        kind: 'added',
+        after: after[index],
+      });
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      const childPath = appendKey(path, key);
+      if (key in after) {
+        compare(before[key], after[key], childPath, rules, changes, events);
+      } else {
+        changes.push({ path: childPath, kind: 'removed', before: before[key] });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        changes.push({
+          path: appendKey(path, key),
+          kind: 'added',
+          after: after[key],
+        });
+      }
+    }
+    return;
+  }
+
+  if (before === undefined) {
+    changes.push({ path, kind: 'added', after });
+  } else if (after === undefined) {
+    changes.push({ path, kind: 'removed', before });
+  } else {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+/**
+ * Value a tracked path selects: the node itself for singular paths,
+ * otherwise the list of matched values
+ */
+function selectTracked(path: string, document: unknown): unknown {
+  const validation = validateJSONPath(path);
+  if (!validation.valid) return undefined;
+
+  const nodes = queryJSONPath(validation.query, document);
+  if (isSingularQuery(validation.query)) return nodes[0]?.value;
+  return nodes.map((node) => node.value);
+}
+
+/**
+ * Events that would fire when an endpoint's response goes from `before` to
+ * `after`. Changes outside keyed arrays are grouped into one change.detected.
+ */
+export function detectChanges(
+  before: unknown,
+  after: unknown,
+  rules: ChangeRules
+): DetectedChangeEvent[] {
+  const previous = stripIgnoredFields(before, rules.ignoredFields);
+  const current = stripIgnoredFields(after, rules.ignoredFields);
+
+  const regions =
+    rules.scope === 'paths'
+      ? rules.trackedPaths.map((path) => ({
+          path,
+          before: selectTracked(path, previous),
+          after: selectTracked(path, current),
+        }))
+      : [{ path: '$', before: previous, after: current }];
+
+  const changes: JsonDiffEntry[] = [];
+  const itemEvents: DetectedChangeEvent[] = [];
+  for (const region of regions) {
+    compare(
+      region.before,
+      region.after,
+      region.path,
+      rules,
+      changes,
+      itemEvents
+    );
+  }
+
+  return changes.length > 0
+    ? [{ type: 'change.detected', changes }, ...itemEvents]
+    : itemEvents;
+}
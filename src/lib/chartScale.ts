@@ -0,0 +1,64 @@
+/**
+ * Axis scaling for charts
+ * Rounds a data extent out to "nice" tick steps (1, 2 or 5 times a power of ten)
+ */
+
+export interface ChartDomain {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+function niceStep(roughStep: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const residual = roughStep / magnitude;
+  // Geometric midpoints between 1, 2, 5 and 10
+  if (residual >= Math.sqrt(50)) return 10 * magnitude;
+  if (residual >= Math.sqrt(10)) return 5 * magnitude;
+  if (residual >= Math.sqrt(2)) return 2 * magnitude;
+  return magnitude;
+}
+
+/**
+ * Domain covering every value with about `tickCount` evenly spaced ticks.
+ * The domain always includes zero so bars and rates are not exaggerated.
+ */
+export function getChartDomain(values: number[], tickCount = 5): ChartDomain {
+  const finite = values.filter((value) => Number.isFinite(value));
+  const dataMin = Math.min(0, ...finite);
+  const dataMax = Math.max(0, ...finite);
+
+  if (dataMin === dataMax) {
+    return { min: 0, max: 1, ticks: [0, 1] };
+  }
+
+  const step = niceStep((dataMax - dataMin) / Math.max(1, tickCount - 1));
+  const min = Math.floor(dataMin / step) * step;
+  const max = Math.ceil(dataMax / step) * step;
+
+  const ticks: number[] = [];
+  // Round away floating point drift such as 0.30000000000000004
+  for (let tick = min; tick <= max + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return { min, max, ticks };
+}
+
+/**
+ * Position of a value within a domain, from 0 at the minimum to 1 at the maximum
+ */
+export function scaleValue(value: number, domain: ChartDomain): number {
+  const range = domain.max - domain.min || 1;
+  return (value - domain.min) / range;
+}
+
+/**
+ * Compact tick label: 1200 → 1.2k, 3500000 → 3.5M
+ */
+export function formatTickValue(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000)
+    return `${String(Number((value / 1_000_000).toFixed(1)))}M`;
+  if (abs >= 1_000) return `${String(Number((value / 1_000).toFixed(1)))}k`;
+  return String(Number(value.toFixed(2)));
+}
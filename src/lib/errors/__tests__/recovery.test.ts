@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  classifyRedeliveryFailure,
+  executeRecovery,
+  recoverRedeliveryFailures,
+} from '../recovery';
+import { RedeliveryError } from '../types';
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    loading: vi.fn(),
+    dismiss: vi.fn(),
+  },
+}));
+
+const failure = (
+  eventId: string,
+  options: ConstructorParameters<typeof RedeliveryError>[2] = {}
+) => new RedeliveryError('Delivery failed', eventId, options);
+
+describe('classifyRedeliveryFailure', () => {
+  it('treats timeouts, throttling and server errors as transient', () => {
+    expect(classifyRedeliveryFailure(failure('evt_1'))).toBe('transient');
+    expect(
+      classifyRedeliveryFailure(failure('evt_2', { statusCode: 429 }))
+    ).toBe('transient');
+    expect(
+      classifyRedeliveryFailure(failure('evt_3', { statusCode: 503 }))
+    ).toBe('transient');
+  });
+
+  it('treats other client errors as rejected', () => {
+    expect(
+      classifyRedeliveryFailure(failure('evt_1', { statusCode: 410 }))
+    ).toBe('rejected');
+  });
+
+  it('reports open circuits regardless of status code', () => {
+    expect(
+      classifyRedeliveryFailure(
+        failure('evt_1', { statusCode: 503, circuitOpen: true })
+      )
+    ).toBe('circuit-open');
+  });
+});
+
+describe('recoverRedeliveryFailures', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries only the transient failures after the delay', () => {
+    const redeliver = vi.fn();
+    recoverRedeliveryFailures(
+      [
+        failure('evt_1', { statusCode: 502 }),
+        failure('evt_2', { statusCode: 400 }),
+        failure('evt_3', { circuitOpen: true }),
+      ],
+      { redeliver, retryAfter: 5 }
+    );
+
+    vi.advanceTimersByTime(4000);
+    expect(redeliver).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(redeliver).toHaveBeenCalledExactlyOnceWith(['evt_1']);
+  });
+
+  it('cancels the scheduled retry on cleanup', () => {
+    const redeliver = vi.fn();
+    const cleanup = recoverRedeliveryFailures([failure('evt_1')], {
+      redeliver,
+      retryAfter: 2,
+    });
+
+    cleanup?.();
+    vi.advanceTimersByTime(5000);
+    expect(redeliver).not.toHaveBeenCalled();
+  });
+
+  it('reports the countdown until the retry starts', () => {
+    const onRetryChange = vi.fn();
+    recoverRedeliveryFailures([failure('evt_1')], {
+      redeliver: vi.fn(),
+      retryAfter: 2,
+      onRetryChange,
+    });
+
+    expect(onRetryChange).toHaveBeenLastCalledWith({
+      eventIds: ['evt_1'],
+      secondsLeft: 2,
+    });
+    vi.advanceTimersByTime(1000);
+    expect(onRetryChange).toHaveBeenLastCalledWith({
+      eventIds: ['evt_1'],
+      secondsLeft: 1,
+    });
+    vi.advanceTimersByTime(1000);
+    expect(onRetryChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('schedules nothing without a redeliver callback', () => {
+    expect(recoverRedeliveryFailures([failure('evt_1')], {})).toBeUndefined();
+  });
+
+  it('is reached through executeRecovery for redelivery errors', async () => {
+    const retry = vi.fn();
+    const cleanup = await executeRecovery(failure('evt_1'), { retry });
+
+    expect(cleanup).toBeTypeOf('function');
+    vi.advanceTimersByTime(30000);
+    expect(retry).toHaveBeenCalledOnce();
+  });
+});
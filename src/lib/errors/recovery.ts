@@ -1,4 +1,4 @@
-import { toast } from 'react-hot-toast';
+import { toast } from 'sonner';
 import {
   type AppError,
   type AuthenticationError,
@@ -6,6 +6,7 @@ import {
   type GraphQLError,
   type NetworkError,
   type RateLimitError,
+  RedeliveryError,
   type ValidationError,
   type WebhookError,
 } from './types';
@@ -153,7 +154,19 @@ export const recoveryStrategies: {
     return undefined;
   },
 
-  [ErrorType.WEBHOOK]: (error: WebhookError, _context: RecoveryContext) => {
+  [ErrorType.WEBHOOK]: (error: WebhookError, context: RecoveryContext) => {
+    // Failed redeliveries get their own retry-aware handling
+    if (error instanceof RedeliveryError) {
+      const { retry } = context;
+      return recoverRedeliveryFailures([error], {
+        redeliver: retry
+          ? () => {
+              retry();
+            }
+          : undefined,
+      });
+    }
+
     // Show webhook-specific error message with unique ID
     const toastId = `webhook-error-${Date.now().toString()}`;
     toast.error(error.message, {
@@ -173,6 +186,131 @@ export const recoveryStrategies: {
   },
 };
 
+export interface PendingRedeliveryRetry {
+  eventIds: string[];
+  secondsLeft: number;
+}
+
+export interface RedeliveryRecoveryContext {
+  /** Re-run redelivery for the given event IDs */
+  redeliver?: ((eventIds: string[]) => void) | undefined;
+  /** Seconds to wait before retrying transient failures */
+  retryAfter?: number;
+  /** Follows the retry countdown; null once the retry starts or is cancelled */
+  onRetryChange?: (retry: PendingRedeliveryRetry | null) => void;
+}
+
+/**
+ * - transient: timeouts, connection failures, 408/425/429 and 5xx; worth retrying
+ * - rejected: other 4xx; the destination refuses the payload until it is fixed
+ * - circuit-open: delivery was not attempted because the webhook's breaker is open
+ */
+export type RedeliveryFailureKind = 'transient' | 'rejected' | 'circuit-open';
+
+const TRANSIENT_STATUS_CODES = new Set([408, 425, 429]);
+const DEFAULT_REDELIVERY_RETRY_AFTER = 30;
+
+export function classifyRedeliveryFailure(
+  error: RedeliveryError
+): RedeliveryFailureKind {
+  if (error.circuitOpen) return 'circuit-open';
+
+  const { statusCode } = error;
+  if (
+    statusCode === undefined ||
+    statusCode >= 500 ||
+    TRANSIENT_STATUS_CODES.has(statusCode)
+  ) {
+    return 'transient';
+  }
+
+  return 'rejected';
+}
+
+const pluralEvents = (count: number) =>
+  `${String(count)} event${count !== 1 ? 's' : ''}`;
+
+/**
+ * Recover from failed redeliveries: report rejected and circuit-open events,
+ * and schedule one delayed retry of the transient failures. The countdown
+ * toast can cancel the retry, as can the returned cleanup function.
+ */
+export function recoverRedeliveryFailures(
+  errors: RedeliveryError[],
+  context: RedeliveryRecoveryContext
+): CleanupFunction | undefined {
+  const byKind: Record<RedeliveryFailureKind, RedeliveryError[]> = {
+    transient: [],
+    rejected: [],
+    'circuit-open': [],
+  };
+  for (const error of errors) {
+    byKind[classifyRedeliveryFailure(error)].push(error);
+  }
+
+  const rejected = byKind.rejected;
+  if (rejected.length > 0) {
+    toast.error(
+      `${pluralEvents(rejected.length)} rejected by the destination. Fix the endpoint before retrying.`,
+      { id: 'redelivery-rejected', duration: 8000 }
+    );
+  }
+
+  const circuitOpen = byKind['circuit-open'];
+  if (circuitOpen.length > 0) {
+    const urls = [
+      ...new Set(circuitOpen.map((error) => error.webhookUrl ?? 'webhook')),
+    ];
+    toast.error(
+      `Circuit open for ${urls.join(', ')}. ${pluralEvents(circuitOpen.length)} skipped until the destination recovers.`,
+      { id: 'redelivery-circuit-open', duration: 8000 }
+    );
+  }
+
+  const transient = byKind.transient;
+  if (transient.length === 0) return undefined;
+
+  const { redeliver } = context;
+  if (!redeliver) {
+    toast.error(
+      `${pluralEvents(transient.length)} could not be delivered. Try again later.`,
+      { id: 'redelivery-transient' }
+    );
+    return undefined;
+  }
+
+  const eventIds = transient.map((error) => error.eventId);
+  const toastId = `redelivery-retry-${Date.now().toString()}`;
+  let remaining = context.retryAfter ?? DEFAULT_REDELIVERY_RETRY_AFTER;
+
+  const stop = () => {
+    clearInterval(intervalId);
+    toast.dismiss(toastId);
+    context.onRetryChange?.(null);
+  };
+
+  const showCountdown = () => {
+    toast.loading(
+      `Retrying ${pluralEvents(eventIds.length)} in ${String(remaining)}s...`,
+      { id: toastId, action: { label: 'Cancel', onClick: stop } }
+    );
+    context.onRetryChange?.({ eventIds, secondsLeft: remaining });
+  };
+
+  showCountdown();
+  const intervalId = setInterval(() => {
+    remaining--;
+    if (remaining > 0) {
+      showCountdown();
+      return;
+    }
+    stop();
+    redeliver(eventIds);
+  }, 1000);
+
+  return stop;
+}
+
 // Type guard functions for proper type discrimination
 function isNetworkError(error: AppError): error is NetworkError {
   return error.type === ErrorType.NETWORK;
@@ -127,6 +127,30 @@ export class WebhookError extends AppError {
   }
 }
 
+// Failed redelivery of a single event (extends WebhookError)
+export class RedeliveryError extends WebhookError {
+  public readonly eventId: string;
+  public readonly statusCode: number | undefined;
+  public readonly circuitOpen: boolean;
+
+  constructor(
+    message: string,
+    eventId: string,
+    options: {
+      webhookId?: string;
+      webhookUrl?: string;
+      statusCode?: number;
+      circuitOpen?: boolean;
+    } = {},
+    context?: Record<string, unknown>
+  ) {
+    super(message, options.webhookId, options.webhookUrl, context);
+    this.eventId = eventId;
+    this.statusCode = options.statusCode;
+    this.circuitOpen = options.circuitOpen ?? false;
+  }
+}
+
 // Generic GraphQL errors
 export class GraphQLError extends AppError {
   public readonly operation: string | undefined;
@@ -0,0 +1,102 @@
+/**
+ * Structural JSON diff
+ * Compares two JSON values and reports added, removed and changed leaves by path
+ */
+
+export type JsonDiffKind = 'added' | 'removed' | 'changed';
+
+export interface JsonDiffEntry {
+  /** JSONPath-style location, e.g. $.items[2].price */
+  path: string;
+  kind: JsonDiffKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Append an object key to a path, bracket-quoting keys that are not identifiers
+ */
+export function appendKey(path: string, key: string): string {
+  return IDENTIFIER_PATTERN.test(key)
+    ? `${path}.${key}`
+    : `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+/**
+ * Append an array index to a path
+ */
+export function appendIndex(path: string, index: number): string {
+  return `${path}[${String(index)}]`;
+}
+
+function walk(
+  before: unknown,
+  after: unknown,
+  path: string,
+  entries: JsonDiffEntry[]
+): void {
+  if (Object.is(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      const childPath = appendKey(path, key);
+      if (key in after) {
+        walk(before[key], after[key], childPath, entries);
+      } else {
+        entries.push({ path: childPath, kind: 'removed', before: before[key] });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        entries.push({
+          path: appendKey(path, key),
+          kind: 'added',
+          after: after[key],
+        });
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const shared = Math.min(before.length, after.length);
+    for (let index = 0; index < shared; index++) {
+      walk(before[index], after[index], appendIndex(path, index), entries);
+    }
+    for (let index = shared; index < before.length; index++) {
+      entries.push({
+        path: appendIndex(path, index),
+        kind: 'removed',
+        before: before[index],
+      });
+    }
+    for (let index = shared; index < after.length; index++) {
+      entries.push({
+        path: appendIndex(path, index),
+        kind: 'added',
+        after: after[index],
+      });
+    }
+    return;
+  }
+
+  entries.push({ path, kind: 'changed', before, after });
+}
+
+/**
+ * Diff two JSON values, returning one entry per added, removed or changed path.
+ * Arrays are compared by position.
+ */
+export function diffJson(before: unknown, after: unknown): JsonDiffEntry[] {
+  const entries: JsonDiffEntry[] = [];
+  walk(before, after, '$', entries);
+  return entries;
+}
@@ -0,0 +1,397 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateJSONPath,
+  formatJSONPath,
+  JSONPathSyntaxError,
+  parseJSONPath,
+  queryJSONPath,
+  validateJSONPath,
+} from '..';
+
+// RFC 9535 Figure 1
+const bookstore = {
+  store: {
+    book: [
+      {
+        category: 'reference',
+        author: 'Nigel Rees',
+        title: 'Sayings of the Century',
+        price: 8.95,
+      },
+      {
+        category: 'fiction',
+        author: 'Evelyn Waugh',
+        title: 'Sword of Honour',
+        price: 12.99,
+      },
+      {
+        category: 'fiction',
+        author: 'Herman Melville',
+        title: 'Moby Dick',
+        isbn: '0-553-21311-3',
+        price: 8.99,
+      },
+      {
+        category: 'fiction',
+        author: 'J. R. R. Tolkien',
+        title: 'The Lord of the Rings',
+        isbn: '0-395-19395-8',
+        price: 22.99,
+      },
+    ],
+    bicycle: { color: 'red', price: 399 },
+  },
+};
+
+const [book0, book1, book2, book3] = bookstore.store.book;
+
+const paths = (query: string, document: unknown) =>
+  queryJSONPath(query, document).map((node) => node.path);
+
+describe('JSONPath examples (RFC 9535 Table 3)', () => {
+  it.each([
+    [
+      '$.store.book[*].author',
+      ['Nigel Rees', 'Evelyn Waugh', 'Herman Melville', 'J. R. R. Tolkien'],
+    ],
+    [
+      '$..author',
+      ['Nigel Rees', 'Evelyn Waugh', 'Herman Melville', 'J. R. R. Tolkien'],
+    ],
+    ['$.store.*', [bookstore.store.book, bookstore.store.bicycle]],
+    ['$.store..price', [8.95, 12.99, 8.99, 22.99, 399]],
+    ['$..book[2]', [book2]],
+    ['$..book[2].author', ['Herman Melville']],
+    ['$..book[2].publisher', []],
+    ['$..book[-1]', [book3]],
+    ['$..book[0,1]', [book0, book1]],
+    ['$..book[:2]', [book0, book1]],
+    ['$..book[?@.isbn]', [book2, book3]],
+    ['$..book[?@.price<10]', [book0, book2]],
+  ])('%s', (query, expected) => {
+    expect(evaluateJSONPath(query, bookstore)).toEqual(expected);
+  });
+
+  it('$..* selects every member value and array element', () => {
+    expect(evaluateJSONPath('$..*', bookstore)).toHaveLength(27);
+  });
+});
+
+describe('selectors (RFC 9535 section 2.3)', () => {
+  it('name selector', () => {
+    const document = { o: { 'j j': { 'k.k': 3 } }, "'": { '@': 2 } };
+
+    expect(queryJSONPath("$.o['j j']", document)).toEqual([
+      { value: { 'k.k': 3 }, location: ['o', 'j j'], path: "$['o']['j j']" },
+    ]);
+    expect(evaluateJSONPath("$.o['j j']['k.k']", document)).toEqual([3]);
+    expect(evaluateJSONPath('$.o["j j"]["k.k"]', document)).toEqual([3]);
+    expect(evaluateJSONPath('$["\'"]["@"]', document)).toEqual([2]);
+  });
+
+  it('wildcard selector', () => {
+    const document = { o: { j: 1, k: 2 }, a: [5, 3] };
+
+    expect(evaluateJSONPath('$[*]', document)).toEqual([
+      { j: 1, k: 2 },
+      [5, 3],
+    ]);
+    expect(evaluateJSONPath('$.o[*]', document)).toEqual([1, 2]);
+    expect(evaluateJSONPath('$.o[*, *]', document)).toEqual([1, 2, 1, 2]);
+    expect(evaluateJSONPath('$.a[*]', document)).toEqual([5, 3]);
+  });
+
+  it('index selector', () => {
+    expect(evaluateJSONPath('$[1]', ['a', 'b'])).toEqual(['b']);
+    expect(evaluateJSONPath('$[-2]', ['a', 'b'])).toEqual(['a']);
+    expect(evaluateJSONPath('$[2]', ['a', 'b'])).toEqual([]);
+  });
+
+  it.each([
+    ['$[1:3]', ['b', 'c']],
+    ['$[5:]', ['f', 'g']],
+    ['$[1:5:2]', ['b', 'd']],
+    ['$[5:1:-2]', ['f', 'd']],
+    ['$[::-1]', ['g', 'f', 'e', 'd', 'c', 'b', 'a']],
+    ['$[1:5:0]', []],
+  ])('array slice selector %s', (query, expected) => {
+    expect(
+      evaluateJSONPath(query, ['a', 'b', 'c', 'd', 'e', 'f', 'g'])
+    ).toEqual(expected);
+  });
+});
+
+describe('filter selector (RFC 9535 Table 12)', () => {
+  const document = {
+    a: [3, 5, 1, 2, 4, 6, { b: 'j' }, { b: 'k' }, { b: {} }, { b: 'kilo' }],
+    o: { p: 1, q: 2, r: 3, s: 5, t: { u: 6 } },
+    e: 'f',
+  };
+
+  it.each([
+    ["$.a[?@.b == 'kilo']", [{ b: 'kilo' }]],
+    ["$.a[?(@.b == 'kilo')]", [{ b: 'kilo' }]],
+    ['$.a[?@>3.5]', [5, 4, 6]],
+    ['$.a[?@.b]', [{ b: 'j' }, { b: 'k' }, { b: {} }, { b: 'kilo' }]],
+    ['$[?@.*]', [document.a, document.o]],
+    ['$[?@[?@.b]]', [document.a]],
+    ['$.o[?@<3, ?@<3]', [1, 2, 1, 2]],
+    ['$.a[?@<2 || @.b == "k"]', [1, { b: 'k' }]],
+    ['$.a[?match(@.b, "[jk]")]', [{ b: 'j' }, { b: 'k' }]],
+    ['$.a[?search(@.b, "[jk]")]', [{ b: 'j' }, { b: 'k' }, { b: 'kilo' }]],
+    ['$.o[?@>1 && @<4]', [2, 3]],
+    ['$.o[?@.u || @.x]', [{ u: 6 }]],
+    ['$.a[?@.b == $.x]', [3, 5, 1, 2, 4, 6]],
+    ['$.a[?@ == @]', document.a],
+  ])('%s', (query, expected) => {
+    expect(evaluateJSONPath(query, document)).toEqual(expected);
+  });
+
+  it('supports the parenthesized filter form advertised by the builder', () => {
+    const items = {
+      items: [
+        { id: 1, status: 'active' },
+        { id: 2, status: 'archived' },
+      ],
+    };
+    expect(
+      evaluateJSONPath('$.items[?(@.status == "active")].id', items)
+    ).toEqual([1]);
+  });
+});
+
+describe('comparisons (RFC 9535 Table 11)', () => {
+  const document = { obj: { x: 'y' }, arr: [2, 3] };
+
+  // The filter selects both root members when the comparison is true
+  const holds = (comparison: string) =>
+    evaluateJSONPath(`$[?${comparison}]`, document).length === 2;
+
+  it.each([
+    ['$.absent1 == $.absent2', true],
+    ['$.absent1 <= $.absent2', true],
+    ["$.absent == 'g'", false],
+    ['$.absent1 != $.absent2', false],
+    ["$.absent != 'g'", true],
+    ['1 <= 2', true],
+    ['1 > 2', false],
+    ["13 == '13'", false],
+    ["'a' <= 'b'", true],
+    ["'a' > 'b'", false],
+    ['$.obj == $.arr', false],
+    ['$.obj != $.arr', true],
+    ['$.obj == $.obj', true],
+    ['$.obj != $.obj', false],
+    ['$.arr == $.arr', true],
+    ['$.arr != $.arr', false],
+    ['$.obj == 17', false],
+    ['$.obj != 17', true],
+    ['$.obj <= $.arr', false],
+    ['$.obj < $.arr', false],
+    ['$.obj <= $.obj', true],
+    ['$.arr <= $.arr', true],
+    ['1 <= $.arr', false],
+    ['1 >= $.arr', false],
+    ['1 > $.arr', false],
+    ['1 < $.arr', false],
+    ['true <= true', true],
+    ['true > true', false],
+  ])('%s is %s', (comparison, expected) => {
+    expect(holds(comparison)).toBe(expected);
+  });
+
+  it('compares numbers by value', () => {
+    expect(evaluateJSONPath('$[?@ == 1.0]', [1, 2])).toEqual([1]);
+  });
+});
+
+describe('descendant segment (RFC 9535 section 2.5.2)', () => {
+  const document = { o: { j: 1, k: 2 }, a: [5, 3, [{ j: 4 }, { k: 6 }]] };
+
+  it.each([
+    ['$..j', [1, 4]],
+    ['$..[0]', [5, { j: 4 }]],
+    ['$..o', [{ j: 1, k: 2 }]],
+    ['$.o..[*, *]', [1, 2, 1, 2]],
+    ['$.a..[0, 1]', [5, 3, { j: 4 }, { k: 6 }]],
+  ])('%s', (query, expected) => {
+    expect(evaluateJSONPath(query, document)).toEqual(expected);
+  });
+
+  it('$..[*] and $..* select every descendant', () => {
+    const expected = [
+      { j: 1, k: 2 },
+      [5, 3, [{ j: 4 }, { k: 6 }]],
+      1,
+      2,
+      5,
+      3,
+      [{ j: 4 }, { k: 6 }],
+      { j: 4 },
+      { k: 6 },
+      4,
+      6,
+    ];
+    expect(evaluateJSONPath('$..[*]', document)).toEqual(expected);
+    expect(evaluateJSONPath('$..*', document)).toEqual(expected);
+  });
+});
+
+describe('null semantics (RFC 9535 section 2.6)', () => {
+  const document = { a: null, b: [null], c: [{}], null: 1 };
+
+  it.each([
+    ['$.a', [null]],
+    ['$.a[0]', []],
+    ['$.a.d', []],
+    ['$.b[0]', [null]],
+    ['$.b[*]', [null]],
+    ['$.b[?@]', [null]],
+    ['$.b[?@==null]', [null]],
+    ['$.c[?@.d==null]', []],
+    ['$.null', [1]],
+  ])('%s', (query, expected) => {
+    expect(evaluateJSONPath(query, document)).toEqual(expected);
+  });
+});
+
+describe('function extensions (RFC 9535 section 2.4)', () => {
+  const document = [
+    { authors: ['a', 'b', 'c', 'd', 'e'], date: '1974-05-01', tags: { x: 1 } },
+    { authors: ['a'], date: '1980-05-01', author: 'Bob', color: 'red' },
+    { author: 'Rob', nested: { color: 'red' } },
+  ];
+
+  it('length() counts characters, elements and members', () => {
+    expect(evaluateJSONPath('$[?length(@.authors) >= 5]', document)).toEqual([
+      document[0],
+    ]);
+    expect(evaluateJSONPath('$[?length(@.tags) == 1]', document)).toEqual([
+      document[0],
+    ]);
+    expect(evaluateJSONPath('$[?length(@.author) == 3]', document)).toEqual([
+      document[1],
+      document[2],
+    ]);
+  });
+
+  it('count() counts the nodes of a query', () => {
+    expect(evaluateJSONPath('$[?count(@.authors.*) >= 5]', document)).toEqual([
+      document[0],
+    ]);
+  });
+
+  it('match() tests the whole string', () => {
+    expect(
+      evaluateJSONPath('$[?match(@.date, "1974-05-..")]', document)
+    ).toEqual([document[0]]);
+  });
+
+  it('search() tests for a substring', () => {
+    expect(
+      evaluateJSONPath('$[?search(@.author, "[BR]ob")]', document)
+    ).toEqual([document[1], document[2]]);
+  });
+
+  it('value() extracts the single node of a query', () => {
+    expect(evaluateJSONPath('$[?value(@..color) == "red"]', document)).toEqual([
+      document[1],
+      document[2],
+    ]);
+  });
+
+  it('I-Regexp dot does not match line breaks', () => {
+    expect(evaluateJSONPath('$[?match(@, "a.b")]', ['a\nb', 'a b'])).toEqual([
+      'a b',
+    ]);
+  });
+});
+
+describe('well-typedness (RFC 9535 Table 14)', () => {
+  it.each([
+    '$[?length(@) < 3]',
+    '$[?count(@.*) == 1]',
+    "$[?match(@.timezone, 'Europe/.*')]",
+    '$[?value(@..color) == "red"]',
+  ])('%s is well-typed', (query) => {
+    expect(validateJSONPath(query).valid).toBe(true);
+  });
+
+  it.each([
+    '$[?length(@.*) < 3]',
+    '$[?count(1) == 1]',
+    "$[?match(@.timezone, 'Europe/.*') == true]",
+    '$[?value(@..color)]',
+    '$[?unknown(@)]',
+    '$[?length(@, @)]',
+  ])('%s is rejected', (query) => {
+    expect(validateJSONPath(query).valid).toBe(false);
+  });
+});
+
+describe('normalized paths (RFC 9535 section 2.7)', () => {
+  it.each([
+    ['$.a', { a: 1 }, ["$['a']"]],
+    ['$[1]', [0, 1], ['$[1]']],
+    ['$[-3]', [0, 1, 2], ['$[0]']],
+    ['$.a.b[1:2]', { a: { b: [0, 1, 2] } }, ["$['a']['b'][1]"]],
+    ['$["\\u000B"]', { '\u000b': 1 }, ["$['\\u000b']"]],
+    ['$["\\u0061"]', { a: 1 }, ["$['a']"]],
+    ["$['it\\'s']", { "it's": 1 }, ["$['it\\'s']"]],
+  ])('%s', (query, document, expected) => {
+    expect(paths(query, document)).toEqual(expected);
+  });
+});
+
+describe('formatJSONPath', () => {
+  it('uses dot shorthand for plain names and brackets otherwise', () => {
+    expect(formatJSONPath(['items', 0, 'x-id', "it's"])).toBe(
+      "$.items[0]['x-id']['it\\'s']"
+    );
+  });
+
+  it('round-trips to the node it was built from', () => {
+    const document = { 'a b': [{ c: 1 }, { c: 2 }] };
+    const path = formatJSONPath(['a b', 1, 'c']);
+    expect(evaluateJSONPath(path, document)).toEqual([2]);
+  });
+});
+
+describe('syntax errors', () => {
+  it.each([
+    ['', 0],
+    ['a.b', 0],
+    ['$.', 2],
+    ['$..', 3],
+    ['$.1', 2],
+    ['$ ', 1],
+    ['$[', 2],
+    ['$[]', 2],
+    ["$['a", 2],
+    ['$[01]', 2],
+    ['$[-0]', 2],
+    ['$[1 2]', 4],
+    ['$["\\z"]', 3],
+    ['@.a', 0],
+    ['$[?@.a === 1]', 9],
+    ['$[?1]', 3],
+    ['$[?(@.a]', 7],
+    ['$[?@.* == 1]', 3],
+    ['$[?!@.a == 1]', 8],
+    ['$[?true1]', 3],
+  ])('%s fails at position %i', (query, position) => {
+    const result = validateJSONPath(query);
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.error.position).toBe(position);
+  });
+
+  it('throws JSONPathSyntaxError from parseJSONPath', () => {
+    expect(() => parseJSONPath('$.a[')).toThrow(JSONPathSyntaxError);
+  });
+
+  it('accepts blank space where the grammar allows it', () => {
+    const document = { a: [1, 3, 7] };
+    expect(evaluateJSONPath('$ .a[ 0 , 1 ]', document)).toEqual([1, 3]);
+    expect(evaluateJSONPath('$.a[ ?@ > 1 &&\n@ < 5 ]', document)).toEqual([3]);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * JSONPath (RFC 9535) evaluator
+ * Applies a parsed query to a JSON document, producing a node list
+ */
+
+import {
+  type EvaluatedNode,
+  FUNCTIONS,
+  type FunctionType,
+  NOTHING,
+} from './functions';
+import type {
+  Comparable,
+  ComparisonOperator,
+  FunctionArgument,
+  FunctionExpression,
+  LogicalExpression,
+  QueryExpression,
+  Segment,
+  Selector,
+} from './types';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ========================================================================================
+// Segments and Selectors
+// ========================================================================================
+
+function childNodes(node: EvaluatedNode): EvaluatedNode[] {
+  const { value, location } = node;
+  if (Array.isArray(value)) {
+    return value.map((item: unknown, index) => ({
+      value: item,
+      location: [...location, index],
+    }));
+  }
+  if (isObject(value)) {
+    return Object.entries(value).map(([key, item]) => ({
+      value: item,
+      location: [...location, key],
+    }));
+  }
+  return [];
+}
+
+/**
+ * The node followed by all of its descendants, parents before children
+ */
+function descendants(node: EvaluatedNode, into: EvaluatedNode[] = []) {
+  into.push(node);
+  for (const child of childNodes(node)) descendants(child, into);
+  return into;
+}
+
+function sliceIndices(
+  length: number,
+  { start, end, step = 1 }: Extract<Selector, { type: 'slice' }>
+): number[] {
+  if (step === 0) return [];
+
+  const normalize = (index: number) => (index >= 0 ? index : length + index);
+  const indices: number[] = [];
+
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalize(start ?? 0), 0), length);
+    const upper = Math.min(Math.max(normalize(end ?? length), 0), length);
+    for (let index = lower; index < upper; index += step) indices.push(index);
+  } else {
+    const upper = Math.min(
+      Math.max(normalize(start ?? length - 1), -1),
+      length - 1
+    );
+    const lower = Math.min(
+      Math.max(normalize(end ?? -length - 1), -1),
+      length - 1
+    );
+    for (let index = upper; lower < index; index += step) indices.push(index);
+  }
+
+  return indices;
+}
+
+function applySelector(
+  selector: Selector,
+  node: EvaluatedNode,
+  root: unknown,
+  output: EvaluatedNode[]
+): void {
+  const { value, location } = node;
+
+  switch (selector.type) {
+    case 'name':
+      if (isObject(value) && Object.hasOwn(value, selector.name)) {
+        output.push({
+          value: value[selector.name],
+          location: [...location, selector.name],
+        });
+      }
+      break;
+
+    case 'wildcard':
+      output.push(...childNodes(node));
+      break;
+
+    case 'index':
+      if (Array.isArray(value)) {
+        const index =
+          selector.index < 0 ? value.length + selector.index : selector.index;
+        if (index >= 0 && index < value.length) {
+          output.push({ value: value[index], location: [...location, index] });
+        }
+      }
+      break;
+
+    case 'slice':
+      if (Array.isArray(value)) {
+        for (const index of sliceIndices(value.length, selector)) {
+          output.push({ value: value[index], location: [...location, index] });
+        }
+      }
+      break;
+
+    case 'filter':
+      for (const child of childNodes(node)) {
+        if (evaluateLogical(selector.expression, child.value, root)) {
+          output.push(child);
+        }
+      }
+      break;
+  }
+}
+
+export function applySegments(
+  segments: Segment[],
+  nodes: EvaluatedNode[],
+  root: unknown
+): EvaluatedNode[] {
+  let current = nodes;
+
+  for (const segment of segments) {
+    const next: EvaluatedNode[] = [];
+    for (const node of current) {
+      const targets =
+        segment.type === 'descendant' ? descendants(node) : [node];
+      for (const target of targets) {
+        for (const selector of segment.selectors) {
+          applySelector(selector, target, root, next);
+        }
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+// ========================================================================================
+// Filter Expressions
+// ========================================================================================
+
+function evaluateQuery(
+  query: QueryExpression,
+  current: unknown,
+  root: unknown
+): EvaluatedNode[] {
+  const start = query.root === '$' ? root : current;
+  return applySegments(query.segments, [{ value: start, location: [] }], root);
+}
+
+function callFunction(
+  expression: FunctionExpression,
+  current: unknown,
+  root: unknown
+): unknown {
+  const definition = FUNCTIONS[expression.name];
+  if (!definition) return NOTHING;
+
+  const args = expression.args.map((arg, index) =>
+    evaluateArgument(
+      arg,
+      definition.parameters[index] ?? 'ValueType',
+      current,
+      root
+    )
+  );
+  return definition.evaluate(args);
+}
+
+function evaluateArgument(
+  argument: FunctionArgument,
+  parameter: FunctionType,
+  current: unknown,
+  root: unknown
+): unknown {
+  switch (parameter) {
+    case 'ValueType':
+      return evaluateComparable(argument as Comparable, current, root);
+    case 'NodesType':
+      return argument.type === 'query'
+        ? evaluateQuery(argument, current, root)
+        : callFunction(argument as FunctionExpression, current, root);
+    case 'LogicalType':
+      return evaluateAsLogical(argument, current, root);
+  }
+}
+
+function evaluateAsLogical(
+  argument: FunctionArgument,
+  current: unknown,
+  root: unknown
+): boolean {
+  switch (argument.type) {
+    case 'literal':
+      return false;
+    case 'query':
+      return evaluateQuery(argument, current, root).length > 0;
+    case 'function': {
+      const result = callFunction(argument, current, root);
+      return Array.isArray(result) ? result.length > 0 : result === true;
+    }
+    default:
+      return evaluateLogical(argument, current, root);
+  }
+}
+
+function evaluateComparable(
+  comparable: Comparable,
+  current: unknown,
+  root: unknown
+): unknown {
+  switch (comparable.type) {
+    case 'literal':
+      return comparable.value;
+    case 'query': {
+      const [node] = evaluateQuery(comparable, current, root);
+      return node ? node.value : NOTHING;
+    }
+    case 'function':
+      return callFunction(comparable, current, root);
+  }
+}
+
+export function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length &&
+      left.every((item: unknown, index) => deepEqual(item, right[index]))
+    );
+  }
+
+  if (isObject(left) && isObject(right)) {
+    const keys = Object.keys(left);
+    return (
+      keys.length === Object.keys(right).length &&
+      keys.every(
+        (key) => Object.hasOwn(right, key) && deepEqual(left[key], right[key])
+      )
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Compare strings by Unicode scalar values rather than UTF-16 code units
+ */
+function compareStrings(left: string, right: string): number {
+  const a = Array.from(left, (char) => char.codePointAt(0) ?? 0);
+  const b = Array.from(right, (char) => char.codePointAt(0) ?? 0);
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    const difference = (a[index] ?? 0) - (b[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return a.length - b.length;
+}
+
+function lessThan(left: unknown, right: unknown): boolean {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left < right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return compareStrings(left, right) < 0;
+  }
+  return false;
+}
+
+// Nothing equals only Nothing, and is never ordered
+function compare(
+  left: unknown,
+  operator: ComparisonOperator,
+  right: unknown
+): boolean {
+  switch (operator) {
+    case '==':
+      return deepEqual(left, right);
+    case '!=':
+      return !deepEqual(left, right);
+    case '<':
+      return lessThan(left, right);
+    case '<=':
+      return lessThan(left, right) || deepEqual(left, right);
+    case '>':
+      return lessThan(right, left);
+    case '>=':
+      return lessThan(right, left) || deepEqual(left, right);
+  }
+}
+
+export function evaluateLogical(
+  expression: LogicalExpression,
+  current: unknown,
+  root: unknown
+): boolean {
+  switch (expression.type) {
+    case 'or':
+      return expression.operands.some((operand) =>
+        evaluateLogical(operand, current, root)
+      );
+    case 'and':
+      return expression.operands.every((operand) =>
+        evaluateLogical(operand, current, root)
+      );
+    case 'not':
+      return !evaluateLogical(expression.operand, current, root);
+    case 'comparison':
+      return compare(
+        evaluateComparable(expression.left, current, root),
+        expression.operator,
+        evaluateComparable(expression.right, current, root)
+      );
+    case 'test':
+      return evaluateAsLogical(expression.expression, current, root);
+  }
+}
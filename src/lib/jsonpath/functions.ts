@@ -0,0 +1,127 @@
+/**
+ * JSONPath function extensions (RFC 9535 section 2.4)
+ * length(), count(), match(), search() and value()
+ */
+
+import type { NodeLocation } from './types';
+
+/** The special result "Nothing": absent value, e.g. a missing member */
+export const NOTHING: unique symbol = Symbol('Nothing');
+export type Nothing = typeof NOTHING;
+
+export type FunctionType = 'ValueType' | 'LogicalType' | 'NodesType';
+
+export interface EvaluatedNode {
+  value: unknown;
+  location: NodeLocation;
+}
+
+export interface FunctionDefinition {
+  parameters: FunctionType[];
+  result: FunctionType;
+  /**
+   * Arguments arrive already converted to the declared parameter types:
+   * ValueType as a JSON value or NOTHING, LogicalType as a boolean and
+   * NodesType as a node list
+   */
+  evaluate: (args: unknown[]) => unknown;
+}
+
+// Compiled I-Regexp patterns; null marks patterns that failed to compile
+const regexpCache = new Map<string, RegExp | null>();
+
+/**
+ * Translate an I-Regexp (RFC 9485) into an ECMAScript pattern.
+ * The only semantic difference handled here is `.`, which must not match
+ * line terminators in I-Regexp but excludes only \n and \r.
+ */
+function toECMAScriptPattern(pattern: string): string {
+  let result = '';
+  let inClass = false;
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern.charAt(index);
+
+    if (char === '\\') {
+      result += char + pattern.charAt(index + 1);
+      index++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+      result += char;
+    } else if (char === '[') {
+      inClass = true;
+      result += char;
+    } else if (char === '.') {
+      result += '[^\\n\\r]';
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+function compileRegexp(pattern: string, anchored: boolean): RegExp | null {
+  const key = `${anchored ? 'match' : 'search'}:${pattern}`;
+  const cached = regexpCache.get(key);
+  if (cached !== undefined) return cached;
+
+  let compiled: RegExp | null;
+  try {
+    const source = toECMAScriptPattern(pattern);
+    compiled = new RegExp(anchored ? `^(?:${source})$` : source, 'u');
+  } catch {
+    compiled = null;
+  }
+
+  regexpCache.set(key, compiled);
+  return compiled;
+}
+
+function testRegexp(
+  value: unknown,
+  pattern: unknown,
+  anchored: boolean
+): boolean {
+  if (typeof value !== 'string' || typeof pattern !== 'string') return false;
+  return compileRegexp(pattern, anchored)?.test(value) ?? false;
+}
+
+export const FUNCTIONS: Record<string, FunctionDefinition | undefined> = {
+  length: {
+    parameters: ['ValueType'],
+    result: 'ValueType',
+    evaluate: ([value]) => {
+      // Strings are measured in Unicode scalar values, not UTF-16 code units
+      if (typeof value === 'string') return Array.from(value).length;
+      if (Array.isArray(value)) return value.length;
+      if (typeof value === 'object' && value !== null) {
+        return Object.keys(value).length;
+      }
+      return NOTHING;
+    },
+  },
+  count: {
+    parameters: ['NodesType'],
+    result: 'ValueType',
+    evaluate: ([nodes]) => (nodes as EvaluatedNode[]).length,
+  },
+  match: {
+    parameters: ['ValueType', 'ValueType'],
+    result: 'LogicalType',
+    evaluate: ([value, pattern]) => testRegexp(value, pattern, true),
+  },
+  search: {
+    parameters: ['ValueType', 'ValueType'],
+    result: 'LogicalType',
+    evaluate: ([value, pattern]) => testRegexp(value, pattern, false),
+  },
+  value: {
+    parameters: ['NodesType'],
+    result: 'ValueType',
+    evaluate: ([nodes]) => {
+      const list = nodes as EvaluatedNode[];
+      return list.length === 1 && list[0] ? list[0].value : NOTHING;
+    },
+  },
+};
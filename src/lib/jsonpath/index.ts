@@ -0,0 +1,79 @@
+/**
+ * JSONPath (RFC 9535)
+ * Parse, validate and evaluate JSONPath queries against JSON documents
+ */
+
+import { applySegments } from './evaluator';
+import { isSingular, parseJSONPath } from './parser';
+import { formatNormalizedPath } from './paths';
+import {
+  type JSONPathNode,
+  type JSONPathQuery,
+  JSONPathSyntaxError,
+} from './types';
+
+export { deepEqual } from './evaluator';
+export { parseJSONPath } from './parser';
+export { formatJSONPath, formatNormalizedPath } from './paths';
+export type {
+  JSONPathNode,
+  JSONPathQuery,
+  JsonValue,
+  NodeLocation,
+  Segment,
+  Selector,
+} from './types';
+export { JSONPathSyntaxError } from './types';
+
+export type JSONPathValidation =
+  | { valid: true; query: JSONPathQuery }
+  | { valid: false; error: JSONPathSyntaxError };
+
+/**
+ * Check a query without throwing
+ */
+export function validateJSONPath(source: string): JSONPathValidation {
+  try {
+    return { valid: true, query: parseJSONPath(source) };
+  } catch (error) {
+    if (error instanceof JSONPathSyntaxError) return { valid: false, error };
+    throw error;
+  }
+}
+
+/**
+ * Whether a query can select at most one node
+ */
+export function isSingularQuery(query: JSONPathQuery): boolean {
+  return isSingular(query.segments);
+}
+
+/**
+ * Select the nodes a query matches, with their locations and normalized paths
+ */
+export function queryJSONPath(
+  query: string | JSONPathQuery,
+  document: unknown
+): JSONPathNode[] {
+  const parsed = typeof query === 'string' ? parseJSONPath(query) : query;
+  return applySegments(
+    parsed.segments,
+    [{ value: document, location: [] }],
+    document
+  ).map((node) => ({ ...node, path: formatNormalizedPath(node.location) }));
+}
+
+/**
+ * Select the values a query matches
+ */
+export function evaluateJSONPath(
+  query: string | JSONPathQuery,
+  document: unknown
+): unknown[] {
+  const parsed = typeof query === 'string' ? parseJSONPath(query) : query;
+  return applySegments(
+    parsed.segments,
+    [{ value: document, location: [] }],
+    document
+  ).map((node) => node.value);
+}
@@ -0,0 +1,626 @@
+/**
+ * JSONPath (RFC 9535) parser
+ * Builds a query tree and enforces the well-typedness rules for function
+ * extensions, reporting the character position of the first error
+ */
+
+import { FUNCTIONS, type FunctionType } from './functions';
+import {
+  type Comparable,
+  type ComparisonOperator,
+  type FunctionArgument,
+  type FunctionExpression,
+  type JSONPathQuery,
+  JSONPathSyntaxError,
+  type JsonValue,
+  type LogicalExpression,
+  type Segment,
+  type Selector,
+} from './types';
+
+const BLANK_CHARS = new Set([' ', '\t', '\n', '\r']);
+
+// Longest operators first so "<=" is not read as "<"
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<',
+  '>',
+];
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '/': '/',
+  '\\': '\\',
+};
+
+const isDigit = (char: string) => char >= '0' && char <= '9';
+const isLowerAlpha = (char: string) => char >= 'a' && char <= 'z';
+
+function isNameFirst(char: string): boolean {
+  return (
+    (char >= 'a' && char <= 'z') ||
+    (char >= 'A' && char <= 'Z') ||
+    char === '_' ||
+    (char !== '' && char.charCodeAt(0) >= 0x80)
+  );
+}
+
+/**
+ * A singular query has only child segments with one name or index selector
+ */
+export function isSingular(segments: Segment[]): boolean {
+  return segments.every((segment) => {
+    const [selector] = segment.selectors;
+    return (
+      segment.type === 'child' &&
+      segment.selectors.length === 1 &&
+      (selector?.type === 'name' || selector?.type === 'index')
+    );
+  });
+}
+
+/**
+ * Declared result type of a filter expression used as a function argument
+ */
+function typeOf(expression: FunctionArgument): FunctionType {
+  switch (expression.type) {
+    case 'literal':
+      return 'ValueType';
+    case 'query':
+      return 'NodesType';
+    case 'function':
+      return FUNCTIONS[expression.name]?.result ?? 'ValueType';
+    default:
+      return 'LogicalType';
+  }
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): JSONPathQuery {
+    if (this.peek() !== '$') {
+      this.fail("A query must start with '$'");
+    }
+    this.position++;
+
+    const segments = this.parseSegments();
+
+    if (this.position < this.source.length) {
+      this.fail(
+        BLANK_CHARS.has(this.peek())
+          ? 'Unexpected whitespace'
+          : `Unexpected character '${this.peek()}'`
+      );
+    }
+
+    return { source: this.source, segments };
+  }
+
+  // ======================================================================================
+  // Segments and Selectors
+  // ======================================================================================
+
+  private parseSegments(): Segment[] {
+    const segments: Segment[] = [];
+
+    for (;;) {
+      // Blank space may precede a segment; leave it for the caller otherwise
+      const start = this.position;
+      this.skipBlank();
+      const char = this.peek();
+      if (char !== '.' && char !== '[') {
+        this.position = start;
+        return segments;
+      }
+      segments.push(this.parseSegment());
+    }
+  }
+
+  private parseSegment(): Segment {
+    if (this.consume('..')) {
+      if (this.peek() === '[') {
+        return { type: 'descendant', selectors: this.parseBracketed() };
+      }
+      const selector = this.parseShorthand(
+        "Expected a member name, '*' or '[' after '..'"
+      );
+      return { type: 'descendant', selectors: [selector] };
+    }
+
+    if (this.consume('.')) {
+      const selector = this.parseShorthand(
+        "Expected a member name or '*' after '.'"
+      );
+      return { type: 'child', selectors: [selector] };
+    }
+
+    return { type: 'child', selectors: this.parseBracketed() };
+  }
+
+  private parseShorthand(message: string): Selector {
+    if (this.consume('*')) return { type: 'wildcard' };
+    if (!isNameFirst(this.peek())) this.fail(message);
+
+    const start = this.position;
+    while (isNameFirst(this.peek()) || isDigit(this.peek())) {
+      this.position++;
+    }
+    return { type: 'name', name: this.source.slice(start, this.position) };
+  }
+
+  private parseBracketed(): Selector[] {
+    this.expect('[');
+    const selectors: Selector[] = [];
+
+    for (;;) {
+      this.skipBlank();
+      selectors.push(this.parseSelector());
+      this.skipBlank();
+      if (this.consume(']')) return selectors;
+      this.expect(',', "Expected ',' or ']'");
+    }
+  }
+
+  private parseSelector(): Selector {
+    const char = this.peek();
+
+    if (char === "'" || char === '"') {
+      return { type: 'name', name: this.parseString() };
+    }
+
+    if (this.consume('*')) return { type: 'wildcard' };
+
+    if (this.consume('?')) {
+      this.skipBlank();
+      const start = this.position;
+      return {
+        type: 'filter',
+        expression: this.toLogical(this.parseLogicalOr(), start),
+      };
+    }
+
+    if (char === '-' || char === ':' || isDigit(char)) {
+      return this.parseIndexOrSlice();
+    }
+
+    return this.fail('Expected a selector');
+  }
+
+  private parseIndexOrSlice(): Selector {
+    const start = this.parseOptionalInteger();
+    this.skipBlank();
+
+    if (!this.consume(':')) {
+      if (start === undefined) this.fail('Expected an index');
+      return { type: 'index', index: start };
+    }
+
+    this.skipBlank();
+    const end = this.parseOptionalInteger();
+    this.skipBlank();
+
+    let step: number | undefined;
+    if (this.consume(':')) {
+      this.skipBlank();
+      step = this.parseOptionalInteger();
+    }
+
+    return {
+      type: 'slice',
+      ...(start !== undefined && { start }),
+      ...(end !== undefined && { end }),
+      ...(step !== undefined && { step }),
+    };
+  }
+
+  private parseOptionalInteger(): number | undefined {
+    const char = this.peek();
+    return char === '-' || isDigit(char) ? this.parseInteger() : undefined;
+  }
+
+  private parseInteger(): number {
+    const start = this.position;
+    const negative = this.consume('-');
+
+    if (this.consume('0')) {
+      if (negative) this.fail('Negative zero is not a valid index', start);
+      if (isDigit(this.peek()))
+        this.fail('Leading zeros are not allowed', start);
+      return 0;
+    }
+
+    if (!isDigit(this.peek())) this.fail('Expected an integer');
+    while (isDigit(this.peek())) this.position++;
+
+    const value = Number(this.source.slice(start, this.position));
+    if (!Number.isSafeInteger(value)) {
+      this.fail('Integer is out of range', start);
+    }
+    return value;
+  }
+
+  // ======================================================================================
+  // Filter Expressions
+  // ======================================================================================
+
+  private parseLogicalOr(): FunctionArgument {
+    const start = this.position;
+    const first = this.parseLogicalAnd();
+    if (!this.lookahead('||')) return first;
+
+    const operands = [this.toLogical(first, start)];
+    do {
+      this.skipBlank();
+      const operandStart = this.position;
+      operands.push(this.toLogical(this.parseLogicalAnd(), operandStart));
+    } while (this.lookahead('||'));
+
+    return { type: 'or', operands };
+  }
+
+  private parseLogicalAnd(): FunctionArgument {
+    const start = this.position;
+    const first = this.parseBasic();
+    if (!this.lookahead('&&')) return first;
+
+    const operands = [this.toLogical(first, start)];
+    do {
+      this.skipBlank();
+      const operandStart = this.position;
+      operands.push(this.toLogical(this.parseBasic(), operandStart));
+    } while (this.lookahead('&&'));
+
+    return { type: 'and', operands };
+  }
+
+  /**
+   * Parse a paren-expr, comparison-expr or test-expr. Bare literals, queries
+   * and function calls are returned as-is so function arguments keep their
+   * declared type; callers convert them with toLogical where needed.
+   */
+  private parseBasic(): FunctionArgument {
+    if (this.consume('!')) {
+      this.skipBlank();
+      if (this.peek() === '(') {
+        return { type: 'not', operand: this.parseParenthesized() };
+      }
+      const start = this.position;
+      return {
+        type: 'not',
+        operand: this.toLogical(this.parsePrimary(), start),
+      };
+    }
+
+    if (this.peek() === '(') return this.parseParenthesized();
+
+    const leftStart = this.position;
+    const left = this.parsePrimary();
+    const operator = this.parseComparisonOperator();
+    if (!operator) return left;
+
+    this.assertComparable(left, leftStart);
+    this.skipBlank();
+    const rightStart = this.position;
+    const right = this.parsePrimary();
+    this.assertComparable(right, rightStart);
+
+    return { type: 'comparison', operator, left, right };
+  }
+
+  private parseParenthesized(): LogicalExpression {
+    this.expect('(');
+    this.skipBlank();
+    const start = this.position;
+    const expression = this.toLogical(this.parseLogicalOr(), start);
+    this.skipBlank();
+    this.expect(')', "Expected ')'");
+    return expression;
+  }
+
+  private parseComparisonOperator(): ComparisonOperator | undefined {
+    return COMPARISON_OPERATORS.find((operator) => this.lookahead(operator));
+  }
+
+  private parsePrimary(): Comparable {
+    const char = this.peek();
+    const start = this.position;
+
+    if (char === '$' || char === '@') {
+      this.position++;
+      const segments = this.parseSegments();
+      return {
+        type: 'query',
+        root: char,
+        segments,
+        singular: isSingular(segments),
+      };
+    }
+
+    if (char === "'" || char === '"') {
+      return { type: 'literal', value: this.parseString() };
+    }
+
+    if (char === '-' || isDigit(char)) {
+      return { type: 'literal', value: this.parseNumber() };
+    }
+
+    if (isLowerAlpha(char)) {
+      while (
+        isLowerAlpha(this.peek()) ||
+        isDigit(this.peek()) ||
+        this.peek() === '_'
+      ) {
+        this.position++;
+      }
+      const name = this.source.slice(start, this.position);
+
+      if (this.peek() === '(') return this.parseFunction(name, start);
+
+      const literals: Record<string, JsonValue | undefined> = {
+        true: true,
+        false: false,
+        null: null,
+      };
+      if (name in literals) {
+        return { type: 'literal', value: literals[name] ?? null };
+      }
+
+      this.fail(`Unexpected identifier '${name}'`, start);
+    }
+
+    return this.fail('Expected a query, literal or function call');
+  }
+
+  private parseFunction(name: string, start: number): FunctionExpression {
+    const definition = FUNCTIONS[name];
+    if (!definition) this.fail(`Unknown function '${name}()'`, start);
+
+    this.expect('(');
+    this.skipBlank();
+
+    const args: FunctionArgument[] = [];
+    const argStarts: number[] = [];
+    if (!this.consume(')')) {
+      for (;;) {
+        argStarts.push(this.position);
+        args.push(this.parseLogicalOr());
+        this.skipBlank();
+        if (this.consume(')')) break;
+        this.expect(',', "Expected ',' or ')'");
+        this.skipBlank();
+      }
+    }
+
+    const { parameters } = definition;
+    if (args.length !== parameters.length) {
+      this.fail(
+        `${name}() expects ${String(parameters.length)} argument${parameters.length !== 1 ? 's' : ''}`,
+        start
+      );
+    }
+
+    args.forEach((arg, index) => {
+      const parameter = parameters[index] ?? 'ValueType';
+      this.assertArgument(arg, parameter, argStarts[index] ?? start, name);
+    });
+
+    return { type: 'function', name, args };
+  }
+
+  private parseNumber(): number {
+    const start = this.position;
+    this.consume('-');
+
+    if (this.consume('0')) {
+      if (isDigit(this.peek()))
+        this.fail('Leading zeros are not allowed', start);
+    } else {
+      if (!isDigit(this.peek())) this.fail('Expected a number', start);
+      while (isDigit(this.peek())) this.position++;
+    }
+
+    if (this.consume('.')) {
+      if (!isDigit(this.peek()))
+        this.fail('Expected digits after the decimal point');
+      while (isDigit(this.peek())) this.position++;
+    }
+
+    const exponent = this.peek();
+    if (exponent === 'e' || exponent === 'E') {
+      this.position++;
+      if (this.peek() === '+' || this.peek() === '-') this.position++;
+      if (!isDigit(this.peek())) this.fail('Expected digits in the exponent');
+      while (isDigit(this.peek())) this.position++;
+    }
+
+    return Number(this.source.slice(start, this.position));
+  }
+
+  // ======================================================================================
+  // String Literals
+  // ======================================================================================
+
+  private parseString(): string {
+    const start = this.position;
+    const quote = this.peek();
+    this.position++;
+    let result = '';
+
+    for (;;) {
+      if (this.position >= this.source.length) {
+        this.fail('Unterminated string literal', start);
+      }
+
+      const char = this.peek();
+      if (char === quote) {
+        this.position++;
+        return result;
+      }
+
+      if (char === '\\') {
+        result += this.parseEscape(quote);
+      } else if (char.charCodeAt(0) <= 0x1f) {
+        this.fail('Control characters must be escaped');
+      } else {
+        result += char;
+        this.position++;
+      }
+    }
+  }
+
+  private parseEscape(quote: string): string {
+    const start = this.position;
+    this.position++;
+    const char = this.peek();
+    this.position++;
+
+    if (char === quote) return quote;
+
+    const simple = SIMPLE_ESCAPES[char];
+    if (simple !== undefined) return simple;
+
+    if (char !== 'u') return this.fail('Invalid escape sequence', start);
+
+    const high = this.parseHexCode(start);
+    if (high >= 0xdc00 && high <= 0xdfff) {
+      this.fail('Unpaired low surrogate', start);
+    }
+    if (high < 0xd800 || high > 0xdbff) return String.fromCharCode(high);
+
+    // A high surrogate must be followed by an escaped low surrogate
+    if (!this.consume('\\u')) this.fail('Unpaired high surrogate', start);
+    const low = this.parseHexCode(start);
+    if (low < 0xdc00 || low > 0xdfff) {
+      this.fail('Unpaired high surrogate', start);
+    }
+    return String.fromCharCode(high, low);
+  }
+
+  private parseHexCode(escapeStart: number): number {
+    const hex = this.source.slice(this.position, this.position + 4);
+    if (!/^[0-9A-Fa-f]{4}$/.test(hex)) {
+      this.fail('Invalid unicode escape', escapeStart);
+    }
+    this.position += 4;
+    return parseInt(hex, 16);
+  }
+
+  // ======================================================================================
+  // Well-Typedness
+  // ======================================================================================
+
+  private toLogical(
+    expression: FunctionArgument,
+    position: number
+  ): LogicalExpression {
+    switch (expression.type) {
+      case 'literal':
+        return this.fail(
+          'A literal must be part of a comparison to be used as a filter',
+          position
+        );
+      case 'query':
+        return { type: 'test', expression };
+      case 'function':
+        if (typeOf(expression) === 'ValueType') {
+          this.fail(
+            `${expression.name}() returns a value that must be compared`,
+            position
+          );
+        }
+        return { type: 'test', expression };
+      default:
+        return expression;
+    }
+  }
+
+  private assertComparable(expression: Comparable, position: number): void {
+    if (expression.type === 'query' && !expression.singular) {
+      this.fail('Only singular queries can be compared', position);
+    }
+    if (expression.type === 'function' && typeOf(expression) !== 'ValueType') {
+      this.fail(`${expression.name}() result cannot be compared`, position);
+    }
+  }
+
+  private assertArgument(
+    argument: FunctionArgument,
+    parameter: FunctionType,
+    position: number,
+    name: string
+  ): void {
+    const type = typeOf(argument);
+
+    const accepted: Record<FunctionType, boolean> = {
+      // Singular queries yield the value of their one node (or Nothing)
+      ValueType:
+        type === 'ValueType' ||
+        (argument.type === 'query' && argument.singular),
+      // Node lists convert to true when non-empty
+      LogicalType: type !== 'ValueType',
+      NodesType: type === 'NodesType',
+    };
+    const expected: Record<FunctionType, string> = {
+      ValueType: 'a single value',
+      LogicalType: 'a logical expression',
+      NodesType: 'a query',
+    };
+
+    if (!accepted[parameter]) {
+      this.fail(`${name}() expects ${expected[parameter]} here`, position);
+    }
+  }
+
+  // ======================================================================================
+  // Scanning Helpers
+  // ======================================================================================
+
+  private peek(): string {
+    return this.source.charAt(this.position);
+  }
+
+  private consume(text: string): boolean {
+    if (!this.source.startsWith(text, this.position)) return false;
+    this.position += text.length;
+    return true;
+  }
+
+  /** Consume `text` after optional blank space, or leave the position as-is */
+  private lookahead(text: string): boolean {
+    const start = this.position;
+    this.skipBlank();
+    if (this.consume(text)) return true;
+    this.position = start;
+    return false;
+  }
+
+  private expect(text: string, message = `Expected '${text}'`): void {
+    if (!this.consume(text)) this.fail(message);
+  }
+
+  private skipBlank(): void {
+    while (BLANK_CHARS.has(this.peek())) this.position++;
+  }
+
+  private fail(message: string, position = this.position): never {
+    throw new JSONPathSyntaxError(message, position);
+  }
+}
+
+/**
+ * Parse a JSONPath query string.
+ * Throws a JSONPathSyntaxError with the failing position for invalid queries.
+ */
+export function parseJSONPath(source: string): JSONPathQuery {
+  return new Parser(source).parse();
+}
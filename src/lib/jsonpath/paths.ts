@@ -0,0 +1,54 @@
+/**
+ * JSONPath path formatting
+ * Turns node locations into normalized paths and readable queries
+ */
+
+import type { NodeLocation } from './types';
+
+const NAME_ESCAPES: Record<string, string> = {
+  '\b': '\\b',
+  '\f': '\\f',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  "'": "\\'",
+  '\\': '\\\\',
+};
+
+// Names that can be written with dot shorthand (ASCII subset of the grammar)
+const SHORTHAND_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function escapeName(name: string): string {
+  let escaped = '';
+  for (const char of name) {
+    const code = char.charCodeAt(0);
+    escaped +=
+      NAME_ESCAPES[char] ??
+      (code <= 0x1f ? `\\u${code.toString(16).padStart(4, '0')}` : char);
+  }
+  return escaped;
+}
+
+/**
+ * Format a node location as an RFC 9535 normalized path, e.g. $['a'][0]
+ */
+export function formatNormalizedPath(location: NodeLocation): string {
+  return `$${location
+    .map((part) =>
+      typeof part === 'number' ? `[${String(part)}]` : `['${escapeName(part)}']`
+    )
+    .join('')}`;
+}
+
+/**
+ * Format a node location as a query that selects exactly that node, using
+ * dot shorthand where possible, e.g. $.items[0]['x-id']
+ */
+export function formatJSONPath(location: NodeLocation): string {
+  return `$${location
+    .map((part) => {
+      if (typeof part === 'number') return `[${String(part)}]`;
+      return SHORTHAND_NAME.test(part) ? `.${part}` : `['${escapeName(part)}']`;
+    })
+    .join('')}`;
+}
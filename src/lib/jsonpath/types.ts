@@ -0,0 +1,114 @@
+/**
+ * JSONPath (RFC 9535) syntax tree and result types
+ */
+
+// ========================================================================================
+// Query Structure
+// ========================================================================================
+
+export type Selector =
+  | { type: 'name'; name: string }
+  | { type: 'wildcard' }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number; step?: number }
+  | { type: 'filter'; expression: LogicalExpression };
+
+export interface Segment {
+  /** `child` for `.name` / `[...]`, `descendant` for `..name` / `..[...]` */
+  type: 'child' | 'descendant';
+  selectors: Selector[];
+}
+
+export interface JSONPathQuery {
+  /** The original query text */
+  source: string;
+  segments: Segment[];
+}
+
+// ========================================================================================
+// Filter Expressions
+// ========================================================================================
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface LiteralExpression {
+  type: 'literal';
+  value: JsonValue;
+}
+
+export interface QueryExpression {
+  type: 'query';
+  /** `$` queries the document root, `@` the current filter node */
+  root: '$' | '@';
+  segments: Segment[];
+  /** A singular query selects at most one node */
+  singular: boolean;
+}
+
+export interface FunctionExpression {
+  type: 'function';
+  name: string;
+  args: FunctionArgument[];
+}
+
+export type FunctionArgument =
+  | LiteralExpression
+  | QueryExpression
+  | FunctionExpression
+  | LogicalExpression;
+
+export type Comparable =
+  | LiteralExpression
+  | QueryExpression
+  | FunctionExpression;
+
+export type LogicalExpression =
+  | { type: 'or'; operands: LogicalExpression[] }
+  | { type: 'and'; operands: LogicalExpression[] }
+  | { type: 'not'; operand: LogicalExpression }
+  | {
+      type: 'comparison';
+      operator: ComparisonOperator;
+      left: Comparable;
+      right: Comparable;
+    }
+  | { type: 'test'; expression: QueryExpression | FunctionExpression };
+
+// ========================================================================================
+// Values and Results
+// ========================================================================================
+
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/** Location of a node as member names and array indices from the root */
+export type NodeLocation = (string | number)[];
+
+export interface JSONPathNode {
+  value: unknown;
+  location: NodeLocation;
+  /** RFC 9535 normalized path, e.g. $['store']['book'][0] */
+  path: string;
+}
+
+/**
+ * Thrown when a query is not well-formed or not well-typed.
+ * `position` is the zero-based offset into the query where parsing failed.
+ */
+export class JSONPathSyntaxError extends Error {
+  public readonly position: number;
+  /** The message without the position suffix */
+  public readonly reason: string;
+
+  constructor(reason: string, position: number) {
+    super(`${reason} at position ${String(position)}`);
+    this.name = 'JSONPathSyntaxError';
+    this.position = position;
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Role-based permissions
+ * Each organization role maps to the capabilities it grants. Every member can
+ * read; permissions only gate changes.
+ */
+
+import type { OrganizationRole, Permission } from '@/types/auth';
+
+const DEVELOPER_PERMISSIONS: readonly Permission[] = [
+  'webhooks:write',
+  'endpoints:write',
+  'transformations:write',
+  'events:redeliver',
+];
+
+const ADMIN_PERMISSIONS: readonly Permission[] = [
+  ...DEVELOPER_PERMISSIONS,
+  'webhooks:delete',
+  'transformations:delete',
+  'members:manage',
+  'settings:manage',
+];
+
+export const ROLE_PERMISSIONS: Record<OrganizationRole, readonly Permission[]> =
+  {
+    owner: [
+      ...ADMIN_PERMISSIONS,
+      'organization:transfer',
+      'organization:delete',
+    ],
+    admin: ADMIN_PERMISSIONS,
+    developer: DEVELOPER_PERMISSIONS,
+    viewer: [],
+  };
+
+/**
+ * Whether the role grants the permission; an unknown role grants nothing
+ */
+export function hasPermission(
+  role: OrganizationRole | null | undefined,
+  permission: Permission
+): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
@@ -0,0 +1,155 @@
+/**
+ * Webhook signing secrets and HMAC-SHA256 signature verification
+ * Each delivery is signed over `${timestamp}.${payload}`. While a rotated
+ * secret is in its grace period the signature header carries one `v1=`
+ * entry per valid secret, so receivers holding either secret can verify.
+ * Receivers reject timestamps outside a short window so a captured delivery
+ * cannot be replayed later.
+ */
+
+export const SIGNATURE_HEADER = 'X-RocketHooks-Signature';
+export const TIMESTAMP_HEADER = 'X-RocketHooks-Timestamp';
+
+const SECRET_PREFIX = 'whsec_';
+const SECRET_BYTES = 32;
+const SIGNATURE_VERSION = 'v1';
+
+/** Largest accepted gap between a delivery's timestamp and now */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export type SignatureVerificationResult =
+  | { valid: true }
+  | {
+      valid: false;
+      reason:
+        | 'malformed-header'
+        | 'invalid-timestamp'
+        | 'stale-timestamp'
+        | 'mismatch';
+    };
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+    ''
+  );
+}
+
+/**
+ * Random signing secret, e.g. `whsec_3f9a…`
+ */
+export function generateSigningSecret(): string {
+  const bytes = new Uint8Array(SECRET_BYTES);
+  crypto.getRandomValues(bytes);
+  return `${SECRET_PREFIX}${toHex(bytes)}`;
+}
+
+/**
+ * Hide all but the prefix and last four characters of a secret
+ */
+export function maskSecret(secret: string): string {
+  const visiblePrefix = secret.startsWith(SECRET_PREFIX) ? SECRET_PREFIX : '';
+  if (secret.length <= visiblePrefix.length + 8) {
+    return `${visiblePrefix}${'•'.repeat(8)}`;
+  }
+  return `${visiblePrefix}${'•'.repeat(8)}${secret.slice(-4)}`;
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${payload}` under `secret`
+ */
+export async function computeSignature(
+  secret: string,
+  timestamp: string,
+  payload: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(`${timestamp}.${payload}`)
+  );
+  return toHex(new Uint8Array(signature));
+}
+
+/**
+ * Signatures from a header value such as `v1=abc,v1=def`; a bare hex digest
+ * is accepted too. Returns null when nothing usable is found.
+ */
+export function parseSignatureHeader(header: string): string[] | null {
+  const signatures: string[] = [];
+
+  for (const part of header.split(/[\s,]+/)) {
+    if (!part) continue;
+
+    const separator = part.indexOf('=');
+    const [version, value] =
+      separator === -1
+        ? [SIGNATURE_VERSION, part]
+        : [part.slice(0, separator), part.slice(separator + 1)];
+
+    if (version !== SIGNATURE_VERSION) continue;
+    if (!/^[0-9a-f]{64}$/i.test(value)) return null;
+    signatures.push(value.toLowerCase());
+  }
+
+  return signatures.length > 0 ? signatures : null;
+}
+
+/**
+ * Compare without short-circuiting so timing doesn't reveal the match length
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Check a signature header against the payload and timestamp it was sent with.
+ * `timestamp` is in Unix seconds and must be within `toleranceSeconds` of
+ * `now` (milliseconds).
+ */
+export async function verifySignature({
+  secret,
+  timestamp,
+  payload,
+  header,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+  now = Date.now(),
+}: {
+  secret: string;
+  timestamp: string;
+  payload: string;
+  header: string;
+  toleranceSeconds?: number;
+  now?: number;
+}): Promise<SignatureVerificationResult> {
+  const signatures = parseSignatureHeader(header);
+  if (!signatures) return { valid: false, reason: 'malformed-header' };
+
+  const signedAt = timestamp.trim();
+  if (!/^\d+$/.test(signedAt)) {
+    return { valid: false, reason: 'invalid-timestamp' };
+  }
+  if (Math.abs(now / 1000 - Number(signedAt)) > toleranceSeconds) {
+    return { valid: false, reason: 'stale-timestamp' };
+  }
+
+  const expected = await computeSignature(secret, signedAt, payload);
+  const matched = signatures.some((signature) =>
+    timingSafeEqual(signature, expected)
+  );
+
+  return matched ? { valid: true } : { valid: false, reason: 'mismatch' };
+}
@@ -0,0 +1,89 @@
+/**
+ * Line-based text diff
+ * Aligns two texts on their longest common subsequence of lines and reports
+ * each line as kept, added or removed, in reading order
+ */
+
+export type TextDiffKind = 'unchanged' | 'added' | 'removed';
+
+export interface TextDiffLine {
+  kind: TextDiffKind;
+  text: string;
+  /** 1-based line number in the old text; absent for added lines */
+  beforeLine?: number;
+  /** 1-based line number in the new text; absent for removed lines */
+  afterLine?: number;
+}
+
+export interface TextDiffStats {
+  added: number;
+  removed: number;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Diff two texts line by line. Removed lines come before the lines that
+ * replace them.
+ */
+export function diffLines(before: string, after: string): TextDiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lcs[i][j] is the common subsequence length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lcs[i] as number[];
+    const next = lcs[i + 1] as number[];
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] =
+        a[i] === b[j]
+          ? (next[j + 1] as number) + 1
+          : Math.max(next[j] as number, row[j + 1] as number);
+    }
+  }
+
+  const lines: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({
+        kind: 'unchanged',
+        text: a[i] as string,
+        beforeLine: i + 1,
+        afterLine: j + 1,
+      });
+      i++;
+      j++;
+    } else if (
+      j >= b.length ||
+      (i < a.length &&
+        (lcs[i + 1]?.[j] as number) >= (lcs[i]?.[j + 1] as number))
+    ) {
+      lines.push({ kind: 'removed', text: a[i] as string, beforeLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ kind: 'added', text: b[j] as string, afterLine: j + 1 });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Count added and removed lines in a diff
+ */
+export function countDiffLines(lines: TextDiffLine[]): TextDiffStats {
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.kind === 'added') added++;
+    if (line.kind === 'removed') removed++;
+  }
+  return { added, removed };
+}
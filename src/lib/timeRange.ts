@@ -0,0 +1,69 @@
+/**
+ * Time ranges for analytics queries
+ * Presets are relative to now; custom ranges carry explicit bounds.
+ */
+
+import { format } from 'date-fns';
+
+export const TIME_RANGE_PRESETS = ['1h', '24h', '7d', '30d'] as const;
+
+export type TimeRangePreset = (typeof TIME_RANGE_PRESETS)[number];
+
+export type TimeRange =
+  | { preset: TimeRangePreset }
+  | { preset: 'custom'; from: Date; to: Date };
+
+export const TIME_RANGE_LABELS: Record<TimeRange['preset'], string> = {
+  '1h': 'Last hour',
+  '24h': 'Last 24 hours',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  custom: 'Custom',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const PRESET_DURATIONS: Record<TimeRangePreset, number> = {
+  '1h': HOUR_MS,
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+
+export function isTimeRangePreset(value: string): value is TimeRangePreset {
+  return (TIME_RANGE_PRESETS as readonly string[]).includes(value);
+}
+
+/**
+ * Start and end of a range, resolving presets against `now`
+ */
+export function getTimeRangeBounds(
+  range: TimeRange,
+  now: Date = new Date()
+): { from: Date; to: Date } {
+  if (range.preset === 'custom') return { from: range.from, to: range.to };
+  return {
+    from: new Date(now.getTime() - PRESET_DURATIONS[range.preset]),
+    to: now,
+  };
+}
+
+/**
+ * date-fns pattern for chart axis labels: times within a day, dates beyond
+ */
+export function getAxisDateFormat(range: TimeRange): string {
+  const { from, to } = getTimeRangeBounds(range);
+  const span = to.getTime() - from.getTime();
+  if (span <= DAY_MS) return 'HH:mm';
+  if (span <= 2 * DAY_MS) return 'MMM d HH:mm';
+  return 'MMM d';
+}
+
+/**
+ * Short label for the selected range, e.g. "Last 7 days" or "Mar 1 – Mar 8"
+ */
+export function formatTimeRange(range: TimeRange): string {
+  if (range.preset !== 'custom') return TIME_RANGE_LABELS[range.preset];
+  return `${format(range.from, 'MMM d HH:mm')} – ${format(range.to, 'MMM d HH:mm')}`;
+}
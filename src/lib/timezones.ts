@@ -0,0 +1,18 @@
+/**
+ * Common timezones organized by region, for timezone pickers
+ */
+export const COMMON_TIMEZONES = [
+  { value: 'UTC', label: 'UTC (Coordinated Universal Time)' },
+  { value: 'America/New_York', label: 'Eastern Time (US & Canada)' },
+  { value: 'America/Chicago', label: 'Central Time (US & Canada)' },
+  { value: 'America/Denver', label: 'Mountain Time (US & Canada)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time (US & Canada)' },
+  { value: 'Europe/London', label: 'London (GMT)' },
+  { value: 'Europe/Paris', label: 'Central European Time' },
+  { value: 'Europe/Berlin', label: 'Central European Time (Berlin)' },
+  { value: 'Asia/Tokyo', label: 'Japan Standard Time' },
+  { value: 'Asia/Shanghai', label: 'China Standard Time' },
+  { value: 'Asia/Kolkata', label: 'India Standard Time' },
+  { value: 'Australia/Sydney', label: 'Australian Eastern Time' },
+  { value: 'Pacific/Auckland', label: 'New Zealand Standard Time' },
+] as const;
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFieldMapping,
+  type FieldMapping,
+  mappingsToTemplate,
+  runTransformation,
+  templateToMappings,
+} from '..';
+
+// Compare without the generated ids
+function strip(mappings: FieldMapping[]) {
+  return mappings.map(({ id: _id, ...rest }) => rest);
+}
+
+describe('mappingsToTemplate', () => {
+  it('serializes paths, transforms, defaults and static values', () => {
+    const template = mappingsToTemplate([
+      createFieldMapping({ target: 'name', source: '$.user.name' }),
+      createFieldMapping({
+        target: 'email',
+        source: '$.user.email',
+        transform: 'lower',
+      }),
+      createFieldMapping({
+        target: 'plan',
+        source: '$.plan',
+        defaultValue: "free 'tier'",
+      }),
+      createFieldMapping({ target: 'version', defaultValue: 2 }),
+      createFieldMapping({ target: 'currency', defaultValue: '$USD' }),
+      createFieldMapping({ source: '$.ignored' }),
+    ]);
+
+    expect(JSON.parse(template)).toEqual({
+      name: '$.user.name',
+      email: '=lower($.user.email)',
+      plan: "=coalesce($.plan, 'free \\'tier\\'')",
+      version: 2,
+      currency: "='$USD'",
+    });
+
+    expect(
+      runTransformation(template, {
+        user: { name: 'Ada', email: 'ADA@EXAMPLE.COM' },
+      }).output
+    ).toEqual({
+      name: 'Ada',
+      email: 'ada@example.com',
+      plan: "free 'tier'",
+      version: 2,
+      currency: '$USD',
+    });
+  });
+
+  it('serializes no mappings as an empty object', () => {
+    expect(mappingsToTemplate([])).toBe('{}');
+  });
+});
+
+describe('templateToMappings', () => {
+  it('round-trips mappings through code', () => {
+    const mappings = [
+      createFieldMapping({ target: 'a', source: "$.items[?@.kind == 'x']" }),
+      createFieldMapping({ target: 'b', source: '$.n', transform: 'round' }),
+      createFieldMapping({
+        target: 'c',
+        source: '$.when',
+        transform: 'date',
+        defaultValue: null,
+      }),
+      createFieldMapping({ target: 'd', defaultValue: '=not an expression' }),
+      createFieldMapping({ target: 'e', defaultValue: true }),
+    ];
+
+    const parsed = templateToMappings(mappingsToTemplate(mappings));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(strip(parsed.mappings)).toEqual(strip(mappings));
+  });
+
+  it('reads hand-written templates of the supported shape', () => {
+    const parsed = templateToMappings(
+      '{\n  // comment\n  "user_name": "$.data.user.name",\n  "status": "active"\n}'
+    );
+    expect(parsed.ok && strip(parsed.mappings)).toEqual([
+      { target: 'user_name', source: '$.data.user.name' },
+      { target: 'status', source: '', defaultValue: 'active' },
+    ]);
+  });
+
+  it('treats a blank template as no mappings', () => {
+    expect(templateToMappings('  ')).toEqual({ ok: true, mappings: [] });
+  });
+
+  it('explains templates the visual editor cannot show', () => {
+    expect(templateToMappings('{"total": "$.a * 2"}')).toEqual({
+      ok: false,
+      reason: '"total" uses an expression the visual editor cannot show',
+    });
+    expect(templateToMappings('{"user": {"name": "$.name"}}')).toEqual({
+      ok: false,
+      reason: '"user" holds a nested object, which can only be edited as code',
+    });
+    expect(templateToMappings('["$.a"]')).toEqual({
+      ok: false,
+      reason: 'The template must be an object',
+    });
+
+    const invalid = templateToMappings('{"a": }');
+    expect(invalid.ok).toBe(false);
+  });
+});
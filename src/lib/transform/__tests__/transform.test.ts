@@ -0,0 +1,317 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTemplate,
+  parseExpression,
+  runTransformation,
+  TransformationError,
+  validateTransformation,
+} from '..';
+
+const input = {
+  timestamp: 1634567890,
+  data: {
+    value: 21,
+    user: {
+      name: 'Ada Lovelace',
+      role: 'admin',
+      permissions: ['read', 'write'],
+    },
+    items: [
+      { id: 1, name: 'Widget', price: 2.5, tags: ['a'] },
+      { id: 2, name: 'Gadget', price: 10, tags: [] },
+    ],
+  },
+};
+
+const now = new Date('2024-06-15T12:00:00.000Z');
+
+function run(template: string) {
+  return runTransformation(template, input, { now });
+}
+
+function evaluate(expression: string) {
+  const result = run(JSON.stringify({ value: `=${expression}` }));
+  expect(result.errors).toEqual([]);
+  return (result.output as { value: unknown }).value;
+}
+
+describe('runTransformation', () => {
+  it('maps fields and keeps static values', () => {
+    const result = run(
+      '{\n  "user_name": "$.data.user.name",\n  "created_at": "$.timestamp",\n  "status": "active"\n}'
+    );
+    expect(result).toEqual({
+      output: {
+        user_name: 'Ada Lovelace',
+        created_at: 1634567890,
+        status: 'active',
+      },
+      errors: [],
+    });
+  });
+
+  it('runs the editor sample templates', () => {
+    expect(
+      run(
+        '{\n  "items": "$.data.items[*].{id: id, name: name}",\n  "total": "$.data.items.length"\n}'
+      ).output
+    ).toEqual({
+      items: [
+        { id: 1, name: 'Widget' },
+        { id: 2, name: 'Gadget' },
+      ],
+      total: 2,
+    });
+
+    expect(
+      run(
+        '{\n  "user_type": "$.data.user.role == \'admin\' ? \'administrator\' : \'user\'",\n  "permissions": "$.data.user.permissions[*]"\n}'
+      ).output
+    ).toEqual({ user_type: 'administrator', permissions: ['read', 'write'] });
+
+    expect(
+      run(
+        '{\n  // Define your transformation rules here\n  "output_field": "$.input.field",\n  "computed_field": "$.data.value * 2"\n}'
+      ).output
+    ).toEqual({ output_field: null, computed_field: 42 });
+  });
+
+  it('renders nested objects and arrays', () => {
+    expect(run('{"a": {"b": ["$.data.value", 1, true, null]}}').output).toEqual(
+      { a: { b: [21, 1, true, null] } }
+    );
+  });
+
+  it('escapes a leading dollar with $$', () => {
+    expect(run('{"price": "$$5"}').output).toEqual({ price: '$5' });
+  });
+
+  it('keeps __proto__ keys as plain data', () => {
+    const { output } = run('{"__proto__": "$.data.value"}');
+    expect(Object.getPrototypeOf(output)).toBe(Object.prototype);
+    expect(Object.hasOwn(output as object, '__proto__')).toBe(true);
+  });
+});
+
+describe('expressions', () => {
+  it('evaluates arithmetic with precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('-$.data.value % 4')).toBe(-1);
+    expect(evaluate('$.data.value / 2')).toBe(10.5);
+  });
+
+  it('concatenates when either operand is a string', () => {
+    expect(evaluate("'#' + $.data.items[0].id")).toBe('#1');
+    expect(evaluate("$.missing + '!'")).toBe('!');
+  });
+
+  it('compares and combines conditions', () => {
+    expect(evaluate('$.data.value > 20 && $.data.value <= 21')).toBe(true);
+    expect(evaluate("$.data.user.permissions == ['read', 'write']")).toBe(true);
+    expect(evaluate("'a' < 'b'")).toBe(true);
+    expect(evaluate("1 < 'b'")).toBe(false);
+    expect(evaluate('!$.missing')).toBe(true);
+  });
+
+  it('returns operands from || and && for fallbacks', () => {
+    expect(evaluate('$.data.user.nickname || $.data.user.name')).toBe(
+      'Ada Lovelace'
+    );
+    expect(evaluate('$.missing && 1')).toBe(null);
+  });
+
+  it('nests conditionals', () => {
+    expect(
+      evaluate(
+        "$.data.value > 100 ? 'high' : $.data.value > 10 ? 'mid' : 'low'"
+      )
+    ).toBe('mid');
+  });
+
+  it('returns arrays for non-singular paths and null for missing ones', () => {
+    expect(evaluate('$.data.items[*].price')).toEqual([2.5, 10]);
+    expect(evaluate('$..id')).toEqual([1, 2]);
+    expect(evaluate('$.data.items[?@.price > 5].name')).toEqual(['Gadget']);
+    expect(evaluate('$.data.nothing')).toBe(null);
+    expect(evaluate('$.data.user.name.length')).toBe(12);
+  });
+
+  it('projects items with @, bare fields, shorthand and nesting', () => {
+    expect(
+      evaluate(
+        '$.data.items[*].{id, label: upper(name), tagged: length(@.tags) > 0, total: price * 2, who: $.data.user.name}'
+      )
+    ).toEqual([
+      { id: 1, label: 'WIDGET', tagged: true, total: 5, who: 'Ada Lovelace' },
+      { id: 2, label: 'GADGET', tagged: false, total: 20, who: 'Ada Lovelace' },
+    ]);
+    expect(evaluate('$.data.user.{name, role}')).toEqual({
+      name: 'Ada Lovelace',
+      role: 'admin',
+    });
+    expect(evaluate('$.missing.{a}')).toBe(null);
+  });
+
+  it('builds array literals', () => {
+    expect(evaluate("[$.data.value, 'x', [1]]")).toEqual([21, 'x', [1]]);
+  });
+});
+
+describe('helpers', () => {
+  it('transforms strings', () => {
+    expect(evaluate('lower($.data.user.name)')).toBe('ada lovelace');
+    expect(evaluate("trim('  x ')")).toBe('x');
+    expect(evaluate("concat($.data.user.name, ' <', $.data.value, '>')")).toBe(
+      'Ada Lovelace <21>'
+    );
+    expect(evaluate("join($.data.user.permissions, '|')")).toBe('read|write');
+    expect(evaluate("split('a,b', ',')")).toEqual(['a', 'b']);
+    expect(evaluate("replace('a-b-c', '-', '+')")).toBe('a+b+c');
+    expect(evaluate("substring('webhook', 3)")).toBe('hook');
+    expect(evaluate('upper($.missing)')).toBe(null);
+  });
+
+  it('works with numbers and collections', () => {
+    expect(evaluate("number('4.5') + 1")).toBe(5.5);
+    expect(evaluate('round(2.345, 2)')).toBe(2.35);
+    expect(evaluate('sum($.data.items[*].price)')).toBe(12.5);
+    expect(evaluate('max($.data.items[*].price, 3)')).toBe(10);
+    expect(evaluate('first($.data.items[*].name)')).toBe('Widget');
+    expect(evaluate('last($.data.items[*].name)')).toBe('Gadget');
+    expect(evaluate("coalesce($.missing, 'fallback')")).toBe('fallback');
+  });
+
+  it('handles dates from epoch seconds, milliseconds and strings', () => {
+    expect(evaluate('date($.timestamp)')).toBe('2021-10-18T14:38:10.000Z');
+    expect(evaluate('date(1634567890000)')).toBe('2021-10-18T14:38:10.000Z');
+    expect(evaluate("addDays('2024-01-30T00:00:00Z', 2)")).toBe(
+      '2024-02-01T00:00:00.000Z'
+    );
+    expect(evaluate("timestamp('1970-01-01T00:00:01Z')")).toBe(1000);
+    expect(evaluate('now()')).toBe('2024-06-15T12:00:00.000Z');
+    expect(evaluate("formatDate(now(), 'yyyy')")).toBe('2024');
+  });
+});
+
+describe('errors', () => {
+  it('reports template syntax errors by line and column', () => {
+    const result = run('{\n  "a": 1,\n  "b" 2\n}');
+    expect(result.output).toBeUndefined();
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toBeInstanceOf(TransformationError);
+    expect(result.errors[0]).toMatchObject({
+      kind: 'syntax',
+      reason: "Expected ':' but found '2'",
+      line: 3,
+      column: 7,
+    });
+  });
+
+  it('points expression syntax errors at the offending character', () => {
+    const validation = validateTransformation(
+      '{\n  "ok": "$.a",\n  "bad": "$.a + * 2"\n}'
+    );
+    expect(validation.valid).toBe(false);
+    if (validation.valid) return;
+    expect(validation.error).toMatchObject({
+      kind: 'syntax',
+      reason: "Unexpected '*'",
+      line: 3,
+      column: 17,
+    });
+  });
+
+  it('maps JSONPath errors into the expression', () => {
+    const validation = validateTransformation('{"a": "$.items[?]"}');
+    expect(validation.valid).toBe(false);
+    if (validation.valid) return;
+    expect(validation.error.line).toBe(1);
+    expect(validation.error.column).toBe(17);
+  });
+
+  it('rejects unknown names, functions and arity', () => {
+    expect(() => parseExpression('foo')).toThrow(/Unknown name 'foo'/);
+    expect(() => parseExpression('eval($.a)')).toThrow(
+      /Unknown function 'eval'/
+    );
+    expect(() => parseExpression('constructor($.a)')).toThrow(
+      /Unknown function/
+    );
+    expect(() => parseExpression('upper()')).toThrow(
+      /upper\(\) takes 1 argument, got 0/
+    );
+    expect(() => parseExpression('@.a')).toThrow(/inside a projection/);
+  });
+
+  it('collects runtime errors per field and keeps the rest', () => {
+    const result = run(
+      '{\n  "ok": "$.data.value",\n  "bad": "$.data.user.name * 2",\n  "zero": "$.data.value / 0"\n}'
+    );
+    expect(result.output).toEqual({ ok: 21, bad: null, zero: null });
+    expect(result.errors.map((error) => [error.line, error.reason])).toEqual([
+      [3, "'*' expects numbers, got string and number"],
+      [4, 'Division by zero'],
+    ]);
+  });
+
+  it('reports helper failures at the call', () => {
+    const result = run('{"d": "=date(\'not a date\')"}');
+    expect(result.errors[0]).toMatchObject({
+      kind: 'runtime',
+      reason: 'date() received an invalid date: not a date',
+      column: 9,
+    });
+  });
+
+  it('stops runaway evaluation', () => {
+    const result = runTransformation(
+      '{"items": "$.items[*].{a: a + a + a}"}',
+      { items: Array.from({ length: 100 }, (_, a) => ({ a })) },
+      { maxSteps: 50 }
+    );
+    expect(result.output).toEqual({ items: null });
+    expect(result.errors[0]?.reason).toBe(
+      'Transformation exceeded the evaluation limit'
+    );
+  });
+});
+
+describe('formatTemplate', () => {
+  it('indents templates and keeps their comments', () => {
+    const source = [
+      '{ // Define your transformation rules here',
+      '"output_field":"$.input.field", /* from the payload */',
+      '  "nested" : {"total":"$.data.value * 2","tags":[ ]},',
+      '// trailing note',
+      '"list": [1,2]}',
+    ].join('\n');
+
+    expect(formatTemplate(source)).toBe(
+      [
+        '{ // Define your transformation rules here',
+        '  "output_field": "$.input.field", /* from the payload */',
+        '  "nested": {',
+        '    "total": "$.data.value * 2",',
+        '    "tags": []',
+        '  },',
+        '  // trailing note',
+        '  "list": [',
+        '    1,',
+        '    2',
+        '  ]',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('leaves string contents untouched', () => {
+    expect(formatTemplate('{"a":"x, {y}: \\"z\\" // not a comment"}')).toBe(
+      '{\n  "a": "x, {y}: \\"z\\" // not a comment"\n}'
+    );
+  });
+
+  it('rejects templates that do not parse', () => {
+    expect(() => formatTemplate('{"a": }')).toThrow(TransformationError);
+  });
+});
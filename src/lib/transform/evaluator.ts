@@ -0,0 +1,258 @@
+/**
+ * Transformation expression evaluator
+ * Runs parsed expressions against the input document. Nothing is executed
+ * beyond the operators and whitelisted helpers, and a shared step budget
+ * stops runaway projections.
+ */
+
+import { deepEqual, evaluateJSONPath } from '@/lib/jsonpath';
+import { describeValue, HELPERS, type HelperContext, toText } from './helpers';
+import { type Expression, ExpressionError } from './types';
+
+export const MAX_EVALUATION_STEPS = 100_000;
+
+export interface EvaluationContext extends HelperContext {
+  /** The transformation input, read by `$` paths */
+  input: unknown;
+  /** Steps left for the whole transformation */
+  budget: { steps: number };
+}
+
+type PathExpression = Extract<Expression, { type: 'path' }>;
+type BinaryExpression = Extract<Expression, { type: 'binary' }>;
+
+function isTruthy(value: unknown): boolean {
+  return (
+    value !== null &&
+    value !== undefined &&
+    value !== false &&
+    value !== 0 &&
+    value !== ''
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function evaluatePath(expression: PathExpression, document: unknown): unknown {
+  const { query } = expression;
+  const values = evaluateJSONPath(query, document);
+  if (!expression.singular) return values;
+  if (values.length > 0) return values[0];
+
+  // Arrays and strings have no members, so a trailing `.length` is their size
+  const last = query.segments.at(-1);
+  const selector = last?.selectors[0];
+  if (selector?.type === 'name' && selector.name === 'length') {
+    const [parent] = evaluateJSONPath(
+      { ...query, segments: query.segments.slice(0, -1) },
+      document
+    );
+    if (Array.isArray(parent)) return parent.length;
+    if (typeof parent === 'string') return Array.from(parent).length;
+  }
+  return null;
+}
+
+function arithmetic(
+  expression: BinaryExpression,
+  left: unknown,
+  right: unknown
+): unknown {
+  const { operator, position } = expression;
+
+  if (
+    operator === '+' &&
+    (typeof left === 'string' || typeof right === 'string')
+  ) {
+    return toText(left) + toText(right);
+  }
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new ExpressionError(
+      `'${operator}' expects numbers, got ${describeValue(left)} and ${describeValue(right)}`,
+      position
+    );
+  }
+  if ((operator === '/' || operator === '%') && right === 0) {
+    throw new ExpressionError('Division by zero', position);
+  }
+
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    default:
+      return left % right;
+  }
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return false;
+
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left >= right;
+  }
+}
+
+function evaluateBinary(
+  expression: BinaryExpression,
+  context: EvaluationContext,
+  current: unknown
+): unknown {
+  const left = evaluateExpression(expression.left, context, current);
+
+  // Logical operators short-circuit and return an operand, so
+  // `$.nickname || $.name` works as a fallback
+  if (expression.operator === '&&') {
+    return isTruthy(left)
+      ? evaluateExpression(expression.right, context, current)
+      : left;
+  }
+  if (expression.operator === '||') {
+    return isTruthy(left)
+      ? left
+      : evaluateExpression(expression.right, context, current);
+  }
+
+  const right = evaluateExpression(expression.right, context, current);
+  switch (expression.operator) {
+    case '==':
+      return deepEqual(left ?? null, right ?? null);
+    case '!=':
+      return !deepEqual(left ?? null, right ?? null);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return compare(expression.operator, left, right);
+    default: {
+      const result = arithmetic(expression, left, right);
+      if (typeof result === 'number' && !Number.isFinite(result)) {
+        throw new ExpressionError(
+          'Result is not a finite number',
+          expression.position
+        );
+      }
+      return result;
+    }
+  }
+}
+
+function callHelper(
+  expression: Extract<Expression, { type: 'call' }>,
+  context: EvaluationContext,
+  current: unknown
+): unknown {
+  const helper = HELPERS[expression.name];
+  if (!helper) {
+    throw new ExpressionError(
+      `Unknown function '${expression.name}'`,
+      expression.position
+    );
+  }
+
+  const args = expression.args.map((arg) =>
+    evaluateExpression(arg, context, current)
+  );
+  try {
+    return helper.call(args, context);
+  } catch (error) {
+    if (error instanceof ExpressionError) throw error;
+    throw new ExpressionError(
+      error instanceof Error ? error.message : String(error),
+      expression.position
+    );
+  }
+}
+
+function project(
+  expression: Extract<Expression, { type: 'projection' }>,
+  context: EvaluationContext,
+  item: unknown
+): Record<string, unknown> {
+  // fromEntries defines own properties, so keys like __proto__ stay data
+  return Object.fromEntries(
+    expression.fields.map((field) => [
+      field.key,
+      evaluateExpression(field.value, context, item) ?? null,
+    ])
+  );
+}
+
+/**
+ * Evaluate an expression. `current` is the item a projection is visiting,
+ * read by `@` paths and bare field names.
+ */
+export function evaluateExpression(
+  expression: Expression,
+  context: EvaluationContext,
+  current?: unknown
+): unknown {
+  context.budget.steps--;
+  if (context.budget.steps < 0) {
+    throw new ExpressionError(
+      'Transformation exceeded the evaluation limit',
+      expression.position
+    );
+  }
+
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'path':
+      return evaluatePath(
+        expression,
+        expression.root === '$' ? context.input : current
+      );
+    case 'field':
+      return isRecord(current) && Object.hasOwn(current, expression.name)
+        ? current[expression.name]
+        : null;
+    case 'unary': {
+      const operand = evaluateExpression(expression.operand, context, current);
+      if (expression.operator === '!') return !isTruthy(operand);
+      if (typeof operand !== 'number') {
+        throw new ExpressionError(
+          `'-' expects a number, got ${describeValue(operand)}`,
+          expression.position
+        );
+      }
+      return -operand;
+    }
+    case 'binary':
+      return evaluateBinary(expression, context, current);
+    case 'conditional':
+      return isTruthy(evaluateExpression(expression.test, context, current))
+        ? evaluateExpression(expression.consequent, context, current)
+        : evaluateExpression(expression.alternate, context, current);
+    case 'call':
+      return callHelper(expression, context, current);
+    case 'projection': {
+      const source = evaluateExpression(expression.source, context, current);
+      if (source === null || source === undefined) return null;
+      return Array.isArray(source)
+        ? source.map((item: unknown) => project(expression, context, item))
+        : project(expression, context, source);
+    }
+    case 'array':
+      return expression.items.map(
+        (item) => evaluateExpression(item, context, current) ?? null
+      );
+  }
+}
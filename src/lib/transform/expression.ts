@@ -0,0 +1,557 @@
+/**
+ * Transformation expression parser
+ * Expressions combine JSONPath lookups with literals, arithmetic,
+ * comparisons, conditionals, helper calls and projections such as
+ * `$.items[*].{id: id, label: upper(name)}`
+ */
+
+import {
+  isSingularQuery,
+  JSONPathSyntaxError,
+  parseJSONPath,
+} from '@/lib/jsonpath';
+import { HELPERS } from './helpers';
+import {
+  type BinaryOperator,
+  type Expression,
+  ExpressionError,
+  type ProjectionField,
+} from './types';
+
+// Guards the recursive descent against pathological nesting
+const MAX_NESTING = 64;
+
+// Longest operators first so "<=" is not read as "<"
+const OPERATORS = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '!',
+  '?',
+  ':',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ',',
+  '.',
+];
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '/': '/',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+};
+
+// Binary operators by precedence level, loosest first
+const BINARY_LEVELS: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'path'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const isDigit = (char: string | undefined) =>
+  char !== undefined && char >= '0' && char <= '9';
+
+function isIdentifierStart(char: string | undefined): boolean {
+  return (
+    char !== undefined &&
+    ((char >= 'a' && char <= 'z') ||
+      (char >= 'A' && char <= 'Z') ||
+      char === '_')
+  );
+}
+
+const isIdentifierPart = (char: string | undefined) =>
+  isIdentifierStart(char) || isDigit(char);
+
+// JSONPath member-name shorthand also allows non-ASCII characters
+const isPathNameChar = (char: string | undefined) =>
+  isIdentifierPart(char) || (char !== undefined && char.charCodeAt(0) >= 0x80);
+
+// ========================================================================================
+// Lexer
+// ========================================================================================
+
+/**
+ * Offset just past the bracket that closes the one at `start`, skipping
+ * over quoted strings. Unbalanced brackets run to the end of the source and
+ * are reported by the JSONPath parser.
+ */
+function scanBracket(source: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = start; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) return index + 1;
+    }
+  }
+  return source.length;
+}
+
+function scanPathName(source: string, start: number): number {
+  let index = start;
+  while (isPathNameChar(source[index])) index++;
+  return index;
+}
+
+/**
+ * Offset just past a JSONPath starting at `start` (the `$` or `@`). The path
+ * ends at the first character that cannot continue a segment, so `.{` is
+ * left for the projection that follows it.
+ */
+function scanPath(source: string, start: number): number {
+  let index = start + 1;
+
+  for (;;) {
+    const next = source[index + 1];
+    if (source.startsWith('..', index)) {
+      const after = source[index + 2];
+      if (after === '[') index = scanBracket(source, index + 2);
+      else if (after === '*') index += 3;
+      else if (isPathNameChar(after)) index = scanPathName(source, index + 2);
+      else return index + 2;
+    } else if (source[index] === '.' && next === '*') {
+      index += 2;
+    } else if (source[index] === '.' && isPathNameChar(next)) {
+      index = scanPathName(source, index + 1);
+    } else if (source[index] === '[') {
+      index = scanBracket(source, index);
+    } else {
+      return index;
+    }
+  }
+}
+
+function scanString(
+  source: string,
+  start: number
+): { value: string; end: number } {
+  const quote = source[start];
+  let value = '';
+
+  for (let index = start + 1; index < source.length; index++) {
+    const char = source[index] ?? '';
+    if (char === quote) return { value, end: index + 1 };
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escaped = source[index + 1];
+    if (escaped === 'u') {
+      const hex = source.slice(index + 2, index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        throw new ExpressionError('Invalid unicode escape', index);
+      }
+      value += String.fromCharCode(Number.parseInt(hex, 16));
+      index += 5;
+    } else if (escaped !== undefined && escaped in ESCAPES) {
+      value += ESCAPES[escaped] ?? '';
+      index++;
+    } else {
+      throw new ExpressionError('Invalid escape sequence', index);
+    }
+  }
+
+  throw new ExpressionError('Unterminated string', start);
+}
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index] ?? '';
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '$' || char === '@') {
+      const end = scanPath(source, index);
+      tokens.push({
+        type: 'path',
+        value: source.slice(index, end),
+        position: index,
+      });
+      index = end;
+    } else if (isDigit(char)) {
+      const match = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(index));
+      const text = match?.[0] ?? char;
+      tokens.push({ type: 'number', value: Number(text), position: index });
+      index += text.length;
+    } else if (char === "'" || char === '"') {
+      const { value, end } = scanString(source, index);
+      tokens.push({ type: 'string', value, position: index });
+      index = end;
+    } else if (isIdentifierStart(char)) {
+      let end = index + 1;
+      while (isIdentifierPart(source[end])) end++;
+      tokens.push({
+        type: 'identifier',
+        value: source.slice(index, end),
+        position: index,
+      });
+      index = end;
+    } else {
+      const operator = OPERATORS.find((op) => source.startsWith(op, index));
+      if (!operator) {
+        throw new ExpressionError(`Unexpected character '${char}'`, index);
+      }
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+// ========================================================================================
+// Parser
+// ========================================================================================
+
+class ExpressionParser {
+  private readonly tokens: Token[];
+  private index = 0;
+  private depth = 0;
+  private projectionDepth = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Expression {
+    const expression = this.parseExpression();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ExpressionError(
+        `Unexpected ${describeToken(token)}`,
+        token.position
+      );
+    }
+    return expression;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[this.index + offset] ?? (this.tokens.at(-1) as Token);
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isOperator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new ExpressionError(
+        `Expected '${value}' but found ${describeToken(token)}`,
+        token.position
+      );
+    }
+    return token;
+  }
+
+  private parseExpression(): Expression {
+    this.depth++;
+    if (this.depth > MAX_NESTING) {
+      throw new ExpressionError(
+        'Expression is nested too deeply',
+        this.peek().position
+      );
+    }
+
+    const test = this.parseBinary(0);
+    let result = test;
+    if (this.isOperator('?')) {
+      this.next();
+      const consequent = this.parseExpression();
+      this.expect(':');
+      const alternate = this.parseExpression();
+      result = {
+        type: 'conditional',
+        test,
+        consequent,
+        alternate,
+        position: test.position,
+      };
+    }
+
+    this.depth--;
+    return result;
+  }
+
+  private parseBinary(level: number): Expression {
+    const operators = BINARY_LEVELS[level];
+    if (!operators) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = operators.find((op) => this.isOperator(op));
+      if (!operator) return left;
+      this.next();
+      const right = this.parseBinary(level + 1);
+      left = {
+        type: 'binary',
+        operator,
+        left,
+        right,
+        position: token.position,
+      };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (this.isOperator('!') || this.isOperator('-')) {
+      this.next();
+      return {
+        type: 'unary',
+        operator: token.type === 'operator' && token.value === '-' ? '-' : '!',
+        operand: this.parseUnary(),
+        position: token.position,
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+    while (this.isOperator('.') && this.isOperator('{', 1)) {
+      this.next();
+      expression = {
+        type: 'projection',
+        source: expression,
+        fields: this.parseProjectionFields(),
+        position: expression.position,
+      };
+    }
+    return expression;
+  }
+
+  private parseProjectionFields(): ProjectionField[] {
+    this.expect('{');
+    this.projectionDepth++;
+
+    const fields: ProjectionField[] = [];
+    const keys = new Set<string>();
+    while (!this.isOperator('}')) {
+      const token = this.next();
+      if (token.type !== 'identifier' && token.type !== 'string') {
+        throw new ExpressionError(
+          `Expected a field name but found ${describeToken(token)}`,
+          token.position
+        );
+      }
+      if (keys.has(token.value)) {
+        throw new ExpressionError(
+          `Duplicate field '${token.value}'`,
+          token.position
+        );
+      }
+      keys.add(token.value);
+
+      let value: Expression;
+      if (this.isOperator(':')) {
+        this.next();
+        value = this.parseExpression();
+      } else if (token.type === 'identifier') {
+        // Shorthand {id} copies the item's own field
+        value = { type: 'field', name: token.value, position: token.position };
+      } else {
+        throw new ExpressionError(
+          `Expected ':' after '${token.value}'`,
+          this.peek().position
+        );
+      }
+      fields.push({ key: token.value, value });
+
+      if (!this.isOperator(',')) break;
+      this.next();
+    }
+
+    this.expect('}');
+    this.projectionDepth--;
+    return fields;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+    const { position } = token;
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value, position };
+      case 'path':
+        return this.parsePath(token.value, position);
+      case 'identifier':
+        return this.parseIdentifier(token.value, position);
+      case 'operator':
+        if (token.value === '(') {
+          const expression = this.parseExpression();
+          this.expect(')');
+          return expression;
+        }
+        if (token.value === '[') return this.parseArray(position);
+        break;
+      case 'end':
+        throw new ExpressionError('Unexpected end of expression', position);
+    }
+
+    throw new ExpressionError(`Unexpected ${describeToken(token)}`, position);
+  }
+
+  private parsePath(text: string, position: number): Expression {
+    const root = text.startsWith('@') ? '@' : '$';
+    if (root === '@' && this.projectionDepth === 0) {
+      throw new ExpressionError(
+        "'@' refers to the current item and only works inside a projection",
+        position
+      );
+    }
+
+    try {
+      // Relative paths share the JSONPath grammar with a different root
+      const query = parseJSONPath(`$${text.slice(1)}`);
+      return {
+        type: 'path',
+        root,
+        query: { ...query, source: text },
+        singular: isSingularQuery(query),
+        position,
+      };
+    } catch (error) {
+      if (error instanceof JSONPathSyntaxError) {
+        throw new ExpressionError(error.reason, position + error.position);
+      }
+      throw error;
+    }
+  }
+
+  private parseIdentifier(name: string, position: number): Expression {
+    if (name === 'true' || name === 'false') {
+      return { type: 'literal', value: name === 'true', position };
+    }
+    if (name === 'null') return { type: 'literal', value: null, position };
+
+    if (this.isOperator('(')) return this.parseCall(name, position);
+
+    if (this.projectionDepth === 0) {
+      throw new ExpressionError(
+        `Unknown name '${name}'; input fields start with '$'`,
+        position
+      );
+    }
+    return { type: 'field', name, position };
+  }
+
+  private parseCall(name: string, position: number): Expression {
+    const helper = Object.hasOwn(HELPERS, name) ? HELPERS[name] : undefined;
+    if (!helper) {
+      throw new ExpressionError(`Unknown function '${name}'`, position);
+    }
+
+    this.expect('(');
+    const args: Expression[] = [];
+    while (!this.isOperator(')')) {
+      args.push(this.parseExpression());
+      if (!this.isOperator(',')) break;
+      this.next();
+    }
+    this.expect(')');
+
+    if (args.length < helper.minArgs || args.length > helper.maxArgs) {
+      throw new ExpressionError(
+        `${name}() takes ${describeArity(helper.minArgs, helper.maxArgs)}, got ${String(args.length)}`,
+        position
+      );
+    }
+    return { type: 'call', name, args, position };
+  }
+
+  private parseArray(position: number): Expression {
+    const items: Expression[] = [];
+    while (!this.isOperator(']')) {
+      items.push(this.parseExpression());
+      if (!this.isOperator(',')) break;
+      this.next();
+    }
+    this.expect(']');
+    return { type: 'array', items, position };
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'end of expression';
+    case 'string':
+      return `string ${JSON.stringify(token.value)}`;
+    case 'number':
+      return `number ${String(token.value)}`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+function describeArity(min: number, max: number): string {
+  const plural = (count: number) =>
+    `${String(count)} argument${count === 1 ? '' : 's'}`;
+  if (min === max) return plural(min);
+  if (max === Number.POSITIVE_INFINITY) return `at least ${plural(min)}`;
+  return `${String(min)} to ${plural(max)}`;
+}
+
+/**
+ * Parse one expression, throwing ExpressionError with the offending offset
+ */
+export function parseExpression(source: string): Expression {
+  return new ExpressionParser(source).parse();
+}
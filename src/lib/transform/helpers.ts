@@ -0,0 +1,354 @@
+/**
+ * Helper functions callable from transformation expressions.
+ * String and date helpers pass null through, so a missing input field
+ * yields null rather than an error.
+ */
+
+import { addDays, format } from 'date-fns';
+
+export interface HelperContext {
+  /** Clock used by now(), injectable for previews and tests */
+  now: Date;
+}
+
+export interface HelperDefinition {
+  signature: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number;
+  call: (args: unknown[], context: HelperContext) => unknown;
+}
+
+// Epoch numbers below this are treated as seconds rather than milliseconds
+const SECONDS_THRESHOLD = 1e11;
+
+export function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Text form of a value for concatenation: null is empty, containers are JSON
+ */
+export function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function expectString(helper: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error(
+      `${helper}() expects a string, got ${describeValue(value)}`
+    );
+  }
+  return value;
+}
+
+function expectNumber(helper: string, value: unknown): number {
+  if (typeof value !== 'number') {
+    throw new Error(
+      `${helper}() expects a number, got ${describeValue(value)}`
+    );
+  }
+  return value;
+}
+
+function expectArray(helper: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(
+      `${helper}() expects an array, got ${describeValue(value)}`
+    );
+  }
+  return value;
+}
+
+function toDate(helper: string, value: unknown): Date {
+  let date: Date;
+  if (typeof value === 'number') {
+    date = new Date(Math.abs(value) < SECONDS_THRESHOLD ? value * 1000 : value);
+  } else if (typeof value === 'string') {
+    date = new Date(value);
+  } else {
+    throw new Error(
+      `${helper}() expects a date string or timestamp, got ${describeValue(value)}`
+    );
+  }
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${helper}() received an invalid date: ${toText(value)}`);
+  }
+  return date;
+}
+
+function stringHelper(
+  signature: string,
+  description: string,
+  transform: (text: string) => string
+): HelperDefinition {
+  const name = signature.slice(0, signature.indexOf('('));
+  return {
+    signature,
+    description,
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) =>
+      value === null || value === undefined
+        ? null
+        : transform(expectString(name, value)),
+  };
+}
+
+function numberHelper(
+  signature: string,
+  description: string,
+  transform: (value: number) => number
+): HelperDefinition {
+  const name = signature.slice(0, signature.indexOf('('));
+  return {
+    signature,
+    description,
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => transform(expectNumber(name, value)),
+  };
+}
+
+function numbersOf(helper: string, args: unknown[]): number[] {
+  return args
+    .flatMap((arg) => (Array.isArray(arg) ? (arg as unknown[]) : [arg]))
+    .map((value) => expectNumber(helper, value));
+}
+
+export const HELPERS: Record<string, HelperDefinition> = {
+  // Strings
+  upper: stringHelper('upper(text)', 'Uppercase text', (text) =>
+    text.toUpperCase()
+  ),
+  lower: stringHelper('lower(text)', 'Lowercase text', (text) =>
+    text.toLowerCase()
+  ),
+  trim: stringHelper('trim(text)', 'Strip surrounding whitespace', (text) =>
+    text.trim()
+  ),
+  concat: {
+    signature: 'concat(value, ...)',
+    description: 'Join values into one string',
+    minArgs: 1,
+    maxArgs: Number.POSITIVE_INFINITY,
+    call: (args) => args.map(toText).join(''),
+  },
+  join: {
+    signature: 'join(array, separator?)',
+    description: 'Join array items with a separator (default ",")',
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([array, separator = ',']) =>
+      expectArray('join', array)
+        .map(toText)
+        .join(expectString('join', separator)),
+  },
+  split: {
+    signature: 'split(text, separator)',
+    description: 'Split text into an array',
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([text, separator]) =>
+      text === null || text === undefined
+        ? null
+        : expectString('split', text).split(expectString('split', separator)),
+  },
+  replace: {
+    signature: 'replace(text, search, replacement)',
+    description: 'Replace every occurrence of search',
+    minArgs: 3,
+    maxArgs: 3,
+    call: ([text, search, replacement]) =>
+      text === null || text === undefined
+        ? null
+        : expectString('replace', text).replaceAll(
+            expectString('replace', search),
+            toText(replacement)
+          ),
+  },
+  substring: {
+    signature: 'substring(text, start, end?)',
+    description: 'Characters from start up to end',
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([text, start, end]) =>
+      text === null || text === undefined
+        ? null
+        : expectString('substring', text).slice(
+            expectNumber('substring', start),
+            end === undefined ? undefined : expectNumber('substring', end)
+          ),
+  },
+  string: {
+    signature: 'string(value)',
+    description: 'Convert a value to text',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => toText(value),
+  },
+
+  // Numbers
+  number: {
+    signature: 'number(value)',
+    description: 'Parse a number from text',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => {
+      if (typeof value === 'number') return value;
+      const parsed = typeof value === 'string' ? Number(value) : Number.NaN;
+      if (
+        typeof value !== 'string' ||
+        value.trim() === '' ||
+        !Number.isFinite(parsed)
+      ) {
+        throw new Error(`number() cannot convert ${toText(value) || 'null'}`);
+      }
+      return parsed;
+    },
+  },
+  round: {
+    signature: 'round(number, digits?)',
+    description: 'Round to the given decimal places',
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, digits = 0]) => {
+      const factor = 10 ** expectNumber('round', digits);
+      return Math.round(expectNumber('round', value) * factor) / factor;
+    },
+  },
+  floor: numberHelper('floor(number)', 'Round down', Math.floor),
+  ceil: numberHelper('ceil(number)', 'Round up', Math.ceil),
+  abs: numberHelper('abs(number)', 'Absolute value', Math.abs),
+  min: {
+    signature: 'min(number, ...)',
+    description: 'Smallest of the numbers or array items',
+    minArgs: 1,
+    maxArgs: Number.POSITIVE_INFINITY,
+    call: (args) => {
+      const numbers = numbersOf('min', args);
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    },
+  },
+  max: {
+    signature: 'max(number, ...)',
+    description: 'Largest of the numbers or array items',
+    minArgs: 1,
+    maxArgs: Number.POSITIVE_INFINITY,
+    call: (args) => {
+      const numbers = numbersOf('max', args);
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    },
+  },
+  sum: {
+    signature: 'sum(array)',
+    description: 'Total of the array items',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([array]) =>
+      numbersOf('sum', [expectArray('sum', array)]).reduce(
+        (total, value) => total + value,
+        0
+      ),
+  },
+
+  // Collections
+  length: {
+    signature: 'length(value)',
+    description: 'Items in an array, characters in text or keys in an object',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => {
+      if (typeof value === 'string') return Array.from(value).length;
+      if (Array.isArray(value)) return value.length;
+      if (typeof value === 'object' && value !== null) {
+        return Object.keys(value).length;
+      }
+      return null;
+    },
+  },
+  first: {
+    signature: 'first(array)',
+    description: 'First array item',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([array]) => expectArray('first', array)[0] ?? null,
+  },
+  last: {
+    signature: 'last(array)',
+    description: 'Last array item',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([array]) => expectArray('last', array).at(-1) ?? null,
+  },
+  coalesce: {
+    signature: 'coalesce(value, ...)',
+    description: 'First value that is not null',
+    minArgs: 1,
+    maxArgs: Number.POSITIVE_INFINITY,
+    call: (args) =>
+      args.find((value) => value !== null && value !== undefined) ?? null,
+  },
+
+  // Dates
+  now: {
+    signature: 'now()',
+    description: 'Current time as an ISO 8601 string',
+    minArgs: 0,
+    maxArgs: 0,
+    call: (_args, context) => context.now.toISOString(),
+  },
+  date: {
+    signature: 'date(value)',
+    description: 'ISO 8601 string from a date string or epoch timestamp',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) =>
+      value === null || value === undefined
+        ? null
+        : toDate('date', value).toISOString(),
+  },
+  formatDate: {
+    signature: 'formatDate(value, pattern)',
+    description: 'Format a date with a date-fns pattern, e.g. "yyyy-MM-dd"',
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([value, pattern]) =>
+      value === null || value === undefined
+        ? null
+        : format(
+            toDate('formatDate', value),
+            expectString('formatDate', pattern)
+          ),
+  },
+  addDays: {
+    signature: 'addDays(value, days)',
+    description: 'Shift a date by a number of days',
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([value, days]) =>
+      value === null || value === undefined
+        ? null
+        : addDays(
+            toDate('addDays', value),
+            expectNumber('addDays', days)
+          ).toISOString(),
+  },
+  timestamp: {
+    signature: 'timestamp(value)',
+    description: 'Milliseconds since the epoch',
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) =>
+      value === null || value === undefined
+        ? null
+        : toDate('timestamp', value).getTime(),
+  },
+};
@@ -0,0 +1,91 @@
+/**
+ * Payload transformations
+ * Compile mapping templates and run them against a sample or live payload
+ */
+
+import { MAX_EVALUATION_STEPS } from './evaluator';
+import { compileTransformation, renderTemplate } from './template';
+import {
+  type CompiledTransformation,
+  TransformationError,
+  type TransformationResult,
+} from './types';
+
+export { parseExpression } from './expression';
+export { HELPERS, type HelperDefinition } from './helpers';
+export {
+  createFieldMapping,
+  type FieldMapping,
+  findDuplicateTargets,
+  MAPPING_TRANSFORMS,
+  type MappingParseResult,
+  type MappingTransform,
+  mappingsToTemplate,
+  templateToMappings,
+} from './mapping';
+export { compileTransformation, formatTemplate } from './template';
+export type {
+  CompiledTransformation,
+  Expression,
+  TemplateNode,
+  TransformationResult,
+} from './types';
+export { ExpressionError, TransformationError } from './types';
+
+export type TransformationValidation =
+  | { valid: true; transformation: CompiledTransformation }
+  | { valid: false; error: TransformationError };
+
+export interface RunTransformationOptions {
+  /** Clock for now(); defaults to the current time */
+  now?: Date;
+  /** Evaluation step budget; defaults to MAX_EVALUATION_STEPS */
+  maxSteps?: number;
+}
+
+/**
+ * Check a template without throwing
+ */
+export function validateTransformation(
+  source: string
+): TransformationValidation {
+  try {
+    return { valid: true, transformation: compileTransformation(source) };
+  } catch (error) {
+    if (error instanceof TransformationError) return { valid: false, error };
+    throw error;
+  }
+}
+
+/**
+ * Run a template against an input document. Never throws: a syntax error
+ * leaves `output` undefined, runtime errors null out the affected fields.
+ */
+export function runTransformation(
+  transformation: string | CompiledTransformation,
+  input: unknown,
+  options: RunTransformationOptions = {}
+): TransformationResult {
+  let compiled: CompiledTransformation;
+  if (typeof transformation === 'string') {
+    const validation = validateTransformation(transformation);
+    if (!validation.valid) {
+      return { output: undefined, errors: [validation.error] };
+    }
+    compiled = validation.transformation;
+  } else {
+    compiled = transformation;
+  }
+
+  const errors: TransformationError[] = [];
+  const output = renderTemplate(
+    compiled.root,
+    {
+      input,
+      now: options.now ?? new Date(),
+      budget: { steps: options.maxSteps ?? MAX_EVALUATION_STEPS },
+    },
+    errors
+  );
+  return { output, errors };
+}
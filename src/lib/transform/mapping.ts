@@ -0,0 +1,223 @@
+/**
+ * Field mappings for the visual transformation editor
+ * A mapping is one output field filled from a JSONPath, optionally passed
+ * through a helper and falling back to a default. Mappings serialize to a
+ * template and templates of that shape parse back into mappings.
+ */
+
+import type { JsonValue } from '@/lib/jsonpath';
+import { compileTransformation } from './template';
+import {
+  type Expression,
+  type TemplateNode,
+  TransformationError,
+} from './types';
+
+/** Single-argument helpers offered as a mapping's transform */
+export const MAPPING_TRANSFORMS = [
+  'upper',
+  'lower',
+  'trim',
+  'string',
+  'number',
+  'round',
+  'floor',
+  'ceil',
+  'abs',
+  'length',
+  'sum',
+  'first',
+  'last',
+  'join',
+  'date',
+  'timestamp',
+] as const;
+
+export type MappingTransform = (typeof MAPPING_TRANSFORMS)[number];
+
+export interface FieldMapping {
+  /** Stable identity for list rendering; not serialized */
+  id: string;
+  /** Output field name */
+  target: string;
+  /** JSONPath into the input; empty for a static value */
+  source: string;
+  transform?: MappingTransform;
+  /** Used when the source is missing, or as the value of a static field */
+  defaultValue?: JsonValue;
+}
+
+export type MappingParseResult =
+  | { ok: true; mappings: FieldMapping[] }
+  | { ok: false; reason: string };
+
+let nextMappingId = 0;
+
+export function createFieldMapping(
+  fields: Partial<Omit<FieldMapping, 'id'>> = {}
+): FieldMapping {
+  nextMappingId++;
+  return {
+    id: `mapping-${String(nextMappingId)}`,
+    target: '',
+    source: '',
+    ...fields,
+  };
+}
+
+/**
+ * Output field names used by more than one mapping
+ */
+export function findDuplicateTargets(mappings: FieldMapping[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const mapping of mappings) {
+    const target = mapping.target.trim();
+    if (!target) continue;
+    if (seen.has(target)) duplicates.add(target);
+    seen.add(target);
+  }
+  return duplicates;
+}
+
+function isMappingTransform(name: string): name is MappingTransform {
+  return (MAPPING_TRANSFORMS as readonly string[]).includes(name);
+}
+
+function isScalar(value: JsonValue): boolean {
+  return value === null || typeof value !== 'object';
+}
+
+// Single-quoted expression literal; JSON escapes are valid expression escapes
+function formatLiteral(value: JsonValue): string {
+  if (typeof value !== 'string') return JSON.stringify(value);
+  return `'${JSON.stringify(value).slice(1, -1).replaceAll("'", "\\'")}'`;
+}
+
+/**
+ * Template value for one mapping: a plain literal for static fields,
+ * otherwise an expression string
+ */
+function serializeMapping(mapping: FieldMapping): JsonValue {
+  const fallback = mapping.defaultValue ?? null;
+  const source = mapping.source.trim();
+
+  if (!source) {
+    // Strings that look like expressions need to be written as one
+    if (
+      typeof fallback === 'string' &&
+      (fallback.startsWith('$') || fallback.startsWith('='))
+    ) {
+      return `=${formatLiteral(fallback)}`;
+    }
+    return fallback;
+  }
+
+  let expression = mapping.transform
+    ? `${mapping.transform}(${source})`
+    : source;
+  if (mapping.defaultValue !== undefined) {
+    expression = `coalesce(${expression}, ${formatLiteral(mapping.defaultValue)})`;
+  }
+  return expression.startsWith('$') ? expression : `=${expression}`;
+}
+
+/**
+ * Template source for a list of mappings. Rows without a target are skipped.
+ */
+export function mappingsToTemplate(mappings: FieldMapping[]): string {
+  const template = Object.fromEntries(
+    mappings
+      .filter((mapping) => mapping.target.trim())
+      .map((mapping) => [mapping.target.trim(), serializeMapping(mapping)])
+  );
+  return JSON.stringify(template, null, 2);
+}
+
+/**
+ * Match `$.path`, `fn($.path)` and either wrapped in `coalesce(..., literal)`
+ */
+function parseMappingExpression(
+  expression: Expression
+): Omit<FieldMapping, 'id' | 'target'> | null {
+  if (expression.type === 'literal') {
+    return { source: '', defaultValue: expression.value };
+  }
+
+  if (expression.type === 'path' && expression.root === '$') {
+    return { source: expression.query.source };
+  }
+
+  if (expression.type !== 'call') return null;
+  const [first, second] = expression.args;
+
+  if (
+    isMappingTransform(expression.name) &&
+    expression.args.length === 1 &&
+    first?.type === 'path' &&
+    first.root === '$'
+  ) {
+    return { source: first.query.source, transform: expression.name };
+  }
+
+  if (
+    expression.name === 'coalesce' &&
+    expression.args.length === 2 &&
+    first &&
+    first.type !== 'literal' &&
+    second?.type === 'literal'
+  ) {
+    const inner = parseMappingExpression(first);
+    return inner ? { ...inner, defaultValue: second.value } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Read a template back into mappings. Templates the visual editor cannot
+ * represent (nested objects, arbitrary expressions) report why.
+ */
+export function templateToMappings(source: string): MappingParseResult {
+  if (!source.trim()) return { ok: true, mappings: [] };
+
+  let root: TemplateNode;
+  try {
+    ({ root } = compileTransformation(source));
+  } catch (error) {
+    if (error instanceof TransformationError) {
+      return { ok: false, reason: error.message };
+    }
+    throw error;
+  }
+
+  if (root.type !== 'object') {
+    return { ok: false, reason: 'The template must be an object' };
+  }
+
+  const mappings: FieldMapping[] = [];
+  for (const { key, value } of root.entries) {
+    if (value.type === 'literal' && isScalar(value.value)) {
+      mappings.push(
+        createFieldMapping({ target: key, defaultValue: value.value })
+      );
+      continue;
+    }
+
+    const parsed =
+      value.type === 'expression'
+        ? parseMappingExpression(value.expression)
+        : null;
+    if (!parsed) {
+      return {
+        ok: false,
+        reason:
+          value.type === 'expression'
+            ? `"${key}" uses an expression the visual editor cannot show`
+            : `"${key}" holds a nested ${value.type}, which can only be edited as code`,
+      };
+    }
+    mappings.push(createFieldMapping({ target: key, ...parsed }));
+  }
+  return { ok: true, mappings };
+}
@@ -0,0 +1,403 @@
+/**
+ * Transformation template parser and renderer
+ * Templates are JSON documents (with optional // and block comments) whose
+ * string values may hold expressions. Source positions are kept so errors
+ * can be reported by line and column.
+ */
+
+import type { JsonValue } from '@/lib/jsonpath';
+import { type EvaluationContext, evaluateExpression } from './evaluator';
+import { parseExpression } from './expression';
+import {
+  type CompiledTransformation,
+  ExpressionError,
+  type TemplateNode,
+  TransformationError,
+} from './types';
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+interface DecodedString {
+  value: string;
+  /** Source offset of each decoded character, plus the closing quote */
+  offsets: number[];
+}
+
+class TemplateParser {
+  private readonly source: string;
+  private readonly lineStarts: number[] = [0];
+  private index = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    for (let index = 0; index < source.length; index++) {
+      if (source[index] === '\n') this.lineStarts.push(index + 1);
+    }
+  }
+
+  parse(): TemplateNode {
+    this.skipBlank();
+    const root = this.parseValue();
+    this.skipBlank();
+    if (this.index < this.source.length) {
+      this.fail('Unexpected content after the template');
+    }
+    return root;
+  }
+
+  private locate(offset: number): { line: number; column: number } {
+    let line = 0;
+    while ((this.lineStarts[line + 1] ?? Number.POSITIVE_INFINITY) <= offset) {
+      line++;
+    }
+    return {
+      line: line + 1,
+      column: offset - (this.lineStarts[line] ?? 0) + 1,
+    };
+  }
+
+  private fail(reason: string, offset = this.index): never {
+    const { line, column } = this.locate(offset);
+    throw new TransformationError('syntax', reason, line, column);
+  }
+
+  private skipBlank(): void {
+    for (;;) {
+      const char = this.source[this.index];
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
+        this.index++;
+      } else if (this.source.startsWith('//', this.index)) {
+        const end = this.source.indexOf('\n', this.index);
+        this.index = end === -1 ? this.source.length : end;
+      } else if (this.source.startsWith('/*', this.index)) {
+        const end = this.source.indexOf('*/', this.index + 2);
+        if (end === -1) this.fail('Unterminated comment');
+        this.index = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.source[this.index] !== char) {
+      this.fail(`Expected '${char}' but found ${this.describeNext()}`);
+    }
+    this.index++;
+  }
+
+  private describeNext(): string {
+    const char = this.source[this.index];
+    return char === undefined ? 'end of template' : `'${char}'`;
+  }
+
+  private parseValue(): TemplateNode {
+    const char = this.source[this.index];
+    if (char === '{') return this.parseObject();
+    if (char === '[') return this.parseArray();
+    if (char === '"') return this.parseStringValue();
+    if (char === '-' || (char !== undefined && char >= '0' && char <= '9')) {
+      return this.parseNumber();
+    }
+    for (const [keyword, value] of [
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ] as const) {
+      if (this.source.startsWith(keyword, this.index)) {
+        this.index += keyword.length;
+        return { type: 'literal', value };
+      }
+    }
+    if (char === "'") this.fail('Strings must use double quotes');
+    return this.fail(`Unexpected ${this.describeNext()}`);
+  }
+
+  private parseObject(): TemplateNode {
+    this.expect('{');
+    const entries: { key: string; value: TemplateNode }[] = [];
+    const keys = new Set<string>();
+
+    this.skipBlank();
+    if (this.source[this.index] === '}') {
+      this.index++;
+      return { type: 'object', entries };
+    }
+
+    for (;;) {
+      this.skipBlank();
+      const keyOffset = this.index;
+      if (this.source[this.index] !== '"') {
+        this.fail(`Expected a quoted key but found ${this.describeNext()}`);
+      }
+      const { value: key } = this.parseString();
+      if (keys.has(key)) this.fail(`Duplicate key "${key}"`, keyOffset);
+      keys.add(key);
+
+      this.skipBlank();
+      this.expect(':');
+      this.skipBlank();
+      entries.push({ key, value: this.parseValue() });
+      this.skipBlank();
+
+      if (this.source[this.index] === '}') {
+        this.index++;
+        return { type: 'object', entries };
+      }
+      this.expect(',');
+    }
+  }
+
+  private parseArray(): TemplateNode {
+    this.expect('[');
+    const items: TemplateNode[] = [];
+
+    this.skipBlank();
+    if (this.source[this.index] === ']') {
+      this.index++;
+      return { type: 'array', items };
+    }
+
+    for (;;) {
+      this.skipBlank();
+      items.push(this.parseValue());
+      this.skipBlank();
+      if (this.source[this.index] === ']') {
+        this.index++;
+        return { type: 'array', items };
+      }
+      this.expect(',');
+    }
+  }
+
+  private parseNumber(): TemplateNode {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(
+      this.source.slice(this.index)
+    );
+    if (!match) this.fail('Invalid number');
+    this.index += match[0].length;
+    return { type: 'literal', value: Number(match[0]) };
+  }
+
+  private parseString(): DecodedString {
+    const start = this.index;
+    let value = '';
+    const offsets: number[] = [];
+    this.index++;
+
+    for (;;) {
+      const char = this.source[this.index];
+      if (char === undefined || char === '\n') {
+        this.fail('Unterminated string', start);
+      }
+      if (char === '"') {
+        offsets.push(this.index);
+        this.index++;
+        return { value, offsets };
+      }
+      if (char < ' ') this.fail('Control characters must be escaped');
+
+      offsets.push(this.index);
+      if (char !== '\\') {
+        value += char;
+        this.index++;
+        continue;
+      }
+
+      const escaped = this.source[this.index + 1] ?? '';
+      if (escaped === 'u') {
+        const hex = this.source.slice(this.index + 2, this.index + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) this.fail('Invalid unicode escape');
+        value += String.fromCharCode(Number.parseInt(hex, 16));
+        this.index += 6;
+      } else if (Object.hasOwn(JSON_ESCAPES, escaped)) {
+        value += JSON_ESCAPES[escaped] ?? '';
+        this.index += 2;
+      } else {
+        this.fail('Invalid escape sequence');
+      }
+    }
+  }
+
+  /**
+   * A string is an expression when it starts with `$` or `=`; a leading
+   * `$$` escapes a literal dollar sign
+   */
+  private parseStringValue(): TemplateNode {
+    const { value, offsets } = this.parseString();
+
+    if (value.startsWith('$$'))
+      return { type: 'literal', value: value.slice(1) };
+    if (!value.startsWith('$') && !value.startsWith('=')) {
+      return { type: 'literal', value };
+    }
+
+    const skip = value.startsWith('=') ? 1 : 0;
+    const source = value.slice(skip);
+    const positions = offsets.slice(skip).map((offset) => this.locate(offset));
+    const line = positions[0]?.line ?? 1;
+    const columns = positions.map((position) => position.column);
+
+    try {
+      return {
+        type: 'expression',
+        source,
+        expression: parseExpression(source),
+        line,
+        columns,
+      };
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        throw new TransformationError(
+          'syntax',
+          error.reason,
+          line,
+          columns[error.position] ?? columns.at(-1) ?? 1
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Parse a template, throwing TransformationError on the first syntax error
+ */
+export function compileTransformation(source: string): CompiledTransformation {
+  return { source, root: new TemplateParser(source).parse() };
+}
+
+/**
+ * Re-indent a template, keeping its comments. Formatting goes through the
+ * source text rather than the parsed tree, which has no room for comments.
+ * Throws TransformationError when the template does not parse.
+ */
+export function formatTemplate(source: string, indent = '  '): string {
+  compileTransformation(source);
+
+  let output = '';
+  let depth = 0;
+  let index = 0;
+
+  const atLineStart = () => /(^|\n)[ \t]*$/.test(output);
+  const newline = () => {
+    output = `${output.trimEnd()}\n${indent.repeat(depth)}`;
+  };
+  // A comment after other content on its source line stays on that line
+  const followsContent = () => {
+    const lineStart = source.lastIndexOf('\n', index - 1) + 1;
+    return source.slice(lineStart, index).trim().length > 0;
+  };
+
+  while (index < source.length) {
+    const char = source[index] ?? '';
+
+    if (char === '"') {
+      let end = index + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      output += source.slice(index, end + 1);
+      index = end + 1;
+    } else if (
+      source.startsWith('//', index) ||
+      source.startsWith('/*', index)
+    ) {
+      const isLine = source.startsWith('//', index);
+      const end = isLine
+        ? source.indexOf('\n', index)
+        : source.indexOf('*/', index) + 2;
+      const comment = source.slice(index, end === -1 ? undefined : end);
+      const trailing = followsContent();
+
+      if (trailing || !atLineStart()) {
+        output = `${output.trimEnd()} ${comment}`;
+      } else {
+        output += comment;
+      }
+      const endsLine = isLine || /^[ \t]*(\r?\n|$)/.test(source.slice(end));
+      if (endsLine || !trailing) newline();
+      else output += ' ';
+      index = end === -1 ? source.length : end;
+    } else if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      const next = source.slice(index + 1).search(/\S/);
+      if (source[index + 1 + next] === close) {
+        output += char + close;
+        index += next + 2;
+        continue;
+      }
+      output += char;
+      depth++;
+      newline();
+      index++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      newline();
+      output += char;
+      index++;
+    } else if (char === ',') {
+      output = `${output.trimEnd()},`;
+      newline();
+      index++;
+    } else if (char === ':') {
+      output = `${output.trimEnd()}: `;
+      index++;
+    } else {
+      if (!/\s/.test(char)) output += char;
+      index++;
+    }
+  }
+
+  return output.trim();
+}
+
+/**
+ * Render a template node. Runtime errors are collected and the failing
+ * value becomes null, so the rest of the output can still be previewed.
+ */
+export function renderTemplate(
+  node: TemplateNode,
+  context: EvaluationContext,
+  errors: TransformationError[]
+): JsonValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'array':
+      return node.items.map((item) => renderTemplate(item, context, errors));
+    case 'object':
+      // fromEntries defines own properties, so keys like __proto__ stay data
+      return Object.fromEntries(
+        node.entries.map(({ key, value }) => [
+          key,
+          renderTemplate(value, context, errors),
+        ])
+      );
+    case 'expression':
+      try {
+        return (evaluateExpression(node.expression, context) ??
+          null) as JsonValue;
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        errors.push(
+          new TransformationError(
+            'runtime',
+            error.reason,
+            node.line,
+            node.columns[error.position] ?? node.columns.at(-1) ?? 1
+          )
+        );
+        return null;
+      }
+  }
+}
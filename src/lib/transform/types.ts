@@ -0,0 +1,142 @@
+/**
+ * Transformation template and expression types
+ */
+
+import type { JSONPathQuery, JsonValue } from '@/lib/jsonpath';
+
+// ========================================================================================
+// Expressions
+// ========================================================================================
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '&&'
+  | '||';
+
+export interface ProjectionField {
+  key: string;
+  value: Expression;
+}
+
+/**
+ * Every node records the offset into the expression source it was parsed
+ * from, so evaluation errors can point at the right place
+ */
+export type Expression = { position: number } & (
+  | { type: 'literal'; value: JsonValue }
+  | {
+      type: 'path';
+      /** `$` reads the transformation input, `@` the current projected item */
+      root: '$' | '@';
+      query: JSONPathQuery;
+      /** A singular path yields one value (or null), otherwise an array */
+      singular: boolean;
+    }
+  /** A bare name inside a projection, read from the current item */
+  | { type: 'field'; name: string }
+  | { type: 'unary'; operator: '!' | '-'; operand: Expression }
+  | {
+      type: 'binary';
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+    }
+  | {
+      type: 'conditional';
+      test: Expression;
+      consequent: Expression;
+      alternate: Expression;
+    }
+  | { type: 'call'; name: string; args: Expression[] }
+  | { type: 'projection'; source: Expression; fields: ProjectionField[] }
+  | { type: 'array'; items: Expression[] }
+);
+
+// ========================================================================================
+// Templates
+// ========================================================================================
+
+/**
+ * A parsed transformation template. Strings starting with `$` or `=` are
+ * expressions; everything else is copied to the output as-is.
+ */
+export type TemplateNode =
+  | { type: 'object'; entries: { key: string; value: TemplateNode }[] }
+  | { type: 'array'; items: TemplateNode[] }
+  | { type: 'literal'; value: JsonValue }
+  | {
+      type: 'expression';
+      source: string;
+      expression: Expression;
+      line: number;
+      /** Column of each expression source character, for error reporting */
+      columns: number[];
+    };
+
+export interface CompiledTransformation {
+  /** The original template text */
+  source: string;
+  root: TemplateNode;
+}
+
+export interface TransformationResult {
+  /** Undefined when the template could not be compiled */
+  output: JsonValue | undefined;
+  errors: TransformationError[];
+}
+
+// ========================================================================================
+// Errors
+// ========================================================================================
+
+/**
+ * Thrown while parsing or evaluating a single expression.
+ * `position` is the zero-based offset into the expression source.
+ */
+export class ExpressionError extends Error {
+  public readonly position: number;
+  public readonly reason: string;
+
+  constructor(reason: string, position: number) {
+    super(`${reason} at position ${String(position)}`);
+    this.name = 'ExpressionError';
+    this.position = position;
+    this.reason = reason;
+  }
+}
+
+/**
+ * A template error located by one-based line and column.
+ * `syntax` errors stop compilation, `runtime` errors null out one field.
+ */
+export class TransformationError extends Error {
+  public readonly kind: 'syntax' | 'runtime';
+  public readonly line: number;
+  public readonly column: number;
+  /** The message without the location suffix */
+  public readonly reason: string;
+
+  constructor(
+    kind: 'syntax' | 'runtime',
+    reason: string,
+    line: number,
+    column: number
+  ) {
+    super(`${reason} (line ${String(line)}, column ${String(column)})`);
+    this.name = 'TransformationError';
+    this.kind = kind;
+    this.line = line;
+    this.column = column;
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { resolveSecretInput } from '../webhook';
+
+describe('resolveSecretInput', () => {
+  it('sends a typed secret', () => {
+    expect(resolveSecretInput('whsec_0123456789abcdef')).toBe(
+      'whsec_0123456789abcdef'
+    );
+    expect(resolveSecretInput('whsec_new_0123456789', 'whsec_old')).toBe(
+      'whsec_new_0123456789'
+    );
+  });
+
+  it('removes a secret the user cleared while editing', () => {
+    expect(resolveSecretInput('', 'whsec_0123456789abcdef')).toBeNull();
+  });
+
+  it('leaves the secret out when there was none to begin with', () => {
+    expect(resolveSecretInput('')).toBeUndefined();
+    expect(resolveSecretInput('', null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// ========================================================================================
+// Custom Time Range Schema
+// ========================================================================================
+
+// datetime-local input values
+export const customTimeRangeSchema = z
+  .object({
+    from: z.string().min(1, 'Choose a start time'),
+    to: z.string().min(1, 'Choose an end time'),
+  })
+  .refine((data) => new Date(data.from) < new Date(data.to), {
+    message: 'End of the range must be after the start',
+    path: ['to'],
+  })
+  .refine((data) => new Date(data.from) <= new Date(), {
+    message: 'Start of the range cannot be in the future',
+    path: ['from'],
+  });
+
+export type CustomTimeRangeFormData = z.infer<typeof customTimeRangeSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+// Expiry choices offered when creating a key
+export const apiKeyExpiryOptions = ['never', '30d', '90d', '365d'] as const;
+
+// ========================================================================================
+// API Key Schema
+// ========================================================================================
+
+export const apiKeyFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Key name is required')
+    .max(100, 'Key name must be less than 100 characters'),
+  scopes: z.array(z.string()).min(1, 'Select at least one scope'),
+  expiresIn: z.enum(apiKeyExpiryOptions),
+});
+
+export type ApiKeyFormData = z.infer<typeof apiKeyFormSchema>;
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import type { ArrayKeyRule, ChangeRules } from '../changeRules';
+import { validateJSONPath } from '../jsonpath';
+import { parseLines } from './webhook';
+
+export const changeScopes = ['body', 'paths'] as const;
+
+/**
+ * Parse "$.items: id" lines into array key rules
+ * Returns null if any line is malformed
+ */
+export function parseArrayKeyLines(text: string): ArrayKeyRule[] | null {
+  const rules: ArrayKeyRule[] = [];
+
+  for (const line of parseLines(text)) {
+    // Split on the last colon so filter expressions in the path survive
+    const separator = line.lastIndexOf(':');
+    if (separator <= 0) return null;
+
+    const path = line.slice(0, separator).trim();
+    const key = line.slice(separator + 1).trim();
+    if (!path.startsWith('$') || !key) return null;
+
+    rules.push({ path, key });
+  }
+
+  return rules;
+}
+
+/**
+ * Format array key rules as "$.items: id" lines
+ */
+export function formatArrayKeyLines(rules: ArrayKeyRule[]): string {
+  return rules.map((rule) => `${rule.path}: ${rule.key}`).join('\n');
+}
+
+function invalidPaths(paths: string[]): string[] {
+  return paths.filter((path) => !validateJSONPath(path).valid);
+}
+
+// ========================================================================================
+// Change Rules Schema
+// ========================================================================================
+
+export const changeRulesFormSchema = z
+  .object({
+    scope: z.enum(changeScopes),
+    trackedPaths: z.string(),
+    ignoredFields: z.string(),
+    arrayKeys: z
+      .string()
+      .refine(
+        (text) => parseArrayKeyLines(text) !== null,
+        'Use one "$.path.to.array: keyField" pair per line'
+      ),
+  })
+  .superRefine((values, ctx) => {
+    const tracked = parseLines(values.trackedPaths);
+    if (values.scope === 'paths' && tracked.length === 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['trackedPaths'],
+        message: 'Add at least one JSONPath to track',
+      });
+    }
+
+    const checks = [
+      { field: 'trackedPaths', paths: tracked },
+      {
+        field: 'ignoredFields',
+        paths: parseLines(values.ignoredFields).filter((field) =>
+          field.startsWith('$')
+        ),
+      },
+      {
+        field: 'arrayKeys',
+        paths: (parseArrayKeyLines(values.arrayKeys) ?? []).map(
+          (rule) => rule.path
+        ),
+      },
+    ] as const;
+
+    for (const { field, paths } of checks) {
+      const invalid = invalidPaths(paths);
+      if (invalid.length > 0) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [field],
+          message: `Invalid JSONPath: ${invalid.join(', ')}`,
+        });
+      }
+    }
+  });
+
+export type ChangeRulesFormData = z.infer<typeof changeRulesFormSchema>;
+
+/**
+ * Form values for a set of rules
+ */
+export function toChangeRulesFormValues(
+  rules: ChangeRules
+): ChangeRulesFormData {
+  return {
+    scope: rules.scope,
+    trackedPaths: rules.trackedPaths.join('\n'),
+    ignoredFields: rules.ignoredFields.join('\n'),
+    arrayKeys: formatArrayKeyLines(rules.arrayKeys),
+  };
+}
+
+/**
+ * Rules from form values; malformed array key lines are dropped so a
+ * half-typed form can still drive the preview
+ */
+export function toChangeRules(values: ChangeRulesFormData): ChangeRules {
+  return {
+    scope: values.scope,
+    trackedPaths: parseLines(values.trackedPaths),
+    ignoredFields: parseLines(values.ignoredFields),
+    arrayKeys: parseArrayKeyLines(values.arrayKeys) ?? [],
+  };
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { backoffStrategies, isHttpUrl, parseHeaderLines } from './webhook';
+
+// Options that match the ApiTargetDraft interface
+export const httpMethods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'] as const;
+
+export const authTypes = ['none', 'bearer', 'basic', 'apikey'] as const;
+
+// ========================================================================================
+// Monitor Validation Schema
+// ========================================================================================
+
+export const monitorFormSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Endpoint name is required')
+      .max(100, 'Endpoint name must be less than 100 characters'),
+    url: z
+      .string()
+      .min(1, 'Endpoint URL is required')
+      .refine(isHttpUrl, 'Please enter a valid http(s) URL'),
+    method: z.enum(httpMethods),
+    pollingInterval: z
+      .number('Polling interval must be a number')
+      .int('Polling interval must be a whole number of seconds')
+      .min(10, 'Polling interval must be at least 10 seconds')
+      .max(86400, 'Polling interval must be at most 24 hours'),
+    headers: z
+      .string()
+      .refine(
+        (text) => parseHeaderLines(text) !== null,
+        'Use one "Header-Name: value" pair per line'
+      ),
+    authentication: z.object({
+      type: z.enum(authTypes),
+      token: z.string(),
+      username: z.string(),
+      password: z.string(),
+      headerName: z.string(),
+      apiKey: z.string(),
+    }),
+    timeout: z
+      .number('Timeout must be a number')
+      .int('Timeout must be a whole number of milliseconds')
+      .min(100, 'Timeout must be at least 100ms')
+      .max(60000, 'Timeout must be at most 60 seconds'),
+    retryConfig: z.object({
+      maxRetries: z
+        .number('Max retries must be a number')
+        .int('Max retries must be a whole number')
+        .min(0, 'Max retries cannot be negative')
+        .max(10, 'Max retries must be 10 or less'),
+      backoffStrategy: z.enum(backoffStrategies),
+    }),
+  })
+  .superRefine(({ authentication }, ctx) => {
+    // Require the credentials that belong to the selected auth type
+    const required: Record<
+      (typeof authTypes)[number],
+      (keyof typeof authentication)[]
+    > = {
+      none: [],
+      bearer: ['token'],
+      basic: ['username', 'password'],
+      apikey: ['headerName', 'apiKey'],
+    };
+
+    for (const field of required[authentication.type]) {
+      if (!authentication[field].trim()) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['authentication', field],
+          message: 'This field is required for the selected authentication',
+        });
+      }
+    }
+  });
+
+export type MonitorFormData = z.infer<typeof monitorFormSchema>;
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { OrganizationNameGenerator } from '@/store/onboarding/organizationGenerator';
+import { backoffStrategies, parseDelayList } from './webhook';
+
+// Bare hostname such as "acme.com" or "eu.acme.io", without protocol or path
+const DOMAIN_REGEX =
+  /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+// ========================================================================================
+// General Settings Schema
+// ========================================================================================
+
+export const organizationGeneralSchema = z.object({
+  // Same rules as naming the organization during onboarding
+  name: z.string().superRefine((name, ctx) => {
+    const { errors } = OrganizationNameGenerator.validateOrganizationName(name);
+    for (const message of errors) {
+      ctx.addIssue({ code: 'custom', message });
+    }
+  }),
+  domain: z
+    .string()
+    .trim()
+    .refine(
+      (domain) => domain.length === 0 || DOMAIN_REGEX.test(domain),
+      'Enter a domain like acme.com, without https:// or a path'
+    ),
+});
+
+export type OrganizationGeneralFormData = z.infer<
+  typeof organizationGeneralSchema
+>;
+
+// ========================================================================================
+// Defaults Schema
+// ========================================================================================
+
+export const organizationDefaultsSchema = z.object({
+  timezone: z.string().min(1, 'Select a timezone'),
+  pollingInterval: z
+    .number('Polling interval must be a number')
+    .int('Polling interval must be a whole number of seconds')
+    .min(10, 'Polling interval must be at least 10 seconds')
+    .max(86400, 'Polling interval must be at most 24 hours'),
+  retryPolicy: z.object({
+    maxRetries: z
+      .number('Max retries must be a number')
+      .int('Max retries must be a whole number')
+      .min(0, 'Max retries cannot be negative')
+      .max(10, 'Max retries must be 10 or less'),
+    backoffStrategy: z.enum(backoffStrategies),
+    retryDelays: z
+      .string()
+      .refine(
+        (text) => parseDelayList(text) !== null,
+        'Use comma-separated delays in milliseconds, e.g. 1000, 5000'
+      ),
+  }),
+});
+
+export type OrganizationDefaultsFormData = z.infer<
+  typeof organizationDefaultsSchema
+>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// Delivery statuses an event can be redelivered from
+export const redeliverableStatuses = [
+  'failed',
+  'circuit-open',
+  'retrying',
+  'success',
+] as const;
+
+// ========================================================================================
+// Bulk Redelivery Filter Schema
+// ========================================================================================
+
+export const redeliveryFilterSchema = z
+  .object({
+    statuses: z
+      .array(z.enum(redeliverableStatuses))
+      .min(1, 'Select at least one status'),
+    endpoint: z.string().max(2048, 'Endpoint filter is too long'),
+    // datetime-local input values; empty means unbounded
+    from: z.string(),
+    to: z.string(),
+  })
+  .refine(
+    (data) =>
+      !data.from || !data.to || new Date(data.from) <= new Date(data.to),
+    {
+      message: 'End of the range must be after the start',
+      path: ['to'],
+    }
+  );
+
+export type RedeliveryFilterFormData = z.infer<typeof redeliveryFilterSchema>;
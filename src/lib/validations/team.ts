@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// ========================================================================================
+// Invite Member Schema
+// ========================================================================================
+
+export const inviteMemberSchema = z.object({
+  email: z.email('Invalid email address'),
+  // Ownership is transferred separately, never granted by invitation
+  role: z.enum(['admin', 'developer', 'viewer']),
+});
+
+export type InviteMemberFormData = z.infer<typeof inviteMemberSchema>;
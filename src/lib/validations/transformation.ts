@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// ========================================================================================
+// Transformation Details Schema
+// ========================================================================================
+
+export const transformationFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Transformation name is required')
+    .max(100, 'Transformation name must be less than 100 characters'),
+  description: z
+    .string()
+    .max(500, 'Description must be less than 500 characters'),
+});
+
+export type TransformationFormData = z.infer<typeof transformationFormSchema>;
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+
+// Backoff strategies that match the WebhookDraft interface
+export const backoffStrategies = ['exponential', 'linear', 'fixed'] as const;
+
+// ========================================================================================
+// Text Field Helpers
+// ========================================================================================
+
+/**
+ * Split multi-line textarea input into trimmed, non-empty lines
+ */
+export function parseLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Parse "Header-Name: value" lines into a header map
+ * Returns null if any line is malformed
+ */
+export function parseHeaderLines(text: string): Record<string, string> | null {
+  const headers: Record<string, string> = {};
+
+  for (const line of parseLines(text)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return null;
+
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (!/^[A-Za-z0-9-]+$/.test(key)) return null;
+
+    headers[key] = value;
+  }
+
+  return headers;
+}
+
+/**
+ * Format a header map as "Header-Name: value" lines
+ */
+export function formatHeaderLines(
+  headers: Record<string, string> = {}
+): string {
+  return Object.entries(headers)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Parse a comma-separated list of millisecond delays
+ * Returns null if any entry is not a positive integer
+ */
+export function parseDelayList(text: string): number[] | null {
+  const entries = text
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  const delays = entries.map(Number);
+  if (delays.some((delay) => !Number.isInteger(delay) || delay <= 0)) {
+    return null;
+  }
+
+  return delays;
+}
+
+/**
+ * Signing secret to send for the form's secret field: the typed secret, null
+ * when the user cleared a secret the webhook already had, or undefined to
+ * leave it out
+ */
+export function resolveSecretInput(
+  secret: string,
+  previousSecret?: string | null
+): string | null | undefined {
+  if (secret) return secret;
+  return previousSecret ? null : undefined;
+}
+
+/**
+ * Validate that a URL uses http or https
+ */
+export function isHttpUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return ['http:', 'https:'].includes(parsed.protocol);
+  } catch {
+    return false;
+  }
+}
+
+// ========================================================================================
+// Webhook Validation Schema
+// ========================================================================================
+
+export const webhookFormSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Webhook name is required')
+    .max(100, 'Webhook name must be less than 100 characters'),
+  url: z
+    .string()
+    .min(1, 'Destination URL is required')
+    .refine(isHttpUrl, 'Please enter a valid http(s) URL'),
+  events: z.array(z.string()).min(1, 'Select at least one event'),
+  secret: z
+    .string()
+    .refine(
+      (secret) => secret.length === 0 || secret.length >= 16,
+      'Secret must be at least 16 characters'
+    ),
+  active: z.boolean(),
+  retryConfig: z.object({
+    maxRetries: z
+      .number('Max retries must be a number')
+      .int('Max retries must be a whole number')
+      .min(0, 'Max retries cannot be negative')
+      .max(10, 'Max retries must be 10 or less'),
+    backoffStrategy: z.enum(backoffStrategies),
+    retryDelays: z
+      .string()
+      .refine(
+        (text) => parseDelayList(text) !== null,
+        'Use comma-separated delays in milliseconds, e.g. 1000, 5000'
+      ),
+  }),
+  filters: z.object({
+    headers: z
+      .string()
+      .refine(
+        (text) => parseHeaderLines(text) !== null,
+        'Use one "Header-Name: value" pair per line'
+      ),
+    bodyPatterns: z.string(),
+  }),
+});
+
+export type WebhookFormData = z.infer<typeof webhookFormSchema>;
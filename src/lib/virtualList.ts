@@ -0,0 +1,70 @@
+/**
+ * Layout math for virtualized lists with variable row heights
+ * Rows are positioned from running totals of their heights; heights start as
+ * estimates and are replaced by measurements once rows have rendered.
+ */
+
+export interface VirtualRange {
+  /** First row to render */
+  start: number;
+  /** One past the last row to render */
+  end: number;
+}
+
+/**
+ * Top edge of every row, followed by the total height of the list
+ */
+export function computeOffsets(heights: readonly number[]): number[] {
+  const offsets = new Array<number>(heights.length + 1);
+  offsets[0] = 0;
+  for (let index = 0; index < heights.length; index++) {
+    offsets[index + 1] = (offsets[index] ?? 0) + (heights[index] ?? 0);
+  }
+  return offsets;
+}
+
+/**
+ * Index of the row that contains `offset`, clamped to the list
+ */
+export function findRowAtOffset(
+  offsets: readonly number[],
+  offset: number
+): number {
+  const rowCount = offsets.length - 1;
+  if (rowCount <= 0) return 0;
+
+  // Last row whose top edge is at or above the offset
+  let low = 0;
+  let high = rowCount - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if ((offsets[middle] ?? 0) <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Rows that intersect the viewport, widened by `overscan` rows on each side
+ * so fast scrolling doesn't reveal blank space before the next render
+ */
+export function getVisibleRange(
+  offsets: readonly number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 0
+): VirtualRange {
+  const rowCount = offsets.length - 1;
+  if (rowCount <= 0) return { start: 0, end: 0 };
+
+  const first = findRowAtOffset(offsets, scrollTop);
+  const last = findRowAtOffset(offsets, scrollTop + viewportHeight);
+
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(rowCount, last + 1 + overscan),
+  };
+}
@@ -1,14 +1,240 @@
+import { ArrowUp, Pause, Play, RotateCcw } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Can } from '@/components/auth/Can';
+import {
+  BulkRedeliveryDialog,
+  RedeliveryProgressDialog,
+} from '@/components/events';
+import { EventTimeline, type WebhookEvent } from '@/components/rockethooks';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Label } from '@/components/ui/Label';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { Switch } from '@/components/ui/Switch';
+import { useEventHistory } from '@/hooks/useEventHistory';
+import { useEventStream } from '@/hooks/useEventStream';
+import { usePermission } from '@/hooks/usePermission';
+import { type RedeliveryTarget, useRedelivery } from '@/hooks/useRedelivery';
+import {
+  EventService,
+  MAX_REDELIVERY_BATCH,
+  type WebhookEventFilter,
+} from '@/services/graphql/events';
 import { DashboardPage } from '@/shared/components/PageLayout';
 
+// Distance from the top (px) within which the stream counts as "at the top"
+const TOP_THRESHOLD = 24;
+
 export function ActivityPage() {
+  const { events, pendingCount, isPaused, isConnecting, error, pause, resume } =
+    useEventStream();
+  const history = useEventHistory();
+  const navigate = useNavigate();
+  const redelivery = useRedelivery();
+  const canRedeliver = usePermission('events:redeliver');
+  const [isBulkOpen, setIsBulkOpen] = useState(false);
+  const [isProgressOpen, setIsProgressOpen] = useState(false);
+  const [progressTitle, setProgressTitle] = useState('');
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [autoScroll, setAutoScroll] = useState(true);
+  const [isAtTop, setIsAtTop] = useState(true);
+  const [lastSeenId, setLastSeenId] = useState<string | null>(null);
+
+  const newestId = events[0]?.id ?? null;
+
+  // Live events on top of the loaded history; an event can be in both when it
+  // arrives while the first page is loading
+  const timelineEvents = useMemo(() => {
+    const liveIds = new Set(events.map((event) => event.id));
+    return [
+      ...events,
+      ...history.events.filter((event) => !liveIds.has(event.id)),
+    ];
+  }, [events, history.events]);
+
+  const scrollToTop = useCallback(() => {
+    scrollRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  }, []);
+
+  // Follow the newest event when auto-scroll is on and the user is at the top
+  useEffect(() => {
+    if (!newestId) return;
+    if (autoScroll && isAtTop) {
+      setLastSeenId(newestId);
+      scrollToTop();
+    }
+  }, [newestId, autoScroll, isAtTop, scrollToTop]);
+
+  // Events newer than the last one the user saw at the top of the list; until
+  // one is seen, every streamed event is new
+  const lastSeenIndex = lastSeenId
+    ? events.findIndex((event) => event.id === lastSeenId)
+    : -1;
+  const unseenCount =
+    (lastSeenIndex === -1 ? events.length : lastSeenIndex) + pendingCount;
+
+  const handleShowNew = () => {
+    if (isPaused) resume();
+    setLastSeenId(newestId);
+    scrollToTop();
+  };
+
+  const handleScroll = () => {
+    const scrollTop = scrollRef.current?.scrollTop ?? 0;
+    const atTop = scrollTop <= TOP_THRESHOLD;
+    setIsAtTop(atTop);
+    if (atTop && !isPaused) setLastSeenId(newestId);
+  };
+
+  const startRedelivery = (title: string, targets: RedeliveryTarget[]) => {
+    redelivery.start(targets);
+    setProgressTitle(title);
+    setIsProgressOpen(true);
+  };
+
+  const handleReplay = (event: WebhookEvent) => {
+    startRedelivery('Replaying event', [
+      { id: event.id, endpoint: event.endpoint },
+    ]);
+  };
+
+  const handleBulkRedeliver = async (filter: WebhookEventFilter) => {
+    try {
+      const { events: records, truncated } =
+        await EventService.listWebhookEvents(filter);
+      if (records.length === 0) {
+        toast.info('No events match these filters');
+        return;
+      }
+      if (truncated) {
+        toast.warning(
+          `More than ${String(MAX_REDELIVERY_BATCH)} events match these filters. Only the newest ${String(MAX_REDELIVERY_BATCH)} will be redelivered.`
+        );
+      }
+      setIsBulkOpen(false);
+      startRedelivery(
+        `Redelivering ${String(records.length)} event${records.length !== 1 ? 's' : ''}`,
+        records.map((record) => ({
+          id: record.id,
+          endpoint: record.endpoint,
+          webhookId: record.webhookId,
+        }))
+      );
+    } catch (listError) {
+      toast.error(
+        listError instanceof Error
+          ? listError.message
+          : 'Failed to find events to redeliver'
+      );
+    }
+  };
+
+  const streamStatus = isPaused
+    ? { label: 'Paused', variant: 'secondary' as const }
+    : isConnecting
+      ? { label: 'Connecting', variant: 'warning' as const }
+      : error
+        ? { label: 'Disconnected', variant: 'destructive' as const }
+        : { label: 'Live', variant: 'success' as const };
+
   return (
     <DashboardPage
       title="Activity"
       description="Recent activity and event logs"
+      actions={
+        <>
+          <Badge variant={streamStatus.variant}>{streamStatus.label}</Badge>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="activity-auto-scroll"
+              checked={autoScroll}
+              onCheckedChange={setAutoScroll}
+            />
+            <Label htmlFor="activity-auto-scroll">Auto-scroll</Label>
+          </div>
+          <Button variant="outline" onClick={isPaused ? resume : pause}>
+            {isPaused ? <Play /> : <Pause />}
+            {isPaused ? 'Resume' : 'Pause'}
+          </Button>
+          <Can permission="events:redeliver">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setIsBulkOpen(true);
+              }}
+            >
+              <RotateCcw />
+              Redeliver
+            </Button>
+          </Can>
+        </>
+      }
     >
-      <div className="text-center text-muted-foreground">
-        Activity page - Coming soon!
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Live stream unavailable</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {history.error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Could not load event history</AlertTitle>
+          <AlertDescription>{history.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="relative">
+        {unseenCount > 0 && (
+          <div className="absolute inset-x-0 top-2 z-20 flex justify-center">
+            <Button size="sm" className="shadow-md" onClick={handleShowNew}>
+              <ArrowUp />
+              {unseenCount} new event{unseenCount !== 1 ? 's' : ''}
+            </Button>
+          </div>
+        )}
+
+        {history.isLoading && timelineEvents.length === 0 ? (
+          <SkeletonGroup.Text lines={6} />
+        ) : (
+          <EventTimeline
+            events={timelineEvents}
+            view="detailed"
+            scrollRef={scrollRef}
+            onScroll={handleScroll}
+            className="max-h-[calc(100vh-16rem)] pr-2"
+            onEventClick={(event) => {
+              void navigate(`/activity/${event.id}`);
+            }}
+            {...(canRedeliver && { onReplay: handleReplay })}
+            onLoadMore={() => void history.loadMore()}
+            hasMore={history.hasMore}
+            isLoadingMore={history.isLoadingMore}
+          />
+        )}
       </div>
+
+      <BulkRedeliveryDialog
+        open={isBulkOpen}
+        onOpenChange={setIsBulkOpen}
+        onSubmit={handleBulkRedeliver}
+      />
+
+      <RedeliveryProgressDialog
+        open={isProgressOpen}
+        onOpenChange={setIsProgressOpen}
+        title={progressTitle}
+        items={redelivery.items}
+        isRunning={redelivery.isRunning}
+        progress={redelivery.progress}
+        counts={redelivery.counts}
+        pendingRetry={redelivery.pendingRetry}
+        onCancel={redelivery.cancel}
+      />
     </DashboardPage>
   );
 }
@@ -1,14 +1,361 @@
+import { useQuery } from '@apollo/client';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import { type ReactNode, useMemo, useState } from 'react';
+import {
+  MetricsBreakdownTable,
+  MetricTile,
+  TimeRangePicker,
+} from '@/components/analytics';
+import { MetricChart } from '@/components/rockethooks';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import { getAxisDateFormat, type TimeRange } from '@/lib/timeRange';
+import {
+  bucketSuccessRate,
+  GET_DASHBOARD_DATA_QUERY,
+  type GetDashboardDataResponse,
+  type GetDashboardDataVariables,
+  getMetricDelta,
+  type MetricsBreakdown,
+  toDashboardVariables,
+} from '@/services/graphql/analytics';
 import { DashboardPage } from '@/shared/components/PageLayout';
 
+type BreakdownDimension = 'webhook' | 'endpoint';
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  children: ReactNode;
+}
+
+function ChartCard({ title, description, children }: ChartCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+function formatMs(value: number): string {
+  return `${String(Math.round(value))}ms`;
+}
+
+function formatPercent(value: number): string {
+  return `${String(Number(value.toFixed(1)))}%`;
+}
+
 export function AnalyticsPage() {
+  const [range, setRange] = useState<TimeRange>({ preset: '24h' });
+  const [dimension, setDimension] = useState<BreakdownDimension>('webhook');
+  const [selected, setSelected] = useState<{
+    dimension: BreakdownDimension;
+    row: MetricsBreakdown;
+  } | null>(null);
+
+  const { data, loading, error } = useQuery<
+    GetDashboardDataResponse,
+    GetDashboardDataVariables
+  >(GET_DASHBOARD_DATA_QUERY, { variables: toDashboardVariables(range) });
+
+  const dashboard = data?.getDashboardData;
+
+  const charts = useMemo(() => {
+    // Charts follow the selected webhook or endpoint, or all traffic
+    const buckets =
+      selected?.row.activityChart ?? dashboard?.activityChart ?? [];
+    const dateFormat = getAxisDateFormat(range);
+    return {
+      labels: buckets.map((bucket) =>
+        format(new Date(bucket.timestamp), dateFormat)
+      ),
+      successful: buckets.map((bucket) => bucket.successCount),
+      failed: buckets.map((bucket) => bucket.errorCount),
+      successRate: buckets.map(bucketSuccessRate),
+      p50: buckets.map((bucket) => bucket.p50ResponseTime),
+      p95: buckets.map((bucket) => bucket.p95ResponseTime),
+      p99: buckets.map((bucket) => bucket.p99ResponseTime),
+      retries: buckets.map((bucket) => bucket.retryCount),
+    };
+  }, [selected, dashboard, range]);
+
+  const handleRangeChange = (next: TimeRange) => {
+    setRange(next);
+    // The selected row may not exist in the new range
+    setSelected(null);
+  };
+
+  const handleSelect = (row: MetricsBreakdown) => {
+    setSelected((current) =>
+      current?.row.key === row.key ? null : { dimension, row }
+    );
+  };
+
+  const metrics = dashboard?.metrics;
+  const previous = dashboard?.previousMetrics;
+  const overallTrend = (dashboard?.activityChart ?? []).map(
+    (bucket) => bucket.apiCalls
+  );
+
   return (
     <DashboardPage
       title="Analytics"
-      description="View detailed analytics and performance metrics"
+      description="Delivery volume, reliability and latency over time"
+      actions={<TimeRangePicker value={range} onChange={handleRangeChange} />}
     >
-      <div className="text-center text-muted-foreground">
-        Analytics page - Coming soon!
-      </div>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Could not load analytics</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !dashboard ? (
+        <SkeletonGroup.Card />
+      ) : (
+        dashboard &&
+        metrics && (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              <MetricTile
+                label="Events"
+                value={metrics.totalApiCalls.toLocaleString()}
+                delta={{
+                  value: getMetricDelta(
+                    metrics.totalApiCalls,
+                    previous?.totalApiCalls
+                  ),
+                  unit: 'percent',
+                }}
+                trend={overallTrend}
+              />
+              <MetricTile
+                label="Success rate"
+                value={formatPercent(metrics.successRate)}
+                delta={{
+                  value: getMetricDelta(
+                    metrics.successRate,
+                    previous?.successRate,
+                    'points'
+                  ),
+                  unit: 'points',
+                }}
+                trend={dashboard.activityChart
+                  .map(bucketSuccessRate)
+                  .filter((rate): rate is number => rate !== null)}
+                color="text-success"
+              />
+              <MetricTile
+                label="p95 latency"
+                value={formatMs(metrics.p95ResponseTime)}
+                delta={{
+                  value: getMetricDelta(
+                    metrics.p95ResponseTime,
+                    previous?.p95ResponseTime
+                  ),
+                  unit: 'percent',
+                  lowerIsBetter: true,
+                }}
+                trend={dashboard.activityChart
+                  .map((bucket) => bucket.p95ResponseTime)
+                  .filter((value): value is number => value !== null)}
+                color="text-info"
+              />
+              <MetricTile
+                label="Retries"
+                value={metrics.totalRetries.toLocaleString()}
+                delta={{
+                  value: getMetricDelta(
+                    metrics.totalRetries,
+                    previous?.totalRetries
+                  ),
+                  unit: 'percent',
+                  lowerIsBetter: true,
+                }}
+                trend={dashboard.activityChart.map(
+                  (bucket) => bucket.retryCount
+                )}
+                color="text-warning"
+              />
+            </div>
+
+            {selected && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Showing</span>
+                <Badge variant="secondary">
+                  {selected.dimension === 'webhook' ? 'Webhook' : 'Endpoint'}:{' '}
+                  {selected.row.label}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setSelected(null);
+                  }}
+                >
+                  <X />
+                  Show all traffic
+                </Button>
+              </div>
+            )}
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <ChartCard
+                title="Event volume"
+                description="Deliveries per interval by outcome"
+              >
+                <MetricChart
+                  type="bar"
+                  stacked
+                  labels={charts.labels}
+                  series={[
+                    {
+                      key: 'successful',
+                      label: 'Delivered',
+                      values: charts.successful,
+                      color: 'text-success',
+                    },
+                    {
+                      key: 'failed',
+                      label: 'Failed',
+                      values: charts.failed,
+                      color: 'text-destructive',
+                    },
+                  ]}
+                />
+              </ChartCard>
+
+              <ChartCard
+                title="Success rate"
+                description="Share of deliveries that succeeded"
+              >
+                <MetricChart
+                  labels={charts.labels}
+                  series={[
+                    {
+                      key: 'successRate',
+                      label: 'Success rate',
+                      values: charts.successRate,
+                      color: 'text-success',
+                    },
+                  ]}
+                  maxValue={100}
+                  formatValue={formatPercent}
+                />
+              </ChartCard>
+
+              <ChartCard
+                title="Latency"
+                description="Response time percentiles"
+              >
+                <MetricChart
+                  labels={charts.labels}
+                  series={[
+                    {
+                      key: 'p50',
+                      label: 'p50',
+                      values: charts.p50,
+                      color: 'text-info',
+                    },
+                    {
+                      key: 'p95',
+                      label: 'p95',
+                      values: charts.p95,
+                      color: 'text-warning',
+                    },
+                    {
+                      key: 'p99',
+                      label: 'p99',
+                      values: charts.p99,
+                      color: 'text-destructive',
+                    },
+                  ]}
+                  formatValue={formatMs}
+                />
+              </ChartCard>
+
+              <ChartCard
+                title="Retries"
+                description="Redelivery attempts per interval"
+              >
+                <MetricChart
+                  type="bar"
+                  labels={charts.labels}
+                  series={[
+                    {
+                      key: 'retries',
+                      label: 'Retries',
+                      values: charts.retries,
+                      color: 'text-warning',
+                    },
+                  ]}
+                />
+              </ChartCard>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Breakdown</CardTitle>
+                <CardDescription>
+                  Select a row to chart it on its own
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs
+                  value={dimension}
+                  onValueChange={(value) => {
+                    setDimension(value as BreakdownDimension);
+                  }}
+                >
+                  <TabsList>
+                    <TabsTrigger value="webhook">Webhooks</TabsTrigger>
+                    <TabsTrigger value="endpoint">Endpoints</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="webhook">
+                    <MetricsBreakdownTable
+                      rows={dashboard.webhookBreakdown}
+                      labelHeading="Webhook"
+                      selectedKey={
+                        selected?.dimension === 'webhook'
+                          ? selected.row.key
+                          : null
+                      }
+                      onSelect={handleSelect}
+                    />
+                  </TabsContent>
+                  <TabsContent value="endpoint">
+                    <MetricsBreakdownTable
+                      rows={dashboard.endpointBreakdown}
+                      labelHeading="Endpoint"
+                      selectedKey={
+                        selected?.dimension === 'endpoint'
+                          ? selected.row.key
+                          : null
+                      }
+                      onSelect={handleSelect}
+                    />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </div>
+        )
+      )}
     </DashboardPage>
   );
 }
@@ -1,14 +1,236 @@
+import { useQuery } from '@apollo/client';
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Can } from '@/components/auth/Can';
+import {
+  ChangeRulesDialog,
+  EndpointFormDialog,
+  EndpointTestDialog,
+} from '@/components/endpoints';
+import { APIConnectionCard } from '@/components/rockethooks';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { usePermission } from '@/hooks/usePermission';
+import type { ChangeRules } from '@/lib/changeRules';
+import {
+  type CreateMonitorInput,
+  type EndpointTestResult,
+  LIST_MONITORS_QUERY,
+  type ListMonitorsResponse,
+  type Monitor,
+  MonitorService,
+} from '@/services/graphql/monitors';
 import { DashboardPage } from '@/shared/components/PageLayout';
 
+const SKELETON_KEYS = ['first', 'second', 'third'];
+
 export function EndpointsPage() {
+  const { data, loading, error } =
+    useQuery<ListMonitorsResponse>(LIST_MONITORS_QUERY);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingMonitor, setEditingMonitor] = useState<Monitor | null>(null);
+  const [testingMonitor, setTestingMonitor] = useState<Monitor | null>(null);
+  const [testResult, setTestResult] = useState<EndpointTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [rulesMonitor, setRulesMonitor] = useState<Monitor | null>(null);
+
+  const canWrite = usePermission('endpoints:write');
+
+  const monitors = data?.listMonitors ?? [];
+
+  const openCreate = () => {
+    setEditingMonitor(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = async (monitor: Monitor) => {
+    try {
+      // The form shows the current credentials, which the list leaves out
+      const authentication = await MonitorService.getMonitorAuthentication(
+        monitor.id
+      );
+      setEditingMonitor({ ...monitor, authentication });
+      setIsFormOpen(true);
+    } catch (loadError) {
+      toast.error(
+        loadError instanceof Error
+          ? loadError.message
+          : 'Failed to load endpoint'
+      );
+    }
+  };
+
+  const handleSubmit = async (input: CreateMonitorInput) => {
+    try {
+      if (editingMonitor) {
+        await MonitorService.updateMonitor(editingMonitor.id, input);
+        toast.success(`Endpoint "${input.name}" updated`);
+      } else {
+        await MonitorService.createMonitor(input);
+        toast.success(`Endpoint "${input.name}" added`);
+      }
+      setIsFormOpen(false);
+    } catch (submitError) {
+      toast.error(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Failed to save endpoint'
+      );
+    }
+  };
+
+  const runTest = async (monitor: Monitor) => {
+    setIsTesting(true);
+    try {
+      const result = await MonitorService.testMonitor(monitor.id);
+      setTestResult(result);
+    } catch (testError) {
+      toast.error(
+        testError instanceof Error ? testError.message : 'Test failed'
+      );
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const openTest = (monitor: Monitor) => {
+    setTestingMonitor(monitor);
+    setTestResult(null);
+    void runTest(monitor);
+  };
+
+  const handleSaveRules = async (changeRules: ChangeRules) => {
+    if (!rulesMonitor) return;
+    try {
+      await MonitorService.updateMonitor(rulesMonitor.id, { changeRules });
+      toast.success(`Change rules for "${rulesMonitor.name}" saved`);
+      setRulesMonitor(null);
+    } catch (saveError) {
+      toast.error(
+        saveError instanceof Error
+          ? saveError.message
+          : 'Failed to save change rules'
+      );
+    }
+  };
+
+  const handleToggle = async (monitor: Monitor) => {
+    const pause = monitor.status !== 'paused';
+    try {
+      await MonitorService.setMonitorPaused(monitor.id, pause);
+      toast.success(
+        pause ? `Paused ${monitor.name}` : `Resumed ${monitor.name}`
+      );
+    } catch (toggleError) {
+      toast.error(
+        toggleError instanceof Error
+          ? toggleError.message
+          : 'Failed to update endpoint'
+      );
+    }
+  };
+
   return (
     <DashboardPage
       title="API Endpoints"
       description="Monitor and manage your API endpoints"
+      actions={
+        <Can permission="endpoints:write">
+          <Button onClick={openCreate}>
+            <Plus />
+            Add endpoint
+          </Button>
+        </Can>
+      }
     >
-      <div className="text-center text-muted-foreground">
-        API Endpoints page - Coming soon!
-      </div>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Could not load endpoints</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !data ? (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {SKELETON_KEYS.map((key) => (
+            <Card key={key}>
+              <SkeletonGroup.Card />
+            </Card>
+          ))}
+        </div>
+      ) : monitors.length === 0 ? (
+        <div className="py-12 text-center text-muted-foreground">
+          <p className="text-sm">No endpoints are being monitored yet.</p>
+          <Can permission="endpoints:write">
+            <Button variant="link" onClick={openCreate}>
+              Add your first endpoint
+            </Button>
+          </Can>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {monitors.map((monitor) => (
+            <APIConnectionCard
+              key={monitor.id}
+              name={monitor.name}
+              endpoint={monitor.url}
+              method={monitor.method}
+              status={monitor.status}
+              pollingInterval={monitor.pollingInterval}
+              lastChecked={new Date(monitor.lastCheckedAt ?? monitor.createdAt)}
+              changesDetected={monitor.changesDetected}
+              {...(monitor.successRate != null && {
+                successRate: monitor.successRate,
+              })}
+              {...(monitor.avgResponseTime != null && {
+                avgResponseTime: monitor.avgResponseTime,
+              })}
+              sparklineData={monitor.responseTimes}
+              {...(canWrite && {
+                onTest: () => {
+                  openTest(monitor);
+                },
+                onEdit: () => void openEdit(monitor),
+                onConfigureRules: () => {
+                  setRulesMonitor(monitor);
+                },
+                onToggle: () => void handleToggle(monitor),
+              })}
+            />
+          ))}
+        </div>
+      )}
+
+      <EndpointTestDialog
+        monitor={testingMonitor}
+        result={testResult}
+        isRunning={isTesting}
+        onOpenChange={(open) => {
+          if (!open) setTestingMonitor(null);
+        }}
+        onRun={() => {
+          if (testingMonitor) void runTest(testingMonitor);
+        }}
+      />
+
+      <ChangeRulesDialog
+        monitor={rulesMonitor}
+        onOpenChange={(open) => {
+          if (!open) setRulesMonitor(null);
+        }}
+        onSubmit={handleSaveRules}
+      />
+
+      <EndpointFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        monitor={editingMonitor}
+        onSubmit={handleSubmit}
+      />
     </DashboardPage>
   );
 }
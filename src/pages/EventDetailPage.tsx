@@ -0,0 +1,233 @@
+import { NetworkStatus, useQuery } from '@apollo/client';
+import { format } from 'date-fns';
+import { RotateCcw } from 'lucide-react';
+import { type ReactNode, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Can } from '@/components/auth/Can';
+import {
+  DeliveryAttempts,
+  HeadersTable,
+  JsonDiffView,
+  JsonViewer,
+  RedeliveryProgressDialog,
+} from '@/components/events';
+import { WebhookStatus } from '@/components/rockethooks';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import { useRedelivery } from '@/hooks/useRedelivery';
+import {
+  DELIVERY_ATTEMPTS_PAGE_SIZE,
+  GET_WEBHOOK_EVENT_QUERY,
+  type GetWebhookEventResponse,
+  type GetWebhookEventVariables,
+  parseJsonValue,
+} from '@/services/graphql/events';
+import { DetailPage } from '@/shared/components/PageLayout';
+
+interface SummaryItemProps {
+  label: string;
+  children: ReactNode;
+}
+
+function SummaryItem({ label, children }: SummaryItemProps) {
+  return (
+    <div className="space-y-1">
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="text-sm font-medium">{children}</dd>
+    </div>
+  );
+}
+
+export function EventDetailPage() {
+  const { eventId = '' } = useParams<{ eventId: string }>();
+  const navigate = useNavigate();
+  const redelivery = useRedelivery();
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+
+  const { data, loading, error, networkStatus, refetch, fetchMore } = useQuery<
+    GetWebhookEventResponse,
+    GetWebhookEventVariables
+  >(GET_WEBHOOK_EVENT_QUERY, {
+    variables: { id: eventId, attemptsLimit: DELIVERY_ATTEMPTS_PAGE_SIZE },
+    skip: !eventId,
+    notifyOnNetworkStatusChange: true,
+  });
+
+  const event = data?.getWebhookEvent;
+
+  const goBack = () => {
+    void navigate('/activity');
+  };
+
+  if (loading && !event) {
+    return (
+      <DetailPage title="Event" backAction={goBack}>
+        <SkeletonGroup.Card />
+      </DetailPage>
+    );
+  }
+
+  if (error || !event) {
+    return (
+      <DetailPage title="Event" backAction={goBack}>
+        <Alert variant="destructive">
+          <AlertTitle>Event unavailable</AlertTitle>
+          <AlertDescription>
+            {error?.message ?? `No event found with ID "${eventId}"`}
+          </AlertDescription>
+        </Alert>
+      </DetailPage>
+    );
+  }
+
+  const handleReplay = () => {
+    redelivery.start([
+      { id: event.id, endpoint: event.endpoint, webhookId: event.webhookId },
+    ]);
+    setIsReplayOpen(true);
+  };
+
+  const handleReplayOpenChange = (open: boolean) => {
+    setIsReplayOpen(open);
+    // Pick up the new delivery attempt once the dialog is dismissed
+    if (!open) void refetch();
+  };
+
+  const attempts = event.attempts.items;
+  const attemptsNextToken = event.attempts.nextToken;
+  const isLoadingMoreAttempts = networkStatus === NetworkStatus.fetchMore;
+  // Later pages are only counted once loaded
+  const attemptCount = `${String(attempts.length)}${attemptsNextToken ? '+' : ''}`;
+
+  const handleLoadMoreAttempts = () => {
+    if (!attemptsNextToken || isLoadingMoreAttempts) return;
+    void fetchMore({ variables: { attemptsNextToken } });
+  };
+  const previousResponse = parseJsonValue(event.previousResponse);
+  const currentResponse = parseJsonValue(event.currentResponse);
+
+  return (
+    <DetailPage
+      title={`${event.method} ${event.endpoint}`}
+      description={`Event ${event.id}`}
+      backAction={goBack}
+      customActions={
+        <Can permission="events:redeliver">
+          {(allowed) => (
+            <Button
+              onClick={handleReplay}
+              disabled={!allowed || redelivery.isRunning}
+            >
+              <RotateCcw />
+              Replay
+            </Button>
+          )}
+        </Can>
+      }
+    >
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Summary</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <SummaryItem label="Status">
+                <WebhookStatus status={event.status} />
+              </SummaryItem>
+              <SummaryItem label="Created">
+                {format(new Date(event.createdAt), 'MMM d, yyyy HH:mm:ss')}
+              </SummaryItem>
+              <SummaryItem label="HTTP status">
+                {event.statusCode ?? '—'}
+              </SummaryItem>
+              <SummaryItem label="Response time">
+                {event.responseTime != null
+                  ? `${String(event.responseTime)}ms`
+                  : '—'}
+              </SummaryItem>
+              <SummaryItem label="Attempts">
+                <Badge variant="outline">{attemptCount}</Badge>
+              </SummaryItem>
+            </dl>
+            {event.errorMessage && (
+              <Alert variant="destructive" className="mt-4">
+                <AlertTitle>Delivery error</AlertTitle>
+                <AlertDescription>{event.errorMessage}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="payload">
+          <TabsList>
+            <TabsTrigger value="payload">Payload</TabsTrigger>
+            <TabsTrigger value="headers">Headers</TabsTrigger>
+            <TabsTrigger value="response">Response</TabsTrigger>
+            <TabsTrigger value="attempts">
+              Attempts ({attemptCount})
+            </TabsTrigger>
+            <TabsTrigger value="changes">Changes</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="payload">
+            <JsonViewer
+              value={parseJsonValue(event.payload)}
+              emptyMessage="This event has no payload"
+            />
+          </TabsContent>
+
+          <TabsContent value="headers" className="space-y-6">
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Request headers</h3>
+              <HeadersTable headers={event.requestHeaders} />
+            </section>
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Response headers</h3>
+              <HeadersTable
+                headers={event.responseHeaders}
+                emptyMessage="No response received"
+              />
+            </section>
+          </TabsContent>
+
+          <TabsContent value="response">
+            <JsonViewer
+              value={parseJsonValue(event.responseBody)}
+              emptyMessage="The destination returned an empty body"
+            />
+          </TabsContent>
+
+          <TabsContent value="attempts">
+            <DeliveryAttempts
+              attempts={attempts}
+              hasMore={attemptsNextToken !== null}
+              isLoadingMore={isLoadingMoreAttempts}
+              onLoadMore={handleLoadMoreAttempts}
+            />
+          </TabsContent>
+
+          <TabsContent value="changes">
+            <JsonDiffView before={previousResponse} after={currentResponse} />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <RedeliveryProgressDialog
+        open={isReplayOpen}
+        onOpenChange={handleReplayOpenChange}
+        title="Replaying event"
+        items={redelivery.items}
+        isRunning={redelivery.isRunning}
+        progress={redelivery.progress}
+        counts={redelivery.counts}
+        pendingRetry={redelivery.pendingRetry}
+        onCancel={redelivery.cancel}
+      />
+    </DetailPage>
+  );
+}
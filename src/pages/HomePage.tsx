@@ -1,27 +1,206 @@
+import { useQuery } from '@apollo/client';
+import { useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { MetricTile } from '@/components/analytics';
+import { EndpointHealthPanel } from '@/components/endpoints';
+import { EventTimeline } from '@/components/rockethooks';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import {
+  bucketSuccessRate,
+  GET_DASHBOARD_DATA_QUERY,
+  type GetDashboardDataResponse,
+  type GetDashboardDataVariables,
+  getMetricDelta,
+} from '@/services/graphql/analytics';
+import {
+  LIST_WEBHOOK_EVENTS_QUERY,
+  type ListWebhookEventsResponse,
+  toTimelineEvent,
+} from '@/services/graphql/events';
+import {
+  LIST_MONITORS_QUERY,
+  type ListMonitorsResponse,
+} from '@/services/graphql/monitors';
+import {
+  LIST_WEBHOOKS_QUERY,
+  type ListWebhooksResponse,
+} from '@/services/graphql/webhooks';
 import { DashboardPage } from '@/shared/components/PageLayout';
 
+const RECENT_EVENT_LIMIT = 8;
+
 export function HomePage() {
+  const navigate = useNavigate();
+
+  const dashboardQuery = useQuery<
+    GetDashboardDataResponse,
+    GetDashboardDataVariables
+  >(GET_DASHBOARD_DATA_QUERY, { variables: { timeRange: '24h' } });
+  const webhooksQuery = useQuery<ListWebhooksResponse>(LIST_WEBHOOKS_QUERY);
+  const monitorsQuery = useQuery<ListMonitorsResponse>(LIST_MONITORS_QUERY);
+  const eventsQuery = useQuery<ListWebhookEventsResponse>(
+    LIST_WEBHOOK_EVENTS_QUERY,
+    { variables: { filter: {}, limit: RECENT_EVENT_LIMIT } }
+  );
+
+  const dashboard = dashboardQuery.data?.getDashboardData;
+  const webhooks = webhooksQuery.data?.listWebhooks;
+  const monitors = monitorsQuery.data?.listMonitors;
+
+  const recentEvents = useMemo(
+    () =>
+      (eventsQuery.data?.listWebhookEvents.items ?? []).map(toTimelineEvent),
+    [eventsQuery.data]
+  );
+
+  const error =
+    dashboardQuery.error ??
+    webhooksQuery.error ??
+    monitorsQuery.error ??
+    eventsQuery.error;
+
+  const metrics = dashboard?.metrics;
+  const previous = dashboard?.previousMetrics;
+  const activity = dashboard?.activityChart ?? [];
+  const activeWebhooks = webhooks?.filter((webhook) => webhook.active).length;
+
   return (
     <DashboardPage
       title="Dashboard"
       description="Overview of your RocketHooks workspace"
     >
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6">
-          <h3 className="text-2xl font-bold">24</h3>
-          <p className="text-sm text-muted-foreground">Active Webhooks</p>
-        </div>
-        <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6">
-          <h3 className="text-2xl font-bold">1,429</h3>
-          <p className="text-sm text-muted-foreground">Events Today</p>
-        </div>
-        <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6">
-          <h3 className="text-2xl font-bold">98.5%</h3>
-          <p className="text-sm text-muted-foreground">Success Rate</p>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Some dashboard data could not be loaded</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {webhooks && activeWebhooks !== undefined ? (
+            <MetricTile
+              label="Active webhooks"
+              value={activeWebhooks.toLocaleString()}
+              hint={`${String(webhooks.length - activeWebhooks)} paused`}
+            />
+          ) : (
+            <Card>
+              <SkeletonGroup.Card />
+            </Card>
+          )}
+
+          {metrics ? (
+            <>
+              <MetricTile
+                label="API calls in the last 24 hours"
+                value={metrics.totalApiCalls.toLocaleString()}
+                delta={{
+                  value: getMetricDelta(
+                    metrics.totalApiCalls,
+                    previous?.totalApiCalls
+                  ),
+                  unit: 'percent',
+                }}
+                trend={activity.map((bucket) => bucket.apiCalls)}
+              />
+              <MetricTile
+                label="Success rate"
+                value={`${metrics.successRate.toFixed(1)}%`}
+                delta={{
+                  value: getMetricDelta(
+                    metrics.successRate,
+                    previous?.successRate,
+                    'points'
+                  ),
+                  unit: 'points',
+                }}
+                trend={activity
+                  .map(bucketSuccessRate)
+                  .filter((rate): rate is number => rate !== null)}
+                color="text-success"
+              />
+              <MetricTile
+                label="Avg response time"
+                value={`${String(Math.round(metrics.averageResponseTime))}ms`}
+                delta={{
+                  value: getMetricDelta(
+                    metrics.averageResponseTime,
+                    previous?.averageResponseTime
+                  ),
+                  unit: 'percent',
+                  lowerIsBetter: true,
+                }}
+                trend={activity
+                  .map((bucket) => bucket.p50ResponseTime)
+                  .filter((value): value is number => value !== null)}
+                color="text-info"
+              />
+            </>
+          ) : (
+            Array.from({ length: 3 }, (_, index) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholders are static
+              <Card key={index}>
+                <SkeletonGroup.Card />
+              </Card>
+            ))
+          )}
         </div>
-        <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6">
-          <h3 className="text-2xl font-bold">12ms</h3>
-          <p className="text-sm text-muted-foreground">Avg Response Time</p>
+
+        <div className="grid gap-4 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader className="flex flex-row items-start justify-between">
+              <div className="space-y-1.5">
+                <CardTitle className="text-base">Recent events</CardTitle>
+                <CardDescription>Latest webhook deliveries</CardDescription>
+              </div>
+              <Button variant="link" size="sm" asChild>
+                <Link to="/activity">View all</Link>
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {eventsQuery.loading && !eventsQuery.data ? (
+                <SkeletonGroup.Text lines={RECENT_EVENT_LIMIT} />
+              ) : recentEvents.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  No events delivered yet
+                </p>
+              ) : (
+                <EventTimeline
+                  events={recentEvents}
+                  view="compact"
+                  onEventClick={(event) => {
+                    void navigate(`/activity/${event.id}`);
+                  }}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">System health</CardTitle>
+              <CardDescription>
+                Endpoints that are failing or paused by the circuit breaker
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {monitors ? (
+                <EndpointHealthPanel monitors={monitors} />
+              ) : (
+                <SkeletonGroup.Text lines={4} />
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
     </DashboardPage>
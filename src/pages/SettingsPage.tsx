@@ -1,14 +1,409 @@
+import { useQuery } from '@apollo/client';
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  ApiKeyFormDialog,
+  ApiKeySecretDialog,
+  ApiKeysTable,
+  DangerZone,
+  OrganizationDefaultsForm,
+  OrganizationGeneralForm,
+  RotateApiKeyDialog,
+} from '@/components/settings';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import { useCurrentRole, usePermission } from '@/hooks/usePermission';
+import type { OrganizationGeneralFormData } from '@/lib/validations/organization';
+import {
+  type ApiKey,
+  ApiKeyService,
+  type ApiKeyWithSecret,
+  type CreateApiKeyInput,
+  LIST_API_KEYS_QUERY,
+  type ListApiKeysResponse,
+} from '@/services/graphql/apiKeys';
+import {
+  GET_ORGANIZATION_SETTINGS_QUERY,
+  type GetOrganizationSettingsResponse,
+  type OrganizationDefaults,
+  OrganizationService,
+} from '@/services/graphql/organization';
+import {
+  GET_TEAM_QUERY,
+  type GetTeamResponse,
+  type Member,
+} from '@/services/graphql/team';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
 import { DashboardPage } from '@/shared/components/PageLayout';
+import { useAuthStore } from '@/store/auth.store';
+
+/**
+ * API keys tab - owns the key list and the create, rotate and revoke flows
+ */
+function ApiKeysTab() {
+  const { data, loading, error } =
+    useQuery<ListApiKeysResponse>(LIST_API_KEYS_QUERY);
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [rotateTarget, setRotateTarget] = useState<ApiKey | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<ApiKey | null>(null);
+  const [issued, setIssued] = useState<ApiKeyWithSecret | null>(null);
+
+  const apiKeys = data?.listApiKeys ?? [];
+
+  const handleCreate = async (input: CreateApiKeyInput) => {
+    try {
+      const result = await ApiKeyService.createApiKey(input);
+      setIsCreateOpen(false);
+      setIssued(result);
+    } catch (createError) {
+      toast.error(
+        createError instanceof Error
+          ? createError.message
+          : 'Failed to create API key'
+      );
+    }
+  };
+
+  const handleRotate = async (apiKey: ApiKey, overlapHours: number) => {
+    try {
+      const result = await ApiKeyService.rotateApiKey(apiKey.id, overlapHours);
+      setRotateTarget(null);
+      setIssued(result);
+    } catch (rotateError) {
+      toast.error(
+        rotateError instanceof Error
+          ? rotateError.message
+          : 'Failed to rotate API key'
+      );
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+
+    try {
+      await ApiKeyService.revokeApiKey(revokeTarget.id);
+      toast.success(`API key "${revokeTarget.name}" revoked`);
+    } catch (revokeError) {
+      toast.error(
+        revokeError instanceof Error
+          ? revokeError.message
+          : 'Failed to revoke API key'
+      );
+      throw revokeError;
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">API keys</CardTitle>
+            <CardDescription>
+              Authenticate scripts and CI pipelines against the RocketHooks API
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => {
+              setIsCreateOpen(true);
+            }}
+          >
+            <Plus />
+            New key
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertTitle>Could not load API keys</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading && !data ? (
+            <SkeletonGroup.Text lines={4} />
+          ) : apiKeys.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <p className="text-sm">No API keys yet.</p>
+              <Button
+                variant="link"
+                onClick={() => {
+                  setIsCreateOpen(true);
+                }}
+              >
+                Create your first key
+              </Button>
+            </div>
+          ) : (
+            <ApiKeysTable
+              apiKeys={apiKeys}
+              onRotate={setRotateTarget}
+              onRevoke={setRevokeTarget}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <ApiKeyFormDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onSubmit={handleCreate}
+      />
+
+      <RotateApiKeyDialog
+        apiKey={rotateTarget}
+        onOpenChange={(open) => {
+          if (!open) setRotateTarget(null);
+        }}
+        onConfirm={handleRotate}
+      />
+
+      <ApiKeySecretDialog
+        secret={issued?.secret ?? null}
+        {...(issued && { keyName: issued.apiKey.name })}
+        onClose={() => {
+          setIssued(null);
+        }}
+      />
+
+      <ConfirmDialog
+        open={revokeTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setRevokeTarget(null);
+        }}
+        title="Revoke API key"
+        description={
+          <>
+            Requests using{' '}
+            <span className="font-medium">{revokeTarget?.name}</span> will be
+            rejected immediately. This cannot be undone.
+          </>
+        }
+        confirmLabel="Revoke key"
+        destructive
+        onConfirm={handleRevoke}
+      />
+    </>
+  );
+}
 
 export function SettingsPage() {
+  const navigate = useNavigate();
+  const resetOnboarding = useAuthStore((state) => state.resetOnboarding);
+  const { memberId } = useCurrentRole();
+  const canTransfer = usePermission('organization:transfer');
+  const canDelete = usePermission('organization:delete');
+
+  const { data, loading, error } = useQuery<GetOrganizationSettingsResponse>(
+    GET_ORGANIZATION_SETTINGS_QUERY
+  );
+  const { data: teamData } = useQuery<GetTeamResponse>(GET_TEAM_QUERY);
+
+  const [transferTarget, setTransferTarget] = useState<Member | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const organization = data?.currentOrganization;
+  const candidates = (teamData?.currentOrganization?.members ?? []).filter(
+    (member) => member.id !== memberId && member.role !== 'owner'
+  );
+
+  const handleGeneralSubmit = async (values: OrganizationGeneralFormData) => {
+    if (!organization) return;
+
+    try {
+      await OrganizationService.updateOrganization(organization.id, values);
+      toast.success('Organization details saved');
+    } catch (submitError) {
+      toast.error(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Failed to save organization'
+      );
+    }
+  };
+
+  const handleDefaultsSubmit = async (defaults: OrganizationDefaults) => {
+    if (!organization) return;
+
+    try {
+      await OrganizationService.updateOrganization(organization.id, {
+        defaults,
+      });
+      toast.success('Defaults saved');
+    } catch (submitError) {
+      toast.error(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Failed to save defaults'
+      );
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!transferTarget) return;
+
+    try {
+      await OrganizationService.transferOwnership(transferTarget.id);
+      toast.success(
+        `${transferTarget.name ?? transferTarget.email} now owns this organization`
+      );
+    } catch (transferError) {
+      toast.error(
+        transferError instanceof Error
+          ? transferError.message
+          : 'Failed to transfer ownership'
+      );
+      throw transferError;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!organization) return;
+
+    try {
+      await OrganizationService.deleteOrganization(organization.id);
+      toast.success(`Organization "${organization.name}" deleted`);
+      // Without an organization the user starts over from onboarding
+      resetOnboarding();
+      void navigate('/onboarding/1', { replace: true });
+    } catch (deleteError) {
+      toast.error(
+        deleteError instanceof Error
+          ? deleteError.message
+          : 'Failed to delete organization'
+      );
+      throw deleteError;
+    }
+  };
+
   return (
     <DashboardPage
       title="Settings"
-      description="Manage your account settings and preferences"
+      description="Configure your organization and its defaults"
     >
-      <div className="text-center text-muted-foreground">
-        Settings page - Coming soon!
-      </div>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Could not load settings</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !organization ? (
+        <Card>
+          <SkeletonGroup.Card />
+        </Card>
+      ) : organization ? (
+        <Tabs defaultValue="general">
+          <TabsList>
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="defaults">Defaults</TabsTrigger>
+            <TabsTrigger value="api-keys">API keys</TabsTrigger>
+            <TabsTrigger value="danger">Danger zone</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="general">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Organization</CardTitle>
+                <CardDescription>
+                  Basic information about your organization
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <OrganizationGeneralForm
+                  organization={organization}
+                  onSubmit={handleGeneralSubmit}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="defaults">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Defaults</CardTitle>
+                <CardDescription>
+                  Applied to new endpoints and webhooks unless they set their
+                  own values
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <OrganizationDefaultsForm
+                  defaults={organization.defaults}
+                  onSubmit={handleDefaultsSubmit}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="api-keys">
+            <ApiKeysTab />
+          </TabsContent>
+
+          <TabsContent value="danger">
+            <DangerZone
+              candidates={candidates}
+              isOwner={canTransfer && canDelete}
+              onTransfer={setTransferTarget}
+              onDelete={() => {
+                setIsDeleteOpen(true);
+              }}
+            />
+          </TabsContent>
+        </Tabs>
+      ) : null}
+
+      <ConfirmDialog
+        open={transferTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setTransferTarget(null);
+        }}
+        title="Transfer ownership"
+        description={
+          <>
+            <span className="font-medium">
+              {transferTarget?.name ?? transferTarget?.email}
+            </span>{' '}
+            will become the owner and you will become an admin. Only the new
+            owner can transfer ownership back.
+          </>
+        }
+        confirmLabel="Transfer"
+        {...(transferTarget ? { confirmText: transferTarget.email } : {})}
+        destructive
+        onConfirm={handleTransfer}
+      />
+
+      <ConfirmDialog
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+        title="Delete organization"
+        description={
+          <>
+            <span className="font-medium">{organization?.name}</span> and all of
+            its endpoints, webhooks, events and members will be permanently
+            deleted. This cannot be undone.
+          </>
+        }
+        confirmLabel="Delete organization"
+        {...(organization ? { confirmText: organization.name } : {})}
+        destructive
+        onConfirm={handleDelete}
+      />
     </DashboardPage>
   );
 }
@@ -1,14 +1,275 @@
+import { useQuery } from '@apollo/client';
+import { UserPlus } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  InvitationsTable,
+  InviteMemberDialog,
+  MembersTable,
+} from '@/components/team';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { useCurrentRole, usePermission } from '@/hooks/usePermission';
+import type { InviteMemberFormData } from '@/lib/validations/team';
+import {
+  GET_TEAM_QUERY,
+  type GetTeamResponse,
+  type Invitation,
+  MEMBER_ROLES,
+  type Member,
+  TeamService,
+  type UpdateMemberRoleInput,
+} from '@/services/graphql/team';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
 import { DashboardPage } from '@/shared/components/PageLayout';
 
 export function TeamPage() {
+  const { memberId } = useCurrentRole();
+  const canManage = usePermission('members:manage');
+  const { data, loading, error } = useQuery<GetTeamResponse>(GET_TEAM_QUERY);
+
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [removingMember, setRemovingMember] = useState<Member | null>(null);
+  const [revokingInvitation, setRevokingInvitation] =
+    useState<Invitation | null>(null);
+  const [updatingMemberId, setUpdatingMemberId] = useState<string | null>(null);
+  const [resendingInvitationId, setResendingInvitationId] = useState<
+    string | null
+  >(null);
+
+  const members = data?.currentOrganization?.members ?? [];
+  const invitations = data?.currentOrganization?.invitations ?? [];
+
+  const handleInvite = async (values: InviteMemberFormData) => {
+    try {
+      await TeamService.inviteMember(values);
+      toast.success(`Invitation sent to ${values.email}`);
+      setIsInviteOpen(false);
+    } catch (inviteError) {
+      toast.error(
+        inviteError instanceof Error
+          ? inviteError.message
+          : 'Failed to send invitation'
+      );
+    }
+  };
+
+  const handleRoleChange = async (
+    member: Member,
+    role: UpdateMemberRoleInput['role']
+  ) => {
+    if (member.role === role) return;
+
+    setUpdatingMemberId(member.id);
+    try {
+      await TeamService.updateMemberRole({ memberId: member.id, role });
+      toast.success(
+        `${member.name ?? member.email} is now ${MEMBER_ROLES[role].label.toLowerCase()}`
+      );
+    } catch (updateError) {
+      toast.error(
+        updateError instanceof Error
+          ? updateError.message
+          : 'Failed to update role'
+      );
+    } finally {
+      setUpdatingMemberId(null);
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    setResendingInvitationId(invitation.id);
+    try {
+      await TeamService.resendInvitation(invitation.id);
+      toast.success(`Invitation resent to ${invitation.email}`);
+    } catch (resendError) {
+      toast.error(
+        resendError instanceof Error
+          ? resendError.message
+          : 'Failed to resend invitation'
+      );
+    } finally {
+      setResendingInvitationId(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removingMember) return;
+
+    try {
+      await TeamService.removeMember(removingMember.id);
+      toast.success(`${removingMember.name ?? removingMember.email} removed`);
+    } catch (removeError) {
+      toast.error(
+        removeError instanceof Error
+          ? removeError.message
+          : 'Failed to remove member'
+      );
+      throw removeError;
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokingInvitation) return;
+
+    try {
+      await TeamService.revokeInvitation(revokingInvitation.id);
+      toast.success(`Invitation for ${revokingInvitation.email} revoked`);
+    } catch (revokeError) {
+      toast.error(
+        revokeError instanceof Error
+          ? revokeError.message
+          : 'Failed to revoke invitation'
+      );
+      throw revokeError;
+    }
+  };
+
   return (
     <DashboardPage
       title="Team"
       description="Manage team members and permissions"
+      actions={
+        canManage && (
+          <Button
+            onClick={() => {
+              setIsInviteOpen(true);
+            }}
+          >
+            <UserPlus />
+            Invite member
+          </Button>
+        )
+      }
     >
-      <div className="text-center text-muted-foreground">
-        Team page - Coming soon!
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Could not load team</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Members</CardTitle>
+            <CardDescription>
+              {canManage
+                ? 'Owners and admins can change roles and remove members'
+                : 'Ask an owner or admin to change roles or invite people'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading && !data ? (
+              <SkeletonGroup.Text lines={4} />
+            ) : members.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                No members found
+              </p>
+            ) : (
+              <MembersTable
+                members={members}
+                currentMemberId={memberId}
+                canManage={canManage}
+                updatingMemberId={updatingMemberId}
+                onRoleChange={(member, role) => {
+                  void handleRoleChange(member, role);
+                }}
+                onRemove={setRemovingMember}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Invitations</CardTitle>
+            <CardDescription>
+              Invitations expire after 7 days and can be resent
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading && !data ? (
+              <SkeletonGroup.Text lines={2} />
+            ) : invitations.length === 0 ? (
+              <div className="py-12 text-center text-muted-foreground">
+                <p className="text-sm">No pending invitations.</p>
+                {canManage && (
+                  <Button
+                    variant="link"
+                    onClick={() => {
+                      setIsInviteOpen(true);
+                    }}
+                  >
+                    Invite a teammate
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <InvitationsTable
+                invitations={invitations}
+                canManage={canManage}
+                resendingInvitationId={resendingInvitationId}
+                onResend={(invitation) => {
+                  void handleResend(invitation);
+                }}
+                onRevoke={setRevokingInvitation}
+              />
+            )}
+          </CardContent>
+        </Card>
       </div>
+
+      <InviteMemberDialog
+        open={isInviteOpen}
+        onOpenChange={setIsInviteOpen}
+        onSubmit={handleInvite}
+      />
+
+      <ConfirmDialog
+        open={removingMember !== null}
+        onOpenChange={(open) => {
+          if (!open) setRemovingMember(null);
+        }}
+        title="Remove member"
+        description={
+          <>
+            <span className="font-medium">
+              {removingMember?.name ?? removingMember?.email}
+            </span>{' '}
+            will lose access to this organization immediately.
+          </>
+        }
+        confirmLabel="Remove"
+        destructive
+        onConfirm={handleRemove}
+      />
+
+      <ConfirmDialog
+        open={revokingInvitation !== null}
+        onOpenChange={(open) => {
+          if (!open) setRevokingInvitation(null);
+        }}
+        title="Revoke invitation"
+        description={
+          <>
+            The invitation link sent to{' '}
+            <span className="font-medium">{revokingInvitation?.email}</span>{' '}
+            will stop working.
+          </>
+        }
+        confirmLabel="Revoke"
+        destructive
+        onConfirm={handleRevoke}
+      />
     </DashboardPage>
   );
 }
@@ -0,0 +1,433 @@
+import { useQuery } from '@apollo/client';
+import { Link2, Save } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Can } from '@/components/auth/Can';
+import { TransformationEditor } from '@/components/rockethooks';
+import {
+  AttachWebhooksDialog,
+  TransformationFormDialog,
+  VersionHistory,
+} from '@/components/transformations';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import { Textarea } from '@/components/ui/Textarea';
+import { usePermission } from '@/hooks/usePermission';
+import { validateTransformation } from '@/lib/transform';
+import type { TransformationFormData } from '@/lib/validations/transformation';
+import {
+  GET_TRANSFORMATION_QUERY,
+  type GetTransformationResponse,
+  type TransformationMode,
+  TransformationService,
+  type TransformationVersion,
+  type TransformationWithVersions,
+} from '@/services/graphql/transformations';
+import {
+  LIST_WEBHOOKS_QUERY,
+  type ListWebhooksResponse,
+} from '@/services/graphql/webhooks';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
+import { DetailPage } from '@/shared/components/PageLayout';
+
+/**
+ * Parse the sample input text; blank means no sample
+ */
+function parseSampleInput(text: string): {
+  value?: object;
+  error?: string;
+} {
+  if (!text.trim()) return {};
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null) {
+      return { error: 'Sample input must be a JSON object or array' };
+    }
+    return { value: parsed };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Invalid JSON',
+    };
+  }
+}
+
+interface TransformationDraftProps {
+  transformation: TransformationWithVersions;
+}
+
+/**
+ * Unsaved edits to the current version; remounted when a new version lands
+ */
+function TransformationDraft({ transformation }: TransformationDraftProps) {
+  const [code, setCode] = useState(transformation.code);
+  const [mode, setMode] = useState<TransformationMode>(transformation.mode);
+  const [sampleText, setSampleText] = useState(
+    transformation.sampleInput ?? ''
+  );
+  const [message, setMessage] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sample = useMemo(() => parseSampleInput(sampleText), [sampleText]);
+  const isValid = useMemo(() => validateTransformation(code).valid, [code]);
+  const isDirty =
+    code !== transformation.code ||
+    mode !== transformation.mode ||
+    sampleText !== (transformation.sampleInput ?? '');
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await TransformationService.updateTransformation(transformation.id, {
+        code,
+        mode,
+        sampleInput: sampleText.trim() ? sampleText : null,
+        ...(message.trim() && { message: message.trim() }),
+      });
+      toast.success(
+        code !== transformation.code
+          ? `Saved as version ${String(transformation.currentVersion + 1)}`
+          : 'Transformation saved'
+      );
+    } catch (saveError) {
+      toast.error(
+        saveError instanceof Error
+          ? saveError.message
+          : 'Failed to save transformation'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <TransformationEditor
+            mode={mode}
+            value={code}
+            onChange={setCode}
+            onModeChange={setMode}
+            {...(sample.value ? { sampleInput: sample.value } : {})}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sample input</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Textarea
+            value={sampleText}
+            onChange={(e) => {
+              setSampleText(e.target.value);
+            }}
+            placeholder='{"data": {"user": {"name": "Ada"}}}'
+            className="min-h-[160px] font-mono text-xs"
+            aria-label="Sample input"
+          />
+          {sample.error ? (
+            <p className="text-xs text-destructive">{sample.error}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Payload the preview and the source path picker run against
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-col gap-2 md:flex-row md:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="version-message">Version note</Label>
+          <Input
+            id="version-message"
+            value={message}
+            onChange={(e) => {
+              setMessage(e.target.value);
+            }}
+            placeholder="What changed (optional)"
+          />
+        </div>
+        <Can permission="transformations:write">
+          {(allowed) => (
+            <Button
+              onClick={() => void handleSave()}
+              disabled={!allowed || !isDirty || !isValid || isSaving}
+            >
+              <Save />
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+        </Can>
+      </div>
+    </div>
+  );
+}
+
+export function TransformationDetailPage() {
+  const { transformationId = '' } = useParams<{ transformationId: string }>();
+  const navigate = useNavigate();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isAttachOpen, setIsAttachOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [rollbackTarget, setRollbackTarget] =
+    useState<TransformationVersion | null>(null);
+
+  const canWrite = usePermission('transformations:write');
+  const canDelete = usePermission('transformations:delete');
+
+  const { data, loading, error } = useQuery<GetTransformationResponse>(
+    GET_TRANSFORMATION_QUERY,
+    { variables: { id: transformationId }, skip: !transformationId }
+  );
+  const { data: webhooksData } =
+    useQuery<ListWebhooksResponse>(LIST_WEBHOOKS_QUERY);
+
+  const transformation = data?.getTransformation;
+  const webhooks = webhooksData?.listWebhooks ?? [];
+
+  const goBack = () => {
+    void navigate('/transformations');
+  };
+
+  if (loading && !transformation) {
+    return (
+      <DetailPage title="Transformation" backAction={goBack}>
+        <SkeletonGroup.Card />
+      </DetailPage>
+    );
+  }
+
+  if (error || !transformation) {
+    return (
+      <DetailPage title="Transformation" backAction={goBack}>
+        <Alert variant="destructive">
+          <AlertTitle>Transformation unavailable</AlertTitle>
+          <AlertDescription>
+            {error?.message ??
+              `No transformation found with ID "${transformationId}"`}
+          </AlertDescription>
+        </Alert>
+      </DetailPage>
+    );
+  }
+
+  const attachedWebhooks = webhooks.filter((webhook) =>
+    transformation.webhookIds.includes(webhook.id)
+  );
+
+  const handleDetailsSubmit = async (values: TransformationFormData) => {
+    try {
+      await TransformationService.updateTransformation(
+        transformation.id,
+        values
+      );
+      toast.success(`Transformation "${values.name}" updated`);
+      setIsFormOpen(false);
+    } catch (submitError) {
+      toast.error(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Failed to save transformation'
+      );
+    }
+  };
+
+  const handleAttach = async (webhookIds: string[]) => {
+    try {
+      await TransformationService.setTransformationWebhooks(
+        transformation.id,
+        webhookIds
+      );
+      toast.success('Attached webhooks updated');
+      setIsAttachOpen(false);
+    } catch (attachError) {
+      toast.error(
+        attachError instanceof Error
+          ? attachError.message
+          : 'Failed to attach webhooks'
+      );
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return;
+
+    try {
+      await TransformationService.rollbackTransformation(
+        transformation.id,
+        rollbackTarget.version
+      );
+      toast.success(`Rolled back to version ${String(rollbackTarget.version)}`);
+    } catch (rollbackError) {
+      toast.error(
+        rollbackError instanceof Error
+          ? rollbackError.message
+          : 'Failed to roll back transformation'
+      );
+      throw rollbackError;
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await TransformationService.deleteTransformation(transformation.id);
+      toast.success(`Transformation "${transformation.name}" deleted`);
+      goBack();
+    } catch (deleteError) {
+      toast.error(
+        deleteError instanceof Error
+          ? deleteError.message
+          : 'Failed to delete transformation'
+      );
+      throw deleteError;
+    }
+  };
+
+  return (
+    <DetailPage
+      title={transformation.name}
+      description={`Version ${String(transformation.currentVersion)}${
+        transformation.description ? ` · ${transformation.description}` : ''
+      }`}
+      backAction={goBack}
+      {...(canWrite && {
+        editAction: () => {
+          setIsFormOpen(true);
+        },
+      })}
+      {...(canDelete && {
+        deleteAction: () => {
+          setIsDeleteOpen(true);
+        },
+      })}
+    >
+      <Tabs defaultValue="editor">
+        <TabsList>
+          <TabsTrigger value="editor">Editor</TabsTrigger>
+          <TabsTrigger value="versions">
+            Versions ({transformation.versions.length})
+          </TabsTrigger>
+          <TabsTrigger value="webhooks">
+            Webhooks ({transformation.webhookIds.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="editor">
+          <TransformationDraft
+            key={`${transformation.id}:${String(transformation.currentVersion)}`}
+            transformation={transformation}
+          />
+        </TabsContent>
+
+        <TabsContent value="versions">
+          <VersionHistory
+            versions={transformation.versions}
+            currentVersion={transformation.currentVersion}
+            {...(canWrite && { onRollback: setRollbackTarget })}
+          />
+        </TabsContent>
+
+        <TabsContent value="webhooks" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Deliveries from these webhooks run through version{' '}
+              {transformation.currentVersion}.
+            </p>
+            <Can permission="transformations:write">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setIsAttachOpen(true);
+                }}
+              >
+                <Link2 />
+                Manage webhooks
+              </Button>
+            </Can>
+          </div>
+          {attachedWebhooks.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Not attached to any webhook
+            </p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {attachedWebhooks.map((webhook) => (
+                <li
+                  key={webhook.id}
+                  className="flex items-center justify-between gap-4 p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{webhook.name}</p>
+                    <p className="truncate font-mono text-xs text-muted-foreground">
+                      {webhook.url}
+                    </p>
+                  </div>
+                  {!webhook.active && <Badge variant="outline">Paused</Badge>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <TransformationFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        transformation={transformation}
+        onSubmit={handleDetailsSubmit}
+      />
+
+      <AttachWebhooksDialog
+        open={isAttachOpen}
+        onOpenChange={setIsAttachOpen}
+        webhooks={webhooks}
+        attachedIds={transformation.webhookIds}
+        onSubmit={handleAttach}
+      />
+
+      <ConfirmDialog
+        open={rollbackTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setRollbackTarget(null);
+        }}
+        title="Roll back transformation"
+        description={
+          <>
+            The code from version{' '}
+            <span className="font-medium">{rollbackTarget?.version}</span> will
+            be saved as a new version and used for every attached webhook.
+            Unsaved edits are discarded.
+          </>
+        }
+        confirmLabel="Roll back"
+        onConfirm={handleRollback}
+      />
+
+      <ConfirmDialog
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+        title="Delete transformation"
+        description={
+          <>
+            <span className="font-medium">{transformation.name}</span> and its
+            version history will be deleted. Attached webhooks will deliver
+            untransformed payloads.
+          </>
+        }
+        confirmLabel="Delete"
+        destructive
+        onConfirm={handleDelete}
+      />
+    </DetailPage>
+  );
+}
@@ -0,0 +1,171 @@
+import { useQuery } from '@apollo/client';
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Can } from '@/components/auth/Can';
+import {
+  TransformationFormDialog,
+  TransformationsTable,
+} from '@/components/transformations';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import { usePermission } from '@/hooks/usePermission';
+import type { TransformationFormData } from '@/lib/validations/transformation';
+import {
+  LIST_TRANSFORMATIONS_QUERY,
+  type ListTransformationsResponse,
+  type Transformation,
+  TransformationService,
+} from '@/services/graphql/transformations';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
+import { DashboardPage } from '@/shared/components/PageLayout';
+
+// Code a new transformation starts from: pass the payload through unchanged
+const STARTER_CODE = '{\n  "data": "$"\n}';
+
+export function TransformationsPage() {
+  const navigate = useNavigate();
+  const { data, loading, error } = useQuery<ListTransformationsResponse>(
+    LIST_TRANSFORMATIONS_QUERY
+  );
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTransformation, setEditingTransformation] =
+    useState<Transformation | null>(null);
+  const [deletingTransformation, setDeletingTransformation] =
+    useState<Transformation | null>(null);
+
+  const canWrite = usePermission('transformations:write');
+  const canDelete = usePermission('transformations:delete');
+
+  const transformations = data?.listTransformations ?? [];
+
+  const openCreate = () => {
+    setEditingTransformation(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (transformation: Transformation) => {
+    setEditingTransformation(transformation);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (values: TransformationFormData) => {
+    try {
+      if (editingTransformation) {
+        await TransformationService.updateTransformation(
+          editingTransformation.id,
+          values
+        );
+        toast.success(`Transformation "${values.name}" updated`);
+        setIsFormOpen(false);
+      } else {
+        const created = await TransformationService.createTransformation({
+          ...values,
+          code: STARTER_CODE,
+          mode: 'visual',
+        });
+        toast.success(`Transformation "${values.name}" created`);
+        setIsFormOpen(false);
+        void navigate(`/transformations/${created.id}`);
+      }
+    } catch (submitError) {
+      toast.error(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Failed to save transformation'
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTransformation) return;
+
+    try {
+      await TransformationService.deleteTransformation(
+        deletingTransformation.id
+      );
+      toast.success(`Transformation "${deletingTransformation.name}" deleted`);
+    } catch (deleteError) {
+      toast.error(
+        deleteError instanceof Error
+          ? deleteError.message
+          : 'Failed to delete transformation'
+      );
+      throw deleteError;
+    }
+  };
+
+  return (
+    <DashboardPage
+      title="Transformations"
+      description="Reusable payload transformations for your webhooks"
+      actions={
+        <Can permission="transformations:write">
+          <Button onClick={openCreate}>
+            <Plus />
+            New transformation
+          </Button>
+        </Can>
+      }
+    >
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Could not load transformations</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          {loading && !data ? (
+            <SkeletonGroup.Text lines={5} />
+          ) : transformations.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <p className="text-sm">No transformations yet.</p>
+              <Can permission="transformations:write">
+                <Button variant="link" onClick={openCreate}>
+                  Create your first transformation
+                </Button>
+              </Can>
+            </div>
+          ) : (
+            <TransformationsTable
+              transformations={transformations}
+              {...(canWrite && { onEdit: openEdit })}
+              {...(canDelete && { onDelete: setDeletingTransformation })}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <TransformationFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        transformation={editingTransformation}
+        onSubmit={handleSubmit}
+      />
+
+      <ConfirmDialog
+        open={deletingTransformation !== null}
+        onOpenChange={(open) => {
+          if (!open) setDeletingTransformation(null);
+        }}
+        title="Delete transformation"
+        description={
+          <>
+            <span className="font-medium">{deletingTransformation?.name}</span>{' '}
+            and its version history will be deleted. Attached webhooks will
+            deliver untransformed payloads.
+          </>
+        }
+        confirmLabel="Delete"
+        destructive
+        onConfirm={handleDelete}
+      />
+    </DashboardPage>
+  );
+}
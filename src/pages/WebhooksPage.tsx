@@ -1,14 +1,265 @@
+import { useQuery } from '@apollo/client';
+import { Plus } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Can } from '@/components/auth/Can';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { SkeletonGroup } from '@/components/ui/SkeletonGroup';
+import {
+  WebhookFormDialog,
+  WebhookSigningDialog,
+  WebhooksTable,
+  WebhookTestDialog,
+} from '@/components/webhooks';
+import { usePermission } from '@/hooks/usePermission';
+import {
+  LIST_TRANSFORMATIONS_QUERY,
+  type ListTransformationsResponse,
+} from '@/services/graphql/transformations';
+import {
+  type CreateWebhookInput,
+  GET_WEBHOOK_SECRET_QUERY,
+  type GetWebhookSecretResponse,
+  type GetWebhookSecretVariables,
+  LIST_WEBHOOKS_QUERY,
+  type ListWebhooksResponse,
+  type TestWebhookInput,
+  type Webhook,
+  WebhookService,
+} from '@/services/graphql/webhooks';
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog';
 import { DashboardPage } from '@/shared/components/PageLayout';
 
 export function WebhooksPage() {
+  const { data, loading, error } =
+    useQuery<ListWebhooksResponse>(LIST_WEBHOOKS_QUERY);
+  const { data: transformationsData } = useQuery<ListTransformationsResponse>(
+    LIST_TRANSFORMATIONS_QUERY
+  );
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [deletingWebhook, setDeletingWebhook] = useState<Webhook | null>(null);
+  const [testingWebhook, setTestingWebhook] = useState<Webhook | null>(null);
+  const [signingWebhookId, setSigningWebhookId] = useState<string | null>(null);
+
+  const canWrite = usePermission('webhooks:write');
+  const canDelete = usePermission('webhooks:delete');
+
+  // Secrets are only requested for members who can edit webhooks; a rotation
+  // writes the new secret to the same cache entry, so it shows up here
+  const { data: secretData, loading: secretLoading } = useQuery<
+    GetWebhookSecretResponse,
+    GetWebhookSecretVariables
+  >(GET_WEBHOOK_SECRET_QUERY, {
+    variables: { id: signingWebhookId ?? '' },
+    skip: !canWrite || signingWebhookId === null,
+  });
+
+  const webhooks = data?.listWebhooks ?? [];
+  // Read from the list so rotation details show up as soon as the cache updates
+  const signingWebhook =
+    webhooks.find((webhook) => webhook.id === signingWebhookId) ?? null;
+  const testingTransformation = testingWebhook
+    ? (transformationsData?.listTransformations.find((transformation) =>
+        transformation.webhookIds.includes(testingWebhook.id)
+      ) ?? null)
+    : null;
+
+  const openCreate = () => {
+    setEditingWebhook(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = async (webhook: Webhook) => {
+    try {
+      // The form shows the current secret, which the list leaves out
+      const secret = await WebhookService.getWebhookSecret(webhook.id);
+      setEditingWebhook({ ...webhook, secret });
+      setIsFormOpen(true);
+    } catch (secretError) {
+      toast.error(
+        secretError instanceof Error
+          ? secretError.message
+          : 'Failed to load webhook'
+      );
+    }
+  };
+
+  const handleSubmit = async (input: CreateWebhookInput) => {
+    try {
+      if (editingWebhook) {
+        await WebhookService.updateWebhook(editingWebhook.id, input);
+        toast.success(`Webhook "${input.name}" updated`);
+      } else {
+        await WebhookService.createWebhook(input);
+        toast.success(`Webhook "${input.name}" created`);
+      }
+      setIsFormOpen(false);
+    } catch (submitError) {
+      toast.error(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Failed to save webhook'
+      );
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook, active: boolean) => {
+    try {
+      await WebhookService.updateWebhook(webhook.id, { active });
+    } catch (toggleError) {
+      toast.error(
+        toggleError instanceof Error
+          ? toggleError.message
+          : 'Failed to update webhook'
+      );
+    }
+  };
+
+  const handleTest = async (webhook: Webhook, input: TestWebhookInput) => {
+    try {
+      return await WebhookService.testWebhook(webhook.id, input);
+    } catch (testError) {
+      toast.error(
+        testError instanceof Error
+          ? testError.message
+          : 'Failed to send test delivery'
+      );
+      return null;
+    }
+  };
+
+  const handleRotateSecret = async (
+    webhook: Webhook,
+    gracePeriodHours: number
+  ) => {
+    try {
+      await WebhookService.rotateWebhookSecret(webhook.id, gracePeriodHours);
+      toast.success(`Signing secret for "${webhook.name}" rotated`);
+    } catch (rotateError) {
+      toast.error(
+        rotateError instanceof Error
+          ? rotateError.message
+          : 'Failed to rotate signing secret'
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingWebhook) return;
+
+    try {
+      await WebhookService.deleteWebhook(deletingWebhook.id);
+      toast.success(`Webhook "${deletingWebhook.name}" deleted`);
+    } catch (deleteError) {
+      toast.error(
+        deleteError instanceof Error
+          ? deleteError.message
+          : 'Failed to delete webhook'
+      );
+      throw deleteError;
+    }
+  };
+
   return (
     <DashboardPage
       title="Webhooks"
       description="Manage your webhook endpoints and configurations"
+      actions={
+        <Can permission="webhooks:write">
+          <Button onClick={openCreate}>
+            <Plus />
+            New webhook
+          </Button>
+        </Can>
+      }
     >
-      <div className="text-center text-muted-foreground">
-        Webhooks page - Coming soon!
-      </div>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTitle>Could not load webhooks</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          {loading && !data ? (
+            <SkeletonGroup.Text lines={5} />
+          ) : webhooks.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <p className="text-sm">No webhooks yet.</p>
+              <Can permission="webhooks:write">
+                <Button variant="link" onClick={openCreate}>
+                  Create your first webhook
+                </Button>
+              </Can>
+            </div>
+          ) : (
+            <WebhooksTable
+              webhooks={webhooks}
+              onManageSigning={(webhook) => {
+                setSigningWebhookId(webhook.id);
+              }}
+              {...(canWrite && {
+                onEdit: (webhook: Webhook) => void openEdit(webhook),
+                onTest: setTestingWebhook,
+                onToggleActive: (webhook: Webhook, active: boolean) =>
+                  void handleToggleActive(webhook, active),
+              })}
+              {...(canDelete && { onDelete: setDeletingWebhook })}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <WebhookFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        webhook={editingWebhook}
+        onSubmit={handleSubmit}
+      />
+
+      <WebhookTestDialog
+        webhook={testingWebhook}
+        transformation={testingTransformation}
+        onOpenChange={(open) => {
+          if (!open) setTestingWebhook(null);
+        }}
+        onSend={handleTest}
+      />
+
+      <WebhookSigningDialog
+        webhook={signingWebhook}
+        {...(canWrite && {
+          secret: secretData?.getWebhook?.secret ?? null,
+          isSecretLoading: secretLoading,
+        })}
+        onOpenChange={(open) => {
+          if (!open) setSigningWebhookId(null);
+        }}
+        {...(canWrite && { onRotate: handleRotateSecret })}
+      />
+
+      <ConfirmDialog
+        open={deletingWebhook !== null}
+        onOpenChange={(open) => {
+          if (!open) setDeletingWebhook(null);
+        }}
+        title="Delete webhook"
+        description={
+          <>
+            Deliveries to{' '}
+            <span className="font-medium">{deletingWebhook?.name}</span> will
+            stop immediately. This cannot be undone.
+          </>
+        }
+        confirmLabel="Delete"
+        destructive
+        onConfirm={handleDelete}
+      />
     </DashboardPage>
   );
 }
@@ -7,10 +7,13 @@ export { default as AuthCallback } from './auth/AuthCallback';
 export { LoginWithErrorBoundary } from './auth/Login';
 export { ComponentTestPage } from './ComponentTestPage';
 export { EndpointsPage } from './EndpointsPage';
+export { EventDetailPage } from './EventDetailPage';
 export { HomePage } from './HomePage';
 // Onboarding pages
 export { OnboardingPage } from './onboarding/OnboardingPage';
 export { PlaceholderOnboardingPage } from './onboarding/PlaceholderOnboardingPage';
 export { SettingsPage } from './SettingsPage';
 export { TeamPage } from './TeamPage';
+export { TransformationDetailPage } from './TransformationDetailPage';
+export { TransformationsPage } from './TransformationsPage';
 export { WebhooksPage } from './WebhooksPage';
@@ -35,6 +35,7 @@ import {
   SelectValue,
 } from '@/components/ui/Select';
 import { Switch } from '@/components/ui/Switch';
+import { COMMON_TIMEZONES } from '@/lib/timezones';
 import {
   type PreferencesFormData,
   preferencesSchema,
@@ -51,23 +52,6 @@ export interface PreferencesStepProps {
   onNext?: () => void;
 }
 
-// Common timezones organized by region
-const timezones = [
-  { value: 'UTC', label: 'UTC (Coordinated Universal Time)' },
-  { value: 'America/New_York', label: 'Eastern Time (US & Canada)' },
-  { value: 'America/Chicago', label: 'Central Time (US & Canada)' },
-  { value: 'America/Denver', label: 'Mountain Time (US & Canada)' },
-  { value: 'America/Los_Angeles', label: 'Pacific Time (US & Canada)' },
-  { value: 'Europe/London', label: 'London (GMT)' },
-  { value: 'Europe/Paris', label: 'Central European Time' },
-  { value: 'Europe/Berlin', label: 'Central European Time (Berlin)' },
-  { value: 'Asia/Tokyo', label: 'Japan Standard Time' },
-  { value: 'Asia/Shanghai', label: 'China Standard Time' },
-  { value: 'Asia/Kolkata', label: 'India Standard Time' },
-  { value: 'Australia/Sydney', label: 'Australian Eastern Time' },
-  { value: 'Pacific/Auckland', label: 'New Zealand Standard Time' },
-] as const;
-
 // Common languages
 const languages = [
   { value: 'en', label: 'English' },
@@ -356,7 +340,7 @@ export function PreferencesStep({ onComplete, onNext }: PreferencesStepProps) {
                                 <div className="h-px bg-border my-1" />
                               </>
                             )}
-                            {timezones.map((timezone) => (
+                            {COMMON_TIMEZONES.map((timezone) => (
                               <SelectItem
                                 key={timezone.value}
                                 value={timezone.value}
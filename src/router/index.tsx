@@ -9,17 +9,21 @@ import {
   AuthCallback,
   ComponentTestPage,
   EndpointsPage,
+  EventDetailPage,
   HomePage,
   LoginWithErrorBoundary,
   OnboardingPage,
   SettingsPage,
   TeamPage,
+  TransformationDetailPage,
+  TransformationsPage,
   WebhooksPage,
 } from '@/pages';
 import {
   combineGuards,
   requireAuth,
   requireOnboarding,
+  requirePermission,
 } from '@/services/auth/guards';
 
 export const router = createBrowserRouter([
@@ -76,6 +80,14 @@ export const router = createBrowserRouter([
             path: 'endpoints',
             element: <EndpointsPage />,
           },
+          {
+            path: 'transformations',
+            element: <TransformationsPage />,
+          },
+          {
+            path: 'transformations/:transformationId',
+            element: <TransformationDetailPage />,
+          },
           {
             path: 'analytics',
             element: <AnalyticsPage />,
@@ -84,13 +96,28 @@ export const router = createBrowserRouter([
             path: 'activity',
             element: <ActivityPage />,
           },
+          {
+            path: 'activity/:eventId',
+            element: <EventDetailPage />,
+          },
           {
             path: 'team',
             element: <TeamPage />,
           },
           {
             path: 'settings',
-            element: <SettingsPage />,
+            element: (
+              <ProtectedRoute
+                guards={[
+                  combineGuards(
+                    requireAuth,
+                    requirePermission('settings:manage')
+                  ),
+                ]}
+              >
+                <SettingsPage />
+              </ProtectedRoute>
+            ),
           },
           {
             path: 'component-test',
@@ -1,7 +1,9 @@
 // src/services/auth/guards.ts
 
+import { hasPermission } from '@/lib/permissions';
+import { getCurrentMemberRole } from '@/services/graphql/team';
 import { useAuthStore } from '@/store/auth.store';
-import type { RouteGuard } from '@/types/auth';
+import type { Permission, RouteGuard } from '@/types/auth';
 
 export const requireAuth: RouteGuard = (context) => {
   if (!context.isAuthenticated) {
@@ -46,6 +48,35 @@ export const requireOnboarding: RouteGuard = (context) => {
   return { allowed: true };
 };
 
+// Guard factory for routes that need a capability beyond membership
+export function requirePermission(
+  permission: Permission,
+  redirectTo = '/'
+): RouteGuard {
+  return async (context) => {
+    if (!context.isAuthenticated) {
+      return {
+        allowed: false,
+        redirectTo: '/login',
+        reason: 'Authentication required',
+      };
+    }
+
+    // Deny rather than fail open if the role cannot be loaded
+    const role = await getCurrentMemberRole().catch(() => null);
+
+    if (!hasPermission(role, permission)) {
+      return {
+        allowed: false,
+        redirectTo,
+        reason: 'You do not have permission to view this page',
+      };
+    }
+
+    return { allowed: true };
+  };
+}
+
 // Utility for combining guards
 export function combineGuards(...guards: RouteGuard[]): RouteGuard {
   return async (context) => {
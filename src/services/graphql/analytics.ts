@@ -0,0 +1,176 @@
+/**
+ * GraphQL operations for delivery analytics
+ * Metrics are aggregated server-side into time buckets sized to the range.
+ */
+
+import { gql } from '@apollo/client';
+import type { TimeRange } from '@/lib/timeRange';
+
+// Period totals, for the selected range and the equally long period before it
+const DASHBOARD_METRICS_FIELDS = gql`
+  fragment DashboardMetricsFields on DashboardMetrics {
+    totalApiCalls
+    successRate
+    averageResponseTime
+    errorRate
+    totalRetries
+    p50ResponseTime
+    p95ResponseTime
+    p99ResponseTime
+  }
+`;
+
+// Counters and latency percentiles shared by every level of aggregation
+const METRICS_BUCKET_FIELDS = gql`
+  fragment MetricsBucketFields on MetricsBucket {
+    timestamp
+    apiCalls
+    successCount
+    errorCount
+    retryCount
+    p50ResponseTime
+    p95ResponseTime
+    p99ResponseTime
+  }
+`;
+
+const METRICS_BREAKDOWN_FIELDS = gql`
+  fragment MetricsBreakdownFields on MetricsBreakdown {
+    key
+    label
+    totalApiCalls
+    successRate
+    retryCount
+    p95ResponseTime
+    activityChart {
+      ...MetricsBucketFields
+    }
+  }
+  ${METRICS_BUCKET_FIELDS}
+`;
+
+// GraphQL Query for the analytics dashboard over a time range
+export const GET_DASHBOARD_DATA_QUERY = gql`
+  query GetDashboardData(
+    $timeRange: String!
+    $from: AWSDateTime
+    $to: AWSDateTime
+  ) {
+    getDashboardData(timeRange: $timeRange, from: $from, to: $to) {
+      metrics {
+        ...DashboardMetricsFields
+      }
+      previousMetrics {
+        ...DashboardMetricsFields
+      }
+      activityChart {
+        ...MetricsBucketFields
+      }
+      webhookBreakdown {
+        ...MetricsBreakdownFields
+      }
+      endpointBreakdown {
+        ...MetricsBreakdownFields
+      }
+    }
+  }
+  ${DASHBOARD_METRICS_FIELDS}
+  ${METRICS_BUCKET_FIELDS}
+  ${METRICS_BREAKDOWN_FIELDS}
+`;
+
+// TypeScript types for the operations
+export interface DashboardMetrics {
+  totalApiCalls: number;
+  /** Percentage, 0-100 */
+  successRate: number;
+  averageResponseTime: number;
+  /** Percentage, 0-100 */
+  errorRate: number;
+  totalRetries: number;
+  p50ResponseTime: number;
+  p95ResponseTime: number;
+  p99ResponseTime: number;
+}
+
+export interface MetricsBucket {
+  /** Start of the bucket */
+  timestamp: string;
+  apiCalls: number;
+  successCount: number;
+  errorCount: number;
+  retryCount: number;
+  /** Null when the bucket has no deliveries */
+  p50ResponseTime: number | null;
+  p95ResponseTime: number | null;
+  p99ResponseTime: number | null;
+}
+
+export interface MetricsBreakdown {
+  /** Webhook id or endpoint URL */
+  key: string;
+  label: string;
+  totalApiCalls: number;
+  successRate: number;
+  retryCount: number;
+  p95ResponseTime: number | null;
+  activityChart: MetricsBucket[];
+}
+
+export interface DashboardData {
+  metrics: DashboardMetrics;
+  /** Same metrics for the period before the range; null when there was no traffic */
+  previousMetrics: DashboardMetrics | null;
+  activityChart: MetricsBucket[];
+  webhookBreakdown: MetricsBreakdown[];
+  endpointBreakdown: MetricsBreakdown[];
+}
+
+export interface GetDashboardDataVariables {
+  /** Preset such as "24h", or "custom" with from and to */
+  timeRange: string;
+  from?: string;
+  to?: string;
+}
+
+export interface GetDashboardDataResponse {
+  getDashboardData: DashboardData;
+}
+
+/**
+ * Success rate of a bucket as a percentage, or null when it has no deliveries
+ */
+export function bucketSuccessRate(bucket: MetricsBucket): number | null {
+  return bucket.apiCalls > 0
+    ? (bucket.successCount / bucket.apiCalls) * 100
+    : null;
+}
+
+/**
+ * Change from the previous period: relative percent for counts and latencies,
+ * percentage points for rates. Null when there is nothing to compare against.
+ */
+export function getMetricDelta(
+  current: number,
+  previous: number | null | undefined,
+  unit: 'percent' | 'points' = 'percent'
+): number | null {
+  if (previous == null) return null;
+  if (unit === 'points') return current - previous;
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+/**
+ * Query variables for a time range; custom ranges send explicit bounds
+ */
+export function toDashboardVariables(
+  range: TimeRange
+): GetDashboardDataVariables {
+  if (range.preset !== 'custom') return { timeRange: range.preset };
+  return {
+    timeRange: 'custom',
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+  };
+}
@@ -0,0 +1,290 @@
+/**
+ * GraphQL operations for organization API keys
+ */
+
+import { gql } from '@apollo/client';
+import { getCurrentApolloClient } from '@/lib/apollo';
+import { loggers } from '@/utils';
+
+const logger = loggers.api;
+
+// Shared selection set for API key queries and mutations; the secret is only
+// ever returned by create and rotate
+const API_KEY_FIELDS = gql`
+  fragment ApiKeyFields on ApiKey {
+    id
+    name
+    prefix
+    scopes
+    expiresAt
+    lastUsedAt
+    createdAt
+    createdBy
+  }
+`;
+
+// GraphQL Query for listing the organization's active API keys
+export const LIST_API_KEYS_QUERY = gql`
+  query ListApiKeys {
+    listApiKeys {
+      ...ApiKeyFields
+    }
+  }
+  ${API_KEY_FIELDS}
+`;
+
+// GraphQL Mutation for creating an API key
+const CREATE_API_KEY_MUTATION = gql`
+  mutation CreateApiKey($input: CreateApiKeyInput!) {
+    createApiKey(input: $input) {
+      apiKey {
+        ...ApiKeyFields
+      }
+      secret
+    }
+  }
+  ${API_KEY_FIELDS}
+`;
+
+// GraphQL Mutation for issuing a replacement key; the old key keeps working
+// until the overlap window ends
+const ROTATE_API_KEY_MUTATION = gql`
+  mutation RotateApiKey($id: ID!, $overlapHours: Int!) {
+    rotateApiKey(id: $id, overlapHours: $overlapHours) {
+      apiKey {
+        ...ApiKeyFields
+      }
+      secret
+    }
+  }
+  ${API_KEY_FIELDS}
+`;
+
+// GraphQL Mutation for revoking an API key immediately
+const REVOKE_API_KEY_MUTATION = gql`
+  mutation RevokeApiKey($id: ID!) {
+    revokeApiKey(id: $id) {
+      id
+    }
+  }
+`;
+
+// TypeScript types for the operations
+export const API_KEY_SCOPES = [
+  'webhooks:read',
+  'webhooks:write',
+  'endpoints:read',
+  'endpoints:write',
+  'events:read',
+  'events:redeliver',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type ApiKeyStatus = 'active' | 'expiring' | 'expired';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Leading characters of the secret, safe to display */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  createdAt: string;
+  /** Email of the member who created the key */
+  createdBy?: string | null;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  /** ISO timestamp; omit for a key that never expires */
+  expiresAt?: string;
+}
+
+export interface ApiKeyWithSecret {
+  apiKey: ApiKey;
+  /** Full secret, returned once and never retrievable again */
+  secret: string;
+}
+
+export interface ListApiKeysResponse {
+  listApiKeys: ApiKey[];
+}
+
+export interface CreateApiKeyResponse {
+  createApiKey: ApiKeyWithSecret;
+}
+
+export interface RotateApiKeyResponse {
+  rotateApiKey: ApiKeyWithSecret;
+}
+
+export interface RevokeApiKeyResponse {
+  revokeApiKey: { id: string };
+}
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'webhooks:read': 'Read webhooks',
+  'webhooks:write': 'Create and edit webhooks',
+  'endpoints:read': 'Read endpoints',
+  'endpoints:write': 'Create and edit endpoints',
+  'events:read': 'Read events',
+  'events:redeliver': 'Redeliver events',
+};
+
+// Keys within this long of expiring are flagged so they can be rotated
+const EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a key is usable, close to expiring, or past its expiry
+ */
+export function getApiKeyStatus(
+  apiKey: Pick<ApiKey, 'expiresAt'>,
+  now: Date = new Date()
+): ApiKeyStatus {
+  if (!apiKey.expiresAt) return 'active';
+
+  const remaining = new Date(apiKey.expiresAt).getTime() - now.getTime();
+  if (remaining <= 0) return 'expired';
+  return remaining <= EXPIRY_WARNING_MS ? 'expiring' : 'active';
+}
+
+/**
+ * Create an API key; the response holds the only copy of its secret
+ */
+export async function createApiKey(
+  input: CreateApiKeyInput
+): Promise<ApiKeyWithSecret> {
+  try {
+    logger.debug('Creating API key', {
+      name: input.name,
+      scopes: input.scopes,
+    });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<CreateApiKeyResponse>({
+      mutation: CREATE_API_KEY_MUTATION,
+      variables: {
+        input,
+      },
+      refetchQueries: [{ query: LIST_API_KEYS_QUERY }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.createApiKey) {
+      throw new Error('No API key data returned from mutation');
+    }
+
+    logger.success('API key created successfully', {
+      apiKeyId: data.createApiKey.apiKey.id,
+    });
+
+    return data.createApiKey;
+  } catch (error) {
+    logger.error('Failed to create API key', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to create API key: ${error.message}`);
+    }
+
+    throw new Error('Failed to create API key: Unknown error');
+  }
+}
+
+/**
+ * Replace a key with a new secret, keeping the old one valid for
+ * `overlapHours` so clients can switch over
+ */
+export async function rotateApiKey(
+  id: string,
+  overlapHours: number
+): Promise<ApiKeyWithSecret> {
+  try {
+    logger.debug('Rotating API key', { apiKeyId: id, overlapHours });
+
+    const client = getCurrentApolloClient();
+
+    // Refetch so the old key shows its shortened expiry next to the new one
+    const { data } = await client.mutate<RotateApiKeyResponse>({
+      mutation: ROTATE_API_KEY_MUTATION,
+      variables: {
+        id,
+        overlapHours,
+      },
+      refetchQueries: [{ query: LIST_API_KEYS_QUERY }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.rotateApiKey) {
+      throw new Error('No API key data returned from mutation');
+    }
+
+    logger.success('API key rotated successfully', {
+      apiKeyId: id,
+      newApiKeyId: data.rotateApiKey.apiKey.id,
+    });
+
+    return data.rotateApiKey;
+  } catch (error) {
+    logger.error('Failed to rotate API key', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to rotate API key: ${error.message}`);
+    }
+
+    throw new Error('Failed to rotate API key: Unknown error');
+  }
+}
+
+/**
+ * Revoke an API key and evict it from the cache; requests using it fail
+ * immediately
+ */
+export async function revokeApiKey(id: string): Promise<void> {
+  try {
+    logger.debug('Revoking API key', { apiKeyId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<RevokeApiKeyResponse>({
+      mutation: REVOKE_API_KEY_MUTATION,
+      variables: {
+        id,
+      },
+      update: (cache) => {
+        const cacheId = cache.identify({ __typename: 'ApiKey', id });
+        if (cacheId) {
+          cache.evict({ id: cacheId });
+          cache.gc();
+        }
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.revokeApiKey) {
+      throw new Error('No API key data returned from mutation');
+    }
+
+    logger.success('API key revoked successfully', { apiKeyId: id });
+  } catch (error) {
+    logger.error('Failed to revoke API key', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to revoke API key: ${error.message}`);
+    }
+
+    throw new Error('Failed to revoke API key: Unknown error');
+  }
+}
+
+/**
+ * API key service namespace
+ */
+export const ApiKeyService = {
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+} as const;
@@ -0,0 +1,366 @@
+/**
+ * GraphQL operations for webhook delivery events
+ */
+
+import { type ApolloQueryResult, gql } from '@apollo/client';
+import type { WebhookEvent } from '@/components/rockethooks';
+import { type CursorPage, getCurrentApolloClient } from '@/lib/apollo';
+import { loggers } from '@/utils';
+import type { HttpMethod } from './monitors';
+import type { HeaderEntry, WebhookDeliveryStatus } from './webhooks';
+
+const logger = loggers.api;
+
+// Shared selection set for webhook event queries and subscriptions
+export const WEBHOOK_EVENT_FIELDS = gql`
+  fragment WebhookEventFields on WebhookEvent {
+    id
+    webhookId
+    monitorId
+    status
+    endpoint
+    method
+    statusCode
+    responseTime
+    retryCount
+    errorMessage
+    payload
+    createdAt
+  }
+`;
+
+// GraphQL Subscription for events as they are delivered
+export const ON_WEBHOOK_EVENT_SUBSCRIPTION = gql`
+  subscription OnWebhookEvent {
+    onWebhookEvent {
+      ...WebhookEventFields
+    }
+  }
+  ${WEBHOOK_EVENT_FIELDS}
+`;
+
+// GraphQL Query for a single event with its delivery attempts, paged by cursor
+export const GET_WEBHOOK_EVENT_QUERY = gql`
+  query GetWebhookEvent(
+    $id: ID!
+    $attemptsLimit: Int
+    $attemptsNextToken: String
+  ) {
+    getWebhookEvent(id: $id) {
+      ...WebhookEventFields
+      requestHeaders {
+        key
+        value
+      }
+      responseHeaders {
+        key
+        value
+      }
+      responseBody
+      previousResponse
+      currentResponse
+      attempts(limit: $attemptsLimit, nextToken: $attemptsNextToken) {
+        items {
+          id
+          attemptNumber
+          status
+          statusCode
+          startedAt
+          duration
+          errorMessage
+        }
+        nextToken
+      }
+    }
+  }
+  ${WEBHOOK_EVENT_FIELDS}
+`;
+
+// GraphQL Query for events matching a filter, newest first, paged by cursor
+export const LIST_WEBHOOK_EVENTS_QUERY = gql`
+  query ListWebhookEvents(
+    $filter: WebhookEventFilterInput!
+    $limit: Int
+    $nextToken: String
+  ) {
+    listWebhookEvents(filter: $filter, limit: $limit, nextToken: $nextToken) {
+      items {
+        ...WebhookEventFields
+      }
+      nextToken
+    }
+  }
+  ${WEBHOOK_EVENT_FIELDS}
+`;
+
+// GraphQL Mutation for redelivering a single event to its webhook
+const REPLAY_WEBHOOK_EVENT_MUTATION = gql`
+  mutation ReplayWebhookEvent($id: ID!) {
+    replayWebhookEvent(id: $id) {
+      eventId
+      success
+      status
+      statusCode
+      responseTime
+      errorMessage
+    }
+  }
+`;
+
+// TypeScript types for the operations
+export interface WebhookEventRecord {
+  id: string;
+  webhookId: string;
+  monitorId?: string | null;
+  status: WebhookDeliveryStatus;
+  endpoint: string;
+  method: HttpMethod;
+  statusCode?: number | null;
+  responseTime?: number | null;
+  retryCount?: number | null;
+  errorMessage?: string | null;
+  /** AWSJSON scalar: serialized JSON string */
+  payload?: string | null;
+  createdAt: string;
+}
+
+export interface OnWebhookEventResponse {
+  onWebhookEvent: WebhookEventRecord;
+}
+
+export interface DeliveryAttempt {
+  id: string;
+  attemptNumber: number;
+  status: WebhookDeliveryStatus;
+  statusCode?: number | null;
+  startedAt: string;
+  /** Time from request start to response (ms) */
+  duration?: number | null;
+  errorMessage?: string | null;
+}
+
+export interface WebhookEventDetail extends WebhookEventRecord {
+  requestHeaders: HeaderEntry[];
+  responseHeaders: HeaderEntry[];
+  /** Raw body returned by the webhook destination */
+  responseBody?: string | null;
+  /** AWSJSON scalar: API response from the check before this change */
+  previousResponse?: string | null;
+  /** AWSJSON scalar: API response that triggered this event */
+  currentResponse?: string | null;
+  attempts: CursorPage<DeliveryAttempt>;
+}
+
+export interface GetWebhookEventResponse {
+  getWebhookEvent: WebhookEventDetail | null;
+}
+
+export interface GetWebhookEventVariables {
+  id: string;
+  attemptsLimit?: number;
+  attemptsNextToken?: string | null;
+}
+
+export interface WebhookEventFilter {
+  statuses?: WebhookDeliveryStatus[];
+  /** Matches events whose destination URL contains this value */
+  endpoint?: string;
+  /** ISO timestamp, inclusive */
+  from?: string;
+  /** ISO timestamp, inclusive */
+  to?: string;
+}
+
+export interface ListWebhookEventsResponse {
+  listWebhookEvents: CursorPage<WebhookEventRecord>;
+}
+
+export interface ListWebhookEventsVariables {
+  filter: WebhookEventFilter;
+  limit?: number;
+  nextToken?: string | null;
+}
+
+type PartialEventsResponse =
+  | {
+      [K in keyof ListWebhookEventsResponse]:
+        | ListWebhookEventsResponse[K]
+        | null;
+    }
+  | undefined;
+
+export interface WebhookEventBatch {
+  events: WebhookEventRecord[];
+  /** More events matched than the batch could hold */
+  truncated: boolean;
+}
+
+export interface ReplayResult {
+  eventId: string;
+  success: boolean;
+  /** Delivery status after the replay; 'circuit-open' when it was not attempted */
+  status: WebhookDeliveryStatus;
+  statusCode?: number | null;
+  responseTime?: number | null;
+  errorMessage?: string | null;
+}
+
+interface ReplayWebhookEventResponse {
+  replayWebhookEvent: ReplayResult;
+}
+
+// Upper bound on events fetched for one bulk redelivery
+export const MAX_REDELIVERY_BATCH = 500;
+
+// Events fetched per request while collecting a bulk redelivery
+const REDELIVERY_PAGE_SIZE = 100;
+
+// Events fetched per page of history
+export const EVENT_HISTORY_PAGE_SIZE = 50;
+
+// Delivery attempts fetched per page on the event detail page
+export const DELIVERY_ATTEMPTS_PAGE_SIZE = 50;
+
+/**
+ * Parse an AWSJSON value, keeping the raw string when it is not valid JSON
+ */
+export function parseJsonValue(value: string | null | undefined): unknown {
+  if (value == null) return undefined;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse an AWSJSON payload, falling back to the raw string on invalid JSON
+ */
+function parsePayload(payload: string): object {
+  try {
+    const parsed: unknown = JSON.parse(payload);
+    return typeof parsed === 'object' && parsed !== null
+      ? parsed
+      : { value: parsed };
+  } catch {
+    return { raw: payload };
+  }
+}
+
+/**
+ * Convert a GraphQL event record into the shape EventTimeline renders
+ */
+export function toTimelineEvent(record: WebhookEventRecord): WebhookEvent {
+  return {
+    id: record.id,
+    timestamp: new Date(record.createdAt),
+    status: record.status,
+    endpoint: record.endpoint,
+    method: record.method,
+    ...(record.statusCode != null && { statusCode: record.statusCode }),
+    ...(record.responseTime != null && { responseTime: record.responseTime }),
+    ...(record.retryCount != null && { retryCount: record.retryCount }),
+    ...(record.errorMessage && { errorMessage: record.errorMessage }),
+    ...(record.payload && { payload: parsePayload(record.payload) }),
+  };
+}
+
+/**
+ * Fetch the events matching a redelivery filter, bypassing the cache.
+ * Pages through `nextToken` until `maxEvents` are collected; `truncated` tells
+ * the caller that more events matched than were returned.
+ */
+export async function listWebhookEvents(
+  filter: WebhookEventFilter,
+  maxEvents = MAX_REDELIVERY_BATCH
+): Promise<WebhookEventBatch> {
+  try {
+    logger.debug('Listing webhook events', { filter, maxEvents });
+
+    const client = getCurrentApolloClient();
+    const events: WebhookEventRecord[] = [];
+    let nextToken: string | null = null;
+
+    do {
+      const remaining = maxEvents - events.length;
+      // Under errorPolicy 'all' a failed query resolves with missing data
+      const { data, errors }: ApolloQueryResult<PartialEventsResponse> =
+        await client.query<PartialEventsResponse, ListWebhookEventsVariables>({
+          query: LIST_WEBHOOK_EVENTS_QUERY,
+          variables: {
+            filter,
+            limit: Math.min(remaining, REDELIVERY_PAGE_SIZE),
+            nextToken,
+          },
+          fetchPolicy: 'no-cache',
+          errorPolicy: 'all',
+        });
+
+      if (errors?.length) {
+        throw new Error(errors.map((error) => error.message).join('; '));
+      }
+      if (!data?.listWebhookEvents) {
+        throw new Error('No events returned from query');
+      }
+
+      events.push(...data.listWebhookEvents.items.slice(0, remaining));
+      ({ nextToken } = data.listWebhookEvents);
+    } while (nextToken && events.length < maxEvents);
+
+    return { events, truncated: nextToken !== null };
+  } catch (error) {
+    logger.error('Failed to list webhook events', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to list webhook events: ${error.message}`);
+    }
+
+    throw new Error('Failed to list webhook events: Unknown error');
+  }
+}
+
+/**
+ * Redeliver a single event to its webhook destination.
+ * Destination failures resolve with `success: false`; only API errors throw.
+ */
+export async function replayWebhookEvent(id: string): Promise<ReplayResult> {
+  try {
+    logger.debug('Replaying webhook event', { eventId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<ReplayWebhookEventResponse>({
+      mutation: REPLAY_WEBHOOK_EVENT_MUTATION,
+      variables: {
+        id,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.replayWebhookEvent) {
+      throw new Error('No replay result returned from mutation');
+    }
+
+    if (data.replayWebhookEvent.success) {
+      logger.success('Webhook event replayed', { eventId: id });
+    }
+
+    return data.replayWebhookEvent;
+  } catch (error) {
+    logger.error('Failed to replay webhook event', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to replay webhook event: ${error.message}`);
+    }
+
+    throw new Error('Failed to replay webhook event: Unknown error');
+  }
+}
+
+/**
+ * Webhook event service namespace
+ */
+export const EventService = {
+  listWebhookEvents,
+  replayWebhookEvent,
+} as const;
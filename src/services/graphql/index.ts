@@ -3,4 +3,11 @@
  * Re-exports all GraphQL service modules
  */
 
+export * from './analytics';
+export * from './apiKeys';
+export * from './events';
+export * from './monitors';
 export * from './organization';
+export * from './team';
+export * from './transformations';
+export * from './webhooks';
@@ -0,0 +1,449 @@
+/**
+ * GraphQL operations for API endpoint monitors
+ */
+
+import { gql } from '@apollo/client';
+import { getCurrentApolloClient } from '@/lib/apollo';
+import type { ChangeRules } from '@/lib/changeRules';
+import { loggers } from '@/utils';
+import type { BackoffStrategy, HeaderEntry } from './webhooks';
+
+const logger = loggers.api;
+
+// Shared selection set for monitor queries and mutations; credentials are left
+// out and only fetched for editing by members who can edit endpoints
+const MONITOR_FIELDS = gql`
+  fragment MonitorFields on Monitor {
+    id
+    name
+    url
+    method
+    status
+    pollingInterval
+    headers {
+      key
+      value
+    }
+    authentication {
+      type
+    }
+    timeout
+    retryConfig {
+      maxRetries
+      backoffStrategy
+    }
+    changeRules {
+      scope
+      trackedPaths
+      ignoredFields
+      arrayKeys {
+        path
+        key
+      }
+    }
+    lastCheckedAt
+    changesDetected
+    successRate
+    avgResponseTime
+    responseTimes
+    createdAt
+    updatedAt
+  }
+`;
+
+// GraphQL Query for listing the organization's monitors
+export const LIST_MONITORS_QUERY = gql`
+  query ListMonitors {
+    listMonitors {
+      ...MonitorFields
+    }
+  }
+  ${MONITOR_FIELDS}
+`;
+
+// GraphQL Query for a monitor's authentication including its credentials
+const GET_MONITOR_AUTHENTICATION_QUERY = gql`
+  query GetMonitorAuthentication($id: ID!) {
+    getMonitor(id: $id) {
+      id
+      authentication {
+        type
+        credentials {
+          key
+          value
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL Mutation for creating a monitor
+const CREATE_MONITOR_MUTATION = gql`
+  mutation CreateMonitor($input: CreateMonitorInput!) {
+    createMonitor(input: $input) {
+      ...MonitorFields
+    }
+  }
+  ${MONITOR_FIELDS}
+`;
+
+// GraphQL Mutation for updating a monitor
+const UPDATE_MONITOR_MUTATION = gql`
+  mutation UpdateMonitor($id: ID!, $input: UpdateMonitorInput!) {
+    updateMonitor(id: $id, input: $input) {
+      ...MonitorFields
+    }
+  }
+  ${MONITOR_FIELDS}
+`;
+
+// GraphQL Mutation for pausing or resuming polling
+const SET_MONITOR_PAUSED_MUTATION = gql`
+  mutation SetMonitorPaused($id: ID!, $paused: Boolean!) {
+    setMonitorPaused(id: $id, paused: $paused) {
+      id
+      status
+      updatedAt
+    }
+  }
+`;
+
+// GraphQL Mutation for sending a saved monitor's request once and returning
+// the full response; the server uses the stored credentials, so they never
+// pass through the browser
+const TEST_MONITOR_MUTATION = gql`
+  mutation TestMonitor($id: ID!) {
+    testMonitor(id: $id) {
+      success
+      statusCode
+      errorMessage
+      timings {
+        dns
+        connect
+        tls
+        firstByte
+        download
+        total
+      }
+      responseHeaders {
+        key
+        value
+      }
+      responseBody
+      responseSize
+    }
+  }
+`;
+
+// TypeScript types for the operations
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export type MonitorStatus =
+  | 'active'
+  | 'polling'
+  | 'error'
+  | 'paused'
+  | 'circuit-open';
+
+export type MonitorAuthType = 'none' | 'bearer' | 'basic' | 'apikey';
+
+export interface MonitorAuthentication {
+  type: MonitorAuthType;
+  credentials: HeaderEntry[];
+}
+
+export interface MonitorRetryConfig {
+  maxRetries: number;
+  backoffStrategy: BackoffStrategy;
+}
+
+export interface Monitor {
+  id: string;
+  name: string;
+  url: string;
+  method: HttpMethod;
+  status: MonitorStatus;
+  pollingInterval: number; // seconds
+  headers: HeaderEntry[];
+  /** Credentials only come from getMonitorAuthentication */
+  authentication: Pick<MonitorAuthentication, 'type'> &
+    Partial<Pick<MonitorAuthentication, 'credentials'>>;
+  timeout: number; // milliseconds
+  retryConfig: MonitorRetryConfig;
+  /** Unset means the whole body is compared with nothing ignored */
+  changeRules?: ChangeRules | null;
+  lastCheckedAt?: string | null;
+  changesDetected: number;
+  successRate?: number | null;
+  avgResponseTime?: number | null;
+  responseTimes: number[];
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface CreateMonitorInput {
+  name: string;
+  url: string;
+  method: HttpMethod;
+  pollingInterval: number;
+  headers: HeaderEntry[];
+  authentication: MonitorAuthentication;
+  timeout: number;
+  retryConfig: MonitorRetryConfig;
+  changeRules?: ChangeRules;
+}
+
+export type UpdateMonitorInput = Partial<CreateMonitorInput>;
+
+/** Phase durations of a single request (ms) */
+export interface EndpointTimings {
+  dns: number;
+  connect: number;
+  /** Zero for plain http */
+  tls: number;
+  /** Waiting for the first response byte after the request was sent */
+  firstByte: number;
+  download: number;
+  total: number;
+}
+
+export interface EndpointTestResult {
+  success: boolean;
+  statusCode?: number | null;
+  errorMessage?: string | null;
+  /** Missing when the request never left, e.g. on a DNS failure */
+  timings?: EndpointTimings | null;
+  responseHeaders: HeaderEntry[];
+  responseBody?: string | null;
+  /** Body size in bytes */
+  responseSize?: number | null;
+}
+
+export interface ListMonitorsResponse {
+  listMonitors: Monitor[];
+}
+
+export interface CreateMonitorResponse {
+  createMonitor: Monitor;
+}
+
+export interface UpdateMonitorResponse {
+  updateMonitor: Monitor;
+}
+
+export interface SetMonitorPausedResponse {
+  setMonitorPaused: Pick<Monitor, 'id' | 'status' | 'updatedAt'>;
+}
+
+export interface TestMonitorResponse {
+  testMonitor: EndpointTestResult;
+}
+
+export interface GetMonitorAuthenticationResponse {
+  getMonitor:
+    | (Pick<Monitor, 'id'> & {
+        authentication: MonitorAuthentication;
+      })
+    | null;
+}
+
+/**
+ * Fetch a monitor's authentication with its credentials, for editing.
+ * Requires permission to edit endpoints; the result is kept out of the cache.
+ */
+export async function getMonitorAuthentication(
+  id: string
+): Promise<MonitorAuthentication> {
+  try {
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.query<GetMonitorAuthenticationResponse>({
+      query: GET_MONITOR_AUTHENTICATION_QUERY,
+      variables: {
+        id,
+      },
+      fetchPolicy: 'no-cache',
+    });
+
+    if (!data.getMonitor) {
+      throw new Error('Endpoint not found');
+    }
+
+    return data.getMonitor.authentication;
+  } catch (error) {
+    logger.error('Failed to fetch monitor credentials', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch monitor credentials: ${error.message}`);
+    }
+
+    throw new Error('Failed to fetch monitor credentials: Unknown error');
+  }
+}
+
+/**
+ * Create a new monitor using GraphQL mutation
+ */
+export async function createMonitor(
+  input: CreateMonitorInput
+): Promise<Monitor> {
+  try {
+    logger.debug('Creating monitor', { monitorName: input.name });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<CreateMonitorResponse>({
+      mutation: CREATE_MONITOR_MUTATION,
+      variables: {
+        input,
+      },
+      refetchQueries: [{ query: LIST_MONITORS_QUERY }],
+      errorPolicy: 'all', // Handle partial errors gracefully
+    });
+
+    if (!data?.createMonitor) {
+      throw new Error('No monitor data returned from mutation');
+    }
+
+    const monitor = data.createMonitor;
+
+    logger.success('Monitor created successfully', {
+      monitorId: monitor.id,
+      monitorName: monitor.name,
+    });
+
+    return monitor;
+  } catch (error) {
+    logger.error('Failed to create monitor', error);
+
+    // Re-throw with more context
+    if (error instanceof Error) {
+      throw new Error(`Failed to create monitor: ${error.message}`);
+    }
+
+    throw new Error('Failed to create monitor: Unknown error');
+  }
+}
+
+/**
+ * Update an existing monitor using GraphQL mutation
+ */
+export async function updateMonitor(
+  id: string,
+  input: UpdateMonitorInput
+): Promise<Monitor> {
+  try {
+    logger.debug('Updating monitor', { monitorId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<UpdateMonitorResponse>({
+      mutation: UPDATE_MONITOR_MUTATION,
+      variables: {
+        id,
+        input,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.updateMonitor) {
+      throw new Error('No monitor data returned from mutation');
+    }
+
+    logger.success('Monitor updated successfully', { monitorId: id });
+
+    return data.updateMonitor;
+  } catch (error) {
+    logger.error('Failed to update monitor', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to update monitor: ${error.message}`);
+    }
+
+    throw new Error('Failed to update monitor: Unknown error');
+  }
+}
+
+/**
+ * Pause or resume polling for a monitor
+ */
+export async function setMonitorPaused(
+  id: string,
+  paused: boolean
+): Promise<MonitorStatus> {
+  try {
+    logger.debug(paused ? 'Pausing monitor' : 'Resuming monitor', {
+      monitorId: id,
+    });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<SetMonitorPausedResponse>({
+      mutation: SET_MONITOR_PAUSED_MUTATION,
+      variables: {
+        id,
+        paused,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.setMonitorPaused) {
+      throw new Error('No monitor data returned from mutation');
+    }
+
+    return data.setMonitorPaused.status;
+  } catch (error) {
+    logger.error('Failed to toggle monitor', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to toggle monitor: ${error.message}`);
+    }
+
+    throw new Error('Failed to toggle monitor: Unknown error');
+  }
+}
+
+/**
+ * Send a saved monitor's configured request once through the backend and
+ * return the full response for inspection
+ */
+export async function testMonitor(id: string): Promise<EndpointTestResult> {
+  try {
+    logger.debug('Testing monitor', { monitorId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<TestMonitorResponse>({
+      mutation: TEST_MONITOR_MUTATION,
+      variables: {
+        id,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.testMonitor) {
+      throw new Error('No test result returned from mutation');
+    }
+
+    return data.testMonitor;
+  } catch (error) {
+    logger.error('Failed to test monitor', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to test monitor: ${error.message}`);
+    }
+
+    throw new Error('Failed to test monitor: Unknown error');
+  }
+}
+
+/**
+ * Monitor service namespace
+ */
+export const MonitorService = {
+  getMonitorAuthentication,
+  createMonitor,
+  updateMonitor,
+  setMonitorPaused,
+  testMonitor,
+} as const;
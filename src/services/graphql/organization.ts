@@ -5,6 +5,8 @@
 import { gql } from '@apollo/client';
 import { getCurrentApolloClient } from '@/lib/apollo';
 import { loggers } from '@/utils';
+import { GET_CURRENT_MEMBER_QUERY, GET_TEAM_QUERY } from './team';
+import type { WebhookRetryConfig } from './webhooks';
 
 const logger = loggers.api;
 
@@ -44,6 +46,71 @@ const CREATE_ORGANIZATION_WITH_EXAMPLES_MUTATION = gql`
   }
 `;
 
+// GraphQL Query for the current organization's settings
+export const GET_ORGANIZATION_SETTINGS_QUERY = gql`
+  query GetOrganizationSettings {
+    currentOrganization {
+      id
+      name
+      domain
+      defaults {
+        timezone
+        pollingInterval
+        retryPolicy {
+          maxRetries
+          backoffStrategy
+          retryDelays
+        }
+      }
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+// GraphQL Mutation for updating organization details and defaults
+const UPDATE_ORGANIZATION_MUTATION = gql`
+  mutation UpdateOrganization($input: UpdateOrganizationInput!) {
+    updateOrganization(input: $input) {
+      id
+      name
+      domain
+      defaults {
+        timezone
+        pollingInterval
+        retryPolicy {
+          maxRetries
+          backoffStrategy
+          retryDelays
+        }
+      }
+      updatedAt
+    }
+  }
+`;
+
+// GraphQL Mutation for handing ownership to another member
+const TRANSFER_OWNERSHIP_MUTATION = gql`
+  mutation TransferOwnership($memberId: ID!) {
+    transferOwnership(memberId: $memberId) {
+      id
+      members {
+        id
+        role
+      }
+    }
+  }
+`;
+
+// GraphQL Mutation for permanently deleting the current organization
+const DELETE_ORGANIZATION_MUTATION = gql`
+  mutation DeleteOrganization($id: ID!) {
+    deleteOrganization(id: $id) {
+      id
+    }
+  }
+`;
+
 // TypeScript types for the mutation
 export interface CreateOrganizationInput {
   name: string;
@@ -64,6 +131,27 @@ export interface Organization {
   updatedAt?: string;
 }
 
+/**
+ * Values applied to new webhooks and endpoints unless they set their own
+ */
+export interface OrganizationDefaults {
+  timezone: string;
+  /** Seconds between endpoint polls */
+  pollingInterval: number;
+  retryPolicy: WebhookRetryConfig;
+}
+
+export interface OrganizationSettings extends Organization {
+  defaults: OrganizationDefaults;
+}
+
+export interface UpdateOrganizationInput {
+  name?: string;
+  /** Empty string clears the domain */
+  domain?: string;
+  defaults?: OrganizationDefaults;
+}
+
 export interface ExampleMonitor {
   id: string;
   name: string;
@@ -84,6 +172,25 @@ export interface CreateOrganizationWithExamplesResponse {
   };
 }
 
+export interface GetOrganizationSettingsResponse {
+  currentOrganization: OrganizationSettings | null;
+}
+
+export interface UpdateOrganizationResponse {
+  updateOrganization: OrganizationSettings;
+}
+
+export interface TransferOwnershipResponse {
+  transferOwnership: {
+    id: string;
+    members: { id: string; role: string }[];
+  };
+}
+
+export interface DeleteOrganizationResponse {
+  deleteOrganization: { id: string };
+}
+
 /**
  * Create a new organization using GraphQL mutation
  */
@@ -180,10 +287,131 @@ export async function createOrganizationWithExamples(
   }
 }
 
+/**
+ * Update the current organization's details or defaults
+ */
+export async function updateOrganization(
+  id: string,
+  input: UpdateOrganizationInput
+): Promise<OrganizationSettings> {
+  try {
+    logger.debug('Updating organization', { organizationId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<UpdateOrganizationResponse>({
+      mutation: UPDATE_ORGANIZATION_MUTATION,
+      variables: {
+        input: { id, ...input },
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.updateOrganization) {
+      throw new Error('No organization data returned from mutation');
+    }
+
+    logger.success('Organization updated successfully', {
+      organizationId: id,
+    });
+
+    return data.updateOrganization;
+  } catch (error) {
+    logger.error('Failed to update organization', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to update organization: ${error.message}`);
+    }
+
+    throw new Error('Failed to update organization: Unknown error');
+  }
+}
+
+/**
+ * Make another member the owner; the current owner becomes an admin
+ */
+export async function transferOwnership(memberId: string): Promise<void> {
+  try {
+    logger.debug('Transferring organization ownership', { memberId });
+
+    const client = getCurrentApolloClient();
+
+    // Refetch the signed-in member so permission checks see the new role
+    const { data } = await client.mutate<TransferOwnershipResponse>({
+      mutation: TRANSFER_OWNERSHIP_MUTATION,
+      variables: {
+        memberId,
+      },
+      refetchQueries: [
+        { query: GET_CURRENT_MEMBER_QUERY },
+        { query: GET_TEAM_QUERY },
+      ],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.transferOwnership) {
+      throw new Error('No organization data returned from mutation');
+    }
+
+    logger.success('Organization ownership transferred successfully', {
+      memberId,
+    });
+  } catch (error) {
+    logger.error('Failed to transfer ownership', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to transfer ownership: ${error.message}`);
+    }
+
+    throw new Error('Failed to transfer ownership: Unknown error');
+  }
+}
+
+/**
+ * Permanently delete the organization and everything in it
+ */
+export async function deleteOrganization(id: string): Promise<void> {
+  try {
+    logger.debug('Deleting organization', { organizationId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<DeleteOrganizationResponse>({
+      mutation: DELETE_ORGANIZATION_MUTATION,
+      variables: {
+        id,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.deleteOrganization) {
+      throw new Error('No organization data returned from mutation');
+    }
+
+    // Nothing cached belongs to an organization that no longer exists
+    await client.clearStore();
+
+    logger.success('Organization deleted successfully', {
+      organizationId: id,
+    });
+  } catch (error) {
+    logger.error('Failed to delete organization', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to delete organization: ${error.message}`);
+    }
+
+    throw new Error('Failed to delete organization: Unknown error');
+  }
+}
+
 /**
  * Organization service namespace
  */
 export const OrganizationService = {
   createOrganization,
   createOrganizationWithExamples,
+  updateOrganization,
+  transferOwnership,
+  deleteOrganization,
 } as const;
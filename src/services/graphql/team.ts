@@ -0,0 +1,442 @@
+/**
+ * GraphQL operations for organization members and invitations
+ */
+
+import { gql } from '@apollo/client';
+import { getCurrentApolloClient } from '@/lib/apollo';
+import type { OrganizationRole } from '@/types/auth';
+import { loggers } from '@/utils';
+
+const logger = loggers.api;
+
+// Shared selection sets for member and invitation queries and mutations
+const MEMBER_FIELDS = gql`
+  fragment MemberFields on Member {
+    id
+    userId
+    email
+    name
+    avatarUrl
+    role
+    joinedAt
+    lastActiveAt
+  }
+`;
+
+const INVITATION_FIELDS = gql`
+  fragment InvitationFields on Invitation {
+    id
+    email
+    role
+    invitedAt
+    invitedBy
+    expiresAt
+  }
+`;
+
+// GraphQL Query for the current organization's members and open invitations
+export const GET_TEAM_QUERY = gql`
+  query GetTeam {
+    currentOrganization {
+      id
+      members {
+        ...MemberFields
+      }
+      invitations {
+        ...InvitationFields
+      }
+    }
+  }
+  ${MEMBER_FIELDS}
+  ${INVITATION_FIELDS}
+`;
+
+// GraphQL Query for the signed-in user's membership in the current organization
+export const GET_CURRENT_MEMBER_QUERY = gql`
+  query GetCurrentMember {
+    currentMember {
+      id
+      userId
+      role
+    }
+  }
+`;
+
+// GraphQL Mutation for inviting someone by email
+const INVITE_MEMBER_MUTATION = gql`
+  mutation InviteMember($input: InviteMemberInput!) {
+    inviteMember(input: $input) {
+      ...InvitationFields
+    }
+  }
+  ${INVITATION_FIELDS}
+`;
+
+// GraphQL Mutation for changing a member's role
+const UPDATE_MEMBER_ROLE_MUTATION = gql`
+  mutation UpdateMemberRole($input: UpdateMemberRoleInput!) {
+    updateMemberRole(input: $input) {
+      id
+      role
+    }
+  }
+`;
+
+// GraphQL Mutation for removing a member from the organization
+const REMOVE_MEMBER_MUTATION = gql`
+  mutation RemoveMember($id: ID!) {
+    removeMember(id: $id) {
+      id
+    }
+  }
+`;
+
+// GraphQL Mutation for sending an invitation again with a fresh expiry
+const RESEND_INVITATION_MUTATION = gql`
+  mutation ResendInvitation($id: ID!) {
+    resendInvitation(id: $id) {
+      ...InvitationFields
+    }
+  }
+  ${INVITATION_FIELDS}
+`;
+
+// GraphQL Mutation for withdrawing an invitation
+const REVOKE_INVITATION_MUTATION = gql`
+  mutation RevokeInvitation($id: ID!) {
+    revokeInvitation(id: $id) {
+      id
+    }
+  }
+`;
+
+// TypeScript types for the operations
+export type MemberRole = OrganizationRole;
+
+export type InvitationStatus = 'pending' | 'expired';
+
+export interface Member {
+  id: string;
+  userId: string;
+  email: string;
+  name?: string | null;
+  avatarUrl?: string | null;
+  role: MemberRole;
+  joinedAt: string;
+  lastActiveAt?: string | null;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: MemberRole;
+  invitedAt: string;
+  /** Email of the member who sent the invitation */
+  invitedBy?: string | null;
+  expiresAt: string;
+}
+
+export interface InviteMemberInput {
+  email: string;
+  role: Exclude<MemberRole, 'owner'>;
+}
+
+export interface UpdateMemberRoleInput {
+  memberId: string;
+  role: Exclude<MemberRole, 'owner'>;
+}
+
+export interface GetTeamResponse {
+  currentOrganization: {
+    id: string;
+    members: Member[];
+    invitations: Invitation[];
+  } | null;
+}
+
+export interface GetCurrentMemberResponse {
+  currentMember: Pick<Member, 'id' | 'userId' | 'role'> | null;
+}
+
+export interface InviteMemberResponse {
+  inviteMember: Invitation;
+}
+
+export interface UpdateMemberRoleResponse {
+  updateMemberRole: Pick<Member, 'id' | 'role'>;
+}
+
+export interface RemoveMemberResponse {
+  removeMember: { id: string };
+}
+
+export interface ResendInvitationResponse {
+  resendInvitation: Invitation;
+}
+
+export interface RevokeInvitationResponse {
+  revokeInvitation: { id: string };
+}
+
+/**
+ * Roles in order of decreasing access, with what each one can do
+ */
+export const MEMBER_ROLES: Record<
+  MemberRole,
+  { label: string; description: string }
+> = {
+  owner: {
+    label: 'Owner',
+    description: 'Full access, including billing and deleting the workspace',
+  },
+  admin: {
+    label: 'Admin',
+    description: 'Manage members, webhooks, endpoints and settings',
+  },
+  developer: {
+    label: 'Developer',
+    description: 'Create and edit webhooks, endpoints and transformations',
+  },
+  viewer: {
+    label: 'Viewer',
+    description: 'Read-only access to activity and analytics',
+  },
+};
+
+/**
+ * Roles that can be granted by invitation or role change; ownership is not
+ * assignable from the team page
+ */
+export const ASSIGNABLE_ROLES = ['admin', 'developer', 'viewer'] as const;
+
+/**
+ * Invitations stay listed after they expire until they are resent or revoked
+ */
+export function getInvitationStatus(
+  invitation: Invitation,
+  now: Date = new Date()
+): InvitationStatus {
+  return new Date(invitation.expiresAt) <= now ? 'expired' : 'pending';
+}
+
+/**
+ * Fetch the signed-in user's role, served from the cache once loaded
+ */
+export async function getCurrentMemberRole(): Promise<MemberRole | null> {
+  try {
+    logger.debug('Fetching current member role');
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.query<GetCurrentMemberResponse>({
+      query: GET_CURRENT_MEMBER_QUERY,
+      fetchPolicy: 'cache-first',
+    });
+
+    return data.currentMember?.role ?? null;
+  } catch (error) {
+    logger.error('Failed to fetch current member role', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch current member role: ${error.message}`);
+    }
+
+    throw new Error('Failed to fetch current member role: Unknown error');
+  }
+}
+
+/**
+ * Invite someone to the organization by email
+ */
+export async function inviteMember(
+  input: InviteMemberInput
+): Promise<Invitation> {
+  try {
+    logger.debug('Inviting member', { role: input.role });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<InviteMemberResponse>({
+      mutation: INVITE_MEMBER_MUTATION,
+      variables: {
+        input,
+      },
+      refetchQueries: [{ query: GET_TEAM_QUERY }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.inviteMember) {
+      throw new Error('No invitation data returned from mutation');
+    }
+
+    logger.success('Member invited successfully', {
+      invitationId: data.inviteMember.id,
+    });
+
+    return data.inviteMember;
+  } catch (error) {
+    logger.error('Failed to invite member', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to invite member: ${error.message}`);
+    }
+
+    throw new Error('Failed to invite member: Unknown error');
+  }
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateMemberRole(
+  input: UpdateMemberRoleInput
+): Promise<void> {
+  try {
+    logger.debug('Updating member role', {
+      memberId: input.memberId,
+      role: input.role,
+    });
+
+    const client = getCurrentApolloClient();
+
+    // The normalized cache picks up the new role by the member's id
+    const { data } = await client.mutate<UpdateMemberRoleResponse>({
+      mutation: UPDATE_MEMBER_ROLE_MUTATION,
+      variables: {
+        input,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.updateMemberRole) {
+      throw new Error('No member data returned from mutation');
+    }
+
+    logger.success('Member role updated successfully', {
+      memberId: input.memberId,
+    });
+  } catch (error) {
+    logger.error('Failed to update member role', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to update member role: ${error.message}`);
+    }
+
+    throw new Error('Failed to update member role: Unknown error');
+  }
+}
+
+/**
+ * Remove a member from the organization
+ */
+export async function removeMember(id: string): Promise<void> {
+  try {
+    logger.debug('Removing member', { memberId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<RemoveMemberResponse>({
+      mutation: REMOVE_MEMBER_MUTATION,
+      variables: {
+        id,
+      },
+      refetchQueries: [{ query: GET_TEAM_QUERY }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.removeMember) {
+      throw new Error('No member data returned from mutation');
+    }
+
+    logger.success('Member removed successfully', { memberId: id });
+  } catch (error) {
+    logger.error('Failed to remove member', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+
+    throw new Error('Failed to remove member: Unknown error');
+  }
+}
+
+/**
+ * Send an invitation again, restarting its expiry
+ */
+export async function resendInvitation(id: string): Promise<Invitation> {
+  try {
+    logger.debug('Resending invitation', { invitationId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<ResendInvitationResponse>({
+      mutation: RESEND_INVITATION_MUTATION,
+      variables: {
+        id,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.resendInvitation) {
+      throw new Error('No invitation data returned from mutation');
+    }
+
+    logger.success('Invitation resent successfully', { invitationId: id });
+
+    return data.resendInvitation;
+  } catch (error) {
+    logger.error('Failed to resend invitation', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to resend invitation: ${error.message}`);
+    }
+
+    throw new Error('Failed to resend invitation: Unknown error');
+  }
+}
+
+/**
+ * Withdraw an invitation so its link stops working
+ */
+export async function revokeInvitation(id: string): Promise<void> {
+  try {
+    logger.debug('Revoking invitation', { invitationId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<RevokeInvitationResponse>({
+      mutation: REVOKE_INVITATION_MUTATION,
+      variables: {
+        id,
+      },
+      refetchQueries: [{ query: GET_TEAM_QUERY }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.revokeInvitation) {
+      throw new Error('No invitation data returned from mutation');
+    }
+
+    logger.success('Invitation revoked successfully', { invitationId: id });
+  } catch (error) {
+    logger.error('Failed to revoke invitation', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to revoke invitation: ${error.message}`);
+    }
+
+    throw new Error('Failed to revoke invitation: Unknown error');
+  }
+}
+
+/**
+ * Team service namespace
+ */
+export const TeamService = {
+  getCurrentMemberRole,
+  inviteMember,
+  updateMemberRole,
+  removeMember,
+  resendInvitation,
+  revokeInvitation,
+} as const;
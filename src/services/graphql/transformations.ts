@@ -0,0 +1,442 @@
+/**
+ * GraphQL operations for the transformations library
+ * Every saved change to a transformation's code becomes a new version on the
+ * server; rolling back republishes an earlier version as the newest one.
+ */
+
+import { gql } from '@apollo/client';
+import { getCurrentApolloClient } from '@/lib/apollo';
+import { loggers } from '@/utils';
+
+const logger = loggers.api;
+
+// Shared selection set for transformation queries and mutations
+const TRANSFORMATION_FIELDS = gql`
+  fragment TransformationFields on Transformation {
+    id
+    name
+    description
+    code
+    mode
+    sampleInput
+    currentVersion
+    webhookIds
+    createdAt
+    updatedAt
+  }
+`;
+
+// GraphQL Query for listing the organization's transformations
+export const LIST_TRANSFORMATIONS_QUERY = gql`
+  query ListTransformations {
+    listTransformations {
+      ...TransformationFields
+    }
+  }
+  ${TRANSFORMATION_FIELDS}
+`;
+
+// GraphQL Query for one transformation and its version history
+export const GET_TRANSFORMATION_QUERY = gql`
+  query GetTransformation($id: ID!) {
+    getTransformation(id: $id) {
+      ...TransformationFields
+      versions {
+        version
+        code
+        message
+        createdAt
+        createdBy
+      }
+    }
+  }
+  ${TRANSFORMATION_FIELDS}
+`;
+
+// GraphQL Mutation for creating a transformation
+const CREATE_TRANSFORMATION_MUTATION = gql`
+  mutation CreateTransformation($input: CreateTransformationInput!) {
+    createTransformation(input: $input) {
+      ...TransformationFields
+    }
+  }
+  ${TRANSFORMATION_FIELDS}
+`;
+
+// GraphQL Mutation for updating a transformation, adding a version when the code changes
+const UPDATE_TRANSFORMATION_MUTATION = gql`
+  mutation UpdateTransformation(
+    $id: ID!
+    $input: UpdateTransformationInput!
+  ) {
+    updateTransformation(id: $id, input: $input) {
+      ...TransformationFields
+    }
+  }
+  ${TRANSFORMATION_FIELDS}
+`;
+
+// GraphQL Mutation for republishing an earlier version
+const ROLLBACK_TRANSFORMATION_MUTATION = gql`
+  mutation RollbackTransformation($id: ID!, $version: Int!) {
+    rollbackTransformation(id: $id, version: $version) {
+      ...TransformationFields
+    }
+  }
+  ${TRANSFORMATION_FIELDS}
+`;
+
+// GraphQL Mutation for replacing the webhooks a transformation is attached to
+const SET_TRANSFORMATION_WEBHOOKS_MUTATION = gql`
+  mutation SetTransformationWebhooks($id: ID!, $webhookIds: [ID!]!) {
+    setTransformationWebhooks(id: $id, webhookIds: $webhookIds) {
+      ...TransformationFields
+    }
+  }
+  ${TRANSFORMATION_FIELDS}
+`;
+
+// GraphQL Mutation for deleting a transformation
+const DELETE_TRANSFORMATION_MUTATION = gql`
+  mutation DeleteTransformation($id: ID!) {
+    deleteTransformation(id: $id) {
+      id
+    }
+  }
+`;
+
+// TypeScript types for the operations
+export type TransformationMode = 'visual' | 'code';
+
+export interface TransformationVersion {
+  version: number;
+  code: string;
+  /** Optional note saved with the version */
+  message?: string | null;
+  createdAt: string;
+  createdBy?: string | null;
+}
+
+export interface Transformation {
+  id: string;
+  name: string;
+  description?: string | null;
+  code: string;
+  /** Editor mode the transformation was last saved from */
+  mode: TransformationMode;
+  /** AWSJSON sample payload used for the preview */
+  sampleInput?: string | null;
+  currentVersion: number;
+  webhookIds: string[];
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface TransformationWithVersions extends Transformation {
+  /** Newest first */
+  versions: TransformationVersion[];
+}
+
+export interface CreateTransformationInput {
+  name: string;
+  description?: string;
+  code: string;
+  mode: TransformationMode;
+}
+
+export interface UpdateTransformationInput
+  extends Partial<CreateTransformationInput> {
+  sampleInput?: string | null;
+  /** Note stored with the version this update creates */
+  message?: string;
+}
+
+export interface ListTransformationsResponse {
+  listTransformations: Transformation[];
+}
+
+export interface GetTransformationResponse {
+  getTransformation: TransformationWithVersions | null;
+}
+
+export interface CreateTransformationResponse {
+  createTransformation: Transformation;
+}
+
+export interface UpdateTransformationResponse {
+  updateTransformation: Transformation;
+}
+
+export interface RollbackTransformationResponse {
+  rollbackTransformation: Transformation;
+}
+
+export interface SetTransformationWebhooksResponse {
+  setTransformationWebhooks: Transformation;
+}
+
+export interface DeleteTransformationResponse {
+  deleteTransformation: { id: string };
+}
+
+/**
+ * Fetch all transformations for the current organization
+ */
+export async function listTransformations(): Promise<Transformation[]> {
+  try {
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.query<ListTransformationsResponse>({
+      query: LIST_TRANSFORMATIONS_QUERY,
+      fetchPolicy: 'network-only',
+    });
+
+    return data.listTransformations;
+  } catch (error) {
+    logger.error('Failed to list transformations', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to list transformations: ${error.message}`);
+    }
+
+    throw new Error('Failed to list transformations: Unknown error');
+  }
+}
+
+/**
+ * Create a new transformation; its code becomes version 1
+ */
+export async function createTransformation(
+  input: CreateTransformationInput
+): Promise<Transformation> {
+  try {
+    logger.debug('Creating transformation', {
+      transformationName: input.name,
+    });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<CreateTransformationResponse>({
+      mutation: CREATE_TRANSFORMATION_MUTATION,
+      variables: {
+        input,
+      },
+      refetchQueries: [{ query: LIST_TRANSFORMATIONS_QUERY }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.createTransformation) {
+      throw new Error('No transformation data returned from mutation');
+    }
+
+    const transformation = data.createTransformation;
+
+    logger.success('Transformation created successfully', {
+      transformationId: transformation.id,
+      transformationName: transformation.name,
+    });
+
+    return transformation;
+  } catch (error) {
+    logger.error('Failed to create transformation', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to create transformation: ${error.message}`);
+    }
+
+    throw new Error('Failed to create transformation: Unknown error');
+  }
+}
+
+/**
+ * Update a transformation; a code change is saved as a new version
+ */
+export async function updateTransformation(
+  id: string,
+  input: UpdateTransformationInput
+): Promise<Transformation> {
+  try {
+    logger.debug('Updating transformation', { transformationId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<UpdateTransformationResponse>({
+      mutation: UPDATE_TRANSFORMATION_MUTATION,
+      variables: {
+        id,
+        input,
+      },
+      // The version list is not part of the returned fields
+      refetchQueries: [{ query: GET_TRANSFORMATION_QUERY, variables: { id } }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.updateTransformation) {
+      throw new Error('No transformation data returned from mutation');
+    }
+
+    logger.success('Transformation updated successfully', {
+      transformationId: id,
+      version: data.updateTransformation.currentVersion,
+    });
+
+    return data.updateTransformation;
+  } catch (error) {
+    logger.error('Failed to update transformation', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to update transformation: ${error.message}`);
+    }
+
+    throw new Error('Failed to update transformation: Unknown error');
+  }
+}
+
+/**
+ * Republish an earlier version's code as the newest version
+ */
+export async function rollbackTransformation(
+  id: string,
+  version: number
+): Promise<Transformation> {
+  try {
+    logger.debug('Rolling back transformation', {
+      transformationId: id,
+      version,
+    });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<RollbackTransformationResponse>({
+      mutation: ROLLBACK_TRANSFORMATION_MUTATION,
+      variables: {
+        id,
+        version,
+      },
+      refetchQueries: [{ query: GET_TRANSFORMATION_QUERY, variables: { id } }],
+      errorPolicy: 'all',
+    });
+
+    if (!data?.rollbackTransformation) {
+      throw new Error('No transformation data returned from mutation');
+    }
+
+    logger.success('Transformation rolled back successfully', {
+      transformationId: id,
+      version,
+    });
+
+    return data.rollbackTransformation;
+  } catch (error) {
+    logger.error('Failed to roll back transformation', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to roll back transformation: ${error.message}`);
+    }
+
+    throw new Error('Failed to roll back transformation: Unknown error');
+  }
+}
+
+/**
+ * Replace the set of webhooks whose deliveries run through a transformation
+ */
+export async function setTransformationWebhooks(
+  id: string,
+  webhookIds: string[]
+): Promise<Transformation> {
+  try {
+    logger.debug('Attaching transformation to webhooks', {
+      transformationId: id,
+      webhookCount: webhookIds.length,
+    });
+
+    const client = getCurrentApolloClient();
+
+    // The normalized cache picks up the updated entity by its id
+    const { data } = await client.mutate<SetTransformationWebhooksResponse>({
+      mutation: SET_TRANSFORMATION_WEBHOOKS_MUTATION,
+      variables: {
+        id,
+        webhookIds,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.setTransformationWebhooks) {
+      throw new Error('No transformation data returned from mutation');
+    }
+
+    logger.success('Transformation webhooks updated successfully', {
+      transformationId: id,
+    });
+
+    return data.setTransformationWebhooks;
+  } catch (error) {
+    logger.error('Failed to attach transformation to webhooks', error);
+
+    if (error instanceof Error) {
+      throw new Error(
+        `Failed to attach transformation to webhooks: ${error.message}`
+      );
+    }
+
+    throw new Error(
+      'Failed to attach transformation to webhooks: Unknown error'
+    );
+  }
+}
+
+/**
+ * Delete a transformation and evict it from the cache
+ */
+export async function deleteTransformation(id: string): Promise<void> {
+  try {
+    logger.debug('Deleting transformation', { transformationId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<DeleteTransformationResponse>({
+      mutation: DELETE_TRANSFORMATION_MUTATION,
+      variables: {
+        id,
+      },
+      update: (cache) => {
+        const cacheId = cache.identify({ __typename: 'Transformation', id });
+        if (cacheId) {
+          cache.evict({ id: cacheId });
+          cache.gc();
+        }
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.deleteTransformation) {
+      throw new Error('No transformation data returned from mutation');
+    }
+
+    logger.success('Transformation deleted successfully', {
+      transformationId: id,
+    });
+  } catch (error) {
+    logger.error('Failed to delete transformation', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to delete transformation: ${error.message}`);
+    }
+
+    throw new Error('Failed to delete transformation: Unknown error');
+  }
+}
+
+/**
+ * Transformation service namespace
+ */
+export const TransformationService = {
+  listTransformations,
+  createTransformation,
+  updateTransformation,
+  rollbackTransformation,
+  setTransformationWebhooks,
+  deleteTransformation,
+} as const;
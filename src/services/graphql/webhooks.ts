@@ -0,0 +1,587 @@
+/**
+ * GraphQL operations for Webhook management
+ */
+
+import { gql } from '@apollo/client';
+import { getCurrentApolloClient } from '@/lib/apollo';
+import { loggers } from '@/utils';
+
+const logger = loggers.api;
+
+// Shared selection set for webhook queries and mutations; the signing secret
+// is left out and only fetched on request by members who can edit webhooks
+const WEBHOOK_FIELDS = gql`
+  fragment WebhookFields on Webhook {
+    id
+    name
+    url
+    events
+    previousSecretExpiresAt
+    active
+    retryConfig {
+      maxRetries
+      backoffStrategy
+      retryDelays
+    }
+    filters {
+      headers {
+        key
+        value
+      }
+      bodyPatterns
+    }
+    lastDeliveryAt
+    lastDeliveryStatus
+    createdAt
+    updatedAt
+  }
+`;
+
+// GraphQL Query for listing the organization's webhooks
+export const LIST_WEBHOOKS_QUERY = gql`
+  query ListWebhooks {
+    listWebhooks {
+      ...WebhookFields
+    }
+  }
+  ${WEBHOOK_FIELDS}
+`;
+
+// GraphQL Query for one webhook's signing secret
+export const GET_WEBHOOK_SECRET_QUERY = gql`
+  query GetWebhookSecret($id: ID!) {
+    getWebhook(id: $id) {
+      id
+      secret
+    }
+  }
+`;
+
+// GraphQL Mutation for creating a webhook
+const CREATE_WEBHOOK_MUTATION = gql`
+  mutation CreateWebhook($input: CreateWebhookInput!) {
+    createWebhook(input: $input) {
+      ...WebhookFields
+    }
+  }
+  ${WEBHOOK_FIELDS}
+`;
+
+// GraphQL Mutation for updating a webhook
+const UPDATE_WEBHOOK_MUTATION = gql`
+  mutation UpdateWebhook($id: ID!, $input: UpdateWebhookInput!) {
+    updateWebhook(id: $id, input: $input) {
+      ...WebhookFields
+    }
+  }
+  ${WEBHOOK_FIELDS}
+`;
+
+// GraphQL Mutation for deleting a webhook
+const DELETE_WEBHOOK_MUTATION = gql`
+  mutation DeleteWebhook($id: ID!) {
+    deleteWebhook(id: $id) {
+      id
+    }
+  }
+`;
+
+// GraphQL Mutation for replacing a webhook's signing secret; deliveries are
+// signed with both secrets until the grace period ends
+const ROTATE_WEBHOOK_SECRET_MUTATION = gql`
+  mutation RotateWebhookSecret($id: ID!, $gracePeriodHours: Int!) {
+    rotateWebhookSecret(id: $id, gracePeriodHours: $gracePeriodHours) {
+      ...WebhookFields
+      secret
+    }
+  }
+  ${WEBHOOK_FIELDS}
+`;
+
+// GraphQL Mutation for sending a one-off test delivery; the result is not
+// recorded as an event
+const TEST_WEBHOOK_MUTATION = gql`
+  mutation TestWebhook($id: ID!, $input: TestWebhookInput!) {
+    testWebhook(id: $id, input: $input) {
+      status
+      statusCode
+      responseTime
+      requestBody
+      responseHeaders {
+        key
+        value
+      }
+      responseBody
+      errorMessage
+    }
+  }
+`;
+
+// TypeScript types for the operations
+export type BackoffStrategy = 'exponential' | 'linear' | 'fixed';
+
+export type WebhookDeliveryStatus =
+  | 'success'
+  | 'pending'
+  | 'retrying'
+  | 'failed'
+  | 'circuit-open';
+
+export interface HeaderEntry {
+  key: string;
+  value: string;
+}
+
+export interface WebhookRetryConfig {
+  maxRetries: number;
+  backoffStrategy: BackoffStrategy;
+  retryDelays: number[];
+}
+
+export interface WebhookFilters {
+  headers: HeaderEntry[];
+  bodyPatterns: string[];
+}
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  /** Only selected by GET_WEBHOOK_SECRET_QUERY and secret rotation */
+  secret?: string | null;
+  /** When the secret replaced by the last rotation stops being accepted */
+  previousSecretExpiresAt?: string | null;
+  active: boolean;
+  retryConfig: WebhookRetryConfig;
+  filters: WebhookFilters;
+  lastDeliveryAt?: string | null;
+  lastDeliveryStatus?: WebhookDeliveryStatus | null;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface CreateWebhookInput {
+  name: string;
+  url: string;
+  events: string[];
+  /** Signing secret; null removes the existing secret on update */
+  secret?: string | null;
+  active: boolean;
+  retryConfig: WebhookRetryConfig;
+  filters: WebhookFilters;
+}
+
+export type UpdateWebhookInput = Partial<CreateWebhookInput>;
+
+export interface ListWebhooksResponse {
+  listWebhooks: Webhook[];
+}
+
+export interface GetWebhookSecretResponse {
+  getWebhook: Pick<Webhook, 'id' | 'secret'> | null;
+}
+
+export interface GetWebhookSecretVariables {
+  id: string;
+}
+
+export interface CreateWebhookResponse {
+  createWebhook: Webhook;
+}
+
+export interface UpdateWebhookResponse {
+  updateWebhook: Webhook;
+}
+
+export interface TestWebhookInput {
+  eventType: string;
+  /** AWSJSON scalar: serialized JSON string */
+  payload: string;
+  /** Run the payload through the webhook's transformation before sending */
+  applyTransformation: boolean;
+}
+
+export interface TestDeliveryResult {
+  status: WebhookDeliveryStatus;
+  statusCode?: number | null;
+  /** Time from request start to response (ms) */
+  responseTime?: number | null;
+  /** Body as sent, after any transformation */
+  requestBody?: string | null;
+  responseHeaders: HeaderEntry[];
+  responseBody?: string | null;
+  errorMessage?: string | null;
+}
+
+export interface TestWebhookResponse {
+  testWebhook: TestDeliveryResult;
+}
+
+export interface RotateWebhookSecretResponse {
+  rotateWebhookSecret: Webhook;
+}
+
+export interface DeleteWebhookResponse {
+  deleteWebhook: { id: string };
+}
+
+/**
+ * Event types a webhook can subscribe to
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'change.detected',
+  'item.added',
+  'item.removed',
+  'item.modified',
+  'monitor.failed',
+  'monitor.recovered',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Representative payload for an event type, used to prefill test deliveries
+ */
+export function buildSamplePayload(
+  eventType: WebhookEventType,
+  now: Date = new Date()
+): object {
+  const base = {
+    event: eventType,
+    id: 'evt_test_0001',
+    monitorId: 'mon_test_0001',
+    timestamp: now.toISOString(),
+  };
+  const item = { id: 'item_42', name: 'Sample item', price: 19.99 };
+
+  switch (eventType) {
+    case 'change.detected':
+      return {
+        ...base,
+        data: {
+          changes: [{ path: '$.items[0].price', before: 24.99, after: 19.99 }],
+        },
+      };
+    case 'item.added':
+      return { ...base, data: { item } };
+    case 'item.removed':
+      return { ...base, data: { itemId: item.id } };
+    case 'item.modified':
+      return {
+        ...base,
+        data: { item, previous: { ...item, price: 24.99 } },
+      };
+    case 'monitor.failed':
+      return {
+        ...base,
+        data: { statusCode: 503, error: 'Service Unavailable', attempts: 3 },
+      };
+    case 'monitor.recovered':
+      return { ...base, data: { statusCode: 200, downtimeSeconds: 420 } };
+  }
+}
+
+/**
+ * Convert a header map into the GraphQL key/value list representation
+ */
+export function toHeaderEntries(
+  headers: Record<string, string> = {}
+): HeaderEntry[] {
+  return Object.entries(headers).map(([key, value]) => ({ key, value }));
+}
+
+/**
+ * Convert a GraphQL key/value header list back into a header map
+ */
+export function fromHeaderEntries(
+  entries: HeaderEntry[] = []
+): Record<string, string> {
+  return Object.fromEntries(entries.map(({ key, value }) => [key, value]));
+}
+
+/**
+ * Fetch all webhooks for the current organization
+ */
+export async function listWebhooks(): Promise<Webhook[]> {
+  try {
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.query<ListWebhooksResponse>({
+      query: LIST_WEBHOOKS_QUERY,
+      fetchPolicy: 'network-only',
+    });
+
+    return data.listWebhooks;
+  } catch (error) {
+    logger.error('Failed to list webhooks', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to list webhooks: ${error.message}`);
+    }
+
+    throw new Error('Failed to list webhooks: Unknown error');
+  }
+}
+
+/**
+ * Fetch a webhook's signing secret, or null when it has none. Requires
+ * permission to edit webhooks.
+ */
+export async function getWebhookSecret(id: string): Promise<string | null> {
+  try {
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.query<
+      GetWebhookSecretResponse,
+      GetWebhookSecretVariables
+    >({
+      query: GET_WEBHOOK_SECRET_QUERY,
+      variables: {
+        id,
+      },
+      fetchPolicy: 'network-only',
+    });
+
+    if (!data.getWebhook) {
+      throw new Error('Webhook not found');
+    }
+
+    return data.getWebhook.secret ?? null;
+  } catch (error) {
+    logger.error('Failed to fetch webhook secret', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch webhook secret: ${error.message}`);
+    }
+
+    throw new Error('Failed to fetch webhook secret: Unknown error');
+  }
+}
+
+/**
+ * Create a new webhook using GraphQL mutation
+ */
+export async function createWebhook(
+  input: CreateWebhookInput
+): Promise<Webhook> {
+  try {
+    logger.debug('Creating webhook', { webhookName: input.name });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<CreateWebhookResponse>({
+      mutation: CREATE_WEBHOOK_MUTATION,
+      variables: {
+        input,
+      },
+      refetchQueries: [{ query: LIST_WEBHOOKS_QUERY }],
+      errorPolicy: 'all', // Handle partial errors gracefully
+    });
+
+    if (!data?.createWebhook) {
+      throw new Error('No webhook data returned from mutation');
+    }
+
+    const webhook = data.createWebhook;
+
+    logger.success('Webhook created successfully', {
+      webhookId: webhook.id,
+      webhookName: webhook.name,
+    });
+
+    return webhook;
+  } catch (error) {
+    logger.error('Failed to create webhook', error);
+
+    // Re-throw with more context
+    if (error instanceof Error) {
+      throw new Error(`Failed to create webhook: ${error.message}`);
+    }
+
+    throw new Error('Failed to create webhook: Unknown error');
+  }
+}
+
+/**
+ * Update an existing webhook using GraphQL mutation
+ */
+export async function updateWebhook(
+  id: string,
+  input: UpdateWebhookInput
+): Promise<Webhook> {
+  try {
+    logger.debug('Updating webhook', { webhookId: id });
+
+    const client = getCurrentApolloClient();
+
+    // The normalized cache picks up the updated entity by its id
+    const { data } = await client.mutate<UpdateWebhookResponse>({
+      mutation: UPDATE_WEBHOOK_MUTATION,
+      variables: {
+        id,
+        input,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.updateWebhook) {
+      throw new Error('No webhook data returned from mutation');
+    }
+
+    logger.success('Webhook updated successfully', { webhookId: id });
+
+    return data.updateWebhook;
+  } catch (error) {
+    logger.error('Failed to update webhook', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to update webhook: ${error.message}`);
+    }
+
+    throw new Error('Failed to update webhook: Unknown error');
+  }
+}
+
+/**
+ * Issue a new signing secret, keeping the old one valid for
+ * `gracePeriodHours` so receivers can switch over
+ */
+export async function rotateWebhookSecret(
+  id: string,
+  gracePeriodHours: number
+): Promise<Webhook> {
+  try {
+    logger.debug('Rotating webhook secret', {
+      webhookId: id,
+      gracePeriodHours,
+    });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<RotateWebhookSecretResponse>({
+      mutation: ROTATE_WEBHOOK_SECRET_MUTATION,
+      variables: {
+        id,
+        gracePeriodHours,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.rotateWebhookSecret) {
+      throw new Error('No webhook data returned from mutation');
+    }
+
+    logger.success('Webhook secret rotated successfully', { webhookId: id });
+
+    return data.rotateWebhookSecret;
+  } catch (error) {
+    logger.error('Failed to rotate webhook secret', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to rotate webhook secret: ${error.message}`);
+    }
+
+    throw new Error('Failed to rotate webhook secret: Unknown error');
+  }
+}
+
+/**
+ * Send a test delivery to a webhook's destination and return its response
+ */
+export async function testWebhook(
+  id: string,
+  input: TestWebhookInput
+): Promise<TestDeliveryResult> {
+  try {
+    logger.debug('Sending test delivery', {
+      webhookId: id,
+      eventType: input.eventType,
+      applyTransformation: input.applyTransformation,
+    });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<TestWebhookResponse>({
+      mutation: TEST_WEBHOOK_MUTATION,
+      variables: {
+        id,
+        input,
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.testWebhook) {
+      throw new Error('No test delivery data returned from mutation');
+    }
+
+    logger.success('Test delivery completed', {
+      webhookId: id,
+      status: data.testWebhook.status,
+      statusCode: data.testWebhook.statusCode,
+    });
+
+    return data.testWebhook;
+  } catch (error) {
+    logger.error('Failed to send test delivery', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to send test delivery: ${error.message}`);
+    }
+
+    throw new Error('Failed to send test delivery: Unknown error');
+  }
+}
+
+/**
+ * Delete a webhook and evict it from the cache
+ */
+export async function deleteWebhook(id: string): Promise<void> {
+  try {
+    logger.debug('Deleting webhook', { webhookId: id });
+
+    const client = getCurrentApolloClient();
+
+    const { data } = await client.mutate<DeleteWebhookResponse>({
+      mutation: DELETE_WEBHOOK_MUTATION,
+      variables: {
+        id,
+      },
+      update: (cache) => {
+        const cacheId = cache.identify({ __typename: 'Webhook', id });
+        if (cacheId) {
+          cache.evict({ id: cacheId });
+          cache.gc();
+        }
+      },
+      errorPolicy: 'all',
+    });
+
+    if (!data?.deleteWebhook) {
+      throw new Error('No webhook data returned from mutation');
+    }
+
+    logger.success('Webhook deleted successfully', { webhookId: id });
+  } catch (error) {
+    logger.error('Failed to delete webhook', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to delete webhook: ${error.message}`);
+    }
+
+    throw new Error('Failed to delete webhook: Unknown error');
+  }
+}
+
+/**
+ * Webhook service namespace
+ */
+export const WebhookService = {
+  listWebhooks,
+  getWebhookSecret,
+  createWebhook,
+  updateWebhook,
+  rotateWebhookSecret,
+  testWebhook,
+  deleteWebhook,
+} as const;
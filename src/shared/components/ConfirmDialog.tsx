@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/Dialog';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+
+interface ConfirmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: React.ReactNode;
+  confirmLabel?: string;
+  /** Text the user must type before the action is enabled */
+  confirmText?: string;
+  destructive?: boolean;
+  /**
+   * Runs the action. Rejecting keeps the dialog open for a retry; report the
+   * error (e.g. with a toast) before rejecting, the dialog does not show it.
+   */
+  onConfirm: () => Promise<void> | void;
+}
+
+/**
+ * Confirmation dialog for irreversible actions, with optional type-to-confirm
+ */
+export function ConfirmDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel = 'Confirm',
+  confirmText,
+  destructive = false,
+  onConfirm,
+}: ConfirmDialogProps) {
+  const [typed, setTyped] = useState('');
+  const [isPending, setIsPending] = useState(false);
+
+  // Clear typed confirmation whenever the dialog is reopened
+  useEffect(() => {
+    if (open) setTyped('');
+  }, [open]);
+
+  const canConfirm = !confirmText || typed === confirmText;
+
+  const handleConfirm = async () => {
+    setIsPending(true);
+    try {
+      await onConfirm();
+      onOpenChange(false);
+    } catch {
+      // The caller already reported the failure; stay open so it can be retried
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {confirmText && (
+          <div className="grid gap-2">
+            <Label htmlFor="confirm-dialog-input">
+              Type{' '}
+              <span className="font-mono font-semibold">{confirmText}</span> to
+              confirm
+            </Label>
+            <Input
+              id="confirm-dialog-input"
+              autoComplete="off"
+              value={typed}
+              onChange={(e) => {
+                setTyped(e.target.value);
+              }}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              onOpenChange(false);
+            }}
+            disabled={isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant={destructive ? 'destructive' : 'default'}
+            onClick={() => void handleConfirm()}
+            disabled={!canConfirm || isPending}
+          >
+            {isPending ? 'Working...' : confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,12 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
+import { clearPersistedCaches } from '@/lib/apollo/persistence';
 import type { User } from '@/services/auth/AuthService';
+import { loggers } from '@/utils';
 import { createDevtoolsConfig } from './devtools.config';
 
+const logger = loggers.store;
+
 // Profile information beyond basic authentication
 export interface Profile {
   displayName?: string;
@@ -276,6 +280,11 @@ export const useAuthStore = create<AuthStoreState>()(
             false,
             'auth/clearAuth'
           );
+
+          // The persisted GraphQL cache holds the previous user's data
+          void clearPersistedCaches().catch((error: unknown) => {
+            logger.error('Failed to clear persisted Apollo cache', error);
+          });
         },
 
         // Profile actions
@@ -1,13 +1,28 @@
 // src/types/auth.ts
 import type { UserResource } from '@clerk/types';
 
+export type OrganizationRole = 'owner' | 'admin' | 'developer' | 'viewer';
+
+// Capabilities granted by a role; reading is open to every member
+export type Permission =
+  | 'webhooks:write'
+  | 'webhooks:delete'
+  | 'endpoints:write'
+  | 'transformations:write'
+  | 'transformations:delete'
+  | 'events:redeliver'
+  | 'members:manage'
+  | 'settings:manage'
+  | 'organization:transfer'
+  | 'organization:delete';
+
 export interface GuardContext {
   isAuthenticated: boolean;
   user: UserResource | null | undefined;
   isNewUser: boolean;
   onboardingComplete: boolean;
   currentPath: string;
-  // Future: organizationId, organizationRole, permissions
+  // Future: organizationId (roles are resolved by requirePermission)
 }
 
 export interface GuardResult {